@@ -3,7 +3,7 @@ module.exports = {
     {
       name: 'teen-ai-platform',
       script: 'npx',
-      args: 'wrangler pages dev dist --d1=teen-ai-platform-production --local --ip 0.0.0.0 --port 3000',
+      args: 'wrangler pages dev dist --d1=teen-ai-platform-production --r2=AUDIO --local --ip 0.0.0.0 --port 3000',
       env: {
         NODE_ENV: 'development',
         PORT: 3000
@@ -0,0 +1,30 @@
+-- Parent-issued invite codes that let a teen join the family
+CREATE TABLE IF NOT EXISTS family_invites (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL,
+  code_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the invite code
+  teen_email TEXT NULL, -- Optional: only this email may redeem the invite
+  expires_at DATETIME NOT NULL,
+  redeemed_by TEXT NULL,
+  redeemed_at DATETIME NULL,
+  revoked_at DATETIME NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id),
+  FOREIGN KEY (redeemed_by) REFERENCES users(id)
+);
+
+-- Teen-initiated requests to join a family, decided by the parent
+CREATE TABLE IF NOT EXISTS family_link_requests (
+  id TEXT PRIMARY KEY,
+  teen_id TEXT NOT NULL,
+  parent_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  decided_at DATETIME NULL,
+  FOREIGN KEY (teen_id) REFERENCES users(id),
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_invites_parent_id ON family_invites(parent_id);
+CREATE INDEX IF NOT EXISTS idx_family_link_requests_parent_status ON family_link_requests(parent_id, status);
+CREATE INDEX IF NOT EXISTS idx_family_link_requests_teen_id ON family_link_requests(teen_id);
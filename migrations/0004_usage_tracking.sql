@@ -0,0 +1,26 @@
+-- Active-time accounting: one row per continuous stretch of chatting
+CREATE TABLE IF NOT EXISTS usage_sessions (
+  id TEXT PRIMARY KEY,
+  teen_id TEXT NOT NULL,
+  usage_date TEXT NOT NULL, -- YYYY-MM-DD the time counts toward
+  started_at DATETIME NOT NULL,
+  last_activity_at DATETIME NOT NULL,
+  active_seconds INTEGER NOT NULL DEFAULT 0,
+  FOREIGN KEY (teen_id) REFERENCES users(id)
+);
+
+-- One-off extra minutes granted by a parent for a single day
+CREATE TABLE IF NOT EXISTS time_extensions (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL,
+  teen_id TEXT NOT NULL,
+  usage_date TEXT NOT NULL,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  reason TEXT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id),
+  FOREIGN KEY (teen_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_sessions_teen_date ON usage_sessions(teen_id, usage_date);
+CREATE INDEX IF NOT EXISTS idx_time_extensions_teen_date ON time_extensions(teen_id, usage_date);
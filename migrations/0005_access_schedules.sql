@@ -0,0 +1,3 @@
+-- Weekly access windows and the family's timezone
+ALTER TABLE parental_controls ADD COLUMN timezone TEXT DEFAULT 'UTC'; -- IANA name, e.g. 'America/Chicago'
+ALTER TABLE parental_controls ADD COLUMN access_schedule TEXT NULL; -- JSON object: { "windows": [...] }
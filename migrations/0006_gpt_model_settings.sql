@@ -0,0 +1,5 @@
+-- Per-GPT model choice and generation settings; NULL means use the platform default
+ALTER TABLE custom_gpts ADD COLUMN model_provider TEXT NULL; -- 'openai', 'anthropic' or 'mock'
+ALTER TABLE custom_gpts ADD COLUMN model_name TEXT NULL; -- e.g. 'gpt-4o-mini', 'llama3.1'
+ALTER TABLE custom_gpts ADD COLUMN temperature REAL NULL;
+ALTER TABLE custom_gpts ADD COLUMN max_tokens INTEGER NULL;
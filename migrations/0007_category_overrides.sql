@@ -0,0 +1,2 @@
+-- Per-teen overrides of the filter level's category policies
+ALTER TABLE parental_controls ADD COLUMN category_overrides TEXT NULL; -- JSON object: { "romance": { "action": "allow", "minSeverity": "low" } }
@@ -0,0 +1,4 @@
+-- Topic detected for each message, used to enforce allowed_topics and for analytics
+ALTER TABLE messages ADD COLUMN topic TEXT NULL; -- Key of the topic taxonomy, e.g. 'school-help'
+
+CREATE INDEX IF NOT EXISTS idx_messages_topic ON messages(topic);
@@ -0,0 +1,13 @@
+-- Parent review workflow: which conversations enter the queue, and held AI replies
+ALTER TABLE parental_controls ADD COLUMN review_flagged BOOLEAN DEFAULT TRUE; -- Queue conversations with flagged messages
+ALTER TABLE parental_controls ADD COLUMN review_new_gpt_sessions BOOLEAN DEFAULT FALSE; -- Queue a teen's first conversation with each GPT
+ALTER TABLE parental_controls ADD COLUMN hold_flagged_replies BOOLEAN DEFAULT FALSE; -- Hide AI replies on flagged turns until released
+
+ALTER TABLE conversations ADD COLUMN review_reason TEXT NULL; -- 'flagged' or 'first_session'; NULL if never queued
+ALTER TABLE conversations ADD COLUMN review_note TEXT NULL;
+ALTER TABLE conversations ADD COLUMN reviewed_at DATETIME NULL;
+
+ALTER TABLE messages ADD COLUMN held BOOLEAN DEFAULT FALSE;
+ALTER TABLE messages ADD COLUMN released_at DATETIME NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_review ON conversations(review_reason, parent_reviewed);
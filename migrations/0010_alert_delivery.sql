@@ -0,0 +1,52 @@
+-- Safety alert delivery: per-parent channels, escalation settings, and a delivery queue that doubles as the log
+ALTER TABLE safety_alerts ADD COLUMN urgency TEXT DEFAULT 'digest'; -- 'immediate' (sent at once, re-sent while unread) or 'digest'
+ALTER TABLE safety_alerts ADD COLUMN notify_count INTEGER DEFAULT 0; -- Immediate and reminder notifications sent so far
+ALTER TABLE safety_alerts ADD COLUMN last_notified_at DATETIME NULL;
+ALTER TABLE safety_alerts ADD COLUMN digested_at DATETIME NULL; -- Set once the alert has gone out in a digest
+
+CREATE TABLE IF NOT EXISTS alert_channels (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL,
+  channel_type TEXT NOT NULL CHECK (channel_type IN ('email', 'webhook', 'push')),
+  target TEXT NOT NULL, -- Email address, webhook URL or push endpoint
+  secret TEXT NULL, -- Webhook signing secret
+  push_p256dh TEXT NULL, -- Push subscription keys
+  push_auth TEXT NULL,
+  label TEXT NULL,
+  is_active BOOLEAN DEFAULT TRUE, -- Cleared when a push subscription expires
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS alert_settings (
+  parent_id TEXT PRIMARY KEY,
+  renotify_minutes INTEGER NOT NULL DEFAULT 15, -- Remind about unread immediate alerts this often
+  max_renotify INTEGER NOT NULL DEFAULT 3, -- Reminders per alert; 0 turns reminders off
+  digest_interval_minutes INTEGER NOT NULL DEFAULT 1440,
+  last_digest_at DATETIME NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL,
+  alert_id TEXT NULL, -- NULL for digests
+  channel_id TEXT NULL, -- NULL when sent to the parent's account email because no channel is set up
+  channel_type TEXT NOT NULL,
+  target TEXT NOT NULL,
+  kind TEXT NOT NULL, -- 'immediate', 'reminder' or 'digest'
+  payload TEXT NOT NULL, -- JSON
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'sent' or 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_error TEXT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  sent_at DATETIME NULL,
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_channels_parent ON alert_channels(parent_id);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_due ON alert_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_parent ON alert_deliveries(parent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_safety_alerts_urgency ON safety_alerts(urgency, is_read);
@@ -0,0 +1,34 @@
+-- Crisis protocol: family crisis contacts, per-conversation crisis mode and an escalation timeline
+ALTER TABLE parental_controls ADD COLUMN country TEXT DEFAULT 'US'; -- Picks the national hotlines shown to the teen
+
+ALTER TABLE conversations ADD COLUMN crisis_mode BOOLEAN DEFAULT FALSE;
+ALTER TABLE conversations ADD COLUMN crisis_started_at DATETIME NULL;
+
+CREATE TABLE IF NOT EXISTS crisis_contacts (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL, -- 'pastor', 'counselor', 'youth_leader', 'family' or 'other'
+  phone TEXT NULL,
+  email TEXT NULL,
+  notes TEXT NULL, -- e.g. when they can be reached
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS crisis_events (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  teen_id TEXT NOT NULL,
+  parent_id TEXT NULL,
+  event_type TEXT NOT NULL, -- 'detected', 'crisis_mode_started', 'resources_shown', 'parent_alerted', 'alert_read', 'resolved'
+  detail TEXT NULL,
+  message_id TEXT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id),
+  FOREIGN KEY (teen_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crisis_contacts_parent ON crisis_contacts(parent_id);
+CREATE INDEX IF NOT EXISTS idx_crisis_events_conversation ON crisis_events(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_crisis_events_parent ON crisis_events(parent_id, created_at);
@@ -0,0 +1,23 @@
+-- Weekly family reports: built by the scheduler, emailed to each parent and archived for the dashboard
+CREATE TABLE IF NOT EXISTS weekly_reports (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL,
+  period_start TEXT NOT NULL, -- YYYY-MM-DD, a Monday (UTC)
+  period_end TEXT NOT NULL, -- YYYY-MM-DD, the following Monday (exclusive)
+  subject TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  data TEXT NOT NULL, -- JSON the bodies were rendered from
+  delivery_status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'sent' or 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT NULL,
+  sent_at DATETIME NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (parent_id, period_start),
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
+
+ALTER TABLE alert_settings ADD COLUMN weekly_report BOOLEAN DEFAULT TRUE; -- Email the weekly report
+
+CREATE INDEX IF NOT EXISTS idx_weekly_reports_parent ON weekly_reports(parent_id, period_start);
+CREATE INDEX IF NOT EXISTS idx_weekly_reports_status ON weekly_reports(delivery_status, attempts);
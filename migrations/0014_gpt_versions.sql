@@ -0,0 +1,37 @@
+-- Version history for custom GPTs. A new version is written whenever the system prompt, theological values,
+-- educational focus or personality traits change (rollbacks included); versions are never edited or removed.
+CREATE TABLE IF NOT EXISTS gpt_versions (
+  custom_gpt_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  theological_values TEXT,
+  educational_focus TEXT,
+  personality_traits TEXT,
+  created_by TEXT NOT NULL,
+  restored_from INTEGER NULL, -- The earlier version this one rolled back to
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (custom_gpt_id, version),
+  FOREIGN KEY (custom_gpt_id) REFERENCES custom_gpts(id),
+  FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE TRIGGER IF NOT EXISTS gpt_versions_immutable_update BEFORE UPDATE ON gpt_versions BEGIN
+  SELECT RAISE(ABORT, 'GPT versions cannot be changed');
+END;
+
+CREATE TRIGGER IF NOT EXISTS gpt_versions_immutable_delete BEFORE DELETE ON gpt_versions BEGIN
+  SELECT RAISE(ABORT, 'GPT versions cannot be deleted');
+END;
+
+ALTER TABLE custom_gpts ADD COLUMN version INTEGER NOT NULL DEFAULT 1; -- The current version
+ALTER TABLE custom_gpts ADD COLUMN deactivated_at DATETIME NULL; -- Set while is_active is FALSE
+
+ALTER TABLE conversations ADD COLUMN gpt_version INTEGER NULL; -- Version when the conversation started; NULL before versioning
+ALTER TABLE messages ADD COLUMN gpt_version INTEGER NULL; -- Version that wrote an AI reply
+
+-- Existing GPTs start their history at version 1
+INSERT OR IGNORE INTO gpt_versions (
+  custom_gpt_id, version, system_prompt, theological_values, educational_focus, personality_traits, created_by, created_at
+)
+SELECT id, 1, system_prompt, theological_values, educational_focus, personality_traits, parent_id, updated_at
+FROM custom_gpts;
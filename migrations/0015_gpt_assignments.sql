@@ -0,0 +1,17 @@
+-- Which teens can use each custom GPT, and optional age limits
+ALTER TABLE users ADD COLUMN birthdate TEXT NULL; -- YYYY-MM-DD; teens only
+
+ALTER TABLE custom_gpts ADD COLUMN assigned_to_all BOOLEAN DEFAULT TRUE; -- FALSE: only the teens in gpt_assignments
+ALTER TABLE custom_gpts ADD COLUMN min_age INTEGER NULL; -- Inclusive; a teen without a birthdate can't use an age-limited GPT
+ALTER TABLE custom_gpts ADD COLUMN max_age INTEGER NULL; -- Inclusive
+
+CREATE TABLE IF NOT EXISTS gpt_assignments (
+  custom_gpt_id TEXT NOT NULL,
+  teen_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (custom_gpt_id, teen_id),
+  FOREIGN KEY (custom_gpt_id) REFERENCES custom_gpts(id),
+  FOREIGN KEY (teen_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gpt_assignments_teen ON gpt_assignments(teen_id);
@@ -0,0 +1,78 @@
+-- Bundled public-domain Bible text (KJV and WEB) for checking the verses AI replies cite.
+-- This starter set covers the verses the platform's own replies quote and others teens often ask about;
+-- the full text of either translation can be loaded into the same table.
+CREATE TABLE IF NOT EXISTS scripture_verses (
+  translation TEXT NOT NULL, -- KJV or WEB
+  book TEXT NOT NULL, -- Canonical name, e.g. "1 Timothy"
+  chapter INTEGER NOT NULL,
+  verse INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  PRIMARY KEY (translation, book, chapter, verse)
+);
+
+ALTER TABLE messages ADD COLUMN scripture_citations TEXT NULL; -- JSON list of verses an AI reply cites, and whether its quotes match
+
+INSERT OR IGNORE INTO scripture_verses (translation, book, chapter, verse, text) VALUES
+  ('KJV', 'Genesis', 1, 1, 'In the beginning God created the heaven and the earth.'),
+  ('KJV', 'Joshua', 1, 9, 'Have not I commanded thee? Be strong and of a good courage; be not afraid, neither be thou dismayed: for the LORD thy God is with thee whithersoever thou goest.'),
+  ('KJV', 'Psalms', 19, 1, 'The heavens declare the glory of God; and the firmament sheweth his handywork.'),
+  ('KJV', 'Psalms', 23, 1, 'The LORD is my shepherd; I shall not want.'),
+  ('KJV', 'Psalms', 46, 1, 'God is our refuge and strength, a very present help in trouble.'),
+  ('KJV', 'Psalms', 119, 105, 'Thy word is a lamp unto my feet, and a light unto my path.'),
+  ('KJV', 'Psalms', 139, 14, 'I will praise thee; for I am fearfully and wonderfully made: marvellous are thy works; and that my soul knoweth right well.'),
+  ('KJV', 'Proverbs', 1, 7, 'The fear of the LORD is the beginning of knowledge: but fools despise wisdom and instruction.'),
+  ('KJV', 'Proverbs', 3, 5, 'Trust in the LORD with all thine heart; and lean not unto thine own understanding.'),
+  ('KJV', 'Proverbs', 3, 6, 'In all thy ways acknowledge him, and he shall direct thy paths.'),
+  ('KJV', 'Proverbs', 9, 10, 'The fear of the LORD is the beginning of wisdom: and the knowledge of the holy is understanding.'),
+  ('KJV', 'Isaiah', 41, 10, 'Fear thou not; for I am with thee: be not dismayed; for I am thy God: I will strengthen thee; yea, I will help thee; yea, I will uphold thee with the right hand of my righteousness.'),
+  ('KJV', 'Jeremiah', 29, 11, 'For I know the thoughts that I think toward you, saith the LORD, thoughts of peace, and not of evil, to give you an expected end.'),
+  ('KJV', 'Matthew', 11, 28, 'Come unto me, all ye that labour and are heavy laden, and I will give you rest.'),
+  ('KJV', 'Matthew', 22, 37, 'Jesus said unto him, Thou shalt love the Lord thy God with all thy heart, and with all thy soul, and with all thy mind.'),
+  ('KJV', 'John', 3, 16, 'For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life.'),
+  ('KJV', 'John', 13, 34, 'A new commandment I give unto you, That ye love one another; as I have loved you, that ye also love one another.'),
+  ('KJV', 'John', 13, 35, 'By this shall all men know that ye are my disciples, if ye have love one to another.'),
+  ('KJV', 'Romans', 3, 23, 'For all have sinned, and come short of the glory of God;'),
+  ('KJV', 'Romans', 8, 28, 'And we know that all things work together for good to them that love God, to them who are the called according to his purpose.'),
+  ('KJV', 'Romans', 12, 2, 'And be not conformed to this world: but be ye transformed by the renewing of your mind, that ye may prove what is that good, and acceptable, and perfect, will of God.'),
+  ('KJV', 'Galatians', 5, 22, 'But the fruit of the Spirit is love, joy, peace, longsuffering, gentleness, goodness, faith,'),
+  ('KJV', 'Galatians', 5, 23, 'Meekness, temperance: against such there is no law.'),
+  ('KJV', 'Ephesians', 2, 8, 'For by grace are ye saved through faith; and that not of yourselves: it is the gift of God:'),
+  ('KJV', 'Philippians', 4, 8, 'Finally, brethren, whatsoever things are true, whatsoever things are honest, whatsoever things are just, whatsoever things are pure, whatsoever things are lovely, whatsoever things are of good report; if there be any virtue, and if there be any praise, think on these things.'),
+  ('KJV', 'Philippians', 4, 13, 'I can do all things through Christ which strengtheneth me.'),
+  ('KJV', 'Colossians', 3, 23, 'And whatsoever ye do, do it heartily, as to the Lord, and not unto men;'),
+  ('KJV', '1 Timothy', 4, 12, 'Let no man despise thy youth; but be thou an example of the believers, in word, in conversation, in charity, in spirit, in faith, in purity.'),
+  ('KJV', '2 Timothy', 3, 16, 'All scripture is given by inspiration of God, and is profitable for doctrine, for reproof, for correction, for instruction in righteousness:'),
+  ('KJV', 'James', 1, 5, 'If any of you lack wisdom, let him ask of God, that giveth to all men liberally, and upbraideth not; and it shall be given him.'),
+  ('KJV', '1 Peter', 5, 7, 'Casting all your care upon him; for he careth for you.'),
+
+  ('WEB', 'Genesis', 1, 1, 'In the beginning, God created the heavens and the earth.'),
+  ('WEB', 'Joshua', 1, 9, 'Haven''t I commanded you? Be strong and courageous. Don''t be afraid. Don''t be dismayed, for Yahweh your God is with you wherever you go.'),
+  ('WEB', 'Psalms', 19, 1, 'The heavens declare the glory of God. The expanse shows his handiwork.'),
+  ('WEB', 'Psalms', 23, 1, 'Yahweh is my shepherd; I shall lack nothing.'),
+  ('WEB', 'Psalms', 46, 1, 'God is our refuge and strength, a very present help in trouble.'),
+  ('WEB', 'Psalms', 119, 105, 'Your word is a lamp to my feet, and a light for my path.'),
+  ('WEB', 'Psalms', 139, 14, 'I will give thanks to you, for I am fearfully and wonderfully made. Your works are wonderful. My soul knows that very well.'),
+  ('WEB', 'Proverbs', 1, 7, 'The fear of Yahweh is the beginning of knowledge; but the foolish despise wisdom and instruction.'),
+  ('WEB', 'Proverbs', 3, 5, 'Trust in Yahweh with all your heart, and don''t lean on your own understanding.'),
+  ('WEB', 'Proverbs', 3, 6, 'In all your ways acknowledge him, and he will make your paths straight.'),
+  ('WEB', 'Proverbs', 9, 10, 'The fear of Yahweh is the beginning of wisdom. The knowledge of the Holy One is understanding.'),
+  ('WEB', 'Isaiah', 41, 10, 'Don''t you be afraid, for I am with you. Don''t be dismayed, for I am your God. I will strengthen you. Yes, I will help you. Yes, I will uphold you with the right hand of my righteousness.'),
+  ('WEB', 'Jeremiah', 29, 11, 'For I know the thoughts that I think toward you, says Yahweh, thoughts of peace, and not of evil, to give you hope and a future.'),
+  ('WEB', 'Matthew', 11, 28, 'Come to me, all you who labor and are heavily burdened, and I will give you rest.'),
+  ('WEB', 'Matthew', 22, 37, 'Jesus said to him, You shall love the Lord your God with all your heart, with all your soul, and with all your mind.'),
+  ('WEB', 'John', 3, 16, 'For God so loved the world, that he gave his one and only Son, that whoever believes in him should not perish, but have eternal life.'),
+  ('WEB', 'John', 13, 34, 'A new commandment I give to you, that you love one another. Just like I have loved you; you also love one another.'),
+  ('WEB', 'John', 13, 35, 'By this everyone will know that you are my disciples, if you have love for one another.'),
+  ('WEB', 'Romans', 3, 23, 'for all have sinned, and fall short of the glory of God;'),
+  ('WEB', 'Romans', 8, 28, 'We know that all things work together for good for those who love God, for those who are called according to his purpose.'),
+  ('WEB', 'Romans', 12, 2, 'Don''t be conformed to this world, but be transformed by the renewing of your mind, so that you may prove what is the good, well-pleasing, and perfect will of God.'),
+  ('WEB', 'Galatians', 5, 22, 'But the fruit of the Spirit is love, joy, peace, patience, kindness, goodness, faith,'),
+  ('WEB', 'Galatians', 5, 23, 'gentleness, and self-control. Against such things there is no law.'),
+  ('WEB', 'Ephesians', 2, 8, 'for by grace you have been saved through faith, and that not of yourselves; it is the gift of God,'),
+  ('WEB', 'Philippians', 4, 8, 'Finally, brothers, whatever things are true, whatever things are honorable, whatever things are just, whatever things are pure, whatever things are lovely, whatever things are of good report; if there is any virtue, and if there is any praise, think about these things.'),
+  ('WEB', 'Philippians', 4, 13, 'I can do all things through Christ, who strengthens me.'),
+  ('WEB', 'Colossians', 3, 23, 'And whatever you do, work heartily, as for the Lord, and not for men,'),
+  ('WEB', '1 Timothy', 4, 12, 'Let no man despise your youth; but be an example to those who believe, in word, in your way of life, in love, in spirit, in faith, and in purity.'),
+  ('WEB', '2 Timothy', 3, 16, 'Every Scripture is God-breathed and profitable for teaching, for reproof, for correction, and for instruction in righteousness,'),
+  ('WEB', 'James', 1, 5, 'But if any of you lacks wisdom, let him ask of God, who gives to all liberally and without reproach; and it will be given to him.'),
+  ('WEB', '1 Peter', 5, 7, 'casting all your worries on him, because he cares for you.');
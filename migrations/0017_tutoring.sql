@@ -0,0 +1,17 @@
+-- Socratic tutoring: hints and guiding questions instead of answers to homework problems
+ALTER TABLE custom_gpts ADD COLUMN tutoring_mode TEXT NOT NULL DEFAULT 'off'; -- off or socratic
+ALTER TABLE parental_controls ADD COLUMN tutoring_settings TEXT DEFAULT '{}'; -- JSON: subject -> { mode, hintsBeforeAnswer }; overrides the GPT
+
+-- Hints given per problem in a conversation
+CREATE TABLE IF NOT EXISTS tutoring_problems (
+  conversation_id TEXT NOT NULL,
+  problem_key TEXT NOT NULL, -- e.g. "#4", or the equation being solved
+  subject TEXT NOT NULL,
+  hints_given INTEGER NOT NULL DEFAULT 0,
+  answer_requests INTEGER NOT NULL DEFAULT 0, -- Times the teen asked for the answer outright
+  answer_allowed_at DATETIME NULL, -- When enough hints had been given to walk through the solution
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (conversation_id, problem_key),
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id)
+);
@@ -0,0 +1,21 @@
+-- Long-term memory: a rolling summary of each conversation's older messages, and durable facts about a teen.
+-- Parents can view, edit and clear both.
+ALTER TABLE conversations ADD COLUMN summary TEXT NULL;
+ALTER TABLE conversations ADD COLUMN summarized_messages INTEGER NOT NULL DEFAULT 0; -- The first N messages are covered by the summary
+ALTER TABLE conversations ADD COLUMN summary_updated_at DATETIME NULL;
+
+ALTER TABLE parental_controls ADD COLUMN memory_enabled BOOLEAN DEFAULT FALSE; -- Use and collect teen_memories
+
+CREATE TABLE IF NOT EXISTS teen_memories (
+  id TEXT PRIMARY KEY,
+  teen_id TEXT NOT NULL,
+  fact TEXT NOT NULL, -- e.g. "Studying Algebra II"
+  source TEXT NOT NULL, -- parent or conversation
+  conversation_id TEXT NULL, -- Where a remembered fact came from
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (teen_id) REFERENCES users(id),
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teen_memories_teen ON teen_memories(teen_id, created_at);
@@ -0,0 +1,36 @@
+-- Token metering: what each AI request cost, and monthly spending caps per family
+ALTER TABLE messages ADD COLUMN model TEXT NULL; -- For AI replies: the model that wrote it
+ALTER TABLE messages ADD COLUMN prompt_tokens INTEGER NULL;
+ALTER TABLE messages ADD COLUMN completion_tokens INTEGER NULL;
+ALTER TABLE messages ADD COLUMN cost_micros INTEGER NULL; -- Millionths of a US dollar
+
+-- Every metered request: replies, and background calls such as topic classification and conversation summaries
+CREATE TABLE IF NOT EXISTS token_usage (
+  id TEXT PRIMARY KEY,
+  parent_id TEXT NOT NULL, -- The family that is billed
+  teen_id TEXT NOT NULL,
+  custom_gpt_id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  cost_micros INTEGER NOT NULL,
+  usage_month TEXT NOT NULL, -- YYYY-MM (UTC)
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id),
+  FOREIGN KEY (teen_id) REFERENCES users(id),
+  FOREIGN KEY (custom_gpt_id) REFERENCES custom_gpts(id),
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_parent_month ON token_usage(parent_id, usage_month);
+
+CREATE TABLE IF NOT EXISTS family_budgets (
+  parent_id TEXT PRIMARY KEY,
+  monthly_limit_micros INTEGER NULL, -- The parent's own cap; FAMILY_MONTHLY_BUDGET_USD applies as well
+  warn_percent INTEGER NOT NULL DEFAULT 80, -- Email a warning once this share of the cap is spent
+  warned_month TEXT NULL, -- Months the warning and cutoff emails were sent, so each goes out once
+  cutoff_month TEXT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (parent_id) REFERENCES users(id)
+);
@@ -0,0 +1,2 @@
+-- An invite code given at registration is only redeemed once the teen has verified their email address
+ALTER TABLE users ADD COLUMN pending_invite_id TEXT NULL; -- family_invites.id
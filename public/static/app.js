@@ -8,11 +8,35 @@ class TeenAIApp {
     this.conversations = [];
     this.customGpts = [];
     this.safetyAlerts = [];
+    this.linkRequests = [];
+    this.timeRemaining = null;
+    this.pendingInviteCode = null;
     
     this.init();
   }
 
   async init() {
+    // Handle email verification and magic sign-in links
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verify');
+    const magicToken = params.get('magic');
+    const inviteCode = params.get('invite');
+    if (inviteCode) {
+      window.history.replaceState({}, '', window.location.pathname);
+      this.pendingInviteCode = inviteCode;
+      if (!this.sessionId) {
+        this.currentView = 'register';
+      }
+    }
+    if (verifyToken || magicToken) {
+      window.history.replaceState({}, '', window.location.pathname);
+      await this.completeEmailLink(
+        verifyToken ? '/api/auth/verify-email' : '/api/auth/magic-link/verify',
+        verifyToken || magicToken
+      );
+      return;
+    }
+
     // Check if user is already logged in
     if (this.sessionId) {
       try {
@@ -55,29 +79,36 @@ class TeenAIApp {
     }
   }
 
-  async login(email) {
+  async startSession(result) {
+    this.currentUser = result.user;
+    this.sessionId = result.sessionId;
+    localStorage.setItem('sessionId', this.sessionId);
+    localStorage.setItem('userData', JSON.stringify(this.currentUser));
+    
+    this.currentView = this.currentUser.role === 'parent' ? 'parent-dashboard' : 'teen-chat';
+    this.render();
+    
+    if (this.currentUser.role === 'teen') {
+      await this.loadCustomGpts();
+      await this.loadConversations();
+      await this.loadTimeRemaining();
+    } else {
+      await this.loadSafetyAlerts();
+      await this.loadLinkRequests();
+      await this.loadConversations();
+    }
+    this.render();
+  }
+
+  async login(email, password) {
     try {
       const result = await this.apiCall('/api/auth/login', {
         method: 'POST',
-        data: { email }
+        data: { email, password }
       });
 
       if (result.success) {
-        this.currentUser = result.user;
-        this.sessionId = result.sessionId;
-        localStorage.setItem('sessionId', this.sessionId);
-        localStorage.setItem('userData', JSON.stringify(this.currentUser));
-        
-        this.currentView = this.currentUser.role === 'parent' ? 'parent-dashboard' : 'teen-chat';
-        this.render();
-        
-        if (this.currentUser.role === 'teen') {
-          await this.loadCustomGpts();
-          await this.loadConversations();
-        } else {
-          await this.loadSafetyAlerts();
-          await this.loadConversations();
-        }
+        await this.startSession(result);
       } else {
         this.showError('Login failed');
       }
@@ -87,27 +118,59 @@ class TeenAIApp {
     }
   }
 
-  async register(email, name, role, parentEmail = null) {
+  async requestMagicLink(email) {
+    try {
+      const result = await this.apiCall('/api/auth/magic-link', {
+        method: 'POST',
+        data: { email }
+      });
+      alert(result.message);
+    } catch (error) {
+      console.error('Magic link error:', error);
+      this.showError('Failed to send sign-in link: ' + (error.response?.data?.error || error.message));
+    }
+  }
+
+  async completeEmailLink(endpoint, token) {
+    try {
+      const result = await this.apiCall(endpoint, {
+        method: 'POST',
+        data: { token }
+      });
+
+      if (result.success) {
+        if (result.linkError) {
+          alert(`Your email is verified, but the invite code couldn't be used: ${result.linkError}. Ask your parent for a new one.`);
+        }
+        await this.startSession(result);
+        return;
+      }
+    } catch (error) {
+      console.error('Email link error:', error);
+      this.showError(error.response?.data?.error || error.message);
+    }
+    this.render();
+  }
+
+  async register(email, name, role, parentEmail = null, password = null, inviteCode = null) {
     try {
       const result = await this.apiCall('/api/auth/register', {
         method: 'POST',
-        data: { email, name, role, parentEmail }
+        data: { email, name, role, parentEmail, password, inviteCode }
       });
 
       if (result.success) {
-        this.currentUser = result.user;
-        this.sessionId = result.sessionId;
-        localStorage.setItem('sessionId', this.sessionId);
-        localStorage.setItem('userData', JSON.stringify(this.currentUser));
-        
-        this.currentView = this.currentUser.role === 'parent' ? 'parent-dashboard' : 'teen-chat';
+        this.pendingInviteCode = null;
+        const approvalNote = result.linkStatus === 'pending_approval'
+          ? ' Your parent also needs to approve your account before you can start chatting.'
+          : result.linkStatus === 'pending_verification'
+            ? ' Opening it also adds you to your family with the invite code.'
+            : result.linkError
+              ? ` Your account couldn't be linked to your parent (${result.linkError}); ask them for a new invite code.`
+              : '';
+        alert(`Almost done! We sent a verification link to ${email}. Open it to finish creating your account.${approvalNote}`);
+        this.currentView = 'login';
         this.render();
-        
-        if (role === 'parent') {
-          // Show setup wizard for new parent
-          this.currentView = 'gpt-setup';
-          this.render();
-        }
       }
     } catch (error) {
       console.error('Registration error:', error);
@@ -131,6 +194,50 @@ class TeenAIApp {
     }
   }
 
+  async loadLinkRequests() {
+    try {
+      this.linkRequests = await this.apiCall('/api/family/link-requests');
+    } catch (error) {
+      console.error('Failed to load link requests:', error);
+    }
+  }
+
+  async refreshFamilyStatus() {
+    try {
+      const status = await this.apiCall('/api/family/status');
+      this.currentUser.parentId = status.parentId;
+      localStorage.setItem('userData', JSON.stringify(this.currentUser));
+      if (status.linked) {
+        await this.loadCustomGpts();
+        await this.loadConversations();
+      }
+      this.render();
+    } catch (error) {
+      console.error('Failed to load family status:', error);
+    }
+  }
+
+  async loadTimeRemaining() {
+    try {
+      this.timeRemaining = await this.apiCall('/api/usage/time-remaining');
+    } catch (error) {
+      console.error('Failed to load time remaining:', error);
+    }
+  }
+
+  formatTimeRemaining() {
+    if (!this.timeRemaining || this.timeRemaining.remainingMinutes === null) return '';
+    const minutes = this.timeRemaining.remainingMinutes;
+    return minutes > 0 ? `${minutes} minute${minutes === 1 ? '' : 's'} of chat time left today` : 'No chat time left today';
+  }
+
+  describeScheduleBlock(data) {
+    const next = data.schedule.nextAvailableAt;
+    return next
+      ? `${data.error}. You can chat again at ${new Date(next).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}.`
+      : data.error;
+  }
+
   async loadSafetyAlerts() {
     try {
       this.safetyAlerts = await this.apiCall('/api/safety-alerts');
@@ -166,7 +273,9 @@ class TeenAIApp {
       }
     } catch (error) {
       console.error('Failed to start conversation:', error);
-      this.showError('Failed to start conversation');
+      this.showError(error.response?.data?.schedule
+        ? this.describeScheduleBlock(error.response.data)
+        : 'Failed to start conversation');
     }
   }
 
@@ -183,15 +292,28 @@ class TeenAIApp {
       this.currentConversation.messages.push(userMessage);
       this.renderChat();
 
-      // Send to API
-      const result = await this.apiCall(`/api/conversations/${this.currentConversation.id}/messages`, {
-        method: 'POST',
-        data: { content }
+      // Show the AI response as it streams in
+      const aiMessage = {
+        role: 'assistant',
+        content: '',
+        created_at: new Date().toISOString()
+      };
+      this.currentConversation.messages.push(aiMessage);
+
+      const result = await this.streamMessage(this.currentConversation.id, content, (event, data) => {
+        if (event === 'token') {
+          aiMessage.content += data.content;
+        } else if (event === 'replace') {
+          aiMessage.content = data.content;
+        }
+        this.renderChat();
       });
 
       if (result.success) {
-        // Replace user message with server version and add AI response
-        this.currentConversation.messages.pop(); // Remove temporary message
+        this.timeRemaining = result.timeRemaining;
+
+        // Replace the temporary messages with the saved versions
+        this.currentConversation.messages.splice(-2, 2);
         this.currentConversation.messages.push({
           ...result.userMessage,
           role: 'user',
@@ -204,24 +326,126 @@ class TeenAIApp {
         });
         this.renderChat();
 
-        // Speak the AI response if voice mode is available (but only if user initiated voice mode)
-        if (voiceMode && voiceMode.synthesis && voiceMode.shouldSpeak) {
-          voiceMode.speak(result.aiMessage.content);
-        }
-
         if (result.userMessage.isFlagged) {
           this.showWarning('Your message has been flagged for review. A parent will be notified.');
         }
       }
     } catch (error) {
       console.error('Failed to send message:', error);
-      this.showError('Failed to send message');
-      // Remove the temporary message
-      this.currentConversation.messages.pop();
+      if (error.response?.status === 429) {
+        this.timeRemaining = error.response.data.timeRemaining;
+        this.showError(error.response.data.error);
+      } else if (error.response?.data?.schedule) {
+        this.showError(this.describeScheduleBlock(error.response.data));
+      } else {
+        this.showError('Failed to send message');
+      }
+      // Remove the temporary messages
+      this.currentConversation.messages = this.currentConversation.messages.filter(message => message.id);
+      this.renderChat();
+    }
+  }
+
+  // Sends a recording to the voice endpoint, which transcribes and answers it
+  async sendVoiceMessage(recording) {
+    if (!this.currentConversation) return;
+
+    const form = new FormData();
+    form.append('audio', recording, 'recording');
+
+    try {
+      const result = await this.apiCall(`/api/conversations/${this.currentConversation.id}/voice`, {
+        method: 'POST',
+        data: form,
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+
+      this.timeRemaining = result.timeRemaining;
+      this.currentConversation.messages.push({
+        ...result.userMessage,
+        role: 'user',
+        audio_url: result.userMessage.audioUrl,
+        created_at: new Date().toISOString()
+      });
+      this.currentConversation.messages.push({
+        ...result.aiMessage,
+        role: 'assistant',
+        audio_url: result.aiMessage.audioUrl,
+        created_at: new Date().toISOString()
+      });
       this.renderChat();
+
+      // Play the synthesized reply, or read it with the browser's voice if there is none
+      if (result.aiMessage.audioUrl) {
+        voiceMode.play(result.aiMessage.audioUrl);
+      } else if (!result.aiMessage.held) {
+        voiceMode.speak(result.aiMessage.content);
+      }
+
+      if (result.userMessage.isFlagged) {
+        this.showWarning('Your message has been flagged for review. A parent will be notified.');
+      }
+    } catch (error) {
+      console.error('Failed to send voice message:', error);
+      if (error.response?.status === 429) {
+        this.timeRemaining = error.response.data.timeRemaining;
+      }
+      if (error.response?.data?.schedule) {
+        this.showError(this.describeScheduleBlock(error.response.data));
+      } else {
+        this.showError(error.response?.data?.error || 'Failed to send voice message');
+      }
     }
   }
 
+  // Posts a message to the streaming endpoint and reads its Server-Sent Events.
+  // Errors are thrown in the same shape axios uses so callers can handle both alike.
+  async streamMessage(conversationId, content, onEvent) {
+    const response = await fetch(`/api/conversations/${conversationId}/messages/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.sessionId}`
+      },
+      body: JSON.stringify({ content })
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw { response: { status: response.status, data } };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop();
+
+      for (const block of blocks) {
+        let event = 'message';
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (!data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'done') return payload;
+        if (event === 'error') throw { response: { status: 500, data: payload } };
+        onEvent(event, payload);
+      }
+    }
+
+    throw new Error('Stream ended before the reply was saved');
+  }
+
   async loadConversationMessages(conversationId) {
     try {
       const messages = await this.apiCall(`/api/conversations/${conversationId}/messages`);
@@ -233,6 +457,9 @@ class TeenAIApp {
   }
 
   logout() {
+    if (this.sessionId) {
+      this.apiCall('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    }
     localStorage.removeItem('sessionId');
     localStorage.removeItem('userData');
     this.currentUser = null;
@@ -300,10 +527,22 @@ class TeenAIApp {
                    placeholder="Enter your email">
           </div>
           
+          <div>
+            <label class="block text-white text-sm font-medium mb-2">Password</label>
+            <input type="password" id="password" 
+                   class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-white/50"
+                   placeholder="Enter your password">
+          </div>
+          
           <button type="submit" 
                   class="w-full bg-white text-purple-600 py-3 rounded-lg font-semibold hover:bg-gray-100 transition duration-200">
             <i class="fas fa-sign-in-alt mr-2"></i>Sign In
           </button>
+          
+          <button type="button" id="magicLinkButton"
+                  class="w-full border border-white/50 text-white py-3 rounded-lg font-semibold hover:bg-white/10 transition duration-200">
+            <i class="fas fa-envelope mr-2"></i>Email Me a Sign-In Link
+          </button>
         </form>
         
         <div class="mt-6 text-center">
@@ -341,6 +580,14 @@ class TeenAIApp {
                    placeholder="Enter your email">
           </div>
           
+          <div>
+            <label class="block text-white text-sm font-medium mb-2">Password</label>
+            <input type="password" id="password" minlength="8"
+                   class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-white/50"
+                   placeholder="At least 8 characters">
+            <p class="text-gray-300 text-xs mt-1">Optional - you can always sign in with an email link instead</p>
+          </div>
+          
           <div>
             <label class="block text-white text-sm font-medium mb-2">Account Type</label>
             <select id="role" required onchange="toggleParentEmail()"
@@ -351,12 +598,20 @@ class TeenAIApp {
             </select>
           </div>
           
-          <div id="parentEmailField" style="display: none;">
-            <label class="block text-white text-sm font-medium mb-2">Parent's Email</label>
-            <input type="email" id="parentEmail"
-                   class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-white/50"
-                   placeholder="Enter your parent's email">
-            <p class="text-gray-300 text-xs mt-1">Your parent must already have an account</p>
+          <div id="parentEmailField" style="display: none;" class="space-y-4">
+            <div>
+              <label class="block text-white text-sm font-medium mb-2">Invite Code</label>
+              <input type="text" id="inviteCode" value="${this.pendingInviteCode || ''}"
+                     class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-white/50"
+                     placeholder="Code from your parent">
+            </div>
+            <div>
+              <label class="block text-white text-sm font-medium mb-2">Or Parent's Email</label>
+              <input type="email" id="parentEmail"
+                     class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-white/50"
+                     placeholder="Enter your parent's email">
+              <p class="text-gray-300 text-xs mt-1">Without a code, your parent will be asked to approve your account</p>
+            </div>
           </div>
           
           <button type="submit" 
@@ -377,15 +632,7 @@ class TeenAIApp {
         function toggleParentEmail() {
           const role = document.getElementById('role').value;
           const parentEmailField = document.getElementById('parentEmailField');
-          const parentEmailInput = document.getElementById('parentEmail');
-          
-          if (role === 'teen') {
-            parentEmailField.style.display = 'block';
-            parentEmailInput.required = true;
-          } else {
-            parentEmailField.style.display = 'none';
-            parentEmailInput.required = false;
-          }
+          parentEmailField.style.display = role === 'teen' ? 'block' : 'none';
         }
       </script>
     `;
@@ -450,6 +697,29 @@ class TeenAIApp {
             </div>
           </div>
 
+          ${this.linkRequests.length > 0 ? `
+            <!-- Pending Family Requests -->
+            <div class="glass-card rounded-xl p-6 mb-6">
+              <h2 class="text-xl font-semibold text-white mb-4">Teens Waiting for Approval</h2>
+              <div class="space-y-3">
+                ${this.linkRequests.map(request => `
+                  <div class="bg-white/10 rounded-lg p-4 flex justify-between items-center">
+                    <div>
+                      <h4 class="font-medium text-white">${request.teen_name}</h4>
+                      <p class="text-sm text-gray-300">${request.teen_email}</p>
+                    </div>
+                    <div class="space-x-2">
+                      <button onclick="decideLinkRequest('${request.id}', 'approve')"
+                              class="bg-green-500/30 text-white px-3 py-1 rounded-lg hover:bg-green-500/40 text-sm">Approve</button>
+                      <button onclick="decideLinkRequest('${request.id}', 'reject')"
+                              class="bg-red-500/30 text-white px-3 py-1 rounded-lg hover:bg-red-500/40 text-sm">Reject</button>
+                    </div>
+                  </div>
+                `).join('')}
+              </div>
+            </div>
+          ` : ''}
+
           <!-- Main Content -->
           <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <!-- Recent Conversations -->
@@ -519,7 +789,13 @@ class TeenAIApp {
           <!-- Quick Actions -->
           <div class="glass-card rounded-xl p-6 mt-6">
             <h2 class="text-xl font-semibold text-white mb-4">Quick Actions</h2>
-            <div class="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div class="grid grid-cols-2 md:grid-cols-7 gap-4">
+              <button onclick="createFamilyInvite()" 
+                      class="bg-yellow-500/20 hover:bg-yellow-500/30 text-white p-4 rounded-lg transition text-center">
+                <i class="fas fa-user-plus text-2xl mb-2"></i>
+                <div class="text-sm font-medium">Invite a Teen</div>
+              </button>
+              
               <button onclick="app.currentView='gpt-setup'; app.render()" 
                       class="bg-blue-500/20 hover:bg-blue-500/30 text-white p-4 rounded-lg transition text-center">
                 <i class="fas fa-robot text-2xl mb-2"></i>
@@ -543,6 +819,18 @@ class TeenAIApp {
                 <i class="fas fa-exclamation-triangle text-2xl mb-2"></i>
                 <div class="text-sm font-medium">Safety Alerts</div>
               </button>
+              
+              <button onclick="enablePushAlerts()" 
+                      class="bg-pink-500/20 hover:bg-pink-500/30 text-white p-4 rounded-lg transition text-center">
+                <i class="fas fa-bell text-2xl mb-2"></i>
+                <div class="text-sm font-medium">Phone Alerts</div>
+              </button>
+              
+              <button onclick="openWeeklyReport()" 
+                      class="bg-indigo-500/20 hover:bg-indigo-500/30 text-white p-4 rounded-lg transition text-center">
+                <i class="fas fa-envelope-open-text text-2xl mb-2"></i>
+                <div class="text-sm font-medium">Weekly Report</div>
+              </button>
             </div>
           </div>
         </div>
@@ -551,6 +839,10 @@ class TeenAIApp {
   }
 
   renderTeenDashboard() {
+    if (!this.currentUser.parentId) {
+      return this.renderAwaitingApproval();
+    }
+
     return `
       <div class="min-h-screen p-4">
         <div class="max-w-4xl mx-auto">
@@ -560,6 +852,7 @@ class TeenAIApp {
               <div>
                 <h1 class="text-2xl font-bold text-white mb-2">Welcome, ${this.currentUser.name}!</h1>
                 <p class="text-gray-200">Choose an AI assistant to start learning</p>
+                ${this.formatTimeRemaining() ? `<p class="text-sm text-gray-300 mt-1"><i class="fas fa-clock mr-1"></i>${this.formatTimeRemaining()}</p>` : ''}
               </div>
               <button onclick="app.logout()" 
                       class="bg-red-500/20 text-white px-4 py-2 rounded-lg hover:bg-red-500/30 transition">
@@ -625,6 +918,34 @@ class TeenAIApp {
     `;
   }
 
+  renderAwaitingApproval() {
+    return `
+      <div class="glass-card rounded-2xl p-8 w-full max-w-md">
+        <div class="text-center mb-6">
+          <i class="fas fa-hourglass-half text-4xl text-white mb-4"></i>
+          <h1 class="text-2xl font-bold text-white mb-2">Waiting for Parent Approval</h1>
+          <p class="text-gray-200">Your parent needs to approve your account before you can start chatting.</p>
+        </div>
+        
+        <form id="redeemInviteForm" class="space-y-4">
+          <label class="block text-white text-sm font-medium">Have an invite code?</label>
+          <input type="text" id="redeemInviteCode" required value="${this.pendingInviteCode || ''}"
+                 class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-white/50"
+                 placeholder="Enter invite code">
+          <button type="submit" 
+                  class="w-full bg-white text-purple-600 py-3 rounded-lg font-semibold hover:bg-gray-100 transition duration-200">
+            Join Family
+          </button>
+        </form>
+        
+        <div class="mt-6 flex justify-between">
+          <button onclick="app.refreshFamilyStatus()" class="text-white underline hover:text-gray-200">Check again</button>
+          <button onclick="app.logout()" class="text-white underline hover:text-gray-200">Logout</button>
+        </div>
+      </div>
+    `;
+  }
+
   renderChat() {
     if (!this.currentConversation) return this.renderTeenDashboard();
 
@@ -673,6 +994,9 @@ class TeenAIApp {
                           : 'bg-white/20 text-white'
                       }">
                         <p class="text-sm">${msg.content}</p>
+                        ${msg.citations?.length ? this.renderCitations(msg.citations) : ''}
+                        ${msg.tutoring && !msg.tutoring.answerAllowed ? `<p class="text-xs mt-2 opacity-75"><i class="fas fa-lightbulb mr-1"></i>Hint ${msg.tutoring.hintNumber}${msg.tutoring.problem === 'current' ? '' : ` for ${msg.tutoring.problem}`}</p>` : ''}
+                        ${msg.audio_url ? `<button onclick="voiceMode.play('${msg.audio_url}')" class="text-xs mt-2 opacity-75 hover:opacity-100"><i class="fas fa-volume-up mr-1"></i>Play</button>` : ''}
                         ${msg.is_flagged ? '<p class="text-xs mt-2 opacity-75"><i class="fas fa-flag mr-1"></i>Flagged for review</p>' : ''}
                       </div>
                       <p class="text-xs text-gray-400 mt-1 ${msg.role === 'user' ? 'text-right' : ''}">
@@ -707,6 +1031,31 @@ class TeenAIApp {
     `;
   }
 
+  // Verses a reply cites, checked against the bundled Bible text
+  renderCitations(citations) {
+    const icons = {
+      verified: 'check-circle',
+      paraphrased: 'book-open',
+      misquoted: 'exclamation-triangle',
+      cited: 'book-open',
+      unavailable: 'question-circle'
+    };
+
+    return `
+      <div class="mt-2 pt-2 border-t border-white/20 space-y-1">
+        ${citations.map(citation => `
+          <p class="text-xs ${citation.status === 'misquoted' || citation.status === 'unavailable' ? 'text-yellow-200' : 'opacity-75'}">
+            <i class="fas fa-${icons[citation.status] || 'book'} mr-1"></i>
+            <span class="font-semibold">${citation.reference}${citation.translation ? ` (${citation.translation})` : ''}</span>
+            ${citation.status === 'misquoted' ? " - the quote above doesn't match this verse, which reads:" : ''}
+            ${citation.text ? `<span class="italic">"${citation.text}"</span>` : ''}
+            ${citation.status === 'unavailable' ? " - not checked: this verse isn't in the app's Bible text, so look it up in your Bible before relying on it" : ''}
+          </p>
+        `).join('')}
+      </div>
+    `;
+  }
+
   renderGptSetup() {
     return `
       <div class="min-h-screen p-4">
@@ -757,6 +1106,28 @@ class TeenAIApp {
                 </div>
               </div>
               
+              <div>
+                <label class="block text-white text-sm font-medium mb-2">Theological Tradition</label>
+                <select id="gptTradition"
+                        class="w-full px-4 py-3 rounded-lg bg-white/20 border border-white/30 text-white focus:outline-none focus:ring-2 focus:ring-white/50">
+                  <option value="" class="text-gray-800">Use each teen's family setting</option>
+                  <option value="reformed" class="text-gray-800">Reformed</option>
+                  <option value="baptist" class="text-gray-800">Baptist</option>
+                  <option value="catholic" class="text-gray-800">Catholic</option>
+                  <option value="lutheran" class="text-gray-800">Lutheran</option>
+                  <option value="pentecostal" class="text-gray-800">Pentecostal</option>
+                  <option value="non-denominational" class="text-gray-800">Non-denominational</option>
+                </select>
+                <p class="text-gray-300 text-xs mt-1">Sets views on baptism, the end times, spiritual gifts, Bible translation and more.</p>
+              </div>
+              
+              <div>
+                <label class="flex items-center text-white text-sm">
+                  <input type="checkbox" id="gptSocratic" class="mr-2">
+                  Socratic tutoring: give hints and guiding questions instead of homework answers
+                </label>
+              </div>
+              
               <div>
                 <label class="block text-white text-sm font-medium mb-2">System Instructions</label>
                 <textarea id="systemPrompt" rows="6" required
@@ -789,7 +1160,20 @@ class TeenAIApp {
       loginForm.addEventListener('submit', async (e) => {
         e.preventDefault();
         const email = document.getElementById('email').value;
-        await this.login(email);
+        const password = document.getElementById('password').value;
+        await this.login(email, password);
+      });
+    }
+
+    const magicLinkButton = document.getElementById('magicLinkButton');
+    if (magicLinkButton) {
+      magicLinkButton.addEventListener('click', async () => {
+        const email = document.getElementById('email').value;
+        if (!email) {
+          this.showError('Enter your email address first');
+          return;
+        }
+        await this.requestMagicLink(email);
       });
     }
 
@@ -802,8 +1186,31 @@ class TeenAIApp {
         const email = document.getElementById('email').value;
         const role = document.getElementById('role').value;
         const parentEmail = document.getElementById('parentEmail')?.value || null;
+        const password = document.getElementById('password').value || null;
+        const inviteCode = document.getElementById('inviteCode')?.value.trim() || null;
+        
+        if (role === 'teen' && !parentEmail && !inviteCode) {
+          this.showError('Enter an invite code or your parent\'s email');
+          return;
+        }
         
-        await this.register(email, name, role, parentEmail);
+        await this.register(email, name, role, parentEmail, password, inviteCode);
+      });
+    }
+
+    // Invite redemption form
+    const redeemInviteForm = document.getElementById('redeemInviteForm');
+    if (redeemInviteForm) {
+      redeemInviteForm.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const code = document.getElementById('redeemInviteCode').value.trim();
+        try {
+          await this.apiCall('/api/family/invites/redeem', { method: 'POST', data: { code } });
+          this.pendingInviteCode = null;
+          await this.refreshFamilyStatus();
+        } catch (error) {
+          this.showError(error.response?.data?.error || 'Failed to redeem invite code');
+        }
       });
     }
 
@@ -831,6 +1238,8 @@ class TeenAIApp {
         const name = document.getElementById('gptName').value;
         const description = document.getElementById('gptDescription').value;
         const systemPrompt = document.getElementById('systemPrompt').value;
+        const tradition = document.getElementById('gptTradition').value;
+        const tutoringMode = document.getElementById('gptSocratic').checked ? 'socratic' : 'off';
         
         const personalityTraits = Array.from(document.querySelectorAll('.personality-trait:checked'))
           .map(cb => cb.value).join(',');
@@ -842,7 +1251,9 @@ class TeenAIApp {
               name,
               description,
               systemPrompt,
-              personalityTraits
+              theologicalValues: tradition ? { tradition } : {},
+              personalityTraits,
+              tutoringMode
             }
           });
           
@@ -881,42 +1292,22 @@ function openConversation(conversationId, title, customGptId) {
 }
 
 // Voice Mode Implementation
+// Records with MediaRecorder and sends the clip to the server, which handles
+// transcription, safety checks and speech synthesis
 class VoiceMode {
   constructor() {
     this.isRecording = false;
-    this.recognition = null;
+    this.recorder = null;
+    this.chunks = [];
+    this.player = null;
     this.synthesis = window.speechSynthesis;
     this.currentVoice = null;
-    this.shouldSpeak = false; // Only speak when user explicitly uses voice mode
-    
-    this.initializeSpeechRecognition();
+
     this.initializeSpeechSynthesis();
   }
 
-  initializeSpeechRecognition() {
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-      this.recognition = new SpeechRecognition();
-      
-      this.recognition.continuous = false;
-      this.recognition.interimResults = false;
-      this.recognition.lang = 'en-US';
-      
-      this.recognition.onresult = (event) => {
-        const transcript = event.results[0][0].transcript;
-        this.handleSpeechResult(transcript);
-      };
-      
-      this.recognition.onerror = (event) => {
-        console.error('Speech recognition error:', event.error);
-        this.stopRecording();
-        app.showError('Voice recognition failed: ' + event.error);
-      };
-      
-      this.recognition.onend = () => {
-        this.stopRecording();
-      };
-    }
+  get supported() {
+    return Boolean(navigator.mediaDevices?.getUserMedia && window.MediaRecorder);
   }
 
   initializeSpeechSynthesis() {
@@ -940,56 +1331,86 @@ class VoiceMode {
     }
   }
 
-  startRecording() {
-    if (!this.recognition) {
-      app.showError('Voice recognition not supported in this browser');
+  async startRecording() {
+    if (!this.supported) {
+      app.showError('Voice recording not supported in this browser');
       return false;
     }
 
-    this.isRecording = true;
-    this.updateVoiceButton(true);
-    
     try {
-      this.recognition.start();
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.chunks = [];
+      this.recorder = new MediaRecorder(stream);
+
+      this.recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.chunks.push(event.data);
+        }
+      };
+
+      this.recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        const recording = new Blob(this.chunks, { type: this.recorder.mimeType.split(';')[0] });
+        if (recording.size > 0) {
+          app.sendVoiceMessage(recording);
+        }
+      };
+
+      this.recorder.start();
+      this.isRecording = true;
+      this.updateVoiceButton(true);
       return true;
     } catch (error) {
       console.error('Failed to start recording:', error);
+      app.showError('Could not access the microphone');
       this.stopRecording();
       return false;
     }
   }
 
   stopRecording() {
-    if (this.recognition && this.isRecording) {
-      this.recognition.stop();
+    if (this.recorder && this.recorder.state === 'recording') {
+      this.recorder.stop();
     }
     this.isRecording = false;
     this.updateVoiceButton(false);
   }
 
-  handleSpeechResult(transcript) {
-    console.log('Voice input:', transcript);
-    
-    // Set flag to speak responses when using voice input
-    this.shouldSpeak = true;
-    
-    // Insert the transcript into the message input and submit
-    const messageInput = document.getElementById('messageInput');
-    if (messageInput) {
-      messageInput.value = transcript;
-      // Auto-submit the voice message
-      const chatForm = document.getElementById('chatForm');
-      if (chatForm) {
-        chatForm.dispatchEvent(new Event('submit'));
-      }
+  // Audio URLs need the session header, so fetch the clip before playing it
+  async play(audioUrl) {
+    try {
+      const response = await axios(audioUrl, {
+        responseType: 'blob',
+        headers: { 'Authorization': `Bearer ${app.sessionId}` }
+      });
+
+      this.stopPlayback();
+      this.player = new Audio(URL.createObjectURL(response.data));
+      this.player.onended = () => URL.revokeObjectURL(this.player.src);
+      await this.player.play();
+    } catch (error) {
+      console.error('Failed to play audio:', error);
+      app.showError('Could not play that recording');
+    }
+  }
+
+  stopPlayback() {
+    if (this.player) {
+      this.player.pause();
+      URL.revokeObjectURL(this.player.src);
+      this.player = null;
+    }
+    if (this.synthesis) {
+      this.synthesis.cancel();
     }
   }
 
+  // Fallback when the server returns no audio for a reply
   speak(text) {
     if (!this.synthesis || !text) return;
 
     // Stop any current speech
-    this.synthesis.cancel();
+    this.stopPlayback();
 
     const utterance = new SpeechSynthesisUtterance(text);
     
@@ -1001,15 +1422,6 @@ class VoiceMode {
     utterance.pitch = 1.0;
     utterance.volume = 0.8;
     
-    // Add some personality to the voice
-    utterance.onstart = () => {
-      console.log('AI speaking...');
-    };
-    
-    utterance.onend = () => {
-      console.log('AI finished speaking');
-    };
-    
     this.synthesis.speak(utterance);
   }
 
@@ -1030,8 +1442,7 @@ class VoiceMode {
     if (this.isRecording) {
       this.stopRecording();
     } else {
-      // Reset speak flag when starting new voice session
-      this.shouldSpeak = false;
+      this.stopPlayback();
       this.startRecording();
     }
   }
@@ -1056,5 +1467,86 @@ async function markAlertRead(alertId) {
   }
 }
 
+async function decideLinkRequest(requestId, decision) {
+  try {
+    await app.apiCall(`/api/family/link-requests/${requestId}/${decision}`, {
+      method: 'POST'
+    });
+    await app.loadLinkRequests();
+    app.render();
+  } catch (error) {
+    console.error('Failed to update link request:', error);
+    app.showError(error.response?.data?.error || 'Failed to update link request');
+  }
+}
+
+async function createFamilyInvite() {
+  const teenEmail = prompt('Teen\'s email address (optional - leave blank to allow any email):');
+  if (teenEmail === null) return;
+  
+  try {
+    const invite = await app.apiCall('/api/family/invites', {
+      method: 'POST',
+      data: { teenEmail: teenEmail.trim() || undefined }
+    });
+    alert(`Invite code: ${invite.code}\n\nShare this code or link with your teen:\n${invite.link}\n\nExpires: ${new Date(invite.expiresAt + 'Z').toLocaleDateString()}`);
+  } catch (error) {
+    console.error('Failed to create invite:', error);
+    app.showError(error.response?.data?.error || 'Failed to create invite');
+  }
+}
+
+// Opens the latest archived weekly report in a new tab
+async function openWeeklyReport() {
+  try {
+    const reports = await app.apiCall('/api/reports');
+    if (!reports.length) {
+      alert('No weekly reports yet. The first one arrives after your first full week.');
+      return;
+    }
+
+    const html = await app.apiCall(`/api/reports/${reports[0].id}?format=html`);
+    window.open(URL.createObjectURL(new Blob([html], { type: 'text/html' })), '_blank');
+  } catch (error) {
+    console.error('Failed to load weekly report:', error);
+    app.showError(error.response?.data?.error || 'Failed to load weekly report');
+  }
+}
+
+// Subscribes this browser to push notifications for safety alerts
+async function enablePushAlerts() {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+    app.showError('This browser does not support push notifications');
+    return;
+  }
+
+  try {
+    const { pushPublicKey } = await app.apiCall('/api/alert-channels');
+    if (!pushPublicKey) {
+      app.showError('Push notifications are not set up on this server');
+      return;
+    }
+
+    if (await Notification.requestPermission() !== 'granted') {
+      app.showError('Notifications are blocked for this site');
+      return;
+    }
+
+    const registration = await navigator.serviceWorker.register('/static/sw.js');
+    const base64 = pushPublicKey.replace(/-/g, '+').replace(/_/g, '/');
+    const applicationServerKey = Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), char => char.charCodeAt(0));
+    const subscription = await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+
+    await app.apiCall('/api/alert-channels', {
+      method: 'POST',
+      data: { type: 'push', subscription: subscription.toJSON(), label: navigator.userAgent.slice(0, 60) }
+    });
+    alert('Safety alerts will now appear as notifications on this device.');
+  } catch (error) {
+    console.error('Failed to enable push alerts:', error);
+    app.showError(error.response?.data?.error || 'Failed to enable push alerts');
+  }
+}
+
 // Initialize the app
 const app = new TeenAIApp();
\ No newline at end of file
@@ -0,0 +1,26 @@
+// Teen AI Platform - Service worker for safety alert push notifications
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Teen AI Platform safety alert', {
+      body: data.body || 'Open your dashboard for details.',
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      requireInteraction: true,
+      data: { url: data.url || '/' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find(window => window.url.startsWith(url));
+      return open ? open.focus() : clients.openWindow(url);
+    })
+  );
+});
@@ -1,14 +1,67 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { serveStatic } from 'hono/cloudflare-workers'
-import { AIService } from './services/aiService'
+import { streamSSE } from 'hono/streaming'
 import { DatabaseService } from './services/databaseService'
+import { ChatContext, ChatService } from './services/chatService'
+import { createLLMProvider, validateModelSettings } from './services/llmService'
+import { CATEGORY_POLICIES, FILTER_LEVELS, validateCategoryOverrides } from './services/safetyService'
+import { REVIEW_REASONS, ReviewService, maskHeldMessages } from './services/reviewService'
+import {
+  AlertDispatcher, alertSettingsFrom, createAlertDispatcher, validateAlertChannel, validateAlertSettings
+} from './services/alertService'
+import {
+  CRISIS_CONTACT_ROLES, CrisisService, DEFAULT_COUNTRY, NATIONAL_HOTLINES,
+  isSupportedCountry, parseOrganizationContacts, validateCrisisContact
+} from './services/crisisService'
+import {
+  EXPORT_FORMATS, ExportService, RenderedExport, isExportFormat, parseExportRange
+} from './services/exportService'
+import {
+  ANALYTICS_RANGES, AnalyticsService, GRANULARITIES, isAnalyticsRange, isGranularity
+} from './services/analyticsService'
+import { createReportService } from './services/reportService'
+import { SearchService, parseSearchFilters } from './services/searchService'
+import { withCitations } from './services/scriptureService'
+import { VoiceService, audioKey, createAudioStore, createSpeechProvider, readRecording } from './services/voiceService'
+import { TOPIC_TAXONOMY, createTopicClassifier, validateAllowedTopics } from './services/topicService'
+import { TUTORING_MODES, TUTORING_SUBJECTS, isTutoringMode, validateTutoringSettings } from './services/tutoringService'
+import { MAX_FACTS, MemoryService, validateFact, validateSummary } from './services/memoryService'
+import { UsageAccount, budgetJson, createMeteringService, isUsageMonth, usageMonth, validateBudget } from './services/meteringService'
+import { AuthService, generateSecureToken, hashPassword, publicUser, timingSafeEqual, validatePasswordStrength } from './services/authService'
+import { createEmailSender } from './services/emailService'
+import { FamilyService, validateBirthdate } from './services/familyService'
+import { GptService, checkGptAccess, parseVersion, validateGptAudience } from './services/gptService'
+import { PackageService } from './services/packageService'
+import { DEFAULT_PERSPECTIVE, PERSPECTIVE_LABELS, compileTheologicalProfile, isTheologicalPerspective, theologySchema, validateTheologicalProfile } from './services/theologyService'
+import { UsageService, timeZoneFor, usageDateFor } from './services/usageService'
+import { checkAccess, isValidTimeZone, parseSchedule, validateSchedule } from './services/scheduleService'
 
 type Bindings = {
   DB: D1Database;
   KV: KVNamespace;
   OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_MODEL?: string;
+  ANTHROPIC_API_KEY?: string;
+  ANTHROPIC_BASE_URL?: string;
+  LLM_PROVIDER?: string;
+  TOPIC_CLASSIFIER?: string;
+  AUDIO?: R2Bucket;
+  VOICE_PROVIDER?: string;
+  TTS_VOICE?: string;
+  ORG_CRISIS_CONTACTS?: string;
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+  ALERT_DISPATCH_SECRET?: string;
+  PACKAGE_SIGNING_SECRET?: string;
+  MODEL_PRICES?: string;
+  FAMILY_MONTHLY_BUDGET_USD?: string;
   JWT_SECRET?: string;
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
+  APP_URL?: string;
 }
 
 const app = new Hono<{ Bindings: Bindings }>()
@@ -21,100 +74,107 @@ app.use('/static/*', serveStatic({ root: './public' }))
 
 // Utility functions
 function generateId(): string {
-  return Math.random().toString(36).substring(2) + Date.now().toString(36)
+  return generateSecureToken(12)
 }
 
-function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  return emailRegex.test(email)
+async function validateSession(db: D1Database, sessionId: string) {
+  return await new DatabaseService(db).validateSession(sessionId)
 }
 
-function generateEnhancedFallback(content: string, isFlagged: boolean = false): string {
-  if (isFlagged) {
-    return "I notice you might be going through something difficult. Remember that God loves you deeply, and there are people who care about you. If you're struggling, please talk to a trusted adult like your parents, a teacher, or a counselor. Is there something positive I can help you with instead?"
+// Base URL for emailed links. The request's Host header can be forged, so its origin is only
+// used for local development; deployed apps must set APP_URL.
+function appUrlFor(env: Bindings, requestUrl: string): string {
+  if (env.APP_URL) {
+    return env.APP_URL.replace(/\/$/, '')
   }
-  
-  const lowerContent = content.toLowerCase();
-  
-  if (lowerContent.includes('math') || lowerContent.includes('algebra') || lowerContent.includes('homework')) {
-    return `I'd love to help you with your math studies! Mathematics beautifully reflects God's perfect order and design throughout creation. When we solve equations, we're discovering the logical relationships that God built into reality itself.
-
-What specific math concept are you working on? Whether it's algebra, geometry, or another area, I'm here to walk through it step by step with you. Remember, Proverbs tells us that "the beginning of wisdom is the fear of the Lord" - and that includes using our minds to understand His mathematical design!
 
-What particular problem or concept would you like to explore together?`;
-  } else if (lowerContent.includes('bible') || lowerContent.includes('god') || lowerContent.includes('jesus') || lowerContent.includes('faith')) {
-    return `What a wonderful question about faith! I'm excited to explore God's Word with you. The Bible is our ultimate source of truth and wisdom, and Jesus said "Ask and it will be given to you; seek and you will find; knock and the door will be opened to you" (Matthew 7:7).
+  const url = new URL(requestUrl)
+  if (['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)) {
+    return url.origin
+  }
+  throw new Error('APP_URL is not set; it is required for the links in emails')
+}
 
-God's Word has so much to teach us about life, character, and how to live in a way that honors Him. Whether you're curious about a specific Bible verse, want to understand a biblical principle, or are seeking guidance on how faith applies to your daily life, I'm here to help.
+function createAuthService(env: Bindings, requestUrl: string): AuthService {
+  return new AuthService(new DatabaseService(env.DB), createEmailSender(env), appUrlFor(env, requestUrl))
+}
 
-What specific aspect of faith or Scripture would you like to dive into together?`;
-  } else if (lowerContent.includes('friend') || lowerContent.includes('relationship') || lowerContent.includes('social')) {
-    return `Relationships and friendships are such an important part of life, and God has a lot to say about how we should treat others! The Bible teaches us to "love one another as I have loved you" (John 13:34) and to be the kind of friend we'd want to have ourselves.
+function createFamilyService(env: Bindings, requestUrl: string): FamilyService {
+  return new FamilyService(new DatabaseService(env.DB), createEmailSender(env), appUrlFor(env, requestUrl))
+}
 
-Whether you're navigating friendship challenges, wondering how to be a better friend, or thinking about relationships in general, remember that God desires us to build connections that honor Him and help us grow in character.
+// Alerts raised while handling a request are sent after the response via waitUntil
+function requestAlertDispatcher(env: Bindings, requestUrl: string, ctx?: ExecutionContext): AlertDispatcher {
+  return createAlertDispatcher(env, appUrlFor(env, requestUrl), ctx && ((work) => ctx.waitUntil(work)))
+}
 
-What's on your heart about friendships or relationships? I'd love to help you think through it with biblical wisdom and practical guidance.`;
-  } else if (lowerContent.includes('science') || lowerContent.includes('nature') || lowerContent.includes('creation')) {
-    return `Science is amazing - it's one of the ways we get to explore and understand God's incredible creation! From the smallest atoms to the vastness of space, everything displays His wisdom, power, and creativity. As Psalm 19:1 says, "The heavens declare the glory of God; the skies proclaim the work of his hands."
+function createPackageService(env: Bindings, db: DatabaseService): PackageService {
+  return new PackageService(db, env.PACKAGE_SIGNING_SECRET || null)
+}
 
-Whether you're studying biology, chemistry, physics, or earth science, you're discovering the intricate designs and laws that God established. Science helps us understand HOW God's creation works, while the Bible tells us WHO created it and WHY.
+// Who pays for the AI and speech requests of a conversation
+function usageAccount(context: ChatContext): UsageAccount {
+  return {
+    parentId: context.user.parent_id as string,
+    teenId: context.conversation.teen_id as string,
+    customGptId: context.conversation.custom_gpt_id as string,
+    conversationId: context.conversation.id as string
+  }
+}
 
-What area of science are you curious about? I'd love to help you see both the scientific principles and the amazing way they point to our Creator!`;
-  } else {
-    return `I'm here to help you grow in wisdom and knowledge while keeping Christ at the center of our conversations! Whether you have questions about your studies, faith, relationships, or life in general, I want to provide guidance that's both practical and rooted in biblical truth.
+// AI requests are metered to the teen's family; once its monthly cap is reached, replies use the fallback responses
+async function createChatService(
+  env: Bindings,
+  db: DatabaseService,
+  context: ChatContext,
+  alerts: AlertDispatcher | null = null,
+  ctx?: ExecutionContext
+): Promise<ChatService> {
+  const { conversation } = context
+  const provider = await createMeteringService(env).providerFor(
+    createLLMProvider(env, conversation.model_provider as string | null),
+    usageAccount(context)
+  )
+  // Conversation summaries are written after the response via waitUntil
+  const memory = new MemoryService(db, provider, ctx && ((work) => ctx.waitUntil(work)))
+  return new ChatService(db, provider, createTopicClassifier(env, provider), alerts, createCrisisService(env, db), memory)
+}
 
-God has given you a wonderful mind and heart, and I'm excited to explore whatever questions or topics you're thinking about. The Bible reminds us that "if any of you lacks wisdom, you should ask God, who gives generously to all without finding fault, and it will be given to you" (James 1:5).
+function createCrisisService(env: Bindings, db: DatabaseService): CrisisService {
+  return new CrisisService(db, parseOrganizationContacts(env.ORG_CRISIS_CONTACTS))
+}
 
-What's on your mind today? What would you like to learn about or discuss?`;
+// For the scheduler endpoints; compared in constant time like passwords
+function isDispatchSecret(env: Bindings, secret: string | undefined): boolean {
+  if (!env.ALERT_DISPATCH_SECRET || !secret) {
+    return false
   }
+  const encoder = new TextEncoder()
+  return timingSafeEqual(encoder.encode(env.ALERT_DISPATCH_SECRET), encoder.encode(secret))
 }
 
-// Content filtering and safety functions
-async function checkContentSafety(content: string, parentalControls: any): Promise<{ isSafe: boolean, reason?: string, alertType?: string }> {
-  const lowerContent = content.toLowerCase()
-  
-  // Check for self-harm indicators
-  const selfHarmKeywords = ['kill myself', 'suicide', 'end my life', 'hurt myself', 'cut myself', 'self harm']
-  for (const keyword of selfHarmKeywords) {
-    if (lowerContent.includes(keyword)) {
-      return { isSafe: false, reason: `Self-harm language detected: "${keyword}"`, alertType: 'self_harm' }
-    }
-  }
-  
-  // Check for dangerous behavior
-  const dangerKeywords = ['drugs', 'alcohol', 'running away', 'meeting strangers', 'inappropriate content']
-  for (const keyword of dangerKeywords) {
-    if (lowerContent.includes(keyword)) {
-      return { isSafe: false, reason: `Dangerous content detected: "${keyword}"`, alertType: 'dangerous_behavior' }
-    }
-  }
-  
-  // Check blocked keywords from parental controls
-  if (parentalControls.blocked_keywords) {
-    const blockedKeywords = JSON.parse(parentalControls.blocked_keywords || '[]')
-    for (const keyword of blockedKeywords) {
-      if (lowerContent.includes(keyword.toLowerCase())) {
-        return { isSafe: false, reason: `Blocked keyword detected: "${keyword}"`, alertType: 'blocked_keyword' }
-      }
-    }
-  }
-  
-  return { isSafe: true }
+function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  return emailRegex.test(email)
 }
 
-async function sendSafetyAlert(db: D1Database, parentId: string, teenId: string, conversationId: string, messageId: string, alertType: string, reason: string) {
-  const alertId = generateId()
-  
-  await db.prepare(`
-    INSERT INTO safety_alerts (id, parent_id, teen_id, conversation_id, message_id, alert_type, alert_reason)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).bind(alertId, parentId, teenId, conversationId, messageId, alertType, reason).run()
+// Links a teen whose registration invite was waiting for their email address to be verified
+async function redeemHeldInvite(env: Bindings, requestUrl: string, user: Record<string, any>) {
+  const link = await createFamilyService(env, requestUrl).redeemHeldInvite(user)
+  if (!link) {
+    return {}
+  }
+  if (!link.success) {
+    return { linkStatus: null, linkError: link.error }
+  }
+  user.parent_id = link.parentId
+  return { linkStatus: 'linked' }
 }
 
 // Authentication routes
 app.post('/api/auth/register', async (c) => {
   const { env } = c
-  const { email, name, role, parentEmail } = await c.req.json()
+  const { email, name, role, parentEmail, inviteCode, password, birthdate } = await c.req.json()
   
   if (!email || !name || !role) {
     return c.json({ error: 'Missing required fields' }, 400)
@@ -128,23 +188,43 @@ app.post('/api/auth/register', async (c) => {
     return c.json({ error: 'Role must be parent or teen' }, 400)
   }
   
+  if (password) {
+    const passwordError = validatePasswordStrength(password)
+    if (passwordError) {
+      return c.json({ error: passwordError }, 400)
+    }
+  }
+  
+  // Optional for teens; parents can set or correct it later
+  const birthdateCheck = role === 'teen' && birthdate !== undefined ? validateBirthdate(birthdate) : { birthdate: null }
+  if ('error' in birthdateCheck) {
+    return c.json({ error: birthdateCheck.error }, 400)
+  }
+  
   try {
     const db = new DatabaseService(env.DB)
+    const family = createFamilyService(env, c.req.url)
     const userId = generateId()
-    let parentId = null
     
+    // Teens start unlinked: an invite code links them once their email address is verified,
+    // otherwise the parent has to approve a link request first
     if (role === 'teen') {
-      if (!parentEmail) {
-        return c.json({ error: 'Parent email required for teen accounts' }, 400)
+      if (!inviteCode && !parentEmail) {
+        return c.json({ error: 'Invite code or parent email required for teen accounts' }, 400)
       }
       
-      const parent = await db.getUserByEmail(parentEmail)
-      
-      if (!parent || parent.role !== 'parent') {
-        return c.json({ error: 'Parent account not found' }, 404)
+      if (inviteCode) {
+        const check = await family.checkInvite(inviteCode, email)
+        if (!check.success) {
+          return c.json({ error: check.error }, check.status)
+        }
+      } else {
+        const parent = await db.getUserByEmail(parentEmail)
+        
+        if (!parent || parent.role !== 'parent') {
+          return c.json({ error: 'Parent account not found' }, 404)
+        }
       }
-      
-      parentId = parent.id
     }
     
     await db.createUser({
@@ -152,24 +232,36 @@ app.post('/api/auth/register', async (c) => {
       email,
       name,
       role,
-      parentId
+      passwordHash: password ? await hashPassword(password) : null,
+      birthdate: birthdateCheck.birthdate
     })
     
-    // Create session
-    const sessionId = generateId()
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 30) // 30 days
+    const newUser = { id: userId, email, name, role, parent_id: null }
+    let linkStatus: 'pending_verification' | 'pending_approval' | null = null
+    let linkError: string | undefined
     
-    await db.createSession({
-      id: sessionId,
-      userId,
-      expiresAt: expiresAt.toISOString()
-    })
+    if (role === 'teen') {
+      const link = inviteCode
+        ? await family.holdInvite(newUser, inviteCode)
+        : await family.requestLink(newUser, parentEmail)
+      
+      if (link.success) {
+        linkStatus = inviteCode ? 'pending_verification' : 'pending_approval'
+      } else {
+        linkError = link.error
+      }
+    }
+    
+    // No session until the email address is confirmed
+    const auth = createAuthService(env, c.req.url)
+    await auth.sendVerificationEmail(newUser)
     
     return c.json({ 
       success: true, 
-      user: { id: userId, email, name, role, parentId },
-      sessionId 
+      user: { id: userId, email, name, role, parentId: null },
+      linkStatus,
+      linkError,
+      verificationRequired: true
     })
   } catch (error: any) {
     console.error('Registration error:', error)
@@ -180,43 +272,52 @@ app.post('/api/auth/register', async (c) => {
   }
 })
 
+app.post('/api/auth/verify-email', async (c) => {
+  const { env } = c
+  const { token } = await c.req.json()
+  
+  if (!token) {
+    return c.json({ error: 'Verification token required' }, 400)
+  }
+  
+  try {
+    const result = await createAuthService(env, c.req.url).verifyEmail(token)
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    const link = await redeemHeldInvite(env, c.req.url, result.user)
+    return c.json({ success: true, user: publicUser(result.user), sessionId: result.sessionId, ...link })
+  } catch (error) {
+    console.error('Email verification error:', error)
+    return c.json({ error: 'Email verification failed' }, 500)
+  }
+})
+
 app.post('/api/auth/login', async (c) => {
   const { env } = c
-  const { email } = await c.req.json()
+  const { email, password } = await c.req.json()
   
   if (!email || !isValidEmail(email)) {
     return c.json({ error: 'Valid email required' }, 400)
   }
   
+  if (!password) {
+    return c.json({ error: 'Password required' }, 400)
+  }
+  
   try {
-    const db = new DatabaseService(env.DB)
-    const user = await db.getUserByEmail(email)
+    const result = await createAuthService(env, c.req.url).loginWithPassword(email, password)
     
-    if (!user) {
-      return c.json({ error: 'User not found' }, 404)
+    if (!result.success) {
+      return c.json({ error: result.error, lockedUntil: result.lockedUntil }, result.status)
     }
     
-    // Create session
-    const sessionId = generateId()
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 30) // 30 days
-    
-    await db.createSession({
-      id: sessionId,
-      userId: user.id as string,
-      expiresAt: expiresAt.toISOString()
-    })
-    
     return c.json({ 
       success: true, 
-      user: { 
-        id: user.id, 
-        email: user.email, 
-        name: user.name, 
-        role: user.role, 
-        parentId: user.parent_id 
-      },
-      sessionId 
+      user: publicUser(result.user),
+      sessionId: result.sessionId 
     })
   } catch (error) {
     console.error('Login error:', error)
@@ -224,37 +325,102 @@ app.post('/api/auth/login', async (c) => {
   }
 })
 
-// Parental controls routes
-app.get('/api/parental-controls/:teenId', async (c) => {
+app.post('/api/auth/magic-link', async (c) => {
+  const { env } = c
+  const { email } = await c.req.json()
+  
+  if (!email || !isValidEmail(email)) {
+    return c.json({ error: 'Valid email required' }, 400)
+  }
+  
+  try {
+    await createAuthService(env, c.req.url).sendMagicLink(email)
+    
+    // Same answer whether or not the account exists
+    return c.json({ success: true, message: 'If that email has an account, a sign-in link is on its way' })
+  } catch (error) {
+    console.error('Magic link error:', error)
+    return c.json({ error: 'Failed to send sign-in link' }, 500)
+  }
+})
+
+app.post('/api/auth/magic-link/verify', async (c) => {
+  const { env } = c
+  const { token } = await c.req.json()
+  
+  if (!token) {
+    return c.json({ error: 'Sign-in token required' }, 400)
+  }
+  
+  try {
+    const result = await createAuthService(env, c.req.url).loginWithMagicLink(token)
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    const link = await redeemHeldInvite(env, c.req.url, result.user)
+    return c.json({ success: true, user: publicUser(result.user), sessionId: result.sessionId, ...link })
+  } catch (error) {
+    console.error('Magic link sign-in error:', error)
+    return c.json({ error: 'Sign-in failed' }, 500)
+  }
+})
+
+app.post('/api/auth/logout', async (c) => {
   const { env } = c
-  const teenId = c.req.param('teenId')
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
   if (!sessionId) {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  const user = await validateSession(env.DB, sessionId)
-  if (!user) {
-    return c.json({ error: 'Invalid session' }, 401)
+  await createAuthService(env, c.req.url).logout(sessionId)
+  return c.json({ success: true })
+})
+
+// Family linking routes
+app.get('/api/family/teens', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
   }
   
-  if (user.role !== 'parent') {
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
     return c.json({ error: 'Parent access required' }, 403)
   }
   
-  const controls = await env.DB.prepare(`
-    SELECT * FROM parental_controls WHERE parent_id = ? AND teen_id = ?
-  `).bind(user.id, teenId).first()
+  const teens = await db.getFamilyTeens(user.id as string)
+  return c.json(teens.results || [])
+})
+
+app.get('/api/family/status', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
-  if (!controls) {
-    return c.json({ error: 'Parental controls not found' }, 404)
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
   }
   
-  return c.json(controls)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'teen') {
+    return c.json({ error: 'Teen access required' }, 403)
+  }
+  
+  const requests = await db.getLinkRequestsByTeen(user.id as string)
+  return c.json({
+    linked: !!user.parent_id,
+    parentId: user.parent_id,
+    requests: requests.results || []
+  })
 })
 
-app.post('/api/parental-controls', async (c) => {
+app.post('/api/family/invites', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
@@ -267,45 +433,85 @@ app.post('/api/parental-controls', async (c) => {
     return c.json({ error: 'Parent access required' }, 403)
   }
   
-  const { 
-    teenId, 
-    theologicalPerspective = 'conservative-christian',
-    contentFilterLevel = 'strict',
-    allowedTopics = [],
-    blockedKeywords = [],
-    safetyAlertsEnabled = true,
-    chatReviewRequired = true,
-    voiceModeEnabled = true,
-    dailyTimeLimit = 120
-  } = await c.req.json()
+  const { teenEmail, expiresInDays } = await c.req.json().catch(() => ({}))
   
-  if (!teenId) {
-    return c.json({ error: 'Teen ID required' }, 400)
+  if (teenEmail && !isValidEmail(teenEmail)) {
+    return c.json({ error: 'Invalid email format' }, 400)
   }
   
-  const controlsId = generateId()
-  
   try {
-    await env.DB.prepare(`
-      INSERT OR REPLACE INTO parental_controls (
-        id, parent_id, teen_id, theological_perspective, content_filter_level,
-        allowed_topics, blocked_keywords, safety_alerts_enabled, 
-        chat_review_required, voice_mode_enabled, daily_time_limit
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      controlsId, user.id, teenId, theologicalPerspective, contentFilterLevel,
-      JSON.stringify(allowedTopics), JSON.stringify(blockedKeywords),
-      safetyAlertsEnabled, chatReviewRequired, voiceModeEnabled, dailyTimeLimit
-    ).run()
-    
-    return c.json({ success: true, id: controlsId })
+    const invite = await createFamilyService(env, c.req.url).createInvite(user.id as string, { teenEmail, expiresInDays })
+    return c.json(invite)
   } catch (error) {
-    return c.json({ error: 'Failed to save parental controls' }, 500)
+    console.error('Failed to create invite:', error)
+    return c.json({ error: 'Failed to create invite' }, 500)
   }
 })
 
-// Custom GPT routes
-app.get('/api/custom-gpts', async (c) => {
+app.get('/api/family/invites', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const invites = await db.getFamilyInvitesByParent(user.id as string)
+  return c.json(invites.results || [])
+})
+
+app.delete('/api/family/invites/:inviteId', async (c) => {
+  const { env } = c
+  const inviteId = c.req.param('inviteId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  await db.revokeFamilyInvite(inviteId, user.id as string)
+  return c.json({ success: true })
+})
+
+app.post('/api/family/invites/redeem', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'teen') {
+    return c.json({ error: 'Teen access required' }, 403)
+  }
+  
+  const { code } = await c.req.json()
+  if (!code) {
+    return c.json({ error: 'Invite code required' }, 400)
+  }
+  
+  const result = await createFamilyService(env, c.req.url).redeemInvite(user, code)
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
+  
+  return c.json(result)
+})
+
+app.post('/api/family/link-requests', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
@@ -313,28 +519,2092 @@ app.get('/api/custom-gpts', async (c) => {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'teen') {
+    return c.json({ error: 'Teen access required' }, 403)
+  }
+  
+  const { parentEmail } = await c.req.json()
+  if (!parentEmail || !isValidEmail(parentEmail)) {
+    return c.json({ error: 'Valid parent email required' }, 400)
+  }
+  
   try {
-    const db = new DatabaseService(env.DB)
-    const user = await db.validateSession(sessionId)
-    
-    if (!user) {
-      return c.json({ error: 'Invalid session' }, 401)
-    }
-    
-    let parentId = user.id
-    if (user.role === 'teen') {
-      parentId = user.parent_id
+    const result = await createFamilyService(env, c.req.url).requestLink(user, parentEmail)
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status)
     }
     
-    const gpts = await db.getCustomGPTsByParent(parentId)
-    return c.json(gpts.results || [])
+    return c.json(result)
   } catch (error) {
-    console.error('Failed to get custom GPTs:', error)
-    return c.json({ error: 'Failed to load AI assistants' }, 500)
+    console.error('Failed to request family link:', error)
+    return c.json({ error: 'Failed to send link request' }, 500)
+  }
+})
+
+app.get('/api/family/link-requests', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const requests = await db.getPendingLinkRequestsByParent(user.id as string)
+  return c.json(requests.results || [])
+})
+
+app.post('/api/family/link-requests/:requestId/:decision{approve|reject}', async (c) => {
+  const { env } = c
+  const requestId = c.req.param('requestId')
+  const decision = c.req.param('decision')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const result = await createFamilyService(env, c.req.url).decideRequest(user.id as string, requestId, decision === 'approve')
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
+  
+  return c.json({ success: true })
+})
+
+app.post('/api/family/teens/:teenId/:action{unlink|deactivate|reactivate}', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const action = c.req.param('action')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const family = createFamilyService(env, c.req.url)
+  const result = action === 'unlink'
+    ? await family.unlinkTeen(user.id as string, teenId)
+    : await family.setTeenActive(user.id as string, teenId, action === 'reactivate')
+  
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
+  
+  return c.json({ success: true })
+})
+
+// Used for age-limited GPTs; null clears it
+app.put('/api/family/teens/:teenId/birthdate', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const { birthdate } = await c.req.json()
+  const check = validateBirthdate(birthdate)
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  const result = await createFamilyService(env, c.req.url).setTeenBirthdate(user.id as string, teenId, check.birthdate)
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
+  
+  return c.json({ success: true, birthdate: check.birthdate })
+})
+
+// Lasting facts the AI remembers about a teen, e.g. "Studying Algebra II". They're only used,
+// and only collected from conversations, while memoryEnabled is on in the teen's parental controls.
+app.get('/api/family/teens/:teenId/memory', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  if (!await db.getFamilyTeen(user.id as string, teenId)) {
+    return c.json({ error: 'Teen not found' }, 404)
+  }
+  
+  const controls = await db.getParentalControls(user.id as string, teenId)
+  const facts = await db.getTeenMemories(teenId)
+  return c.json({ enabled: Boolean(controls?.memory_enabled), facts: facts.results || [] })
+})
+
+app.post('/api/family/teens/:teenId/memory', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  if (!await db.getFamilyTeen(user.id as string, teenId)) {
+    return c.json({ error: 'Teen not found' }, 404)
+  }
+  
+  const { fact } = await c.req.json()
+  const check = validateFact(fact)
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  const existing = await db.getTeenMemories(teenId)
+  if ((existing.results || []).length >= MAX_FACTS) {
+    return c.json({ error: `A teen can have at most ${MAX_FACTS} remembered facts; remove one first` }, 400)
+  }
+  
+  const factId = generateId()
+  await db.addTeenMemory(factId, teenId, check.fact, 'parent')
+  return c.json({ success: true, id: factId, fact: check.fact })
+})
+
+app.put('/api/family/teens/:teenId/memory/:factId', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const factId = c.req.param('factId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  if (!await db.getFamilyTeen(user.id as string, teenId)) {
+    return c.json({ error: 'Teen not found' }, 404)
+  }
+  
+  const { fact } = await c.req.json()
+  const check = validateFact(fact)
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  const result = await db.updateTeenMemory(factId, teenId, check.fact)
+  if (!result.meta.changes) {
+    return c.json({ error: 'Fact not found' }, 404)
+  }
+  
+  return c.json({ success: true, fact: check.fact })
+})
+
+// Forget one fact, or everything with DELETE /memory
+app.delete('/api/family/teens/:teenId/memory/:factId?', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const factId = c.req.param('factId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  if (!await db.getFamilyTeen(user.id as string, teenId)) {
+    return c.json({ error: 'Teen not found' }, 404)
+  }
+  
+  if (!factId) {
+    const result = await db.clearTeenMemories(teenId)
+    return c.json({ success: true, removed: result.meta.changes })
+  }
+  
+  const result = await db.deleteTeenMemory(factId, teenId)
+  if (!result.meta.changes) {
+    return c.json({ error: 'Fact not found' }, 404)
+  }
+  
+  return c.json({ success: true })
+})
+
+// Parental controls routes
+app.get('/api/parental-controls/:teenId', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user) {
+    return c.json({ error: 'Invalid session' }, 401)
+  }
+  
+  if (user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const controls = await env.DB.prepare(`
+    SELECT * FROM parental_controls WHERE parent_id = ? AND teen_id = ?
+  `).bind(user.id, teenId).first()
+  
+  if (!controls) {
+    return c.json({ error: 'Parental controls not found' }, 404)
+  }
+  
+  return c.json(controls)
+})
+
+// Filter categories and what each filter level does with them, for building the controls form
+app.get('/api/safety/categories', async (c) => {
+  return c.json({
+    levels: FILTER_LEVELS,
+    categories: Object.entries(CATEGORY_POLICIES).map(([id, definition]) => ({ id, ...definition }))
+  })
+})
+
+// Topics parents can choose from for allowedTopics (an empty list allows everything)
+app.get('/api/topics', async (c) => {
+  return c.json(Object.entries(TOPIC_TAXONOMY).map(([id, topic]) => ({ id, label: topic.label })))
+})
+
+// Subjects parents can set a tutoring mode for in tutoringSettings
+app.get('/api/tutoring/subjects', async (c) => {
+  return c.json({
+    modes: TUTORING_MODES,
+    subjects: Object.entries(TUTORING_SUBJECTS).map(([id, subject]) => ({ id, label: subject.label }))
+  })
+})
+
+// The theological profile schema and tradition presets, for building the GPT form
+app.get('/api/theology', async (c) => {
+  return c.json(theologySchema())
+})
+
+// The prompt text a profile compiles to, for previewing before saving
+app.post('/api/theology/preview', async (c) => {
+  const { theologicalValues = {}, theologicalPerspective = DEFAULT_PERSPECTIVE } = await c.req.json()
+
+  if (!isTheologicalPerspective(theologicalPerspective)) {
+    return c.json({ error: `Theological perspective must be one of ${Object.keys(PERSPECTIVE_LABELS).join(', ')}` }, 400)
+  }
+
+  const theology = validateTheologicalProfile(theologicalValues)
+  if ('error' in theology) {
+    return c.json({ error: theology.error }, 400)
+  }
+
+  return c.json({
+    profile: theology.profile,
+    prompt: compileTheologicalProfile(theology.profile, theologicalPerspective)
+  })
+})
+
+app.post('/api/parental-controls', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const { 
+    teenId, 
+    theologicalPerspective = DEFAULT_PERSPECTIVE,
+    contentFilterLevel = 'strict',
+    allowedTopics = [],
+    blockedKeywords = [],
+    safetyAlertsEnabled = true,
+    chatReviewRequired = true,
+    voiceModeEnabled = true,
+    dailyTimeLimit = 120,
+    timezone = 'UTC',
+    accessSchedule = { windows: [] },
+    categoryOverrides = {},
+    reviewFlagged = true,
+    reviewNewGptSessions = false,
+    holdFlaggedReplies = false,
+    country = DEFAULT_COUNTRY,
+    tutoringSettings = {},
+    memoryEnabled = false
+  } = await c.req.json()
+  
+  if (!teenId) {
+    return c.json({ error: 'Teen ID required' }, 400)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  if (!await db.getFamilyTeen(user.id as string, teenId)) {
+    return c.json({ error: 'Teen not found' }, 404)
+  }
+  
+  if (!isTheologicalPerspective(theologicalPerspective)) {
+    return c.json({ error: `Theological perspective must be one of ${Object.keys(PERSPECTIVE_LABELS).join(', ')}` }, 400)
+  }
+  
+  if (!FILTER_LEVELS.includes(contentFilterLevel)) {
+    return c.json({ error: `Content filter level must be one of ${FILTER_LEVELS.join(', ')}` }, 400)
+  }
+  
+  const overridesCheck = validateCategoryOverrides(categoryOverrides)
+  if ('error' in overridesCheck) {
+    return c.json({ error: overridesCheck.error }, 400)
+  }
+  
+  const topicsCheck = validateAllowedTopics(allowedTopics)
+  if ('error' in topicsCheck) {
+    return c.json({ error: topicsCheck.error }, 400)
+  }
+  
+  if (!isValidTimeZone(timezone)) {
+    return c.json({ error: 'Unknown timezone' }, 400)
+  }
+  
+  if (!isSupportedCountry(country)) {
+    return c.json({ error: `Country must be one of ${Object.keys(NATIONAL_HOTLINES).join(', ')}` }, 400)
+  }
+  
+  const scheduleCheck = validateSchedule(accessSchedule)
+  if ('error' in scheduleCheck) {
+    return c.json({ error: scheduleCheck.error }, 400)
+  }
+  
+  const tutoringCheck = validateTutoringSettings(tutoringSettings)
+  if ('error' in tutoringCheck) {
+    return c.json({ error: tutoringCheck.error }, 400)
+  }
+  
+  const controlsId = generateId()
+  
+  try {
+    await db.createOrUpdateParentalControls({
+      id: controlsId,
+      parentId: user.id as string,
+      teenId,
+      theologicalPerspective,
+      contentFilterLevel,
+      allowedTopics: JSON.stringify(topicsCheck.topics),
+      blockedKeywords: JSON.stringify(blockedKeywords),
+      safetyAlertsEnabled,
+      chatReviewRequired,
+      voiceModeEnabled,
+      dailyTimeLimit,
+      timezone,
+      accessSchedule: JSON.stringify(scheduleCheck.schedule),
+      categoryOverrides: JSON.stringify(overridesCheck.overrides),
+      reviewFlagged,
+      reviewNewGptSessions,
+      holdFlaggedReplies,
+      country,
+      tutoringSettings: JSON.stringify(tutoringCheck.settings),
+      memoryEnabled: Boolean(memoryEnabled)
+    })
+    
+    return c.json({ success: true, id: controlsId })
+  } catch (error) {
+    return c.json({ error: 'Failed to save parental controls' }, 500)
+  }
+})
+
+// Custom GPT routes
+app.get('/api/custom-gpts', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user) {
+      return c.json({ error: 'Invalid session' }, 401)
+    }
+    
+    if (user.role === 'teen') {
+      // Unlinked teens see nothing until a parent approves them
+      if (!user.parent_id) {
+        return c.json([])
+      }
+      
+      // Only GPTs assigned to this teen and right for their age
+      const parentalControls = await db.getParentalControlsByTeen(user.id as string)
+      return c.json(await new GptService(db).availableTo(user, usageDateFor(new Date(), timeZoneFor(parentalControls))))
+    }
+    
+    // Parents can include deactivated GPTs, to restore them
+    const gpts = await db.getCustomGPTsByParent(user.id as string, c.req.query('include') === 'inactive')
+    return c.json(gpts.results || [])
+  } catch (error) {
+    console.error('Failed to get custom GPTs:', error)
+    return c.json({ error: 'Failed to load AI assistants' }, 500)
+  }
+})
+
+app.post('/api/custom-gpts', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const { 
+      name, 
+      description, 
+      systemPrompt, 
+      theologicalValues = {},
+      educationalFocus = [],
+      personalityTraits = 'encouraging,wise,patient',
+      teenIds,
+      minAge,
+      maxAge,
+      tutoringMode = 'off',
+      ...modelInput
+    } = await c.req.json()
+    
+    if (!name || !systemPrompt) {
+      return c.json({ error: 'Name and system prompt required' }, 400)
+    }
+    
+    if (!isTutoringMode(tutoringMode)) {
+      return c.json({ error: `Tutoring mode must be one of ${TUTORING_MODES.join(', ')}` }, 400)
+    }
+    
+    const theology = validateTheologicalProfile(theologicalValues)
+    if ('error' in theology) {
+      return c.json({ error: theology.error }, 400)
+    }
+    
+    const modelSettings = validateModelSettings(modelInput)
+    if ('error' in modelSettings) {
+      return c.json({ error: modelSettings.error }, 400)
+    }
+    
+    // Without teenIds the GPT is open to every teen in the family
+    const audience = validateGptAudience({ teenIds, minAge, maxAge })
+    if ('error' in audience) {
+      return c.json({ error: audience.error }, 400)
+    }
+    const unknownTeens = await new GptService(db).unknownTeens(user.id as string, audience.audience.teenIds)
+    if (unknownTeens) {
+      return c.json({ error: unknownTeens }, 400)
+    }
+    
+    const gptId = generateId()
+    
+    await db.createCustomGPT({
+      id: gptId,
+      parentId: user.id,
+      name,
+      description: description || '',
+      systemPrompt,
+      theologicalValues: JSON.stringify(theology.profile),
+      educationalFocus: JSON.stringify(educationalFocus),
+      personalityTraits,
+      tutoringMode,
+      ...modelSettings.settings,
+      ...audience.audience
+    })
+    
+    return c.json({ success: true, id: gptId })
+  } catch (error) {
+    console.error('Failed to create custom GPT:', error)
+    return c.json({ error: 'Failed to create custom GPT: ' + error.message }, 500)
+  }
+})
+
+// Edit a GPT, including its model choice and generation settings (null resets a setting to the default)
+app.put('/api/custom-gpts/:gptId', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const {
+      name,
+      description,
+      systemPrompt,
+      theologicalValues,
+      educationalFocus,
+      personalityTraits,
+      minAge,
+      maxAge,
+      tutoringMode,
+      ...modelInput
+    } = await c.req.json()
+    
+    if (name === '' || systemPrompt === '') {
+      return c.json({ error: 'Name and system prompt cannot be empty' }, 400)
+    }
+    
+    if (tutoringMode !== undefined && !isTutoringMode(tutoringMode)) {
+      return c.json({ error: `Tutoring mode must be one of ${TUTORING_MODES.join(', ')}` }, 400)
+    }
+    
+    const theology = theologicalValues === undefined ? undefined : validateTheologicalProfile(theologicalValues)
+    if (theology && 'error' in theology) {
+      return c.json({ error: theology.error }, 400)
+    }
+    
+    const modelSettings = validateModelSettings(modelInput)
+    if ('error' in modelSettings) {
+      return c.json({ error: modelSettings.error }, 400)
+    }
+    
+    // Teens are changed through /api/custom-gpts/:gptId/assignments
+    const current = await db.getParentCustomGPT(gptId, user.id as string)
+    const ageLimits = validateGptAudience({ minAge, maxAge }, current || {})
+    if ('error' in ageLimits) {
+      return c.json({ error: ageLimits.error }, 400)
+    }
+    
+    const updated = await db.updateCustomGPT(gptId, user.id as string, {
+      name,
+      description,
+      systemPrompt,
+      theologicalValues: theology && JSON.stringify(theology.profile),
+      educationalFocus: educationalFocus === undefined ? undefined : JSON.stringify(educationalFocus),
+      personalityTraits,
+      tutoringMode,
+      ...modelSettings.settings,
+      ...ageLimits.audience
+    })
+    
+    if (!updated) {
+      return c.json({ error: 'Custom GPT not found' }, 404)
+    }
+    
+    return c.json({ success: true, gpt: await db.getCustomGPTById(gptId) })
+  } catch (error) {
+    console.error('Failed to update custom GPT:', error)
+    return c.json({ error: 'Failed to update custom GPT' }, 500)
+  }
+})
+
+// Deactivate a GPT: teens can no longer see it or chat with it; history and conversations are kept
+app.delete('/api/custom-gpts/:gptId', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    if (!(await db.setCustomGPTActive(gptId, user.id as string, false))) {
+      return c.json({ error: 'Custom GPT not found' }, 404)
+    }
+    
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Failed to deactivate custom GPT:', error)
+    return c.json({ error: 'Failed to deactivate custom GPT' }, 500)
+  }
+})
+
+app.post('/api/custom-gpts/:gptId/restore', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    if (!(await db.setCustomGPTActive(gptId, user.id as string, true))) {
+      return c.json({ error: 'Deactivated custom GPT not found' }, 404)
+    }
+    
+    return c.json({ success: true, gpt: await db.getCustomGPTById(gptId) })
+  } catch (error) {
+    console.error('Failed to restore custom GPT:', error)
+    return c.json({ error: 'Failed to restore custom GPT' }, 500)
+  }
+})
+
+// Version history of a GPT's instructions, newest first
+app.get('/api/custom-gpts/:gptId/versions', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const gpt = await db.getParentCustomGPT(gptId, user.id as string)
+    if (!gpt) {
+      return c.json({ error: 'Custom GPT not found' }, 404)
+    }
+    
+    const versions = await db.getGPTVersions(gptId)
+    return c.json({ currentVersion: gpt.version, versions: versions.results || [] })
+  } catch (error) {
+    console.error('Failed to get GPT versions:', error)
+    return c.json({ error: 'Failed to load version history' }, 500)
+  }
+})
+
+app.get('/api/custom-gpts/:gptId/versions/:version', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const version = parseVersion(c.req.param('version'))
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const gpt = await db.getParentCustomGPT(gptId, user.id as string)
+    const found = gpt && version ? await db.getGPTVersion(gptId, version) : null
+    if (!found) {
+      return c.json({ error: 'Version not found' }, 404)
+    }
+    
+    return c.json(found)
+  } catch (error) {
+    console.error('Failed to get GPT version:', error)
+    return c.json({ error: 'Failed to load version' }, 500)
+  }
+})
+
+// What changed between two versions (to defaults to the current one)
+app.get('/api/custom-gpts/:gptId/diff', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const from = parseVersion(c.req.query('from'))
+  const to = c.req.query('to') === undefined ? null : parseVersion(c.req.query('to'))
+  if (!from || (c.req.query('to') !== undefined && !to)) {
+    return c.json({ error: 'from (and to, if given) must be version numbers' }, 400)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const result = await new GptService(db).diff(gptId, user.id as string, from, to)
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    return c.json(result.diff)
+  } catch (error) {
+    console.error('Failed to diff GPT versions:', error)
+    return c.json({ error: 'Failed to compare versions' }, 500)
+  }
+})
+
+// Bring back an earlier version's instructions; this is recorded as a new version
+app.post('/api/custom-gpts/:gptId/rollback', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const { version } = await c.req.json()
+    const target = parseVersion(version)
+    if (!target) {
+      return c.json({ error: 'A version number is required' }, 400)
+    }
+    
+    const result = await new GptService(db).rollback(gptId, user.id as string, target)
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    return c.json({ success: true, gpt: result.gpt, versionCreated: result.versionCreated })
+  } catch (error) {
+    console.error('Failed to roll back custom GPT:', error)
+    return c.json({ error: 'Failed to roll back custom GPT' }, 500)
+  }
+})
+
+// Download a GPT as a shareable package; ?settingsFrom=<teenId> adds that teen's filter settings as recommendations
+app.get('/api/custom-gpts/:gptId/export', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const result = await createPackageService(env, db).exportGpt(user.id as string, gptId, c.req.query('settingsFrom') || null)
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    const filename = result.pkg.gpt.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'gpt'
+    c.header('Content-Disposition', `attachment; filename="${filename}.gpt.json"`)
+    return c.json(result.pkg)
+  } catch (error) {
+    console.error('Failed to export custom GPT:', error)
+    return c.json({ error: 'Failed to export custom GPT' }, 500)
+  }
+})
+
+// What importing { package } or { librarySlug } would do, as a new GPT or over targetGptId
+app.post('/api/custom-gpts/import/preview', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const body = await c.req.json()
+    const packages = createPackageService(env, db)
+    const resolved = await packages.resolve(body)
+    if ('error' in resolved) {
+      return c.json({ error: resolved.error, details: resolved.details }, resolved.status)
+    }
+    
+    const result = await packages.preview(user.id as string, resolved.pkg, body.targetGptId || null)
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    return c.json(result.preview)
+  } catch (error) {
+    console.error('Failed to preview GPT import:', error)
+    return c.json({ error: 'Failed to preview import' }, 500)
+  }
+})
+
+// Imports { package } or { librarySlug } as a new GPT, or over targetGptId (saving a new version)
+app.post('/api/custom-gpts/import', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const body = await c.req.json()
+    const packages = createPackageService(env, db)
+    const resolved = await packages.resolve(body)
+    if ('error' in resolved) {
+      return c.json({ error: resolved.error, details: resolved.details }, resolved.status)
+    }
+    
+    const result = await packages.importPackage(user.id as string, resolved.pkg, body.targetGptId || null, generateId())
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    return c.json({ success: true, id: result.gptId, action: result.action, versionCreated: result.versionCreated })
+  } catch (error) {
+    console.error('Failed to import custom GPT:', error)
+    return c.json({ error: 'Failed to import custom GPT' }, 500)
+  }
+})
+
+// Curated GPTs, read-only; import one with POST /api/custom-gpts/import { librarySlug }
+app.get('/api/library', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  return c.json(createPackageService(env, db).library())
+})
+
+app.get('/api/library/:slug', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const pkg = await createPackageService(env, db).libraryPackage(c.req.param('slug'))
+  if (!pkg) {
+    return c.json({ error: 'Library GPT not found' }, 404)
+  }
+  
+  return c.json(pkg)
+})
+
+// Which teens can use a GPT: allTeens, or only the listed ones
+app.get('/api/custom-gpts/:gptId/assignments', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const gpt = await db.getParentCustomGPT(gptId, user.id as string)
+    if (!gpt) {
+      return c.json({ error: 'Custom GPT not found' }, 404)
+    }
+    
+    const assignments = await db.getGPTAssignments(gptId)
+    return c.json({
+      allTeens: Boolean(gpt.assigned_to_all),
+      teens: gpt.assigned_to_all ? [] : assignments.results || [],
+      minAge: gpt.min_age,
+      maxAge: gpt.max_age
+    })
+  } catch (error) {
+    console.error('Failed to get GPT assignments:', error)
+    return c.json({ error: 'Failed to load assignments' }, 500)
+  }
+})
+
+// { teenIds: [...] } limits the GPT to those teens; { teenIds: null } opens it to every teen
+app.put('/api/custom-gpts/:gptId/assignments', async (c) => {
+  const { env } = c
+  const gptId = c.req.param('gptId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const { teenIds } = await c.req.json()
+    const audience = validateGptAudience({ teenIds })
+    if ('error' in audience || audience.audience.teenIds === undefined) {
+      return c.json({ error: 'error' in audience ? audience.error : 'teenIds is required' }, 400)
+    }
+    
+    const result = await new GptService(db).assign(gptId, user.id as string, audience.audience.teenIds)
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status)
+    }
+    
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Failed to assign custom GPT:', error)
+    return c.json({ error: 'Failed to update assignments' }, 500)
+  }
+})
+
+// Chat routes
+app.get('/api/conversations', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user) {
+      return c.json({ error: 'Invalid session' }, 401)
+    }
+    
+    let conversations
+    
+    if (user.role === 'parent') {
+      // Parents can see all conversations of their teens
+      conversations = await db.getConversationsByParent(user.id)
+    } else {
+      // Teens can only see their own conversations
+      conversations = await db.getConversationsByTeen(user.id)
+    }
+    
+    return c.json(conversations.results || [])
+  } catch (error) {
+    console.error('Failed to get conversations:', error)
+    return c.json({ error: 'Failed to load conversations' }, 500)
+  }
+})
+
+app.post('/api/conversations', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'teen') {
+      return c.json({ error: 'Teen access required' }, 403)
+    }
+    
+    if (!user.parent_id) {
+      return c.json({ error: 'Your account is waiting for parent approval' }, 403)
+    }
+    
+    const { customGptId, title } = await c.req.json()
+    
+    if (!customGptId || !title) {
+      return c.json({ error: 'Custom GPT ID and title required' }, 400)
+    }
+    
+    // Verify the custom GPT exists and belongs to the teen's parent
+    const customGpt = await db.getCustomGPTForTeen(customGptId, user.id as string)
+    if (!customGpt || customGpt.parent_id !== user.parent_id) {
+      return c.json({ error: 'AI assistant not found or not authorized' }, 404)
+    }
+    
+    const parentalControls = await db.getParentalControlsByTeen(user.id as string)
+    
+    // Only assigned GPTs, within their age limits
+    const gptAccess = checkGptAccess(
+      customGpt,
+      user.birthdate as string | null,
+      usageDateFor(new Date(), timeZoneFor(parentalControls))
+    )
+    if (!gptAccess.allowed) {
+      return c.json({ error: gptAccess.reason }, 403)
+    }
+    
+    // Respect scheduled access windows
+    const access = checkAccess(
+      parseSchedule(parentalControls?.access_schedule as string),
+      timeZoneFor(parentalControls),
+      new Date(),
+      customGptId
+    )
+    if (!access.allowed) {
+      return c.json({ error: access.reason, schedule: access }, 403)
+    }
+    
+    const conversationId = generateId()
+    
+    await db.createConversation({
+      id: conversationId,
+      teenId: user.id,
+      customGptId,
+      title
+    })
+    
+    await new ReviewService(db).conversationStarted(conversationId, user.id as string, customGptId, parentalControls)
+    
+    return c.json({ success: true, id: conversationId })
+  } catch (error) {
+    console.error('Failed to create conversation:', error)
+    return c.json({ error: 'Failed to create conversation: ' + error.message }, 500)
+  }
+})
+
+app.get('/api/conversations/:conversationId/messages', async (c) => {
+  const { env } = c
+  const conversationId = c.req.param('conversationId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user) {
+    return c.json({ error: 'Invalid session' }, 401)
+  }
+  
+  // Verify user has access to this conversation
+  let accessQuery = ''
+  if (user.role === 'parent') {
+    accessQuery = `
+      SELECT c.* FROM conversations c
+      JOIN users u ON c.teen_id = u.id
+      WHERE c.id = ? AND u.parent_id = ?
+    `
+  } else {
+    accessQuery = `
+      SELECT * FROM conversations WHERE id = ? AND teen_id = ?
+    `
+  }
+  
+  const conversation = await env.DB.prepare(accessQuery).bind(conversationId, user.id).first()
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+  
+  const messages = await env.DB.prepare(`
+    SELECT * FROM messages WHERE conversation_id = ?
+    ORDER BY created_at ASC, rowid ASC
+  `).bind(conversationId).all()
+  
+  // Parents see held replies so they can decide whether to release them
+  return c.json(withCitations(user.role === 'teen' ? maskHeldMessages(messages.results) : messages.results))
+})
+
+// Shared checks for both message routes: ownership, parental controls, access windows and time budget
+async function prepareChat(db: DatabaseService, user: Record<string, any>, conversationId: string) {
+  // Verify teen owns this conversation and get conversation details
+  const conversation = await db.getConversationById(conversationId)
+  
+  if (!conversation || conversation.teen_id !== user.id) {
+    return { error: { error: 'Conversation not found' }, status: 404 as const }
+  }
+  
+  if (!conversation.gpt_active) {
+    return { error: { error: 'This AI assistant has been turned off by your parent' }, status: 403 as const }
+  }
+  
+  // Get parental controls
+  const parentalControls = await db.getParentalControlsByTeen(user.id)
+  
+  if (!parentalControls) {
+    return { error: { error: 'Parental controls not configured' }, status: 400 as const }
+  }
+  
+  // The GPT may have been unassigned, or the teen aged out, since the conversation started
+  const gptAccess = checkGptAccess(
+    { assigned: conversation.gpt_assigned, min_age: conversation.min_age, max_age: conversation.max_age },
+    user.birthdate,
+    usageDateFor(new Date(), timeZoneFor(parentalControls))
+  )
+  if (!gptAccess.allowed) {
+    return { error: { error: gptAccess.reason }, status: 403 as const }
+  }
+  
+  // Respect scheduled access windows
+  const access = checkAccess(
+    parseSchedule(parentalControls.access_schedule as string),
+    timeZoneFor(parentalControls),
+    new Date(),
+    conversation.custom_gpt_id as string
+  )
+  if (!access.allowed) {
+    return { error: { error: access.reason, schedule: access }, status: 403 as const }
+  }
+  
+  // Enforce the daily time budget before doing any work
+  const usage = new UsageService(db)
+  const timeBudget = await usage.getTimeBudget(user.id as string, parentalControls)
+  
+  if (timeBudget.limitReached) {
+    return { 
+      error: {
+        error: 'You have used all of your chat time for today. Ask a parent if you need more time.',
+        timeRemaining: timeBudget
+      },
+      status: 429 as const
+    }
+  }
+  
+  return { context: { user, conversation, parentalControls } as ChatContext, usage }
+}
+
+app.post('/api/conversations/:conversationId/messages', async (c) => {
+  const { env } = c
+  const conversationId = c.req.param('conversationId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  
+  if (!user || user.role !== 'teen') {
+    return c.json({ error: 'Teen access required' }, 403)
+  }
+  
+  if (!user.parent_id) {
+    return c.json({ error: 'Your account is waiting for parent approval' }, 403)
+  }
+  
+  const { content } = await c.req.json()
+  if (!content) {
+    return c.json({ error: 'Message content required' }, 400)
+  }
+  
+  const prepared = await prepareChat(db, user, conversationId)
+  
+  if ('error' in prepared) {
+    return c.json(prepared.error, prepared.status)
+  }
+  
+  const { context, usage } = prepared
+  
+  try {
+    const alerts = requestAlertDispatcher(env, c.req.url, c.executionCtx)
+    const turn = await (await createChatService(env, db, context, alerts, c.executionCtx)).respond(context, content)
+    
+    await usage.recordActivity(user.id as string, context.parentalControls)
+    const timeRemaining = await usage.getTimeBudget(user.id as string, context.parentalControls)
+    
+    return c.json({ 
+      success: true, 
+      ...turn,
+      timeRemaining
+    })
+    
+  } catch (error) {
+    console.error('Error processing message:', error)
+    return c.json({ error: 'Failed to process message' }, 500)
+  }
+})
+
+// Same as above, but streams the reply as Server-Sent Events:
+// token/replace events while the AI writes, then a done event with the saved messages
+app.post('/api/conversations/:conversationId/messages/stream', async (c) => {
+  const { env } = c
+  const conversationId = c.req.param('conversationId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  
+  if (!user || user.role !== 'teen') {
+    return c.json({ error: 'Teen access required' }, 403)
+  }
+  
+  if (!user.parent_id) {
+    return c.json({ error: 'Your account is waiting for parent approval' }, 403)
+  }
+  
+  const { content } = await c.req.json()
+  if (!content) {
+    return c.json({ error: 'Message content required' }, 400)
+  }
+  
+  const prepared = await prepareChat(db, user, conversationId)
+  
+  // Errors before the stream starts are plain JSON so clients can handle them like the non-streaming route
+  if ('error' in prepared) {
+    return c.json(prepared.error, prepared.status)
+  }
+  
+  const { context, usage } = prepared
+  const alerts = requestAlertDispatcher(env, c.req.url, c.executionCtx)
+  const chat = await createChatService(env, db, context, alerts, c.executionCtx)
+  
+  return streamSSE(c, async (stream) => {
+    // Keep going if the teen closes the page so the turn and any safety alert are still saved
+    const send = async (event: string, data: Record<string, any>) => {
+      if (!stream.aborted) {
+        await stream.writeSSE({ event, data: JSON.stringify(data) }).catch(() => {})
+      }
+    }
+    
+    const work = (async () => {
+      try {
+        for await (const event of chat.respondStream(context, content)) {
+          if (event.type === 'done') {
+            await usage.recordActivity(user.id as string, context.parentalControls)
+            const timeRemaining = await usage.getTimeBudget(user.id as string, context.parentalControls)
+            
+            await send('done', { success: true, ...event.turn, timeRemaining })
+          } else {
+            await send(event.type, { content: event.content })
+          }
+        }
+      } catch (error) {
+        console.error('Error streaming message:', error)
+        await send('error', { error: 'Failed to process message' })
+      }
+    })()
+    
+    c.executionCtx.waitUntil(work)
+    await work
+  })
+})
+
+// Voice messages: the recording is transcribed and answered like a typed message,
+// and the reply comes back with synthesized speech when a voice provider is configured
+app.post('/api/conversations/:conversationId/voice', async (c) => {
+  const { env } = c
+  const conversationId = c.req.param('conversationId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  
+  if (!user || user.role !== 'teen') {
+    return c.json({ error: 'Teen access required' }, 403)
+  }
+  
+  if (!user.parent_id) {
+    return c.json({ error: 'Your account is waiting for parent approval' }, 403)
+  }
+  
+  const prepared = await prepareChat(db, user, conversationId)
+  
+  if ('error' in prepared) {
+    return c.json(prepared.error, prepared.status)
+  }
+  
+  const { context, usage } = prepared
+  
+  // Checked before the recording is sent anywhere
+  if (!context.parentalControls.voice_mode_enabled) {
+    return c.json({ error: 'Voice mode is turned off. Ask a parent if you would like to use it.' }, 403)
+  }
+  
+  const speech = createSpeechProvider(env)
+  const store = createAudioStore(env)
+  
+  if (!speech || !store) {
+    return c.json({ error: 'Voice messages are not available right now' }, 503)
+  }
+  
+  const body = await c.req.parseBody().catch(() => ({} as Record<string, unknown>))
+  const recording = await readRecording(body.audio)
+  
+  if ('error' in recording) {
+    return c.json({ error: recording.error }, 400)
+  }
+  
+  // Transcription and speech count against the family's AI budget; once it's used up the teen can still type
+  const meter = await createMeteringService(env).speechListenerFor(usageAccount(context))
+  
+  if (!meter) {
+    return c.json({ error: "Voice messages are paused until next month because your family's AI budget is used up. You can still type your message." }, 403)
+  }
+  
+  try {
+    const voice = new VoiceService(db, store, speech, speech, meter)
+    const transcript = await voice.transcribe(recording.clip)
+    
+    if (!transcript) {
+      return c.json({ error: "We couldn't hear anything in that recording. Please try again." }, 422)
+    }
+    
+    const alerts = requestAlertDispatcher(env, c.req.url, c.executionCtx)
+    const turn = await (await createChatService(env, db, context, alerts, c.executionCtx)).respond(context, transcript)
+    const userAudioUrl = await voice.attachAudio(conversationId, turn.userMessage.id, recording.clip)
+    
+    // A held reply isn't spoken; the teen hears it only once a parent releases it
+    const aiAudioUrl = turn.aiMessage.held
+      ? null
+      : await voice.speak(conversationId, turn.aiMessage.id, turn.aiMessage.content)
+    
+    await usage.recordActivity(user.id as string, context.parentalControls)
+    const timeRemaining = await usage.getTimeBudget(user.id as string, context.parentalControls)
+    
+    return c.json({
+      success: true,
+      userMessage: { ...turn.userMessage, audioUrl: userAudioUrl },
+      aiMessage: { ...turn.aiMessage, audioUrl: aiAudioUrl },
+      timeRemaining
+    })
+    
+  } catch (error) {
+    console.error('Error processing voice message:', error)
+    return c.json({ error: 'Failed to process voice message' }, 500)
+  }
+})
+
+app.get('/api/messages/:messageId/audio', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user) {
+    return c.json({ error: 'Invalid session' }, 401)
+  }
+  
+  const message = await db.getMessageForUser(c.req.param('messageId'), user.id as string, user.role as string)
+  
+  // Teens never get audio for a reply that is still held
+  if (!message || !message.audio_url || (user.role === 'teen' && message.held && !message.released_at)) {
+    return c.json({ error: 'Audio not found' }, 404)
+  }
+  
+  if (user.role === 'teen') {
+    const parentalControls = await db.getParentalControlsByTeen(user.id as string)
+    if (!parentalControls?.voice_mode_enabled) {
+      return c.json({ error: 'Voice mode is turned off. Ask a parent if you would like to use it.' }, 403)
+    }
+  }
+  
+  const clip = await createAudioStore(env)?.get(audioKey(message.conversation_id as string, message.id as string))
+  if (!clip) {
+    return c.json({ error: 'Audio not found' }, 404)
+  }
+  
+  return c.body(clip.data, 200, {
+    'Content-Type': clip.mimeType,
+    'Cache-Control': 'private, max-age=3600'
+  })
+})
+
+// Parent review queue
+app.get('/api/reviews', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  // ?status=pending (default), reviewed or all; optional ?teenId= and ?reason=flagged|first_session
+  const status = c.req.query('status') || 'pending'
+  const reason = c.req.query('reason') || null
+  
+  if (!['pending', 'reviewed', 'all'].includes(status)) {
+    return c.json({ error: 'Status must be pending, reviewed or all' }, 400)
+  }
+  
+  if (reason && !REVIEW_REASONS.includes(reason as any)) {
+    return c.json({ error: `Reason must be one of ${REVIEW_REASONS.join(', ')}` }, 400)
+  }
+  
+  const queue = await db.getReviewQueue(user.id as string, {
+    reviewed: status === 'all' ? null : status === 'reviewed',
+    teenId: c.req.query('teenId') || null,
+    reason
+  })
+  
+  return c.json(queue.results || [])
+})
+
+app.post('/api/reviews/:conversationId', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const { note, releaseHeldReplies = false } = await c.req.json().catch(() => ({}))
+  const result = await new ReviewService(db).markReviewed(user.id as string, c.req.param('conversationId'), {
+    note,
+    releaseHeldReplies
+  })
+  
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
+  return c.json({ success: true })
+})
+
+app.post('/api/messages/:messageId/release', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const result = await new ReviewService(db).releaseReply(user.id as string, c.req.param('messageId'))
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
+  return c.json({ success: true })
+})
+
+// Parent search across their teens' conversations: ?q= plus optional teenId, gptId, from, to (YYYY-MM-DD),
+// role (user|assistant), flagged=true, limit and offset
+app.get('/api/search', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const check = parseSearchFilters(c.req.query())
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  return c.json(await new SearchService(db).search(user.id as string, check.filters))
+})
+
+// Problems the teen got Socratic hints on in this conversation, with hint counts
+app.get('/api/conversations/:conversationId/tutoring', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+
+  const conversationId = c.req.param('conversationId')
+  if (!await db.getParentConversation(conversationId, user.id as string)) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  const problems = await db.getTutoringProblems(conversationId)
+  return c.json(problems.results || [])
+})
+
+// The rolling summary the AI sees in place of the conversation's older messages
+app.get('/api/conversations/:conversationId/summary', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+
+  const conversationId = c.req.param('conversationId')
+  if (!await db.getParentConversation(conversationId, user.id as string)) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  const state = await db.getConversationMemoryState(conversationId)
+  return c.json({
+    summary: state?.summary ?? null,
+    summarizedMessages: state?.summarized_messages ?? 0,
+    messageCount: state?.message_count ?? 0,
+    updatedAt: state?.summary_updated_at ?? null
+  })
+})
+
+app.put('/api/conversations/:conversationId/summary', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+
+  const { summary } = await c.req.json()
+  const check = validateSummary(summary)
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+
+  const result = await db.setConversationSummary(c.req.param('conversationId'), user.id as string, check.summary)
+  if (!result.meta.changes) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  return c.json({ success: true, summary: check.summary })
+})
+
+// The AI forgets the older messages; they stay in the transcript
+app.delete('/api/conversations/:conversationId/summary', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+
+  const result = await db.setConversationSummary(c.req.param('conversationId'), user.id as string, null)
+  if (!result.meta.changes) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  return c.json({ success: true })
+})
+
+// Transcript exports for sharing with a pastor or counselor: ?format=markdown (default), json or pdf
+app.get('/api/conversations/:conversationId/export', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const format = c.req.query('format') || 'markdown'
+  if (!isExportFormat(format)) {
+    return c.json({ error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` }, 400)
+  }
+  
+  const exports = new ExportService(db)
+  const transcript = await exports.conversation(user.id as string, c.req.param('conversationId'))
+  if (!transcript) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+  
+  const rendered = exports.render(transcript, format)
+  return c.body(rendered.body, 200, exportHeaders(rendered))
+})
+
+// All of a teen's conversations, optionally limited to ?from= and ?to= (inclusive, YYYY-MM-DD)
+app.get('/api/family/teens/:teenId/export', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const format = c.req.query('format') || 'markdown'
+  if (!isExportFormat(format)) {
+    return c.json({ error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` }, 400)
+  }
+  
+  const check = parseExportRange(c.req.query('from'), c.req.query('to'))
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  const exports = new ExportService(db)
+  const transcript = await exports.teen(user.id as string, c.req.param('teenId'), check.range)
+  if (!transcript) {
+    return c.json({ error: 'Teen not found' }, 404)
+  }
+  
+  const rendered = exports.render(transcript, format)
+  return c.body(rendered.body, 200, exportHeaders(rendered))
+})
+
+function exportHeaders(rendered: RenderedExport) {
+  return {
+    'Content-Type': rendered.contentType,
+    'Content-Disposition': `attachment; filename="${rendered.filename}"`,
+    'Cache-Control': 'no-store'
+  }
+}
+
+// Usage and time limit routes
+app.get('/api/usage/time-remaining', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user) {
+    return c.json({ error: 'Invalid session' }, 401)
+  }
+  
+  // Teens see their own budget; parents pass ?teenId=
+  let teenId = user.id as string
+  if (user.role === 'parent') {
+    teenId = c.req.query('teenId') || ''
+    const teen = teenId ? await db.getUserById(teenId) : null
+    if (!teen || teen.parent_id !== user.id) {
+      return c.json({ error: 'Teen not found or access denied' }, 404)
+    }
+  }
+  
+  const parentalControls = await db.getParentalControlsByTeen(teenId)
+  const budget = await new UsageService(db).getTimeBudget(teenId, parentalControls)
+  return c.json(budget)
+})
+
+// Tokens and cost of the family's AI requests for a month (?month=YYYY-MM, default this month),
+// by teen, GPT and model, with the monthly budget
+app.get('/api/usage/tokens', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const month = c.req.query('month') || usageMonth()
+  if (!isUsageMonth(month)) {
+    return c.json({ error: 'month must be YYYY-MM' }, 400)
+  }
+  
+  return c.json(await createMeteringService(env).report(user.id as string, month))
+})
+
+// The parent's monthly cap in dollars (null for none) and when to warn; a platform-wide
+// FAMILY_MONTHLY_BUDGET_USD still applies if it is lower
+app.put('/api/usage/budget', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const check = validateBudget(await c.req.json())
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  const budget = await createMeteringService(env).saveBudget(user.id as string, check.monthlyLimitMicros, check.warnPercent)
+  return c.json({ success: true, budget: budgetJson(budget) })
+})
+
+app.post('/api/usage/extensions', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const { teenId, minutes, reason } = await c.req.json()
+  
+  const teen = teenId ? await db.getUserById(teenId) : null
+  if (!teen || teen.parent_id !== user.id) {
+    return c.json({ error: 'Teen not found or access denied' }, 404)
+  }
+  
+  try {
+    const usage = new UsageService(db)
+    const parentalControls = await db.getParentalControlsByTeen(teenId)
+    const extension = await usage.grantExtension(user.id as string, teenId, Number(minutes), reason || null, parentalControls)
+    const timeRemaining = await usage.getTimeBudget(teenId, parentalControls)
+    
+    return c.json({ success: true, extension, timeRemaining })
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return c.json({ error: error.message }, 400)
+    }
+    console.error('Failed to grant time extension:', error)
+    return c.json({ error: 'Failed to grant time extension' }, 500)
+  }
+})
+
+// Safety alerts routes
+app.get('/api/safety-alerts', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const alerts = await env.DB.prepare(`
+    SELECT sa.*, u.name as teen_name, c.title as conversation_title
+    FROM safety_alerts sa
+    JOIN users u ON sa.teen_id = u.id
+    JOIN conversations c ON sa.conversation_id = c.id
+    WHERE sa.parent_id = ?
+    ORDER BY sa.created_at DESC
+  `).bind(user.id).all()
+  
+  return c.json(alerts.results)
+})
+
+app.post('/api/safety-alerts/:alertId/mark-read', async (c) => {
+  const { env } = c
+  const alertId = c.req.param('alertId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const user = await validateSession(env.DB, sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  await env.DB.prepare(`
+    UPDATE safety_alerts SET is_read = TRUE WHERE id = ? AND parent_id = ?
+  `).bind(alertId, user.id).run()
+  
+  await createCrisisService(env, new DatabaseService(env.DB)).alertRead(alertId, user.id as string)
+  
+  return c.json({ success: true })
+})
+
+// Alert delivery: where safety alerts are sent, how often reminders go out, and the delivery log
+app.get('/api/alert-channels', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const channels = await db.getAlertChannels(user.id as string)
+  
+  return c.json({
+    channels: channels.results || [],
+    settings: alertSettingsFrom(await db.getAlertSettings(user.id as string)),
+    pushPublicKey: env.VAPID_PUBLIC_KEY || null
+  })
+})
+
+app.post('/api/alert-channels', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const check = validateAlertChannel(await c.req.json())
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  const result = await requestAlertDispatcher(env, c.req.url).addChannel(user.id as string, check.channel)
+  if ('error' in result) {
+    return c.json({ error: result.error }, 400)
+  }
+  
+  // The webhook signing secret is only ever shown here
+  return c.json({ success: true, id: result.id, ...(result.secret ? { secret: result.secret } : {}) })
+})
+
+app.delete('/api/alert-channels/:channelId', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  if (!(await db.deleteAlertChannel(c.req.param('channelId'), user.id as string))) {
+    return c.json({ error: 'Channel not found' }, 404)
+  }
+  return c.json({ success: true })
+})
+
+app.put('/api/alert-settings', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const current = alertSettingsFrom(await db.getAlertSettings(user.id as string))
+  const check = validateAlertSettings(await c.req.json(), current)
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
+  }
+  
+  await db.saveAlertSettings(user.id as string, check.settings)
+  return c.json({ success: true, settings: check.settings })
+})
+
+app.get('/api/alert-deliveries', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const deliveries = await db.getAlertDeliveriesByParent(user.id as string)
+  return c.json(deliveries.results || [])
+})
+
+// Sends reminders, due digests and retries. Call it every few minutes from a scheduler
+// with `Authorization: Bearer <ALERT_DISPATCH_SECRET>`.
+app.post('/api/alerts/dispatch', async (c) => {
+  const { env } = c
+  const secret = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!isDispatchSecret(env, secret)) {
+    return c.json({ error: 'Not authorized' }, 401)
+  }
+  
+  const summary = await requestAlertDispatcher(env, c.req.url).processDue()
+  return c.json({ success: true, ...summary })
+})
+
+// Weekly family reports. The scheduler (src/scheduled.ts) sends them; without it, call this weekly or more often
+app.post('/api/reports/dispatch', async (c) => {
+  const { env } = c
+  const secret = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!isDispatchSecret(env, secret)) {
+    return c.json({ error: 'Not authorized' }, 401)
   }
+  
+  const summary = await createReportService(env, appUrlFor(env, c.req.url)).sendDueReports()
+  return c.json({ success: true, ...summary })
 })
 
-app.post('/api/custom-gpts', async (c) => {
+app.get('/api/reports', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
@@ -342,49 +2612,18 @@ app.post('/api/custom-gpts', async (c) => {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  try {
-    const db = new DatabaseService(env.DB)
-    const user = await db.validateSession(sessionId)
-    
-    if (!user || user.role !== 'parent') {
-      return c.json({ error: 'Parent access required' }, 403)
-    }
-    
-    const { 
-      name, 
-      description, 
-      systemPrompt, 
-      theologicalValues = {},
-      educationalFocus = [],
-      personalityTraits = 'encouraging,wise,patient'
-    } = await c.req.json()
-    
-    if (!name || !systemPrompt) {
-      return c.json({ error: 'Name and system prompt required' }, 400)
-    }
-    
-    const gptId = generateId()
-    
-    await db.createCustomGPT({
-      id: gptId,
-      parentId: user.id,
-      name,
-      description: description || '',
-      systemPrompt,
-      theologicalValues: JSON.stringify(theologicalValues),
-      educationalFocus: JSON.stringify(educationalFocus),
-      personalityTraits
-    })
-    
-    return c.json({ success: true, id: gptId })
-  } catch (error) {
-    console.error('Failed to create custom GPT:', error)
-    return c.json({ error: 'Failed to create custom GPT: ' + error.message }, 500)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
   }
+  
+  const reports = await db.getWeeklyReportsByParent(user.id as string)
+  return c.json(reports.results || [])
 })
 
-// Chat routes
-app.get('/api/conversations', async (c) => {
+// ?format=html returns the report as it was emailed
+app.get('/api/reports/:reportId', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
@@ -392,32 +2631,24 @@ app.get('/api/conversations', async (c) => {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  try {
-    const db = new DatabaseService(env.DB)
-    const user = await db.validateSession(sessionId)
-    
-    if (!user) {
-      return c.json({ error: 'Invalid session' }, 401)
-    }
-    
-    let conversations
-    
-    if (user.role === 'parent') {
-      // Parents can see all conversations of their teens
-      conversations = await db.getConversationsByParent(user.id)
-    } else {
-      // Teens can only see their own conversations
-      conversations = await db.getConversationsByTeen(user.id)
-    }
-    
-    return c.json(conversations.results || [])
-  } catch (error) {
-    console.error('Failed to get conversations:', error)
-    return c.json({ error: 'Failed to load conversations' }, 500)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const report = await db.getWeeklyReport(c.req.param('reportId'), user.id as string)
+  if (!report) {
+    return c.json({ error: 'Report not found' }, 404)
   }
+  
+  if (c.req.query('format') === 'html') {
+    return c.html(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>${report.subject}</title></head><body>${report.html_body}</body></html>`)
+  }
+  return c.json({ ...report, data: JSON.parse(report.data as string) })
 })
 
-app.post('/api/conversations', async (c) => {
+app.put('/api/reports/settings', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
@@ -425,86 +2656,48 @@ app.post('/api/conversations', async (c) => {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  try {
-    const db = new DatabaseService(env.DB)
-    const user = await db.validateSession(sessionId)
-    
-    if (!user || user.role !== 'teen') {
-      return c.json({ error: 'Teen access required' }, 403)
-    }
-    
-    const { customGptId, title } = await c.req.json()
-    
-    if (!customGptId || !title) {
-      return c.json({ error: 'Custom GPT ID and title required' }, 400)
-    }
-    
-    // Verify the custom GPT exists and belongs to the teen's parent
-    const customGpt = await db.getCustomGPTById(customGptId)
-    if (!customGpt || customGpt.parent_id !== user.parent_id) {
-      return c.json({ error: 'AI assistant not found or not authorized' }, 404)
-    }
-    
-    const conversationId = generateId()
-    
-    await db.createConversation({
-      id: conversationId,
-      teenId: user.id,
-      customGptId,
-      title
-    })
-    
-    return c.json({ success: true, id: conversationId })
-  } catch (error) {
-    console.error('Failed to create conversation:', error)
-    return c.json({ error: 'Failed to create conversation: ' + error.message }, 500)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
+  
+  const { enabled } = await c.req.json()
+  if (typeof enabled !== 'boolean') {
+    return c.json({ error: 'enabled must be true or false' }, 400)
   }
+  
+  await db.setWeeklyReportEnabled(user.id as string, enabled)
+  return c.json({ success: true, enabled })
 })
 
-app.get('/api/conversations/:conversationId/messages', async (c) => {
+// Crisis protocol: the contacts shown to a teen after self-harm is detected, and the escalation timeline
+app.get('/api/crisis/contacts', async (c) => {
   const { env } = c
-  const conversationId = c.req.param('conversationId')
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
   if (!sessionId) {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  const user = await validateSession(env.DB, sessionId)
-  if (!user) {
-    return c.json({ error: 'Invalid session' }, 401)
-  }
-  
-  // Verify user has access to this conversation
-  let accessQuery = ''
-  if (user.role === 'parent') {
-    accessQuery = `
-      SELECT c.* FROM conversations c
-      JOIN users u ON c.teen_id = u.id
-      WHERE c.id = ? AND u.parent_id = ?
-    `
-  } else {
-    accessQuery = `
-      SELECT * FROM conversations WHERE id = ? AND teen_id = ?
-    `
-  }
-  
-  const conversation = await env.DB.prepare(accessQuery).bind(conversationId, user.id).first()
-  if (!conversation) {
-    return c.json({ error: 'Conversation not found' }, 404)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
   }
   
-  const messages = await env.DB.prepare(`
-    SELECT * FROM messages WHERE conversation_id = ?
-    ORDER BY created_at ASC
-  `).bind(conversationId).all()
+  const contacts = await db.getCrisisContacts(user.id as string)
   
-  return c.json(messages.results)
+  return c.json({
+    familyContacts: contacts.results || [],
+    organizationContacts: parseOrganizationContacts(env.ORG_CRISIS_CONTACTS),
+    hotlines: NATIONAL_HOTLINES,
+    roles: CRISIS_CONTACT_ROLES
+  })
 })
 
-app.post('/api/conversations/:conversationId/messages', async (c) => {
+app.post('/api/crisis/contacts', async (c) => {
   const { env } = c
-  const conversationId = c.req.param('conversationId')
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
   if (!sessionId) {
@@ -513,128 +2706,43 @@ app.post('/api/conversations/:conversationId/messages', async (c) => {
   
   const db = new DatabaseService(env.DB)
   const user = await db.validateSession(sessionId)
-  
-  if (!user || user.role !== 'teen') {
-    return c.json({ error: 'Teen access required' }, 403)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
   }
   
-  const { content } = await c.req.json()
-  
-  if (!content) {
-    return c.json({ error: 'Message content required' }, 400)
+  const check = validateCrisisContact(await c.req.json())
+  if ('error' in check) {
+    return c.json({ error: check.error }, 400)
   }
   
-  // Verify teen owns this conversation and get conversation details
-  const conversation = await db.getConversationById(conversationId)
-  
-  if (!conversation || conversation.teen_id !== user.id) {
-    return c.json({ error: 'Conversation not found' }, 404)
-  }
+  const contactId = generateId()
+  await db.createCrisisContact({ id: contactId, parentId: user.id as string, ...check.contact })
   
-  // Get parental controls
-  const parentalControls = await db.getParentalControlsByTeen(user.id)
+  return c.json({ success: true, id: contactId })
+})
+
+app.delete('/api/crisis/contacts/:contactId', async (c) => {
+  const { env } = c
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
-  if (!parentalControls) {
-    return c.json({ error: 'Parental controls not configured' }, 400)
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
   }
   
-  // Get conversation history for context
-  const recentMessages = await db.getRecentMessagesByConversation(conversationId, 10)
-  const conversationHistory = recentMessages.results?.reverse() || []
-  
-  const messageId = generateId()
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
+  if (!user || user.role !== 'parent') {
+    return c.json({ error: 'Parent access required' }, 403)
+  }
   
-  try {
-    // Initialize AI service (use placeholder if no API key)
-    let aiResponse;
-    let isFlagged = false;
-    let flagReason = null;
-    let alertType = null;
-    
-    if (env.OPENAI_API_KEY) {
-      // Use real AI service
-      const aiService = new AIService(env.OPENAI_API_KEY);
-      const aiResult = await aiService.generateResponse(
-        content,
-        {
-          id: conversation.custom_gpt_id,
-          name: conversation.gpt_name,
-          system_prompt: conversation.system_prompt,
-          theological_values: conversation.theological_values,
-          personality_traits: conversation.personality_traits
-        },
-        parentalControls,
-        conversationHistory
-      );
-      
-      aiResponse = aiResult.content;
-      isFlagged = !aiResult.isSafe;
-      flagReason = aiResult.flagReason;
-      alertType = aiResult.alertType;
-    } else {
-      // Fallback to simple content check and basic responses
-      const safetyCheck = await checkContentSafety(content, parentalControls)
-      
-      if (!safetyCheck.isSafe) {
-        isFlagged = true
-        flagReason = safetyCheck.reason
-        alertType = safetyCheck.alertType
-      }
-      
-      // Generate enhanced AI response
-      aiResponse = generateEnhancedFallback(content, isFlagged)
-    }
-    
-    // Send safety alert to parent if needed
-    if (isFlagged && parentalControls.safety_alerts_enabled && user.parent_id) {
-      const alertId = generateId()
-      await db.createSafetyAlert({
-        id: alertId,
-        parentId: user.parent_id,
-        teenId: user.id,
-        conversationId,
-        messageId,
-        alertType: alertType!,
-        alertReason: flagReason!
-      })
-    }
-    
-    // Save user message
-    await db.createMessage({
-      id: messageId,
-      conversationId,
-      role: 'user',
-      content,
-      isFlagged,
-      flagReason
-    })
-    
-    // Save AI response
-    const aiMessageId = generateId()
-    await db.createMessage({
-      id: aiMessageId,
-      conversationId,
-      role: 'assistant',
-      content: aiResponse
-    })
-    
-    // Update conversation timestamp
-    await db.updateConversationTimestamp(conversationId)
-    
-    return c.json({ 
-      success: true, 
-      userMessage: { id: messageId, content, isFlagged },
-      aiMessage: { id: aiMessageId, content: aiResponse }
-    })
-    
-  } catch (error) {
-    console.error('Error processing message:', error)
-    return c.json({ error: 'Failed to process message' }, 500)
+  if (!(await db.deleteCrisisContact(c.req.param('contactId'), user.id as string))) {
+    return c.json({ error: 'Contact not found' }, 404)
   }
+  return c.json({ success: true })
 })
 
-// Safety alerts routes
-app.get('/api/safety-alerts', async (c) => {
+// Optional ?teenId= and ?conversationId= narrow the timeline
+app.get('/api/crisis/timeline', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
@@ -642,41 +2750,41 @@ app.get('/api/safety-alerts', async (c) => {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  const user = await validateSession(env.DB, sessionId)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
   if (!user || user.role !== 'parent') {
     return c.json({ error: 'Parent access required' }, 403)
   }
   
-  const alerts = await env.DB.prepare(`
-    SELECT sa.*, u.name as teen_name, c.title as conversation_title
-    FROM safety_alerts sa
-    JOIN users u ON sa.teen_id = u.id
-    JOIN conversations c ON sa.conversation_id = c.id
-    WHERE sa.parent_id = ?
-    ORDER BY sa.created_at DESC
-  `).bind(user.id).all()
+  const timeline = await db.getCrisisTimeline(user.id as string, {
+    teenId: c.req.query('teenId') || null,
+    conversationId: c.req.query('conversationId') || null
+  })
   
-  return c.json(alerts.results)
+  return c.json(timeline.results || [])
 })
 
-app.post('/api/safety-alerts/:alertId/mark-read', async (c) => {
+// Ends crisis mode once the parent has followed up with their teen
+app.post('/api/crisis/:conversationId/resolve', async (c) => {
   const { env } = c
-  const alertId = c.req.param('alertId')
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
   
   if (!sessionId) {
     return c.json({ error: 'Authentication required' }, 401)
   }
   
-  const user = await validateSession(env.DB, sessionId)
+  const db = new DatabaseService(env.DB)
+  const user = await db.validateSession(sessionId)
   if (!user || user.role !== 'parent') {
     return c.json({ error: 'Parent access required' }, 403)
   }
   
-  await env.DB.prepare(`
-    UPDATE safety_alerts SET is_read = TRUE WHERE id = ? AND parent_id = ?
-  `).bind(alertId, user.id).run()
+  const { note = null } = await c.req.json().catch(() => ({}))
+  const result = await createCrisisService(env, db).resolve(user.id as string, c.req.param('conversationId'), note)
   
+  if (!result.success) {
+    return c.json({ error: result.error }, result.status)
+  }
   return c.json({ success: true })
 })
 
@@ -713,6 +2821,9 @@ app.get('/api/analytics/dashboard/:teenId', async (c) => {
     // Get today's usage
     const today = new Date().toISOString().split('T')[0]
     const todayUsage = await db.getDailyUsageStats(teenId, today)
+    const parentalControls = await db.getParentalControlsByTeen(teenId)
+    const timeBudget = await new UsageService(db).getTimeBudget(teenId, parentalControls)
+    const topics = await db.getTopicBreakdown(teenId, 30)
     
     return c.json({
       teen: {
@@ -722,6 +2833,8 @@ app.get('/api/analytics/dashboard/:teenId', async (c) => {
       },
       stats,
       todayUsage,
+      timeBudget,
+      topics: topics.results || [],
       unreadAlerts,
       recentConversations: recentConversations.results?.slice(0, 5) || [],
       recentAlerts: recentAlerts.results?.slice(0, 5) || []
@@ -732,6 +2845,54 @@ app.get('/api/analytics/dashboard/:teenId', async (c) => {
   }
 })
 
+// Time series for the parent dashboard: ?range=7d|30d (default)|90d|365d and ?granularity=day|week
+app.get('/api/analytics/trends/:teenId', async (c) => {
+  const { env } = c
+  const teenId = c.req.param('teenId')
+  const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
+  
+  if (!sessionId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  
+  const range = c.req.query('range') || '30d'
+  const granularity = c.req.query('granularity') || (range === '365d' ? 'week' : 'day')
+  
+  if (!isAnalyticsRange(range)) {
+    return c.json({ error: `Range must be one of ${Object.keys(ANALYTICS_RANGES).join(', ')}` }, 400)
+  }
+  
+  if (!isGranularity(granularity)) {
+    return c.json({ error: `Granularity must be one of ${GRANULARITIES.join(', ')}` }, 400)
+  }
+  
+  try {
+    const db = new DatabaseService(env.DB)
+    const user = await db.validateSession(sessionId)
+    
+    if (!user || user.role !== 'parent') {
+      return c.json({ error: 'Parent access required' }, 403)
+    }
+    
+    const teen = await db.getFamilyTeen(user.id as string, teenId)
+    if (!teen) {
+      return c.json({ error: 'Teen not found or access denied' }, 404)
+    }
+    
+    const parentalControls = await db.getParentalControlsByTeen(teenId)
+    const report = await new AnalyticsService(db).trends(teenId, {
+      range,
+      granularity,
+      timeZone: timeZoneFor(parentalControls)
+    })
+    
+    return c.json({ teen: { id: teen.id, name: teen.name }, ...report })
+  } catch (error) {
+    console.error('Analytics error:', error)
+    return c.json({ error: 'Failed to load analytics' }, 500)
+  }
+})
+
 app.get('/api/system/stats', async (c) => {
   const { env } = c
   const sessionId = c.req.header('Authorization')?.replace('Bearer ', '')
@@ -771,18 +2932,20 @@ app.post('/api/admin/init-demo', async (c) => {
     }
     
     // Create demo parent
+    const demoPassword = generateSecureToken(6)
+    const passwordHash = await hashPassword(demoPassword)
     const parentId = generateId()
     await env.DB.prepare(`
-      INSERT INTO users (id, email, name, role)
-      VALUES (?, ?, ?, ?)
-    `).bind(parentId, 'demo@teenai.com', 'Demo Parent', 'parent').run()
+      INSERT INTO users (id, email, name, role, password_hash, email_verified)
+      VALUES (?, ?, ?, ?, ?, TRUE)
+    `).bind(parentId, 'demo@teenai.com', 'Demo Parent', 'parent', passwordHash).run()
     
     // Create demo teen
     const teenId = generateId()
     await env.DB.prepare(`
-      INSERT INTO users (id, email, name, role, parent_id)
-      VALUES (?, ?, ?, ?, ?)
-    `).bind(teenId, 'teen@teenai.com', 'Demo Teen', 'teen', parentId).run()
+      INSERT INTO users (id, email, name, role, parent_id, password_hash, email_verified)
+      VALUES (?, ?, ?, ?, ?, ?, TRUE)
+    `).bind(teenId, 'teen@teenai.com', 'Demo Teen', 'teen', parentId, passwordHash).run()
     
     // Create parental controls
     const controlsId = generateId()
@@ -799,27 +2962,25 @@ app.post('/api/admin/init-demo', async (c) => {
     ).run()
     
     // Create demo custom GPT
-    const gptId = generateId()
-    await env.DB.prepare(`
-      INSERT INTO custom_gpts (
-        id, parent_id, name, description, system_prompt, 
-        theological_values, educational_focus, personality_traits
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      gptId, parentId, 'Demo Christian Tutor',
-      'A wise Christian mentor for academic and spiritual guidance',
-      'You are a Christian AI tutor designed to help teenagers grow in wisdom and knowledge. Approach every question through a biblical worldview, emphasizing God\'s love and truth.',
-      '{"biblical_authority": "high", "moral_framework": "biblical"}',
-      '["mathematics", "science", "biblical_studies"]',
-      'encouraging,wise,patient,christ_centered'
-    ).run()
+    // Through DatabaseService so the GPT gets its first version
+    await new DatabaseService(env.DB).createCustomGPT({
+      id: generateId(),
+      parentId,
+      name: 'Demo Christian Tutor',
+      description: 'A wise Christian mentor for academic and spiritual guidance',
+      systemPrompt: 'You are a Christian AI tutor designed to help teenagers grow in wisdom and knowledge. Approach every question through a biblical worldview, emphasizing God\'s love and truth.',
+      theologicalValues: '{"biblical_authority":"inerrant","moral_framework":"biblical"}',
+      educationalFocus: '["mathematics", "science", "biblical_studies"]',
+      personalityTraits: 'encouraging,wise,patient,christ_centered'
+    })
     
     return c.json({ 
       success: true, 
       message: 'Demo data created successfully',
       credentials: {
         parent: 'demo@teenai.com',
-        teen: 'teen@teenai.com'
+        teen: 'teen@teenai.com',
+        password: demoPassword
       }
     })
   } catch (error) {
@@ -0,0 +1,31 @@
+// Scheduled jobs for Teen AI Platform
+// Cloudflare Pages can't run Cron Triggers, so this entry point is deployed as a small companion
+// Worker (wrangler.scheduler.jsonc) bound to the same D1 database. Deployments without it can call
+// POST /api/alerts/dispatch and POST /api/reports/dispatch from any scheduler instead.
+
+import { createAlertDispatcher } from './services/alertService'
+import { createReportService } from './services/reportService'
+
+type ScheduledBindings = {
+  DB: D1Database;
+  APP_URL: string; // There's no request to take the origin from, so links need this
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+}
+
+// Every job is idempotent, so a missed or repeated tick does no harm; returns what each job did
+export async function runScheduledJobs(env: ScheduledBindings, now: Date) {
+  const appUrl = env.APP_URL.replace(/\/$/, '')
+  const alerts = await createAlertDispatcher(env, appUrl).processDue(now)
+  const reports = await createReportService(env, appUrl).sendDueReports(now)
+  return { alerts, reports }
+}
+
+export default {
+  async scheduled(controller: ScheduledController, env: ScheduledBindings, ctx: ExecutionContext) {
+    ctx.waitUntil(runScheduledJobs(env, new Date(controller.scheduledTime)))
+  }
+}
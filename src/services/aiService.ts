@@ -1,103 +1,83 @@
 // AI Service for Teen AI Platform
-// Handles OpenAI integration, content filtering, and theological guidance
+// Handles LLM integration, content filtering, and theological guidance
 
-interface AIResponse {
+import { LLMMessage, LLMProvider, TokenUsage, resolveGenerationSettings } from './llmService'
+import { REDIRECT_RESPONSE, SafetyVerdict, checkContentSafety } from './safetyService'
+import { withoutCrisisResources } from './crisisService'
+import { fitHistory } from './memoryService'
+import { compileTheologicalProfile, normalizeTheologicalProfile } from './theologyService'
+
+export interface AIResponse {
   content: string;
   isSafe: boolean;
   flagReason?: string;
   alertType?: string;
+  usage?: TokenUsage; // Tokens the model used, when one was called and reported them
 }
 
+export type AIStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'replace'; content: string } // Unsafe output was cut off; show this instead
+  | { type: 'final'; response: AIResponse };
+
+// Streamed output is released to the client in chunks that end at a sentence
+// boundary (or grow past this size) and have passed the safety check
+const STREAM_CHECK_MAX_CHARS = 120;
+
 interface CustomGPT {
   id: string;
   name: string;
   system_prompt: string;
   theological_values: string;
   personality_traits: string;
+  model_name?: string | null;
+  temperature?: number | null;
+  max_tokens?: number | null;
 }
 
-interface ParentalControls {
+export interface ParentalControls {
   theological_perspective: string;
   content_filter_level: string;
   allowed_topics: string;
   blocked_keywords: string;
+  category_overrides?: string | null;
 }
 
 export class AIService {
-  private openaiApiKey: string;
-  private baseUrl = 'https://api.openai.com/v1/chat/completions';
-
-  constructor(apiKey: string) {
-    this.openaiApiKey = apiKey;
-  }
+  constructor(private provider: LLMProvider) {}
 
+  // crisisMode: the conversation is in crisis mode, so the model has been asked to talk about crisis support
   async generateResponse(
     message: string, 
     customGPT: CustomGPT, 
     parentalControls: ParentalControls,
-    conversationHistory: any[] = []
+    conversationHistory: any[] = [],
+    crisisMode: boolean = false
   ): Promise<AIResponse> {
     
     // First, check content safety
-    const safetyCheck = await this.checkAdvancedContentSafety(message, parentalControls);
+    const safetyCheck = checkContentSafety(message, parentalControls);
     if (!safetyCheck.isSafe) {
-      return {
-        content: this.generateSafetyResponse(safetyCheck.alertType!),
-        isSafe: false,
-        flagReason: safetyCheck.flagReason,
-        alertType: safetyCheck.alertType
-      };
+      return this.policyResponse(safetyCheck, safetyCheck.alertType!);
     }
 
     try {
-      // Build the system prompt with theological perspective
-      const systemPrompt = this.buildSystemPrompt(customGPT, parentalControls);
-      
-      // Prepare conversation context
-      const messages = [
-        { role: 'system', content: systemPrompt },
-        ...conversationHistory.slice(-10).map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        { role: 'user', content: message }
-      ];
-
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: messages,
-          max_tokens: 500,
-          temperature: 0.7,
-          presence_penalty: 0.1,
-          frequency_penalty: 0.1
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const aiContent = data.choices[0]?.message?.content || 'I apologize, but I encountered an error. Please try asking your question again.';
+      const metered: { usage?: TokenUsage } = {};
+      const aiContent = await this.provider.complete(
+        this.buildMessages(message, customGPT, parentalControls, conversationHistory),
+        resolveGenerationSettings(this.provider, customGPT),
+        usage => { metered.usage = usage; }
+      ) || 'I apologize, but I encountered an error. Please try asking your question again.';
 
       // Check AI response for safety as well
-      const responseCheck = await this.checkAdvancedContentSafety(aiContent, parentalControls);
+      const responseCheck = this.checkReply(aiContent, parentalControls, crisisMode);
       
-      return {
-        content: responseCheck.isSafe ? aiContent : this.generateSafetyResponse('inappropriate_content'),
-        isSafe: responseCheck.isSafe,
-        flagReason: responseCheck.flagReason,
-        alertType: responseCheck.alertType
-      };
+      return responseCheck.isSafe
+        ? { content: aiContent, isSafe: true, usage: metered.usage }
+        : { ...this.replyReplacement(responseCheck), usage: metered.usage };
 
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error(`${this.provider.name} API error:`, error);
       return {
         content: this.generateFallbackResponse(message, customGPT),
         isSafe: true
@@ -105,26 +85,114 @@ export class AIService {
     }
   }
 
+  // Same checks as generateResponse, but yields the reply as it is generated.
+  // Output is safety-checked chunk by chunk; if a chunk fails, the stream is
+  // cut off and a 'replace' event carries the redirect or safety response instead.
+  async *streamResponse(
+    message: string,
+    customGPT: CustomGPT,
+    parentalControls: ParentalControls,
+    conversationHistory: any[] = [],
+    crisisMode: boolean = false
+  ): AsyncGenerator<AIStreamEvent> {
+    const safetyCheck = checkContentSafety(message, parentalControls);
+    if (!safetyCheck.isSafe) {
+      const response = this.policyResponse(safetyCheck, safetyCheck.alertType!);
+      yield { type: 'token', content: response.content };
+      yield { type: 'final', response };
+      return;
+    }
+
+    const metered: { usage?: TokenUsage } = {};
+    const deltas = this.provider.stream(
+      this.buildMessages(message, customGPT, parentalControls, conversationHistory),
+      resolveGenerationSettings(this.provider, customGPT),
+      usage => { metered.usage = usage; }
+    );
+
+    let released = '';
+    let pending = '';
+    let failed = false;
+
+    while (true) {
+      // The request is only made on the first read, so failures to connect show up there; a dropped
+      // connection can fail any later read
+      let next: IteratorResult<string>;
+      try {
+        next = await deltas.next();
+      } catch (error) {
+        console.error(`${this.provider.name} API error:`, error);
+        failed = true;
+        break;
+      }
+
+      if (!next.done) {
+        pending += next.value;
+      }
+
+      const ready = next.done || /[.!?\n]\s*$/.test(pending) || pending.length >= STREAM_CHECK_MAX_CHARS;
+      if (ready && pending) {
+        // Check everything so far, so patterns that span chunks are caught
+        const check = this.checkReply(released + pending, parentalControls, crisisMode);
+        if (!check.isSafe) {
+          await deltas.return(undefined);
+          const response = { ...this.replyReplacement(check), usage: metered.usage };
+          yield { type: 'replace', content: response.content };
+          yield { type: 'final', response };
+          return;
+        }
+
+        released += pending;
+        yield { type: 'token', content: pending };
+        pending = '';
+      }
+
+      if (next.done) {
+        break;
+      }
+    }
+
+    // Text left unchecked when the stream failed is dropped; the reply ends with what was already shown
+    if (!released) {
+      released = failed
+        ? this.generateFallbackResponse(message, customGPT)
+        : 'I apologize, but I encountered an error. Please try asking your question again.';
+      yield { type: 'token', content: released };
+    }
+
+    yield { type: 'final', response: { content: released, isSafe: true, usage: metered.usage } };
+  }
+
+  private buildMessages(
+    message: string,
+    customGPT: CustomGPT,
+    parentalControls: ParentalControls,
+    conversationHistory: any[]
+  ): LLMMessage[] {
+    // Build the system prompt with theological perspective
+    const systemPrompt = this.buildSystemPrompt(customGPT, parentalControls);
+
+    // Prepare conversation context
+    return [
+      { role: 'system', content: systemPrompt },
+      ...fitHistory(conversationHistory).map(msg => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      { role: 'user', content: message }
+    ];
+  }
+
   private buildSystemPrompt(customGPT: CustomGPT, parentalControls: ParentalControls): string {
-    const theologicalValues = JSON.parse(customGPT.theological_values || '{}');
     const allowedTopics = JSON.parse(parentalControls.allowed_topics || '[]');
     
     let systemPrompt = customGPT.system_prompt + '\n\n';
     
     // Add theological perspective context
-    systemPrompt += `THEOLOGICAL PERSPECTIVE: ${parentalControls.theological_perspective}\n`;
-    
-    if (theologicalValues.biblical_authority === 'high') {
-      systemPrompt += `- You hold the Bible as the ultimate authority for faith and life.\n`;
-    }
-    
-    if (theologicalValues.creation_vs_evolution === 'young_earth_creationism') {
-      systemPrompt += `- You believe in young earth creationism and God's direct creation of all things.\n`;
-    }
-    
-    if (theologicalValues.moral_framework === 'biblical') {
-      systemPrompt += `- Your moral guidance is rooted in biblical principles and Christ-like character.\n`;
-    }
+    systemPrompt += compileTheologicalProfile(
+      normalizeTheologicalProfile(customGPT.theological_values),
+      parentalControls.theological_perspective
+    );
 
     // Add content guidelines
     systemPrompt += `\nCONTENT GUIDELINES:\n`;
@@ -147,85 +215,32 @@ export class AIService {
     return systemPrompt;
   }
 
-  async checkAdvancedContentSafety(
-    content: string, 
-    parentalControls: ParentalControls
-  ): Promise<{ isSafe: boolean; flagReason?: string; alertType?: string }> {
-    const lowerContent = content.toLowerCase();
-    
-    // Enhanced self-harm detection
-    const selfHarmPatterns = [
-      /(?:kill|hurt|harm|cut)\s+(?:myself|me)/i,
-      /(?:suicide|suicidal)/i,
-      /(?:end\s+my\s+life|ending\s+my\s+life)/i,
-      /(?:don't\s+want\s+to\s+live|want\s+to\s+die)/i,
-      /(?:self\s*harm|self\s*injury)/i
-    ];
-
-    for (const pattern of selfHarmPatterns) {
-      if (pattern.test(content)) {
-        return { 
-          isSafe: false, 
-          flagReason: `Self-harm language detected: "${pattern.source}"`, 
-          alertType: 'self_harm' 
-        };
-      }
-    }
-
-    // Enhanced dangerous behavior detection
-    const dangerousPatterns = [
-      /(?:drugs|weed|marijuana|cocaine|heroin|meth)/i,
-      /(?:alcohol|drinking|drunk|beer|vodka)/i,
-      /(?:running\s+away|run\s+away\s+from\s+home)/i,
-      /(?:meeting\s+strangers|meet\s+someone\s+online)/i,
-      /(?:sexting|nudes|inappropriate\s+photos)/i,
-      /(?:violence|fighting|hurting\s+others)/i
-    ];
-
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(content)) {
-        return { 
-          isSafe: false, 
-          flagReason: `Dangerous content detected: "${pattern.source}"`, 
-          alertType: 'dangerous_behavior' 
-        };
-      }
-    }
+  // The model's output is held to the same policy as the teen's message, except for the crisis services
+  // the platform asks it to name and, in crisis mode, the self-harm wording that support needs
+  private checkReply(content: string, parentalControls: ParentalControls, crisisMode: boolean): SafetyVerdict {
+    return checkContentSafety(withoutCrisisResources(content), parentalControls, crisisMode ? ['self_harm'] : []);
+  }
 
-    // Check blocked keywords from parental controls
-    if (parentalControls.blocked_keywords) {
-      const blockedKeywords = JSON.parse(parentalControls.blocked_keywords || '[]');
-      for (const keyword of blockedKeywords) {
-        if (lowerContent.includes(keyword.toLowerCase())) {
-          return { 
-            isSafe: false, 
-            flagReason: `Blocked keyword detected: "${keyword}"`, 
-            alertType: 'blocked_keyword' 
-          };
-        }
-      }
-    }
+  // Replaces output that failed the check. The teen didn't write it, so their message isn't flagged
+  // and no parent alert is raised, whatever the matched category.
+  private replyReplacement(verdict: SafetyVerdict): AIResponse {
+    return {
+      content: verdict.action === 'redirect' ? REDIRECT_RESPONSE : this.generateSafetyResponse('inappropriate_content'),
+      isSafe: true
+    };
+  }
 
-    // Content filter level checks
-    if (parentalControls.content_filter_level === 'strict') {
-      const strictPatterns = [
-        /(?:dating|boyfriend|girlfriend|romance)/i,
-        /(?:body|physical\s+appearance|looks)/i,
-        /(?:social\s+media|instagram|tiktok|snapchat)/i
-      ];
-
-      for (const pattern of strictPatterns) {
-        if (pattern.test(content)) {
-          return { 
-            isSafe: false, 
-            flagReason: `Strict filter violation: "${pattern.source}"`, 
-            alertType: 'inappropriate_content' 
-          };
-        }
-      }
+  // Reply used instead of the model's: a gentle redirect, or a safety response that flags the message
+  private policyResponse(verdict: SafetyVerdict, responseType: string): AIResponse {
+    if (verdict.action === 'redirect') {
+      return { content: REDIRECT_RESPONSE, isSafe: true };
     }
-
-    return { isSafe: true };
+    return {
+      content: this.generateSafetyResponse(responseType),
+      isSafe: false,
+      flagReason: verdict.flagReason,
+      alertType: verdict.alertType
+    };
   }
 
   private generateSafetyResponse(alertType: string): string {
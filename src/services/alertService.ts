@@ -0,0 +1,480 @@
+// Alert Service for Teen AI Platform
+// Delivers safety alerts to parents by email, signed webhook and Web Push: urgent alerts at once
+// with reminders while unread, the rest in a digest. Every attempt is queued, retried and logged.
+
+import { DatabaseService } from './databaseService'
+import { EmailSender, createEmailSender } from './emailService'
+import { fromSqlDate, generateSecureToken, toSqlDate } from './authService'
+import { PushSubscriptionGoneError, VapidKeys, isValidSubscription, sendPushMessage } from './webPushService'
+
+export const ALERT_CHANNEL_TYPES = ['email', 'webhook', 'push'] as const;
+export type AlertChannelType = typeof ALERT_CHANNEL_TYPES[number];
+
+export type AlertUrgency = 'immediate' | 'digest';
+export type DeliveryKind = 'immediate' | 'reminder' | 'digest';
+
+// Sent the moment they are raised and repeated until read; everything else waits for the digest
+export const IMMEDIATE_ALERT_TYPES = ['self_harm'];
+
+// Minutes before each retry; a delivery is marked failed after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+// A delivery being sent is locked this long, so an overlapping run doesn't send it twice
+const CLAIM_MINUTES = 5;
+const DELIVERY_BATCH_SIZE = 50;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAX_CHANNELS_PER_PARENT = 10;
+
+export interface AlertSettings {
+  renotifyMinutes: number;
+  maxRenotify: number;
+  digestIntervalMinutes: number;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  renotifyMinutes: 15,
+  maxRenotify: 3,
+  digestIntervalMinutes: 24 * 60
+};
+
+const SETTING_LIMITS: Record<keyof AlertSettings, [number, number]> = {
+  renotifyMinutes: [5, 24 * 60],
+  maxRenotify: [0, 10],
+  digestIntervalMinutes: [60, 7 * 24 * 60]
+};
+
+export interface AlertSummary {
+  id: string;
+  teenName: string;
+  alertType: string;
+  reason: string;
+  conversationTitle: string;
+  createdAt: string;
+}
+
+// What every channel receives; webhooks get it as-is
+export interface AlertNotification {
+  event: 'safety_alert' | 'safety_alert.reminder' | 'safety_alert.digest';
+  alerts: AlertSummary[];
+  reminder?: number; // 1 for the first reminder, and so on
+  dashboardUrl: string;
+}
+
+export interface ChannelTarget {
+  type: AlertChannelType;
+  target: string;
+  secret?: string | null;
+  pushP256dh?: string | null;
+  pushAuth?: string | null;
+}
+
+export interface AlertTransport {
+  deliver(channel: ChannelTarget, notification: AlertNotification, deliveryId: string): Promise<void>;
+}
+
+export interface NewAlertChannel {
+  type: AlertChannelType;
+  target: string;
+  label: string | null;
+  pushP256dh?: string;
+  pushAuth?: string;
+}
+
+export interface DispatchSummary {
+  reminders: number;
+  digests: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export function alertUrgency(alertType: string): AlertUrgency {
+  return IMMEDIATE_ALERT_TYPES.includes(alertType) ? 'immediate' : 'digest';
+}
+
+function alertTypeLabel(alertType: string): string {
+  const label = alertType.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function headline(notification: AlertNotification): string {
+  const [first] = notification.alerts;
+  switch (notification.event) {
+    case 'safety_alert':
+      return `Urgent: ${alertTypeLabel(first.alertType)} alert for ${first.teenName}`;
+    case 'safety_alert.reminder':
+      return `Reminder: unread ${alertTypeLabel(first.alertType).toLowerCase()} alert for ${first.teenName}`;
+    default:
+      return `${notification.alerts.length} safety alert${notification.alerts.length === 1 ? '' : 's'} for your family`;
+  }
+}
+
+export class EmailAlertTransport implements AlertTransport {
+  constructor(private sender: EmailSender) {}
+
+  async deliver(channel: ChannelTarget, notification: AlertNotification): Promise<void> {
+    const lines = notification.alerts.map(alert =>
+      `- ${alert.teenName}: ${alertTypeLabel(alert.alertType)} in "${alert.conversationTitle}" (${alert.reason})`
+    );
+    const items = notification.alerts.map(alert =>
+      `<li><strong>${escapeHtml(alert.teenName)}</strong>: ${escapeHtml(alertTypeLabel(alert.alertType))} in ` +
+      `"${escapeHtml(alert.conversationTitle)}" (${escapeHtml(alert.reason)})</li>`
+    );
+    const intro = notification.event === 'safety_alert.digest'
+      ? 'These safety alerts were raised since your last summary:'
+      : 'A safety alert needs your attention:';
+
+    await this.sender.send({
+      to: channel.target,
+      subject: headline(notification),
+      text: `${intro}\n\n${lines.join('\n')}\n\nOpen your dashboard to read the conversation and mark the alert as read:\n${notification.dashboardUrl}`,
+      html: `<p>${intro}</p><ul>${items.join('')}</ul><p><a href="${notification.dashboardUrl}">Open your dashboard</a> to read the conversation and mark the alert as read.</p>`
+    });
+  }
+}
+
+// Receivers should recompute the HMAC over "<timestamp>.<body>" with their secret
+// and compare it to v1 in the X-Alert-Signature header
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class WebhookAlertTransport implements AlertTransport {
+  async deliver(channel: ChannelTarget, notification: AlertNotification, deliveryId: string): Promise<void> {
+    const body = JSON.stringify({ id: deliveryId, ...notification });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await fetch(channel.target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Alert-Event': notification.event,
+        'X-Alert-Delivery': deliveryId,
+        'X-Alert-Signature': `t=${timestamp},v1=${await signWebhookPayload(channel.secret || '', timestamp, body)}`
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      redirect: 'manual' // Following a redirect would send the alert somewhere the parent never registered
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      throw new Error(`Webhook redirected (${response.status}); register the final URL instead`);
+    }
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status}`);
+    }
+  }
+}
+
+// The service worker (public/static/sw.js) shows the payload as a notification
+export class PushAlertTransport implements AlertTransport {
+  constructor(private vapid: VapidKeys) {}
+
+  async deliver(channel: ChannelTarget, notification: AlertNotification): Promise<void> {
+    const [first] = notification.alerts;
+    const payload = JSON.stringify({
+      title: headline(notification),
+      body: notification.event === 'safety_alert.digest'
+        ? notification.alerts.map(alert => `${alert.teenName}: ${alertTypeLabel(alert.alertType)}`).join(', ')
+        : `In "${first.conversationTitle}". Tap to open your dashboard.`,
+      url: notification.dashboardUrl,
+      tag: notification.event === 'safety_alert.digest' ? 'safety-digest' : `safety-alert-${first.id}`
+    });
+
+    await sendPushMessage(
+      { endpoint: channel.target, p256dh: channel.pushP256dh || '', auth: channel.pushAuth || '' },
+      payload,
+      this.vapid,
+      { urgency: notification.event === 'safety_alert.digest' ? 'normal' : 'high' }
+    );
+  }
+}
+
+function isAllowedWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    // Plain http only for local development receivers
+    return url.protocol === 'https:' ||
+      (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+  } catch {
+    return false;
+  }
+}
+
+// Validates the body of POST /api/alert-channels
+export function validateAlertChannel(input: any): { channel: NewAlertChannel } | { error: string } {
+  if (!ALERT_CHANNEL_TYPES.includes(input?.type)) {
+    return { error: `Channel type must be one of ${ALERT_CHANNEL_TYPES.join(', ')}` };
+  }
+  if (input.label !== undefined && input.label !== null && (typeof input.label !== 'string' || input.label.length > 60)) {
+    return { error: 'Label must be text of at most 60 characters' };
+  }
+  const label = input.label ? input.label.trim() : null;
+
+  switch (input.type as AlertChannelType) {
+    case 'email':
+      if (typeof input.address !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.address)) {
+        return { error: 'A valid email address is required' };
+      }
+      return { channel: { type: 'email', target: input.address.trim().toLowerCase(), label } };
+
+    case 'webhook':
+      if (typeof input.url !== 'string' || !isAllowedWebhookUrl(input.url)) {
+        return { error: 'Webhook URL must use https' };
+      }
+      return { channel: { type: 'webhook', target: input.url, label } };
+
+    case 'push': {
+      const subscription = input.subscription;
+      const keys = {
+        endpoint: subscription?.endpoint,
+        p256dh: subscription?.keys?.p256dh,
+        auth: subscription?.keys?.auth
+      };
+      if (typeof keys.endpoint !== 'string' || typeof keys.p256dh !== 'string' ||
+          typeof keys.auth !== 'string' || !isValidSubscription(keys)) {
+        return { error: 'subscription must be a browser push subscription with endpoint and keys' };
+      }
+      return { channel: { type: 'push', target: keys.endpoint, label, pushP256dh: keys.p256dh, pushAuth: keys.auth } };
+    }
+  }
+}
+
+export function alertSettingsFrom(row: Record<string, any> | null): AlertSettings {
+  return row
+    ? {
+        renotifyMinutes: row.renotify_minutes as number,
+        maxRenotify: row.max_renotify as number,
+        digestIntervalMinutes: row.digest_interval_minutes as number
+      }
+    : { ...DEFAULT_ALERT_SETTINGS };
+}
+
+// Validates PUT /api/alert-settings; missing fields keep their current values
+export function validateAlertSettings(input: any, current: AlertSettings): { settings: AlertSettings } | { error: string } {
+  const settings = { ...current };
+
+  for (const [field, [min, max]] of Object.entries(SETTING_LIMITS) as [keyof AlertSettings, [number, number]][]) {
+    if (input?.[field] === undefined) {
+      continue;
+    }
+    if (!Number.isInteger(input[field]) || input[field] < min || input[field] > max) {
+      return { error: `${field} must be a whole number between ${min} and ${max}` };
+    }
+    settings[field] = input[field];
+  }
+
+  return { settings };
+}
+
+export class AlertDispatcher {
+  // `background` lets request handlers send after responding (executionCtx.waitUntil);
+  // without it, queued deliveries are sent before alertCreated resolves
+  constructor(
+    private db: DatabaseService,
+    private transports: Record<AlertChannelType, AlertTransport | null>,
+    private appUrl: string,
+    private background?: (work: Promise<unknown>) => void
+  ) {}
+
+  async addChannel(parentId: string, channel: NewAlertChannel): Promise<{ id: string; secret: string | null } | { error: string }> {
+    if (await this.db.countAlertChannels(parentId) >= MAX_CHANNELS_PER_PARENT) {
+      return { error: `You can set up at most ${MAX_CHANNELS_PER_PARENT} alert channels` };
+    }
+    if (channel.type === 'push' && !this.transports.push) {
+      return { error: 'Push notifications are not available on this server' };
+    }
+
+    const id = generateSecureToken(12);
+    const secret = channel.type === 'webhook' ? `whsec_${generateSecureToken(24)}` : null;
+    await this.db.createAlertChannel({ id, parentId, ...channel, secret });
+    return { id, secret };
+  }
+
+  // Call after a safety alert row is written
+  async alertCreated(alertId: string, now: Date = new Date()) {
+    const alert = await this.db.getSafetyAlertForDelivery(alertId);
+    if (!alert || alert.urgency !== 'immediate') {
+      return;
+    }
+
+    await this.queue(alert.parent_id as string, 'immediate', this.notification('safety_alert', [alert]), alertId, now);
+    await this.db.recordAlertNotified(alertId, toSqlDate(now));
+
+    const work = this.deliverPending(now);
+    if (this.background) {
+      this.background(work);
+    } else {
+      await work;
+    }
+  }
+
+  // Periodic work: reminders for unread urgent alerts, digests that are due, then all due deliveries and retries
+  async processDue(now: Date = new Date()): Promise<DispatchSummary> {
+    const at = toSqlDate(now);
+    let reminders = 0;
+    let digests = 0;
+
+    const unread = await this.db.getAlertsNeedingReminder(at);
+    for (const alert of unread.results || []) {
+      const notification = this.notification('safety_alert.reminder', [alert]);
+      notification.reminder = alert.notify_count as number;
+      await this.queue(alert.parent_id as string, 'reminder', notification, alert.id as string, now);
+      await this.db.recordAlertNotified(alert.id as string, at);
+      reminders++;
+    }
+
+    const parents = await this.db.getParentsWithDigestDue(at);
+    for (const { parent_id: parentId } of parents.results || []) {
+      const alerts = (await this.db.getPendingDigestAlerts(parentId as string)).results || [];
+      if (alerts.length > 0) {
+        await this.queue(parentId as string, 'digest', this.notification('safety_alert.digest', alerts), null, now);
+        await this.db.markAlertsDigested(alerts.map(alert => alert.id as string), at);
+        digests++;
+      }
+      await this.db.setLastDigestAt(parentId as string, at);
+    }
+
+    return { reminders, digests, ...(await this.deliverPending(now)) };
+  }
+
+  async deliverPending(now: Date = new Date()): Promise<Omit<DispatchSummary, 'reminders' | 'digests'>> {
+    const summary = { sent: 0, retrying: 0, failed: 0 };
+    const due = await this.db.getDueAlertDeliveries(toSqlDate(now), DELIVERY_BATCH_SIZE);
+
+    for (const delivery of due.results || []) {
+      const claimedUntil = toSqlDate(new Date(now.getTime() + CLAIM_MINUTES * 60 * 1000));
+      if (!(await this.db.claimAlertDelivery(delivery.id as string, toSqlDate(now), claimedUntil))) {
+        continue; // Another run got it first
+      }
+
+      const outcome = await this.attempt(delivery, now);
+      summary[outcome]++;
+    }
+
+    return summary;
+  }
+
+  private async attempt(delivery: Record<string, any>, now: Date): Promise<'sent' | 'retrying' | 'failed'> {
+    const attempts = (delivery.attempts as number) + 1;
+    const transport = this.transports[delivery.channel_type as AlertChannelType];
+
+    try {
+      if (!transport) {
+        throw new Error(`${delivery.channel_type} delivery is not configured`);
+      }
+      if (delivery.channel_id && !delivery.channel_active) {
+        throw new PushSubscriptionGoneError(410);
+      }
+
+      await transport.deliver(
+        {
+          type: delivery.channel_type,
+          target: delivery.target,
+          secret: delivery.secret,
+          pushP256dh: delivery.push_p256dh,
+          pushAuth: delivery.push_auth
+        },
+        JSON.parse(delivery.payload),
+        delivery.id
+      );
+
+      await this.db.markAlertDeliverySent(delivery.id, attempts, toSqlDate(now));
+      return 'sent';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Alert delivery ${delivery.id} (${delivery.channel_type}) failed:`, message);
+
+      // An expired push subscription won't come back, so stop using it
+      if (error instanceof PushSubscriptionGoneError) {
+        if (delivery.channel_id) {
+          await this.db.deactivateAlertChannel(delivery.channel_id);
+        }
+        await this.db.markAlertDeliveryFailed(delivery.id, attempts, message, null);
+        return 'failed';
+      }
+
+      const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+      const retryAt = delay === undefined ? null : toSqlDate(new Date(now.getTime() + delay * 60 * 1000));
+      await this.db.markAlertDeliveryFailed(delivery.id, attempts, message, retryAt);
+      return retryAt ? 'retrying' : 'failed';
+    }
+  }
+
+  // One delivery per active channel; parents who haven't set any up get an email at their account address
+  private async queue(parentId: string, kind: DeliveryKind, notification: AlertNotification, alertId: string | null, now: Date) {
+    const channels = (await this.db.getAlertChannels(parentId)).results?.filter(channel => channel.is_active) || [];
+    const payload = JSON.stringify(notification);
+
+    if (channels.length === 0) {
+      const parent = await this.db.getUserById(parentId);
+      if (parent?.email) {
+        channels.push({ id: null, channel_type: 'email', target: parent.email });
+      }
+    }
+
+    for (const channel of channels) {
+      await this.db.createAlertDelivery({
+        id: generateSecureToken(12),
+        parentId,
+        alertId,
+        channelId: channel.id as string | null,
+        channelType: channel.channel_type as string,
+        target: channel.target as string,
+        kind,
+        payload,
+        nextAttemptAt: toSqlDate(now)
+      });
+    }
+  }
+
+  private notification(event: AlertNotification['event'], alerts: Record<string, any>[]): AlertNotification {
+    return {
+      event,
+      alerts: alerts.map(alert => ({
+        id: alert.id,
+        teenName: alert.teen_name,
+        alertType: alert.alert_type,
+        reason: alert.alert_reason,
+        conversationTitle: alert.conversation_title,
+        createdAt: fromSqlDate(alert.created_at).toISOString()
+      })),
+      dashboardUrl: `${this.appUrl}/`
+    };
+  }
+}
+
+// Shared by request handlers and the scheduler; push is only available once VAPID keys are configured
+export function createAlertDispatcher(
+  env: {
+    DB: D1Database;
+    RESEND_API_KEY?: string;
+    EMAIL_FROM?: string;
+    VAPID_PUBLIC_KEY?: string;
+    VAPID_PRIVATE_KEY?: string;
+    VAPID_SUBJECT?: string;
+  },
+  appUrl: string,
+  background?: (work: Promise<unknown>) => void
+): AlertDispatcher {
+  const push = env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY
+    ? new PushAlertTransport({
+        publicKey: env.VAPID_PUBLIC_KEY,
+        privateKey: env.VAPID_PRIVATE_KEY,
+        subject: env.VAPID_SUBJECT || appUrl
+      })
+    : null;
+
+  return new AlertDispatcher(
+    new DatabaseService(env.DB),
+    { email: new EmailAlertTransport(createEmailSender(env)), webhook: new WebhookAlertTransport(), push },
+    appUrl,
+    background
+  );
+}
@@ -0,0 +1,251 @@
+// Analytics Service for Teen AI Platform
+// Parent trend reports: message, time, alert and per-GPT series in the family's timezone, compared with the previous period
+
+import { DatabaseService } from './databaseService'
+import { fromSqlDate } from './authService'
+import { DAY_NAMES, localWallClock } from './scheduleService'
+import { usageDateFor } from './usageService'
+
+export const ANALYTICS_RANGES = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 } as const;
+export type AnalyticsRange = keyof typeof ANALYTICS_RANGES;
+
+export const GRANULARITIES = ['day', 'week'] as const;
+export type Granularity = typeof GRANULARITIES[number];
+
+export interface Comparison {
+  current: number;
+  previous: number;
+  changePercent: number | null; // null when there was nothing in the previous period
+}
+
+export interface PeriodBounds {
+  from: string; // Inclusive local dates, YYYY-MM-DD
+  to: string;
+}
+
+export interface TrendReport {
+  range: AnalyticsRange;
+  granularity: Granularity;
+  timeZone: string;
+  current: PeriodBounds;
+  previous: PeriodBounds;
+  // Buckets are labelled with their first day; weeks start on Monday
+  messages: {
+    series: { period: string; messages: number; flagged: number }[];
+    previousSeries: { period: string; messages: number; flagged: number }[];
+    totals: { messages: Comparison; flagged: Comparison };
+  };
+  minutes: {
+    series: { period: string; minutes: number }[];
+    previousSeries: { period: string; minutes: number }[];
+    totals: Comparison;
+  };
+  heatmap: {
+    days: readonly string[];
+    counts: number[][]; // counts[day][hour] of teen messages in the current period, local time
+  };
+  alerts: {
+    series: { period: string; total: number; byType: Record<string, number> }[];
+    previousSeries: { period: string; total: number; byType: Record<string, number> }[];
+    totals: Comparison;
+    byType: Record<string, Comparison>;
+  };
+  gpts: { gptId: string; name: string; messages: Comparison; conversations: Comparison }[];
+}
+
+type Period = 'current' | 'previous';
+
+export function isAnalyticsRange(value: unknown): value is AnalyticsRange {
+  return typeof value === 'string' && value in ANALYTICS_RANGES;
+}
+
+export function isGranularity(value: unknown): value is Granularity {
+  return GRANULARITIES.includes(value as Granularity);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().substring(0, 10);
+}
+
+function weekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+function bucketKeys(bounds: PeriodBounds, granularity: Granularity): string[] {
+  const keys: string[] = [];
+  for (let date = bounds.from; date <= bounds.to; date = addDays(date, 1)) {
+    const key = granularity === 'day' ? date : weekStart(date);
+    if (keys[keys.length - 1] !== key) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+export function compare(current: number, previous: number): Comparison {
+  return {
+    current,
+    previous,
+    changePercent: previous ? Math.round((current - previous) / previous * 100) : null
+  };
+}
+
+// Series for both periods, filled with zeros so charts have a point for every bucket
+class PeriodSeries<T extends Record<string, any>> {
+  private buckets: Record<Period, Map<string, T>>;
+
+  constructor(
+    bounds: Record<Period, PeriodBounds>,
+    private granularity: Granularity,
+    empty: () => T
+  ) {
+    this.buckets = {
+      current: new Map(bucketKeys(bounds.current, granularity).map(key => [key, empty()])),
+      previous: new Map(bucketKeys(bounds.previous, granularity).map(key => [key, empty()]))
+    };
+  }
+
+  at(period: Period, date: string): T {
+    return this.buckets[period].get(this.granularity === 'day' ? date : weekStart(date))!;
+  }
+
+  list(period: Period): (T & { period: string })[] {
+    return [...this.buckets[period]].map(([period, values]) => ({ period, ...values }));
+  }
+}
+
+export class AnalyticsService {
+  constructor(private db: DatabaseService) {}
+
+  async trends(
+    teenId: string,
+    options: { range: AnalyticsRange; granularity: Granularity; timeZone: string },
+    now: Date = new Date()
+  ): Promise<TrendReport> {
+    const { range, granularity, timeZone } = options;
+    const days = ANALYTICS_RANGES[range];
+    const today = usageDateFor(now, timeZone);
+    const current = { from: addDays(today, 1 - days), to: today };
+    const previous = { from: addDays(current.from, -days), to: addDays(current.from, -1) };
+    const bounds = { current, previous };
+
+    const periodOf = (date: string): Period | null =>
+      date >= current.from && date <= current.to ? 'current' :
+      date >= previous.from && date <= previous.to ? 'previous' : null;
+
+    // Local dates can be up to 14 hours off UTC, so query a day either side and let periodOf trim
+    const since = `${addDays(previous.from, -1)} 00:00:00`;
+    const until = `${addDays(current.to, 2)} 00:00:00`;
+
+    // Hour buckets are converted whole, so zones with half-hour offsets shift by 30 minutes
+    const clock = new Map<string, { date: string; day: number; hour: number }>();
+    const localHour = (hour: string) => {
+      if (!clock.has(hour)) {
+        const local = localWallClock(fromSqlDate(hour), timeZone);
+        clock.set(hour, { date: local.date, day: local.day, hour: Math.floor(local.minuteOfDay / 60) });
+      }
+      return clock.get(hour)!;
+    };
+
+    const messages = new PeriodSeries(bounds, granularity, () => ({ messages: 0, flagged: 0 }));
+    const heatmap = DAY_NAMES.map(() => new Array<number>(24).fill(0));
+    const gpts = new Map<string, { name: string; messages: Record<Period, number>; conversations: Record<Period, number> }>();
+    const gpt = (row: Record<string, any>) => {
+      if (!gpts.has(row.custom_gpt_id)) {
+        gpts.set(row.custom_gpt_id, {
+          name: row.gpt_name,
+          messages: { current: 0, previous: 0 },
+          conversations: { current: 0, previous: 0 }
+        });
+      }
+      return gpts.get(row.custom_gpt_id)!;
+    };
+
+    for (const row of (await this.db.getHourlyMessageActivity(teenId, since, until)).results || []) {
+      const local = localHour(row.hour as string);
+      const period = periodOf(local.date);
+      if (!period) continue;
+
+      const bucket = messages.at(period, local.date);
+      bucket.messages += row.messages as number;
+      bucket.flagged += row.flagged as number;
+      gpt(row).messages[period] += row.messages as number;
+      if (period === 'current') {
+        heatmap[local.day][local.hour] += row.messages as number;
+      }
+    }
+
+    for (const row of (await this.db.getHourlyConversationStarts(teenId, since, until)).results || []) {
+      const period = periodOf(localHour(row.hour as string).date);
+      if (period) {
+        gpt(row).conversations[period] += row.conversations as number;
+      }
+    }
+
+    const alerts = new PeriodSeries(bounds, granularity, () => ({ total: 0, byType: {} as Record<string, number> }));
+    const alertTypes: Record<string, Record<Period, number>> = {};
+    for (const row of (await this.db.getHourlyAlertCounts(teenId, since, until)).results || []) {
+      const local = localHour(row.hour as string);
+      const period = periodOf(local.date);
+      if (!period) continue;
+
+      const type = row.alert_type as string;
+      const bucket = alerts.at(period, local.date);
+      bucket.total += row.alerts as number;
+      bucket.byType[type] = (bucket.byType[type] || 0) + (row.alerts as number);
+      alertTypes[type] = alertTypes[type] || { current: 0, previous: 0 };
+      alertTypes[type][period] += row.alerts as number;
+    }
+
+    const minutes = new PeriodSeries(bounds, granularity, () => ({ minutes: 0 }));
+    for (const row of (await this.db.getActiveSecondsByDate(teenId, previous.from, current.to)).results || []) {
+      const period = periodOf(row.usage_date as string);
+      if (period) {
+        minutes.at(period, row.usage_date as string).minutes += (row.seconds as number) / 60;
+      }
+    }
+    const minuteSeries = (period: Period) =>
+      minutes.list(period).map(bucket => ({ ...bucket, minutes: Math.round(bucket.minutes) }));
+
+    const sum = <T>(list: T[], value: (item: T) => number) => list.reduce((total, item) => total + value(item), 0);
+
+    return {
+      range,
+      granularity,
+      timeZone,
+      current,
+      previous,
+      messages: {
+        series: messages.list('current'),
+        previousSeries: messages.list('previous'),
+        totals: {
+          messages: compare(sum(messages.list('current'), b => b.messages), sum(messages.list('previous'), b => b.messages)),
+          flagged: compare(sum(messages.list('current'), b => b.flagged), sum(messages.list('previous'), b => b.flagged))
+        }
+      },
+      minutes: {
+        series: minuteSeries('current'),
+        previousSeries: minuteSeries('previous'),
+        totals: compare(sum(minuteSeries('current'), b => b.minutes), sum(minuteSeries('previous'), b => b.minutes))
+      },
+      heatmap: { days: DAY_NAMES, counts: heatmap },
+      alerts: {
+        series: alerts.list('current'),
+        previousSeries: alerts.list('previous'),
+        totals: compare(sum(alerts.list('current'), b => b.total), sum(alerts.list('previous'), b => b.total)),
+        byType: Object.fromEntries(
+          Object.entries(alertTypes).map(([type, counts]) => [type, compare(counts.current, counts.previous)])
+        )
+      },
+      gpts: [...gpts]
+        .map(([gptId, usage]) => ({
+          gptId,
+          name: usage.name,
+          messages: compare(usage.messages.current, usage.messages.previous),
+          conversations: compare(usage.conversations.current, usage.conversations.previous)
+        }))
+        .sort((a, b) => b.messages.current - a.messages.current || a.name.localeCompare(b.name))
+    };
+  }
+}
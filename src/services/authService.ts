@@ -0,0 +1,244 @@
+// Auth Service for Teen AI Platform
+// Handles password hashing, sessions, email verification, magic links and lockout
+
+import { DatabaseService } from './databaseService'
+import { EmailSender } from './emailService'
+
+const PBKDF2_ITERATIONS = 100000; // Workers cap PBKDF2 at 100k iterations
+const SESSION_DAYS = 30;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const MAGIC_LINK_MINUTES = 15;
+const VERIFICATION_HOURS = 24;
+const MIN_PASSWORD_LENGTH = 8;
+
+type TokenPurpose = 'email_verification' | 'magic_link';
+
+export type AuthResult =
+  | { success: true; user: Record<string, any>; sessionId: string }
+  | { success: false; error: string; status: 400 | 401 | 403 | 423; lockedUntil?: string };
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// SQLite's datetime('now') format, so stored timestamps compare correctly as strings
+export function toSqlDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+export function fromSqlDate(value: string): Date {
+  return new Date(value.replace(' ', 'T') + (value.endsWith('Z') ? '' : 'Z'));
+}
+
+export function generateSecureToken(byteLength: number = 32): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = fromHex(hashHex);
+  const actual = await derivePasswordKey(password, fromHex(saltHex), parseInt(iterations, 10));
+  return timingSafeEqual(expected, actual);
+}
+
+// Constant-time comparison, so the time taken doesn't reveal how much of a secret was guessed
+export function timingSafeEqual(expected: Uint8Array, actual: Uint8Array): boolean {
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+    diff |= expected[i] ^ actual[i];
+  }
+  return diff === 0;
+}
+
+export function validatePasswordStrength(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function publicUser(user: Record<string, any>) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    parentId: user.parent_id
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export class AuthService {
+  constructor(
+    private db: DatabaseService,
+    private emailSender: EmailSender,
+    private appUrl: string
+  ) {}
+
+  async createSession(userId: string): Promise<string> {
+    const sessionId = generateSecureToken();
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + SESSION_DAYS);
+
+    await this.db.createSession({
+      id: sessionId,
+      userId,
+      expiresAt: toSqlDate(expiresAt)
+    });
+
+    return sessionId;
+  }
+
+  async loginWithPassword(email: string, password: string): Promise<AuthResult> {
+    const user = await this.db.getUserByEmail(email);
+
+    // Same response for unknown accounts and bad passwords
+    if (!user) {
+      return { success: false, error: 'Invalid email or password', status: 401 };
+    }
+
+    const lockedUntil = user.locked_until as string | null;
+    if (lockedUntil && fromSqlDate(lockedUntil) > new Date()) {
+      return {
+        success: false,
+        error: 'Too many failed attempts. Try again later or sign in with an email link.',
+        status: 423,
+        lockedUntil: fromSqlDate(lockedUntil).toISOString()
+      };
+    }
+
+    const passwordHash = user.password_hash as string | null;
+    if (!passwordHash || !(await verifyPassword(password, passwordHash))) {
+      await this.db.recordFailedLogin(user.id as string, MAX_FAILED_ATTEMPTS, LOCKOUT_MINUTES);
+      return { success: false, error: 'Invalid email or password', status: 401 };
+    }
+
+    if (!user.email_verified) {
+      return { success: false, error: 'Please verify your email address before signing in', status: 403 };
+    }
+
+    await this.db.resetFailedLogins(user.id as string);
+    const sessionId = await this.createSession(user.id as string);
+    return { success: true, user, sessionId };
+  }
+
+  async sendVerificationEmail(user: Record<string, any>): Promise<void> {
+    const token = await this.issueToken(user.id, 'email_verification', VERIFICATION_HOURS * 60);
+    const link = `${this.appUrl}/?verify=${token}`;
+
+    await this.emailSender.send({
+      to: user.email,
+      subject: 'Verify your Teen AI Platform account',
+      text: `Hi ${user.name},\n\nPlease confirm your email address by opening this link:\n\n${link}\n\nThis link expires in ${VERIFICATION_HOURS} hours.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>Please confirm your email address by opening this link:</p><p><a href="${link}">Verify my email</a></p><p>This link expires in ${VERIFICATION_HOURS} hours.</p>`
+    });
+  }
+
+  // Always resolves, so callers cannot probe which emails have accounts
+  async sendMagicLink(email: string): Promise<void> {
+    const user = await this.db.getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = await this.issueToken(user.id as string, 'magic_link', MAGIC_LINK_MINUTES);
+    const link = `${this.appUrl}/?magic=${token}`;
+
+    await this.emailSender.send({
+      to: user.email as string,
+      subject: 'Your Teen AI Platform sign-in link',
+      text: `Hi ${user.name},\n\nUse this link to sign in:\n\n${link}\n\nIt expires in ${MAGIC_LINK_MINUTES} minutes and can only be used once. If you didn't ask for it, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(user.name as string)},</p><p><a href="${link}">Sign in to Teen AI Platform</a></p><p>It expires in ${MAGIC_LINK_MINUTES} minutes and can only be used once. If you didn't ask for it, you can ignore this email.</p>`
+    });
+  }
+
+  async verifyEmail(token: string): Promise<AuthResult> {
+    const userId = await this.db.consumeAuthToken(await hashToken(token), 'email_verification');
+    if (!userId) {
+      return { success: false, error: 'Verification link is invalid or has expired', status: 400 };
+    }
+
+    await this.db.markEmailVerified(userId);
+    return this.startSessionFor(userId);
+  }
+
+  async loginWithMagicLink(token: string): Promise<AuthResult> {
+    const userId = await this.db.consumeAuthToken(await hashToken(token), 'magic_link');
+    if (!userId) {
+      return { success: false, error: 'Sign-in link is invalid or has expired', status: 400 };
+    }
+
+    // Opening the link proves ownership of the inbox
+    await this.db.markEmailVerified(userId);
+    await this.db.resetFailedLogins(userId);
+    return this.startSessionFor(userId);
+  }
+
+  async logout(sessionId: string): Promise<void> {
+    await this.db.deleteSession(sessionId);
+  }
+
+  private async startSessionFor(userId: string): Promise<AuthResult> {
+    const user = await this.db.getUserById(userId);
+    if (!user) {
+      return { success: false, error: 'Account not found', status: 401 };
+    }
+
+    const sessionId = await this.createSession(userId);
+    return { success: true, user, sessionId };
+  }
+
+  private async issueToken(userId: string, purpose: TokenPurpose, ttlMinutes: number): Promise<string> {
+    const token = generateSecureToken();
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await this.db.createAuthToken({
+      id: generateSecureToken(16),
+      userId,
+      tokenHash: await hashToken(token),
+      purpose,
+      expiresAt: toSqlDate(expiresAt)
+    });
+
+    return token;
+  }
+}
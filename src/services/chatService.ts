@@ -0,0 +1,335 @@
+// Chat Service for Teen AI Platform
+// Runs a teen's message through safety checks and the AI, then saves the turn and any safety alert
+
+import { DatabaseService } from './databaseService'
+import { AIService, AIResponse, AIStreamEvent, ParentalControls } from './aiService'
+import { AlertDispatcher, alertUrgency } from './alertService'
+import { CRISIS_MODE_PROMPT, CrisisService } from './crisisService'
+import { generateSecureToken } from './authService'
+import { LLMProvider } from './llmService'
+import { MemoryService, RECENT_MESSAGES } from './memoryService'
+import { REDIRECT_RESPONSE, checkContentSafety } from './safetyService'
+import { ScriptureCitation, ScriptureService, preferredTranslation } from './scriptureService'
+import { HELD_REPLY_PLACEHOLDER, ReviewService, shouldHoldReplies } from './reviewService'
+import { KeywordTopicClassifier, TopicCheck, TopicClassifier, checkTopic, parseAllowedTopics } from './topicService'
+import { TutoringPlan, TutoringService, tutoringFallback, tutoringPrompt } from './tutoringService'
+
+export interface ChatContext {
+  user: Record<string, any>; // The teen sending the message
+  conversation: Record<string, any>; // Row from getConversationById
+  parentalControls: ParentalControls & Record<string, any>; // Row from getParentalControlsByTeen
+}
+
+export interface ChatTurn {
+  userMessage: { id: string; content: string; isFlagged: boolean; topic: string | null };
+  // content is a placeholder while held; citations are the verses the reply cites, with quotations checked;
+  // tutoring is set when the reply was a Socratic hint
+  aiMessage: { id: string; content: string; held: boolean; citations: ScriptureCitation[]; tutoring: TutoringPlan | null };
+}
+
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'replace'; content: string }
+  | { type: 'done'; turn: ChatTurn };
+
+export function generateEnhancedFallback(content: string, isFlagged: boolean = false): string {
+  if (isFlagged) {
+    return "I notice you might be going through something difficult. Remember that God loves you deeply, and there are people who care about you. If you're struggling, please talk to a trusted adult like your parents, a teacher, or a counselor. Is there something positive I can help you with instead?";
+  }
+  
+  const lowerContent = content.toLowerCase();
+  
+  if (lowerContent.includes('math') || lowerContent.includes('algebra') || lowerContent.includes('homework')) {
+    return `I'd love to help you with your math studies! Mathematics beautifully reflects God's perfect order and design throughout creation. When we solve equations, we're discovering the logical relationships that God built into reality itself.
+
+What specific math concept are you working on? Whether it's algebra, geometry, or another area, I'm here to walk through it step by step with you. Remember, Proverbs tells us that "the beginning of wisdom is the fear of the Lord" - and that includes using our minds to understand His mathematical design!
+
+What particular problem or concept would you like to explore together?`;
+  } else if (lowerContent.includes('bible') || lowerContent.includes('god') || lowerContent.includes('jesus') || lowerContent.includes('faith')) {
+    return `What a wonderful question about faith! I'm excited to explore God's Word with you. The Bible is our ultimate source of truth and wisdom, and Jesus said "Ask and it will be given to you; seek and you will find; knock and the door will be opened to you" (Matthew 7:7).
+
+God's Word has so much to teach us about life, character, and how to live in a way that honors Him. Whether you're curious about a specific Bible verse, want to understand a biblical principle, or are seeking guidance on how faith applies to your daily life, I'm here to help.
+
+What specific aspect of faith or Scripture would you like to dive into together?`;
+  } else if (lowerContent.includes('friend') || lowerContent.includes('relationship') || lowerContent.includes('social')) {
+    return `Relationships and friendships are such an important part of life, and God has a lot to say about how we should treat others! The Bible teaches us to "love one another as I have loved you" (John 13:34) and to be the kind of friend we'd want to have ourselves.
+
+Whether you're navigating friendship challenges, wondering how to be a better friend, or thinking about relationships in general, remember that God desires us to build connections that honor Him and help us grow in character.
+
+What's on your heart about friendships or relationships? I'd love to help you think through it with biblical wisdom and practical guidance.`;
+  } else if (lowerContent.includes('science') || lowerContent.includes('nature') || lowerContent.includes('creation')) {
+    return `Science is amazing - it's one of the ways we get to explore and understand God's incredible creation! From the smallest atoms to the vastness of space, everything displays His wisdom, power, and creativity. As Psalm 19:1 says, "The heavens declare the glory of God; the skies proclaim the work of his hands."
+
+Whether you're studying biology, chemistry, physics, or earth science, you're discovering the intricate designs and laws that God established. Science helps us understand HOW God's creation works, while the Bible tells us WHO created it and WHY.
+
+What area of science are you curious about? I'd love to help you see both the scientific principles and the amazing way they point to our Creator!`;
+  } else {
+    return `I'm here to help you grow in wisdom and knowledge while keeping Christ at the center of our conversations! Whether you have questions about your studies, faith, relationships, or life in general, I want to provide guidance that's both practical and rooted in biblical truth.
+
+God has given you a wonderful mind and heart, and I'm excited to explore whatever questions or topics you're thinking about. The Bible reminds us that "if any of you lacks wisdom, you should ask God, who gives generously to all without finding fault, and it will be given to you" (James 1:5).
+
+What's on your mind today? What would you like to learn about or discuss?`;
+  }
+}
+
+export class ChatService {
+  // Without a provider, replies come from the built-in fallback responses;
+  // without a dispatcher, safety alerts are only shown on the dashboard
+  constructor(
+    private db: DatabaseService,
+    private provider: LLMProvider | null,
+    private topicClassifier: TopicClassifier = new KeywordTopicClassifier(),
+    private alerts: AlertDispatcher | null = null,
+    private crisis: CrisisService = new CrisisService(db),
+    private memory: MemoryService = new MemoryService(db, provider)
+  ) {}
+
+  // Every message the conversation summary doesn't cover yet (see MemoryService), oldest first
+  async loadHistory(conversationId: string): Promise<any[]> {
+    const state = await this.db.getConversationMemoryState(conversationId);
+    const unsummarized = state ? (state.message_count as number) - (state.summarized_messages as number) : 0;
+    const recentMessages = await this.db.getRecentMessagesByConversation(conversationId, Math.max(unsummarized, RECENT_MESSAGES));
+    return recentMessages.results?.reverse() || [];
+  }
+
+  async respond(context: ChatContext, content: string): Promise<ChatTurn> {
+    const history = await this.loadHistory(context.conversation.id);
+    const topicCheck = await this.checkTopic(context, content, history);
+    return this.respondWith(context, content, history, topicCheck);
+  }
+
+  // The rest of respond(), for callers that have already loaded the history and checked the topic
+  private async respondWith(context: ChatContext, content: string, history: any[], topicCheck: TopicCheck): Promise<ChatTurn> {
+    const tutoring = topicCheck.allowed ? await this.planTutoring(context, content) : null;
+    let result: AIResponse;
+
+    if (!topicCheck.allowed) {
+      result = { content: topicCheck.redirect!, isSafe: true };
+    } else if (this.provider) {
+      // Use real AI service
+      const memory = await this.memory.promptFor(context.conversation, context.parentalControls);
+      result = await new AIService(this.provider).generateResponse(
+        content, this.customGPTFor(context, tutoring, memory), context.parentalControls, history,
+        Boolean(context.conversation.crisis_mode)
+      );
+    } else {
+      result = await this.fallbackResponse(context, content, tutoring);
+    }
+
+    return this.saveTurn(context, content, result, topicCheck.topic, tutoring);
+  }
+
+  // Streams the reply, then saves the turn exactly like respond() does
+  async *respondStream(context: ChatContext, content: string): AsyncGenerator<ChatStreamEvent> {
+    const history = await this.loadHistory(context.conversation.id);
+    const topicCheck = await this.checkTopic(context, content, history);
+    let result: AIResponse | null = null;
+    let tutoring: TutoringPlan | null = null;
+
+    if (!topicCheck.allowed) {
+      result = { content: topicCheck.redirect!, isSafe: true };
+      yield* this.wordChunks(result.content);
+    } else if (checkContentSafety(content, context.parentalControls).action === 'block') {
+      // Blocked messages get a safety reply, crisis resources or a held reply: nothing worth streaming
+      const turn = await this.respondWith(context, content, history, topicCheck);
+      yield { type: 'replace', content: turn.aiMessage.content };
+      yield { type: 'done', turn };
+      return;
+    } else if (this.provider) {
+      tutoring = await this.planTutoring(context, content);
+      const memory = await this.memory.promptFor(context.conversation, context.parentalControls);
+      const aiService = new AIService(this.provider);
+      const events: AsyncGenerator<AIStreamEvent> = aiService.streamResponse(
+        content, this.customGPTFor(context, tutoring, memory), context.parentalControls, history,
+        Boolean(context.conversation.crisis_mode)
+      );
+
+      for await (const event of events) {
+        if (event.type === 'final') {
+          result = event.response;
+        } else {
+          yield event;
+        }
+      }
+    } else {
+      tutoring = await this.planTutoring(context, content);
+      result = await this.fallbackResponse(context, content, tutoring);
+      yield* this.wordChunks(result.content);
+    }
+
+    const turn = await this.saveTurn(context, content, result!, topicCheck.topic, tutoring);
+    if (turn.aiMessage.held) {
+      // Flagged part-way through the stream: take back what was shown
+      yield { type: 'replace', content: turn.aiMessage.content };
+    }
+    yield { type: 'done', turn };
+  }
+
+  // Keeps the same event shape as a live stream for replies that are ready up front
+  private *wordChunks(text: string): Generator<ChatStreamEvent> {
+    for (const word of text.match(/\S+\s*/g) || []) {
+      yield { type: 'token', content: word };
+    }
+  }
+
+  // Off-topic messages are redirected, unless the safety policy blocks them (then the usual
+  // safety response and parent alert take priority) or the conversation is in crisis mode
+  private async checkTopic(context: ChatContext, content: string, history: any[]): Promise<TopicCheck> {
+    const previousTopic = [...history].reverse().find(m => m.role === 'user' && m.topic)?.topic || null;
+    const topicCheck = await checkTopic(
+      this.topicClassifier,
+      content,
+      parseAllowedTopics(context.parentalControls.allowed_topics),
+      previousTopic
+    );
+
+    if (!topicCheck.allowed &&
+        (context.conversation.crisis_mode || checkContentSafety(content, context.parentalControls).action === 'block')) {
+      return { topic: topicCheck.topic, allowed: true };
+    }
+    return topicCheck;
+  }
+
+  // Socratic tutoring only applies to safe messages outside crisis mode
+  private async planTutoring(context: ChatContext, content: string): Promise<TutoringPlan | null> {
+    if (context.conversation.crisis_mode || checkContentSafety(content, context.parentalControls).action !== 'allow') {
+      return null;
+    }
+    return new TutoringService(this.db).plan(context.conversation, context.parentalControls, content);
+  }
+
+  private async fallbackResponse(context: ChatContext, content: string, tutoring: TutoringPlan | null = null): Promise<AIResponse> {
+    // Fallback to simple content check and basic responses
+    const safetyCheck = checkContentSafety(content, context.parentalControls);
+
+    if (safetyCheck.action === 'redirect') {
+      return { content: REDIRECT_RESPONSE, isSafe: true };
+    }
+
+    if (tutoring) {
+      return { content: tutoringFallback(tutoring), isSafe: true };
+    }
+
+    const isFlagged = safetyCheck.action === 'block';
+    return {
+      content: context.conversation.crisis_mode && !isFlagged
+        ? this.crisis.followUpReply()
+        : generateEnhancedFallback(content, isFlagged),
+      isSafe: !isFlagged,
+      flagReason: safetyCheck.flagReason,
+      alertType: safetyCheck.alertType
+    };
+  }
+
+  // memory is MemoryService.promptFor's summary and teen facts
+  private customGPTFor(context: ChatContext, tutoring: TutoringPlan | null = null, memory: string | null = null) {
+    const { conversation } = context;
+    const additions = [
+      memory,
+      conversation.crisis_mode ? CRISIS_MODE_PROMPT : null,
+      tutoring ? tutoringPrompt(tutoring) : null
+    ].filter(Boolean);
+    return {
+      id: conversation.custom_gpt_id,
+      name: conversation.gpt_name,
+      system_prompt: [conversation.system_prompt, ...additions].join('\n\n'),
+      theological_values: conversation.theological_values,
+      personality_traits: conversation.personality_traits,
+      model_name: conversation.model_name,
+      temperature: conversation.temperature,
+      max_tokens: conversation.max_tokens
+    };
+  }
+
+  private async saveTurn(
+    context: ChatContext,
+    content: string,
+    result: AIResponse,
+    topic: string | null,
+    tutoring: TutoringPlan | null = null
+  ): Promise<ChatTurn> {
+    const { user, parentalControls } = context;
+    const conversationId = context.conversation.id as string;
+    const messageId = generateSecureToken(12);
+    const isFlagged = !result.isSafe;
+
+    // Save user message
+    await this.db.createMessage({
+      id: messageId,
+      conversationId,
+      role: 'user',
+      content,
+      isFlagged,
+      flagReason: result.flagReason,
+      topic
+    });
+
+    // Send safety alert to parent if needed (after saving the message it points to)
+    let alertId: string | null = null;
+    if (isFlagged && parentalControls.safety_alerts_enabled && user.parent_id) {
+      alertId = generateSecureToken(12);
+      await this.db.createSafetyAlert({
+        id: alertId,
+        parentId: user.parent_id,
+        teenId: user.id,
+        conversationId,
+        messageId,
+        alertType: result.alertType!,
+        alertReason: result.flagReason!,
+        urgency: alertUrgency(result.alertType!)
+      });
+      await this.alerts?.alertCreated(alertId);
+    }
+
+    if (isFlagged) {
+      await new ReviewService(this.db).turnFlagged(conversationId, parentalControls);
+    }
+
+    // Self-harm: the reply carries crisis resources, and is never held back
+    const isCrisis = result.alertType === 'self_harm';
+    const reply = isCrisis
+      ? await this.crisis.escalate(context, messageId, result.flagReason!, alertId)
+      : result.content;
+
+    // Save AI response
+    const aiMessageId = generateSecureToken(12);
+    const held = isFlagged && !isCrisis && shouldHoldReplies(parentalControls);
+    const citations = await new ScriptureService(this.db).verify(
+      reply, preferredTranslation(context.conversation.theological_values)
+    );
+    await this.db.createMessage({
+      id: aiMessageId,
+      conversationId,
+      role: 'assistant',
+      content: reply,
+      topic,
+      held,
+      gptVersion: context.conversation.gpt_current_version,
+      scriptureCitations: citations.length ? JSON.stringify(citations) : null,
+      usage: result.usage
+        ? { ...result.usage, costMicros: result.usage.costMicros ?? 0 }
+        : null
+    });
+
+    // A reply that was replaced by a safety response didn't give the hint
+    const hinted = tutoring && result.isSafe && !held ? tutoring : null;
+    if (hinted) {
+      await new TutoringService(this.db).recordHint(conversationId, hinted);
+    }
+
+    // Update conversation timestamp
+    await this.db.updateConversationTimestamp(conversationId);
+    await this.memory.turnSaved(context.conversation, parentalControls);
+
+    return {
+      userMessage: { id: messageId, content, isFlagged, topic },
+      aiMessage: {
+        id: aiMessageId,
+        content: held ? HELD_REPLY_PLACEHOLDER : reply,
+        held,
+        citations: held ? [] : citations,
+        tutoring: hinted
+      }
+    };
+  }
+}
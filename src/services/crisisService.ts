@@ -0,0 +1,304 @@
+// Crisis Service for Teen AI Platform
+// What happens after self-harm is detected: crisis resources in the reply, a supportive
+// "crisis mode" for the rest of the conversation, and a timeline parents can review
+
+import { DatabaseService } from './databaseService'
+import { generateSecureToken } from './authService'
+
+export interface CrisisResource {
+  name: string;
+  contact: string; // How to reach them, e.g. "Call or text 988"
+  role?: string;
+}
+
+export interface CrisisContact {
+  name: string;
+  role: CrisisContactRole;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+}
+
+export const CRISIS_CONTACT_ROLES = ['pastor', 'counselor', 'youth_leader', 'family', 'other'] as const;
+export type CrisisContactRole = typeof CRISIS_CONTACT_ROLES[number];
+
+export type CrisisEventType =
+  | 'detected'
+  | 'crisis_mode_started'
+  | 'resources_shown'
+  | 'parent_alerted'
+  | 'alert_read'
+  | 'resolved';
+
+interface CountryResources {
+  label: string;
+  emergency: string;
+  hotlines: CrisisResource[];
+}
+
+// Free, confidential services for young people, by ISO country code. INTL is used for anywhere else.
+export const NATIONAL_HOTLINES: Record<string, CountryResources> = {
+  US: {
+    label: 'United States',
+    emergency: '911',
+    hotlines: [
+      { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741' }
+    ]
+  },
+  CA: {
+    label: 'Canada',
+    emergency: '911',
+    hotlines: [
+      { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988' },
+      { name: 'Kids Help Phone', contact: 'Call 1-800-668-6868 or text CONNECT to 686868' }
+    ]
+  },
+  GB: {
+    label: 'United Kingdom',
+    emergency: '999',
+    hotlines: [
+      { name: 'Childline', contact: 'Call 0800 1111' },
+      { name: 'Samaritans', contact: 'Call 116 123' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258' }
+    ]
+  },
+  IE: {
+    label: 'Ireland',
+    emergency: '112 or 999',
+    hotlines: [
+      { name: 'Childline', contact: 'Call 1800 66 66 66' },
+      { name: 'Samaritans', contact: 'Call 116 123' },
+      { name: '50808', contact: 'Text HELLO to 50808' }
+    ]
+  },
+  AU: {
+    label: 'Australia',
+    emergency: '000',
+    hotlines: [
+      { name: 'Kids Helpline', contact: 'Call 1800 55 1800' },
+      { name: 'Lifeline', contact: 'Call 13 11 14' }
+    ]
+  },
+  NZ: {
+    label: 'New Zealand',
+    emergency: '111',
+    hotlines: [
+      { name: 'Need to talk?', contact: 'Call or text 1737' },
+      { name: 'Youthline', contact: 'Call 0800 376 633 or text 234' }
+    ]
+  },
+  INTL: {
+    label: 'Other countries',
+    emergency: 'your local emergency number',
+    hotlines: [
+      { name: 'Find A Helpline', contact: 'Visit findahelpline.com for free support in your country' }
+    ]
+  }
+};
+
+export const DEFAULT_COUNTRY = 'US';
+
+// Added to the GPT's system prompt for every turn after a crisis is detected
+export const CRISIS_MODE_PROMPT = `CRISIS MODE: Earlier in this conversation the teen said something suggesting they may want to hurt themselves.
+- Be warm, calm and patient. Listen more than you advise, and take everything they say seriously.
+- Gently encourage them to talk to a parent, pastor or counselor, or to contact a crisis line, and remind them how.
+- Do not change the subject to schoolwork or other topics unless they ask to.
+- Never give any information about methods of self-harm, and never promise to keep secrets about their safety.`;
+
+// Crisis services named in AI replies, such as the "988 Suicide & Crisis Lifeline", which the safety check
+// would otherwise read as self-harm language
+const CRISIS_RESOURCE_PATTERNS = [
+  ...new Set(Object.values(NATIONAL_HOTLINES).flatMap(country => country.hotlines.map(hotline => hotline.name)))
+].map(name => new RegExp(name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'))
+  .concat(/\bsuicide(?:\s*(?:&|and)\s*crisis|\s+crisis|\s+prevention)?\s+(?:life|help|hot)?line\b/gi);
+
+export function withoutCrisisResources(text: string): string {
+  return CRISIS_RESOURCE_PATTERNS.reduce((remaining, pattern) => remaining.replace(pattern, ' '), text);
+}
+
+const CRISIS_FOLLOW_UP = "I'm still here with you, and I'm glad you're talking. How are you feeling right now? " +
+  "If things feel like too much, please reach out to one of the people or lines I shared, or tell a parent. You matter, and God loves you.";
+
+export function isSupportedCountry(value: unknown): value is string {
+  return typeof value === 'string' && value in NATIONAL_HOTLINES;
+}
+
+const ROLE_LABELS: Record<CrisisContactRole, string> = {
+  pastor: 'Pastor',
+  counselor: 'Counselor',
+  youth_leader: 'Youth leader',
+  family: 'Family',
+  other: 'Contact'
+};
+
+// Validates a crisis contact from POST /api/crisis/contacts or ORG_CRISIS_CONTACTS
+export function validateCrisisContact(input: any): { contact: CrisisContact } | { error: string } {
+  const text = (value: unknown, max: number) =>
+    typeof value === 'string' && value.trim() && value.length <= max ? value.trim() : null;
+
+  const name = text(input?.name, 100);
+  if (!name) {
+    return { error: 'Contact name is required (at most 100 characters)' };
+  }
+  if (!CRISIS_CONTACT_ROLES.includes(input.role)) {
+    return { error: `Role must be one of ${CRISIS_CONTACT_ROLES.join(', ')}` };
+  }
+
+  const phone = text(input.phone, 40);
+  const email = text(input.email, 200);
+  if (!phone && !email) {
+    return { error: 'A phone number or email address is required' };
+  }
+  if (phone && !/^[+\d][\d\s().-]{2,}$/.test(phone)) {
+    return { error: 'Phone number can only contain digits, spaces and + ( ) . -' };
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: 'Email address is not valid' };
+  }
+
+  return { contact: { name, role: input.role, phone, email, notes: text(input.notes, 200) } };
+}
+
+// ORG_CRISIS_CONTACTS holds a JSON list of contacts shown to every family (e.g. the church's pastoral care line)
+export function parseOrganizationContacts(raw: string | undefined): CrisisContact[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return (Array.isArray(parsed) ? parsed : []).flatMap(entry => {
+      const check = validateCrisisContact(entry);
+      if ('error' in check) {
+        console.warn(`Ignoring organization crisis contact: ${check.error}`);
+        return [];
+      }
+      return [check.contact];
+    });
+  } catch {
+    console.warn('ORG_CRISIS_CONTACTS is not valid JSON');
+    return [];
+  }
+}
+
+function contactResource(contact: Record<string, any>): CrisisResource {
+  const ways = [contact.phone && `Call ${contact.phone}`, contact.email && `email ${contact.email}`].filter(Boolean);
+  const notes = contact.notes ? ` (${contact.notes})` : '';
+  return {
+    name: contact.name,
+    role: ROLE_LABELS[contact.role as CrisisContactRole] || ROLE_LABELS.other,
+    contact: ways.join(' or ') + notes
+  };
+}
+
+// Hotlines first because they answer around the clock, then the people the family and organization chose
+export function crisisResourcesFor(
+  country: string | null | undefined,
+  familyContacts: Record<string, any>[],
+  organizationContacts: CrisisContact[]
+): { resources: CrisisResource[]; emergency: string } {
+  const national = NATIONAL_HOTLINES[isSupportedCountry(country) ? country : DEFAULT_COUNTRY];
+  return {
+    resources: [
+      ...national.hotlines,
+      ...familyContacts.map(contactResource),
+      ...organizationContacts.map(contactResource)
+    ],
+    emergency: national.emergency
+  };
+}
+
+export function crisisReply(resources: CrisisResource[], emergency: string, parentNotified: boolean): string {
+  const list = resources
+    .map(resource => `- ${resource.name}${resource.role ? ` (${resource.role})` : ''}: ${resource.contact}`)
+    .join('\n');
+
+  return `I'm really glad you told me. What you're going through matters, and so do you. God loves you deeply, and you don't have to face this alone.\n\n` +
+    `Please reach out to someone who can help right now:\n${list}\n\n` +
+    `If you might act on these thoughts or you're in danger, call ${emergency} now.\n\n` +
+    (parentNotified ? `I've let your parent know so they can be there for you. ` : '') +
+    `I'm still here if you want to keep talking.`;
+}
+
+export class CrisisService {
+  constructor(private db: DatabaseService, private organizationContacts: CrisisContact[] = []) {}
+
+  // Runs the protocol for a self-harm message that has just been saved, and returns the reply for the teen
+  async escalate(
+    context: { user: Record<string, any>; conversation: Record<string, any>; parentalControls: Record<string, any> },
+    messageId: string,
+    reason: string,
+    alertId: string | null
+  ): Promise<string> {
+    const { user, conversation, parentalControls } = context;
+    const conversationId = conversation.id as string;
+    const record = (eventType: CrisisEventType, detail: string | null) =>
+      this.recordEvent(conversationId, user.id as string, user.parent_id || null, eventType, detail, messageId);
+
+    await record('detected', reason);
+
+    if (!conversation.crisis_mode) {
+      await this.db.startConversationCrisisMode(conversationId);
+      conversation.crisis_mode = 1; // Later turns in this request see it too
+      await record('crisis_mode_started', null);
+    }
+
+    if (alertId) {
+      await record('parent_alerted', alertId);
+    }
+
+    const familyContacts = user.parent_id ? (await this.db.getCrisisContacts(user.parent_id)).results || [] : [];
+    const { resources, emergency } = crisisResourcesFor(parentalControls.country, familyContacts, this.organizationContacts);
+    await record('resources_shown', resources.map(resource => resource.name).join(', '));
+
+    return crisisReply(resources, emergency, Boolean(alertId));
+  }
+
+  // Reply used in crisis mode when no AI provider is configured
+  followUpReply(): string {
+    return CRISIS_FOLLOW_UP;
+  }
+
+  // Call when a parent marks an alert as read
+  async alertRead(alertId: string, parentId: string) {
+    const alert = await this.db.getSafetyAlertForDelivery(alertId);
+    if (alert && alert.parent_id === parentId && alert.alert_type === 'self_harm') {
+      await this.recordEvent(alert.conversation_id as string, alert.teen_id as string, parentId, 'alert_read', alertId, alert.message_id as string);
+    }
+  }
+
+  async resolve(parentId: string, conversationId: string, note: string | null): Promise<{ success: true } | { success: false; error: string; status: 400 | 404 }> {
+    if (note !== null && (typeof note !== 'string' || note.length > 2000)) {
+      return { success: false, error: 'Note must be text of at most 2000 characters', status: 400 };
+    }
+
+    const conversation = await this.db.getParentConversation(conversationId, parentId);
+    if (!conversation || !conversation.crisis_mode) {
+      return { success: false, error: 'No active crisis in this conversation', status: 404 };
+    }
+
+    await this.db.endConversationCrisisMode(conversationId);
+    await this.recordEvent(conversationId, conversation.teen_id as string, parentId, 'resolved', note?.trim() || null, null);
+    return { success: true };
+  }
+
+  private async recordEvent(
+    conversationId: string,
+    teenId: string,
+    parentId: string | null,
+    eventType: CrisisEventType,
+    detail: string | null,
+    messageId: string | null
+  ) {
+    await this.db.createCrisisEvent({
+      id: generateSecureToken(12),
+      conversationId,
+      teenId,
+      parentId,
+      eventType,
+      detail,
+      messageId
+    });
+  }
+}
@@ -1,6 +1,14 @@
 // Database Service for Teen AI Platform
 // Handles all database operations with proper error handling and logging
 
+// The custom_gpts columns that make up a GPT version (migration 0014)
+export const VERSIONED_COLUMNS = ['system_prompt', 'theological_values', 'educational_focus', 'personality_traits'];
+
+// Whether custom_gpts row cg is assigned to the teen bound to ?
+const ASSIGNED_TO_TEEN = `(cg.assigned_to_all OR EXISTS (
+  SELECT 1 FROM gpt_assignments a WHERE a.custom_gpt_id = cg.id AND a.teen_id = ?
+))`;
+
 export class DatabaseService {
   constructor(private db: D1Database) {}
 
@@ -10,14 +18,17 @@ export class DatabaseService {
     email: string;
     name: string;
     role: 'parent' | 'teen';
-    parentId?: string;
+    parentId?: string | null;
+    passwordHash?: string | null;
+    emailVerified?: boolean;
+    birthdate?: string | null;
   }) {
-    const { id, email, name, role, parentId } = userData;
+    const { id, email, name, role, parentId, passwordHash, emailVerified = false, birthdate = null } = userData;
     
     return await this.db.prepare(`
-      INSERT INTO users (id, email, name, role, parent_id)
-      VALUES (?, ?, ?, ?, ?)
-    `).bind(id, email, name, role, parentId || null).run();
+      INSERT INTO users (id, email, name, role, parent_id, password_hash, email_verified, birthdate)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, email, name, role, parentId || null, passwordHash || null, emailVerified, birthdate).run();
   }
 
   async getUserByEmail(email: string) {
@@ -32,12 +43,87 @@ export class DatabaseService {
     `).bind(id).first();
   }
 
+  async updateUserPassword(userId: string, passwordHash: string) {
+    return await this.db.prepare(`
+      UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?
+    `).bind(passwordHash, userId).run();
+  }
+
+  async markEmailVerified(userId: string) {
+    return await this.db.prepare(`
+      UPDATE users SET email_verified = TRUE, updated_at = datetime('now') WHERE id = ?
+    `).bind(userId).run();
+  }
+
+  async recordFailedLogin(userId: string, maxAttempts: number, lockoutMinutes: number) {
+    return await this.db.prepare(`
+      UPDATE users SET
+        failed_login_attempts = failed_login_attempts + 1,
+        locked_until = CASE
+          WHEN failed_login_attempts + 1 >= ? THEN datetime('now', ?)
+          ELSE locked_until
+        END
+      WHERE id = ?
+    `).bind(maxAttempts, `+${lockoutMinutes} minutes`, userId).run();
+  }
+
+  async resetFailedLogins(userId: string) {
+    return await this.db.prepare(`
+      UPDATE users SET failed_login_attempts = 0, locked_until = NULL WHERE id = ?
+    `).bind(userId).run();
+  }
+
   async getTeensByParent(parentId: string) {
     return await this.db.prepare(`
       SELECT * FROM users WHERE parent_id = ? AND role = 'teen' AND is_active = TRUE
     `).bind(parentId).all();
   }
 
+  // Includes deactivated teens so parents can reactivate them
+  async getFamilyTeens(parentId: string) {
+    return await this.db.prepare(`
+      SELECT id, email, name, birthdate, is_active, created_at FROM users
+      WHERE parent_id = ? AND role = 'teen'
+      ORDER BY name ASC
+    `).bind(parentId).all();
+  }
+
+  async getFamilyTeen(parentId: string, teenId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM users WHERE id = ? AND parent_id = ? AND role = 'teen'
+    `).bind(teenId, parentId).first();
+  }
+
+  async setTeenBirthdate(teenId: string, parentId: string, birthdate: string | null) {
+    return await this.db.prepare(`
+      UPDATE users SET birthdate = ?, updated_at = datetime('now') WHERE id = ? AND parent_id = ? AND role = 'teen'
+    `).bind(birthdate, teenId, parentId).run();
+  }
+
+  async linkTeenToParent(teenId: string, parentId: string) {
+    return await this.db.prepare(`
+      UPDATE users SET parent_id = ?, updated_at = datetime('now')
+      WHERE id = ? AND role = 'teen' AND parent_id IS NULL
+    `).bind(parentId, teenId).run();
+  }
+
+  async unlinkTeen(teenId: string, parentId: string) {
+    return await this.db.batch([
+      this.db.prepare(`
+        UPDATE users SET parent_id = NULL, updated_at = datetime('now') WHERE id = ? AND parent_id = ?
+      `).bind(teenId, parentId),
+      this.db.prepare(`
+        DELETE FROM parental_controls WHERE teen_id = ? AND parent_id = ?
+      `).bind(teenId, parentId)
+    ]);
+  }
+
+  async setUserActive(userId: string, isActive: boolean) {
+    return await this.db.prepare(`
+      UPDATE users SET is_active = ?, updated_at = datetime('now') WHERE id = ?
+    `).bind(isActive, userId).run();
+  }
+
   // Session management
   async createSession(sessionData: {
     id: string;
@@ -61,6 +147,45 @@ export class DatabaseService {
     `).bind(sessionId).first();
   }
 
+  async deleteSession(sessionId: string) {
+    return await this.db.prepare(`
+      DELETE FROM sessions WHERE id = ?
+    `).bind(sessionId).run();
+  }
+
+  async deleteSessionsForUser(userId: string) {
+    return await this.db.prepare(`
+      DELETE FROM sessions WHERE user_id = ?
+    `).bind(userId).run();
+  }
+
+  // One-time auth tokens (email verification, magic links)
+  async createAuthToken(tokenData: {
+    id: string;
+    userId: string;
+    tokenHash: string;
+    purpose: 'email_verification' | 'magic_link';
+    expiresAt: string;
+  }) {
+    const { id, userId, tokenHash, purpose, expiresAt } = tokenData;
+
+    return await this.db.prepare(`
+      INSERT INTO auth_tokens (id, user_id, token_hash, purpose, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(id, userId, tokenHash, purpose, expiresAt).run();
+  }
+
+  // Marks the token used and returns its user id, or null if it is unknown, used or expired
+  async consumeAuthToken(tokenHash: string, purpose: 'email_verification' | 'magic_link'): Promise<string | null> {
+    const result = await this.db.prepare(`
+      UPDATE auth_tokens SET used_at = datetime('now')
+      WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > datetime('now')
+      RETURNING user_id
+    `).bind(tokenHash, purpose).first<{ user_id: string }>();
+
+    return result?.user_id || null;
+  }
+
   async deleteExpiredSessions() {
     return await this.db.prepare(`
       DELETE FROM sessions WHERE expires_at < datetime('now')
@@ -79,27 +204,49 @@ export class DatabaseService {
     safetyAlertsEnabled: boolean;
     chatReviewRequired: boolean;
     voiceModeEnabled: boolean;
-    dailyTimeLimit: number;
+    dailyTimeLimit: number | null;
+    timezone: string;
+    accessSchedule: string;
+    categoryOverrides: string;
+    reviewFlagged: boolean;
+    reviewNewGptSessions: boolean;
+    holdFlaggedReplies: boolean;
+    country: string;
+    tutoringSettings: string;
+    memoryEnabled: boolean;
   }) {
     const {
       id, parentId, teenId, theologicalPerspective, contentFilterLevel,
       allowedTopics, blockedKeywords, safetyAlertsEnabled,
-      chatReviewRequired, voiceModeEnabled, dailyTimeLimit
+      chatReviewRequired, voiceModeEnabled, dailyTimeLimit,
+      timezone, accessSchedule, categoryOverrides,
+      reviewFlagged, reviewNewGptSessions, holdFlaggedReplies, country, tutoringSettings, memoryEnabled
     } = controlsData;
     
     return await this.db.prepare(`
       INSERT OR REPLACE INTO parental_controls (
         id, parent_id, teen_id, theological_perspective, content_filter_level,
         allowed_topics, blocked_keywords, safety_alerts_enabled, 
-        chat_review_required, voice_mode_enabled, daily_time_limit, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        chat_review_required, voice_mode_enabled, daily_time_limit,
+        timezone, access_schedule, category_overrides,
+        review_flagged, review_new_gpt_sessions, hold_flagged_replies, country, tutoring_settings, memory_enabled, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
     `).bind(
       id, parentId, teenId, theologicalPerspective, contentFilterLevel,
       allowedTopics, blockedKeywords, safetyAlertsEnabled,
-      chatReviewRequired, voiceModeEnabled, dailyTimeLimit
+      chatReviewRequired, voiceModeEnabled, dailyTimeLimit,
+      timezone, accessSchedule, categoryOverrides,
+      reviewFlagged, reviewNewGptSessions, holdFlaggedReplies, country, tutoringSettings, memoryEnabled
     ).run();
   }
 
+  // Default controls for a newly linked teen; keeps any existing settings
+  async ensureParentalControls(id: string, parentId: string, teenId: string) {
+    return await this.db.prepare(`
+      INSERT OR IGNORE INTO parental_controls (id, parent_id, teen_id) VALUES (?, ?, ?)
+    `).bind(id, parentId, teenId).run();
+  }
+
   async getParentalControls(parentId: string, teenId: string) {
     return await this.db.prepare(`
       SELECT * FROM parental_controls WHERE parent_id = ? AND teen_id = ?
@@ -112,6 +259,123 @@ export class DatabaseService {
     `).bind(teenId).first();
   }
 
+  // Family invites and link requests
+  async createFamilyInvite(inviteData: {
+    id: string;
+    parentId: string;
+    codeHash: string;
+    teenEmail?: string | null;
+    expiresAt: string;
+  }) {
+    const { id, parentId, codeHash, teenEmail, expiresAt } = inviteData;
+
+    return await this.db.prepare(`
+      INSERT INTO family_invites (id, parent_id, code_hash, teen_email, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(id, parentId, codeHash, teenEmail || null, expiresAt).run();
+  }
+
+  async getActiveFamilyInviteByCodeHash(codeHash: string) {
+    return await this.db.prepare(`
+      SELECT * FROM family_invites
+      WHERE code_hash = ? AND redeemed_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now')
+    `).bind(codeHash).first();
+  }
+
+  async getActiveFamilyInviteById(inviteId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM family_invites
+      WHERE id = ? AND redeemed_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now')
+    `).bind(inviteId).first();
+  }
+
+  // null clears it
+  async setPendingInvite(userId: string, inviteId: string | null) {
+    return await this.db.prepare(`
+      UPDATE users SET pending_invite_id = ? WHERE id = ?
+    `).bind(inviteId, userId).run();
+  }
+
+  async getFamilyInvitesByParent(parentId: string) {
+    return await this.db.prepare(`
+      SELECT fi.id, fi.teen_email, fi.expires_at, fi.redeemed_at, fi.revoked_at, fi.created_at,
+             u.name as redeemed_by_name
+      FROM family_invites fi
+      LEFT JOIN users u ON fi.redeemed_by = u.id
+      WHERE fi.parent_id = ?
+      ORDER BY fi.created_at DESC
+    `).bind(parentId).all();
+  }
+
+  // Returns false if the invite was already redeemed, revoked or expired in the meantime
+  async redeemFamilyInvite(inviteId: string, teenId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE family_invites SET redeemed_by = ?, redeemed_at = datetime('now')
+      WHERE id = ? AND redeemed_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now')
+    `).bind(teenId, inviteId).run();
+
+    return result.meta.changes > 0;
+  }
+
+  async revokeFamilyInvite(inviteId: string, parentId: string) {
+    return await this.db.prepare(`
+      UPDATE family_invites SET revoked_at = datetime('now')
+      WHERE id = ? AND parent_id = ? AND redeemed_at IS NULL AND revoked_at IS NULL
+    `).bind(inviteId, parentId).run();
+  }
+
+  async createLinkRequest(requestData: {
+    id: string;
+    teenId: string;
+    parentId: string;
+  }) {
+    const { id, teenId, parentId } = requestData;
+
+    return await this.db.prepare(`
+      INSERT INTO family_link_requests (id, teen_id, parent_id) VALUES (?, ?, ?)
+    `).bind(id, teenId, parentId).run();
+  }
+
+  async getPendingLinkRequestsByParent(parentId: string) {
+    return await this.db.prepare(`
+      SELECT flr.*, u.name as teen_name, u.email as teen_email
+      FROM family_link_requests flr
+      JOIN users u ON flr.teen_id = u.id
+      WHERE flr.parent_id = ? AND flr.status = 'pending' AND u.is_active = TRUE
+      ORDER BY flr.created_at ASC
+    `).bind(parentId).all();
+  }
+
+  async getLinkRequestsByTeen(teenId: string) {
+    return await this.db.prepare(`
+      SELECT flr.id, flr.status, flr.created_at, flr.decided_at, u.name as parent_name
+      FROM family_link_requests flr
+      JOIN users u ON flr.parent_id = u.id
+      WHERE flr.teen_id = ?
+      ORDER BY flr.created_at DESC
+    `).bind(teenId).all();
+  }
+
+  async getPendingLinkRequest(requestId: string, parentId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM family_link_requests WHERE id = ? AND parent_id = ? AND status = 'pending'
+    `).bind(requestId, parentId).first();
+  }
+
+  async decideLinkRequest(requestId: string, parentId: string, status: 'approved' | 'rejected') {
+    return await this.db.prepare(`
+      UPDATE family_link_requests SET status = ?, decided_at = datetime('now')
+      WHERE id = ? AND parent_id = ? AND status = 'pending'
+    `).bind(status, requestId, parentId).run();
+  }
+
+  async cancelPendingLinkRequests(teenId: string) {
+    return await this.db.prepare(`
+      UPDATE family_link_requests SET status = 'cancelled', decided_at = datetime('now')
+      WHERE teen_id = ? AND status = 'pending'
+    `).bind(teenId).run();
+  }
+
   // Custom GPTs
   async createCustomGPT(gptData: {
     id: string;
@@ -122,28 +386,140 @@ export class DatabaseService {
     theologicalValues: string;
     educationalFocus: string;
     personalityTraits: string;
+    modelProvider?: string | null;
+    modelName?: string | null;
+    temperature?: number | null;
+    maxTokens?: number | null;
+    minAge?: number | null;
+    maxAge?: number | null;
+    teenIds?: string[] | null; // null: every teen in the family
+    tutoringMode?: string;
   }) {
     const {
       id, parentId, name, description, systemPrompt,
-      theologicalValues, educationalFocus, personalityTraits
+      theologicalValues, educationalFocus, personalityTraits, teenIds = null
     } = gptData;
     
+    return await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO custom_gpts (
+          id, parent_id, name, description, system_prompt,
+          theological_values, educational_focus, personality_traits,
+          model_provider, model_name, temperature, max_tokens,
+          min_age, max_age, assigned_to_all, tutoring_mode
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        id, parentId, name, description, systemPrompt,
+        theologicalValues, educationalFocus, personalityTraits,
+        gptData.modelProvider ?? null, gptData.modelName ?? null,
+        gptData.temperature ?? null, gptData.maxTokens ?? null,
+        gptData.minAge ?? null, gptData.maxAge ?? null, teenIds === null,
+        gptData.tutoringMode ?? 'off'
+      ),
+      this.snapshotGPTVersion(id, parentId, null),
+      ...this.assignmentStatements(id, teenIds || [])
+    ]);
+  }
+
+  private assignmentStatements(gptId: string, teenIds: string[]) {
+    return teenIds.map(teenId => this.db.prepare(`
+      INSERT OR IGNORE INTO gpt_assignments (custom_gpt_id, teen_id) VALUES (?, ?)
+    `).bind(gptId, teenId));
+  }
+
+  // Replaces the GPT's teen list; null opens it to every teen in the family
+  async setGPTAssignments(gptId: string, parentId: string, teenIds: string[] | null) {
+    const [result] = await this.db.batch([
+      this.db.prepare(`
+        UPDATE custom_gpts SET assigned_to_all = ?, updated_at = datetime('now') WHERE id = ? AND parent_id = ?
+      `).bind(teenIds === null, gptId, parentId),
+      this.db.prepare(`
+        DELETE FROM gpt_assignments
+        WHERE custom_gpt_id = ? AND EXISTS (SELECT 1 FROM custom_gpts WHERE id = ? AND parent_id = ?)
+      `).bind(gptId, gptId, parentId),
+      ...this.assignmentStatements(gptId, teenIds || [])
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  async getGPTAssignments(gptId: string) {
     return await this.db.prepare(`
-      INSERT INTO custom_gpts (
-        id, parent_id, name, description, system_prompt,
-        theological_values, educational_focus, personality_traits
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      id, parentId, name, description, systemPrompt,
-      theologicalValues, educationalFocus, personalityTraits
-    ).run();
+      SELECT a.teen_id, u.name as teen_name, a.created_at
+      FROM gpt_assignments a
+      JOIN users u ON a.teen_id = u.id
+      WHERE a.custom_gpt_id = ?
+      ORDER BY u.name ASC
+    `).bind(gptId).all();
+  }
+
+  // Copies the GPT's current instructions into gpt_versions; a no-op if that version is already recorded
+  private snapshotGPTVersion(id: string, createdBy: string, restoredFrom: number | null) {
+    return this.db.prepare(`
+      INSERT OR IGNORE INTO gpt_versions (
+        custom_gpt_id, version, system_prompt, theological_values, educational_focus,
+        personality_traits, created_by, restored_from
+      )
+      SELECT id, version, system_prompt, theological_values, educational_focus, personality_traits, ?, ?
+      FROM custom_gpts WHERE id = ?
+    `).bind(createdBy, restoredFrom, id);
   }
 
-  async getCustomGPTsByParent(parentId: string) {
+  async getCustomGPTsByParent(parentId: string, includeInactive: boolean = false) {
     return await this.db.prepare(`
-      SELECT * FROM custom_gpts WHERE parent_id = ? AND is_active = TRUE
+      SELECT *,
+        (SELECT json_group_array(teen_id) FROM gpt_assignments a WHERE a.custom_gpt_id = custom_gpts.id) as assigned_teen_ids
+      FROM custom_gpts WHERE parent_id = ? AND (? OR is_active = TRUE)
       ORDER BY created_at DESC
-    `).bind(parentId).all();
+    `).bind(parentId, includeInactive).all();
+  }
+
+  // The family's active GPTs assigned to this teen; age limits are checked by the caller
+  async getCustomGPTsForTeen(parentId: string, teenId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM custom_gpts cg
+      WHERE cg.parent_id = ? AND cg.is_active = TRUE AND ${ASSIGNED_TO_TEEN}
+      ORDER BY cg.created_at DESC
+    `).bind(parentId, teenId).all();
+  }
+
+  async getCustomGPTForTeen(id: string, teenId: string) {
+    return await this.db.prepare(`
+      SELECT cg.*, ${ASSIGNED_TO_TEEN} as assigned
+      FROM custom_gpts cg
+      WHERE cg.id = ? AND cg.is_active = TRUE
+    `).bind(teenId, id).first();
+  }
+
+  // Active or not, as long as it belongs to the parent
+  async getParentCustomGPT(id: string, parentId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM custom_gpts WHERE id = ? AND parent_id = ?
+    `).bind(id, parentId).first();
+  }
+
+  async setCustomGPTActive(id: string, parentId: string, isActive: boolean) {
+    const result = await this.db.prepare(`
+      UPDATE custom_gpts
+      SET is_active = ?, deactivated_at = CASE WHEN ? THEN NULL ELSE datetime('now') END, updated_at = datetime('now')
+      WHERE id = ? AND parent_id = ? AND is_active = ?
+    `).bind(isActive, isActive, id, parentId, !isActive).run();
+    return result.meta.changes > 0;
+  }
+
+  async getGPTVersions(gptId: string) {
+    return await this.db.prepare(`
+      SELECT v.*, u.name as created_by_name
+      FROM gpt_versions v
+      LEFT JOIN users u ON v.created_by = u.id
+      WHERE v.custom_gpt_id = ?
+      ORDER BY v.version DESC
+    `).bind(gptId).all();
+  }
+
+  async getGPTVersion(gptId: string, version: number) {
+    return await this.db.prepare(`
+      SELECT * FROM gpt_versions WHERE custom_gpt_id = ? AND version = ?
+    `).bind(gptId, version).first();
   }
 
   async getCustomGPTById(id: string) {
@@ -152,6 +528,62 @@ export class DatabaseService {
     `).bind(id).first();
   }
 
+  // Only the given fields change; keys are camelCase field names mapped to columns below.
+  // A change to the instructions (VERSIONED_COLUMNS) bumps the version and snapshots it in the same batch.
+  async updateCustomGPT(id: string, parentId: string, updates: {
+    name?: string;
+    description?: string;
+    systemPrompt?: string;
+    theologicalValues?: string;
+    educationalFocus?: string;
+    personalityTraits?: string;
+    modelProvider?: string | null;
+    modelName?: string | null;
+    temperature?: number | null;
+    maxTokens?: number | null;
+    minAge?: number | null;
+    maxAge?: number | null;
+    tutoringMode?: string;
+  }, restoredFrom: number | null = null) {
+    const columns: Record<string, string> = {
+      name: 'name',
+      description: 'description',
+      systemPrompt: 'system_prompt',
+      theologicalValues: 'theological_values',
+      educationalFocus: 'educational_focus',
+      personalityTraits: 'personality_traits',
+      modelProvider: 'model_provider',
+      modelName: 'model_name',
+      temperature: 'temperature',
+      maxTokens: 'max_tokens',
+      minAge: 'min_age',
+      maxAge: 'max_age',
+      tutoringMode: 'tutoring_mode'
+    };
+    const fields = Object.keys(updates).filter(key => key in columns && (updates as any)[key] !== undefined);
+    const assignments = fields.map(key => `${columns[key]} = ?`);
+    
+    // SET expressions see the row as it was, so this compares old instructions with new ones
+    const versioned = fields.filter(key => VERSIONED_COLUMNS.includes(columns[key]));
+    const bump = versioned.length
+      ? `version = version + (CASE WHEN ${versioned.map(key => `${columns[key]} IS NOT ?`).join(' OR ')} THEN 1 ELSE 0 END)`
+      : 'version = version';
+    
+    const [result] = await this.db.batch([
+      this.db.prepare(`
+        UPDATE custom_gpts
+        SET ${[...assignments, bump, "updated_at = datetime('now')"].join(', ')}
+        WHERE id = ? AND parent_id = ? AND is_active = TRUE
+      `).bind(
+        ...fields.map(key => (updates as any)[key]),
+        ...versioned.map(key => (updates as any)[key]),
+        id, parentId
+      ),
+      this.snapshotGPTVersion(id, parentId, restoredFrom)
+    ]);
+    return result.meta.changes > 0;
+  }
+
   // Conversations
   async createConversation(conversationData: {
     id: string;
@@ -162,9 +594,9 @@ export class DatabaseService {
     const { id, teenId, customGptId, title } = conversationData;
     
     return await this.db.prepare(`
-      INSERT INTO conversations (id, teen_id, custom_gpt_id, title)
-      VALUES (?, ?, ?, ?)
-    `).bind(id, teenId, customGptId, title).run();
+      INSERT INTO conversations (id, teen_id, custom_gpt_id, title, gpt_version)
+      VALUES (?, ?, ?, ?, (SELECT version FROM custom_gpts WHERE id = ?))
+    `).bind(id, teenId, customGptId, title, customGptId).run();
   }
 
   async getConversationsByTeen(teenId: string) {
@@ -190,13 +622,119 @@ export class DatabaseService {
 
   async getConversationById(conversationId: string) {
     return await this.db.prepare(`
-      SELECT c.*, cg.name as gpt_name, cg.system_prompt, cg.theological_values, cg.personality_traits
+      SELECT c.*, cg.name as gpt_name, cg.system_prompt, cg.theological_values, cg.personality_traits,
+        cg.model_provider, cg.model_name, cg.temperature, cg.max_tokens,
+        cg.version as gpt_current_version, cg.is_active as gpt_active, cg.min_age, cg.max_age, cg.tutoring_mode,
+        ${ASSIGNED_TO_TEEN.replace('?', 'c.teen_id')} as gpt_assigned
       FROM conversations c
       JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
       WHERE c.id = ?
     `).bind(conversationId).first();
   }
 
+  // A conversation belonging to one of the parent's teens
+  async getParentConversation(conversationId: string, parentId: string) {
+    return await this.db.prepare(`
+      SELECT c.* FROM conversations c
+      JOIN users u ON c.teen_id = u.id
+      WHERE c.id = ? AND u.parent_id = ?
+    `).bind(conversationId, parentId).first();
+  }
+
+  // Conversations of a parent's teens for transcript export; with a date range, those with any activity in [from, to)
+  async getConversationsForExport(parentId: string, filters: {
+    conversationId: string | null;
+    teenId: string | null;
+    from: string | null;
+    to: string | null;
+  }, limit: number) {
+    const { conversationId, teenId, from, to } = filters;
+    return await this.db.prepare(`
+      SELECT c.*, u.name as teen_name, cg.name as gpt_name
+      FROM conversations c
+      JOIN users u ON c.teen_id = u.id
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      WHERE u.parent_id = ?
+        AND (? IS NULL OR c.id = ?)
+        AND (? IS NULL OR c.teen_id = ?)
+        AND (? IS NULL OR c.updated_at >= ?)
+        AND (? IS NULL OR c.created_at < ?)
+      ORDER BY c.created_at ASC, c.rowid ASC
+      LIMIT ?
+    `).bind(
+      parentId,
+      conversationId, conversationId,
+      teenId, teenId,
+      from, from,
+      to, to,
+      limit
+    ).all();
+  }
+
+  // Full-text search over the parent's teens' messages and conversation titles (migration 0012).
+  // Title matches come first; role and flagged filters only apply to messages, so they leave titles out.
+  async searchFamilyConversations(parentId: string, search: {
+    match: string; // FTS5 query expression
+    teenId: string | null;
+    gptId: string | null;
+    from: string | null;
+    to: string | null;
+    role: 'user' | 'assistant' | null;
+    flaggedOnly: boolean;
+    limit: number;
+    offset: number;
+  }) {
+    const { match, teenId, gptId, from, to, role, flaggedOnly, limit, offset } = search;
+    const flagged = flaggedOnly ? 1 : 0;
+    const hits = `
+      SELECT 'conversation' as type, NULL as message_id, c.id as conversation_id, c.title as conversation_title,
+        c.teen_id, u.name as teen_name, c.custom_gpt_id, cg.name as gpt_name,
+        NULL as role, NULL as is_flagged, NULL as flag_reason, c.updated_at as created_at,
+        highlight(conversations_fts, 0, char(1), char(2)) as snippet,
+        0 as section, bm25(conversations_fts) as score
+      FROM conversations_fts
+      JOIN conversations c ON c.rowid = conversations_fts.rowid
+      JOIN users u ON c.teen_id = u.id
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      WHERE conversations_fts MATCH ?1 AND u.parent_id = ?2
+        AND (?3 IS NULL OR c.teen_id = ?3)
+        AND (?4 IS NULL OR c.custom_gpt_id = ?4)
+        AND (?5 IS NULL OR c.updated_at >= ?5)
+        AND (?6 IS NULL OR c.created_at < ?6)
+        AND ?7 IS NULL AND ?8 = 0
+      UNION ALL
+      SELECT 'message', m.id, c.id, c.title,
+        c.teen_id, u.name, c.custom_gpt_id, cg.name,
+        m.role, m.is_flagged, m.flag_reason, m.created_at,
+        snippet(messages_fts, 0, char(1), char(2), '…', 16),
+        1, bm25(messages_fts)
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      JOIN conversations c ON m.conversation_id = c.id
+      JOIN users u ON c.teen_id = u.id
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      WHERE messages_fts MATCH ?1 AND u.parent_id = ?2
+        AND (?3 IS NULL OR c.teen_id = ?3)
+        AND (?4 IS NULL OR c.custom_gpt_id = ?4)
+        AND (?5 IS NULL OR m.created_at >= ?5)
+        AND (?6 IS NULL OR m.created_at < ?6)
+        AND (?7 IS NULL OR m.role = ?7)
+        AND (?8 = 0 OR m.is_flagged = TRUE)
+    `;
+    const params = [match, parentId, teenId, gptId, from, to, role, flagged];
+
+    const [page, count] = await this.db.batch<Record<string, any>>([
+      this.db.prepare(`
+        SELECT * FROM (${hits})
+        ORDER BY section ASC, score ASC, created_at DESC
+        LIMIT ?9 OFFSET ?10
+      `).bind(...params, limit, offset),
+      this.db.prepare(`SELECT COUNT(*) as total FROM (${hits})`).bind(...params)
+    ]);
+
+    return { results: page.results || [], total: (count.results?.[0]?.total as number) || 0 };
+  }
+
   async updateConversationTimestamp(conversationId: string) {
     return await this.db.prepare(`
       UPDATE conversations SET updated_at = datetime('now') WHERE id = ?
@@ -212,109 +750,993 @@ export class DatabaseService {
     audioUrl?: string;
     isFlagged?: boolean;
     flagReason?: string;
+    topic?: string | null;
+    held?: boolean;
+    gptVersion?: number | null; // For AI replies: the GPT version that wrote it
+    scriptureCitations?: string | null; // For AI replies: JSON from ScriptureService.verify
+    usage?: { model: string; promptTokens: number; completionTokens: number; costMicros: number } | null; // For AI replies
   }) {
     const {
       id, conversationId, role, content, audioUrl,
-      isFlagged = false, flagReason = null
+      isFlagged = false, flagReason = null, topic = null, held = false, gptVersion = null, scriptureCitations = null,
+      usage = null
     } = messageData;
     
     return await this.db.prepare(`
-      INSERT INTO messages (id, conversation_id, role, content, audio_url, is_flagged, flag_reason)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).bind(id, conversationId, role, content, audioUrl || null, isFlagged, flagReason).run();
+      INSERT INTO messages (
+        id, conversation_id, role, content, audio_url, is_flagged, flag_reason, topic, held, gpt_version, scripture_citations,
+        model, prompt_tokens, completion_tokens, cost_micros
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id, conversationId, role, content, audioUrl || null, isFlagged, flagReason, topic, held, gptVersion, scriptureCitations,
+      usage?.model ?? null, usage?.promptTokens ?? null, usage?.completionTokens ?? null, usage?.costMicros ?? null
+    ).run();
   }
 
   async getMessagesByConversation(conversationId: string) {
     return await this.db.prepare(`
       SELECT * FROM messages WHERE conversation_id = ?
-      ORDER BY created_at ASC
+      ORDER BY created_at ASC, rowid ASC
     `).bind(conversationId).all();
   }
 
+  async getMessagesInRange(conversationId: string, from: string | null, to: string | null) {
+    return await this.db.prepare(`
+      SELECT * FROM messages
+      WHERE conversation_id = ?
+        AND (? IS NULL OR created_at >= ?)
+        AND (? IS NULL OR created_at < ?)
+      ORDER BY created_at ASC, rowid ASC
+    `).bind(conversationId, from, from, to, to).all();
+  }
+
   async getRecentMessagesByConversation(conversationId: string, limit: number = 20) {
     return await this.db.prepare(`
       SELECT * FROM messages WHERE conversation_id = ?
-      ORDER BY created_at DESC
+      ORDER BY created_at DESC, rowid DESC -- rowid keeps same-second messages in order
       LIMIT ?
     `).bind(conversationId, limit).all();
   }
 
-  // Safety alerts
-  async createSafetyAlert(alertData: {
-    id: string;
-    parentId: string;
-    teenId: string;
-    conversationId: string;
-    messageId: string;
-    alertType: string;
-    alertReason: string;
-  }) {
-    const {
-      id, parentId, teenId, conversationId, messageId, alertType, alertReason
-    } = alertData;
-    
+  async setMessageAudioUrl(messageId: string, audioUrl: string) {
     return await this.db.prepare(`
-      INSERT INTO safety_alerts (id, parent_id, teen_id, conversation_id, message_id, alert_type, alert_reason)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).bind(id, parentId, teenId, conversationId, messageId, alertType, alertReason).run();
+      UPDATE messages SET audio_url = ? WHERE id = ?
+    `).bind(audioUrl, messageId).run();
   }
 
-  async getSafetyAlertsByParent(parentId: string) {
+  // Socratic tutoring (migration 0017)
+  async getTutoringProblem(conversationId: string, problemKey: string) {
     return await this.db.prepare(`
-      SELECT sa.*, u.name as teen_name, c.title as conversation_title
-      FROM safety_alerts sa
-      JOIN users u ON sa.teen_id = u.id
-      JOIN conversations c ON sa.conversation_id = c.id
-      WHERE sa.parent_id = ?
-      ORDER BY sa.created_at DESC
-    `).bind(parentId).all();
+      SELECT * FROM tutoring_problems WHERE conversation_id = ? AND problem_key = ?
+    `).bind(conversationId, problemKey).first();
   }
 
-  async markAlertAsRead(alertId: string, parentId: string) {
+  async getLatestTutoringProblem(conversationId: string) {
     return await this.db.prepare(`
-      UPDATE safety_alerts SET is_read = TRUE WHERE id = ? AND parent_id = ?
-    `).bind(alertId, parentId).run();
+      SELECT * FROM tutoring_problems WHERE conversation_id = ?
+      ORDER BY updated_at DESC, rowid DESC
+      LIMIT 1
+    `).bind(conversationId).first();
   }
 
-  async getUnreadAlertCount(parentId: string) {
+  async getTutoringProblems(conversationId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM tutoring_problems WHERE conversation_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `).bind(conversationId).all();
+  }
+
+  // countsAsHint is false once the solution may be shown; the first such reply sets answer_allowed_at
+  async recordTutoringHint(
+    conversationId: string,
+    problemKey: string,
+    subject: string,
+    countsAsHint: boolean,
+    answerRequested: boolean
+  ) {
+    return await this.db.prepare(`
+      INSERT INTO tutoring_problems (conversation_id, problem_key, subject, hints_given, answer_requests, answer_allowed_at)
+      VALUES (?1, ?2, ?3, ?4, ?5, CASE WHEN ?4 THEN NULL ELSE datetime('now') END)
+      ON CONFLICT (conversation_id, problem_key) DO UPDATE SET
+        subject = excluded.subject,
+        hints_given = hints_given + excluded.hints_given,
+        answer_requests = answer_requests + excluded.answer_requests,
+        answer_allowed_at = COALESCE(answer_allowed_at, excluded.answer_allowed_at),
+        updated_at = datetime('now')
+    `).bind(conversationId, problemKey, subject, countsAsHint ? 1 : 0, answerRequested ? 1 : 0).run();
+  }
+
+  // Conversation summaries and teen memory (migration 0018)
+  async getConversationMemoryState(conversationId: string) {
+    return await this.db.prepare(`
+      SELECT c.summary, c.summarized_messages, c.summary_updated_at,
+        (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) as message_count
+      FROM conversations c WHERE c.id = ?
+    `).bind(conversationId).first();
+  }
+
+  // Messages in conversation order, skipping the first `offset`
+  async getMessagesPage(conversationId: string, offset: number, limit: number) {
+    return await this.db.prepare(`
+      SELECT * FROM messages WHERE conversation_id = ?
+      ORDER BY created_at ASC, rowid ASC
+      LIMIT ? OFFSET ?
+    `).bind(conversationId, limit, offset).all();
+  }
+
+  // Only saves if no one else has summarized since `expectedSummarized` was read
+  async saveConversationSummary(conversationId: string, summary: string | null, summarized: number, expectedSummarized: number): Promise<boolean> {
     const result = await this.db.prepare(`
-      SELECT COUNT(*) as count FROM safety_alerts WHERE parent_id = ? AND is_read = FALSE
-    `).bind(parentId).first();
-    
-    return result?.count || 0;
+      UPDATE conversations SET summary = ?, summarized_messages = ?, summary_updated_at = datetime('now')
+      WHERE id = ? AND summarized_messages = ?
+    `).bind(summary, summarized, conversationId, expectedSummarized).run();
+    return result.meta.changes > 0;
   }
 
-  // Analytics and reporting
-  async getConversationStats(teenId: string, days: number = 30) {
+  // A parent's edit; null clears it. Messages already summarized stay summarized.
+  async setConversationSummary(conversationId: string, parentId: string, summary: string | null) {
     return await this.db.prepare(`
-      SELECT 
-        COUNT(DISTINCT c.id) as total_conversations,
-        COUNT(m.id) as total_messages,
-        COUNT(CASE WHEN m.is_flagged = TRUE THEN 1 END) as flagged_messages,
-        COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
-        COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as ai_messages
-      FROM conversations c
-      LEFT JOIN messages m ON c.id = m.conversation_id
-      WHERE c.teen_id = ? AND c.created_at >= datetime('now', '-${days} days')
-    `).bind(teenId).first();
+      UPDATE conversations SET summary = ?, summary_updated_at = datetime('now')
+      WHERE id = ? AND teen_id IN (SELECT id FROM users WHERE parent_id = ? AND role = 'teen')
+    `).bind(summary, conversationId, parentId).run();
   }
 
-  async getDailyUsageStats(teenId: string, date: string) {
+  async getTeenMemories(teenId: string) {
     return await this.db.prepare(`
-      SELECT 
-        COUNT(m.id) as message_count,
-        MIN(m.created_at) as first_message,
-        MAX(m.created_at) as last_message
-      FROM messages m
-      JOIN conversations c ON m.conversation_id = c.id
-      WHERE c.teen_id = ? AND DATE(m.created_at) = DATE(?)
-    `).bind(teenId, date).first();
+      SELECT * FROM teen_memories WHERE teen_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `).bind(teenId).all();
   }
 
-  // Maintenance and cleanup
-  async cleanupExpiredSessions() {
+  async addTeenMemory(id: string, teenId: string, fact: string, source: 'parent' | 'conversation', conversationId: string | null = null) {
     return await this.db.prepare(`
-      DELETE FROM sessions WHERE expires_at < datetime('now')
+      INSERT INTO teen_memories (id, teen_id, fact, source, conversation_id) VALUES (?, ?, ?, ?, ?)
+    `).bind(id, teenId, fact, source, conversationId).run();
+  }
+
+  async updateTeenMemory(id: string, teenId: string, fact: string) {
+    return await this.db.prepare(`
+      UPDATE teen_memories SET fact = ?, updated_at = datetime('now') WHERE id = ? AND teen_id = ?
+    `).bind(fact, id, teenId).run();
+  }
+
+  async deleteTeenMemory(id: string, teenId: string) {
+    return await this.db.prepare(`
+      DELETE FROM teen_memories WHERE id = ? AND teen_id = ?
+    `).bind(id, teenId).run();
+  }
+
+  async clearTeenMemories(teenId: string) {
+    return await this.db.prepare(`
+      DELETE FROM teen_memories WHERE teen_id = ?
+    `).bind(teenId).run();
+  }
+
+  // Bundled Bible text (migration 0016): the verses of each passage, in every translation that has them
+  async getScriptureVerses(passages: { book: string; chapter: number; verseStart: number; verseEnd: number }[]) {
+    const results = await this.db.batch<Record<string, any>>(passages.map(passage => this.db.prepare(`
+      SELECT translation, verse, text FROM scripture_verses
+      WHERE book = ? AND chapter = ? AND verse BETWEEN ? AND ?
+      ORDER BY translation ASC, verse ASC
+    `).bind(passage.book, passage.chapter, passage.verseStart, passage.verseEnd)));
+    return results.map(result => result.results || []);
+  }
+
+  // A message the user may see: a teen's own, or one from a teen the parent manages
+  async getMessageForUser(messageId: string, userId: string, role: string) {
+    return await this.db.prepare(`
+      SELECT m.*, c.teen_id FROM messages m
+      JOIN conversations c ON m.conversation_id = c.id
+      JOIN users u ON c.teen_id = u.id
+      WHERE m.id = ? AND ${role === 'parent' ? 'u.parent_id' : 'c.teen_id'} = ?
+    `).bind(messageId, userId).first();
+  }
+
+  // Review queue
+  async countTeenConversationsWithGpt(teenId: string, customGptId: string): Promise<number> {
+    const row = await this.db.prepare(`
+      SELECT COUNT(*) as count FROM conversations WHERE teen_id = ? AND custom_gpt_id = ?
+    `).bind(teenId, customGptId).first();
+    return (row?.count as number) || 0;
+  }
+
+  async markConversationFlagged(conversationId: string) {
+    return await this.db.prepare(`
+      UPDATE conversations SET is_flagged = TRUE WHERE id = ?
+    `).bind(conversationId).run();
+  }
+
+  // Puts a conversation (back) in the queue; a flag outranks a first-session review
+  async queueConversationForReview(conversationId: string, reason: 'flagged' | 'first_session') {
+    return await this.db.prepare(`
+      UPDATE conversations
+      SET parent_reviewed = FALSE, reviewed_at = NULL,
+        review_reason = CASE WHEN review_reason = 'flagged' AND parent_reviewed = FALSE THEN 'flagged' ELSE ? END
+      WHERE id = ?
+    `).bind(reason, conversationId).run();
+  }
+
+  async getReviewQueue(parentId: string, filters: {
+    reviewed: boolean | null; // null for both
+    teenId: string | null;
+    reason: string | null;
+  }) {
+    const reviewed = filters.reviewed === null ? null : filters.reviewed ? 1 : 0;
+    return await this.db.prepare(`
+      SELECT c.id, c.title, c.teen_id, u.name as teen_name, cg.name as gpt_name,
+        c.review_reason, c.review_note, c.parent_reviewed, c.reviewed_at, c.created_at, c.updated_at,
+        (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND m.is_flagged = TRUE) as flagged_messages,
+        (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND m.held = TRUE AND m.released_at IS NULL) as held_replies
+      FROM conversations c
+      JOIN users u ON c.teen_id = u.id
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      WHERE u.parent_id = ? AND c.review_reason IS NOT NULL
+        AND (? IS NULL OR c.parent_reviewed = ?)
+        AND (? IS NULL OR c.teen_id = ?)
+        AND (? IS NULL OR c.review_reason = ?)
+      ORDER BY c.updated_at DESC
+    `).bind(
+      parentId,
+      reviewed, reviewed,
+      filters.teenId, filters.teenId,
+      filters.reason, filters.reason
+    ).all();
+  }
+
+  async markConversationReviewed(conversationId: string, parentId: string, note: string | null) {
+    const result = await this.db.prepare(`
+      UPDATE conversations
+      SET parent_reviewed = TRUE, reviewed_at = datetime('now'), review_note = COALESCE(?, review_note)
+      WHERE id = ? AND teen_id IN (SELECT id FROM users WHERE parent_id = ?)
+    `).bind(note, conversationId, parentId).run();
+    return result.meta.changes > 0;
+  }
+
+  async releaseHeldMessage(messageId: string, parentId: string) {
+    const result = await this.db.prepare(`
+      UPDATE messages SET released_at = datetime('now')
+      WHERE id = ? AND held = TRUE AND released_at IS NULL
+        AND conversation_id IN (
+          SELECT c.id FROM conversations c JOIN users u ON c.teen_id = u.id WHERE u.parent_id = ?
+        )
+    `).bind(messageId, parentId).run();
+    return result.meta.changes > 0;
+  }
+
+  async releaseHeldMessagesInConversation(conversationId: string) {
+    return await this.db.prepare(`
+      UPDATE messages SET released_at = datetime('now')
+      WHERE conversation_id = ? AND held = TRUE AND released_at IS NULL
+    `).bind(conversationId).run();
+  }
+
+  // Safety alerts
+  async createSafetyAlert(alertData: {
+    id: string;
+    parentId: string;
+    teenId: string;
+    conversationId: string;
+    messageId: string;
+    alertType: string;
+    alertReason: string;
+    urgency?: 'immediate' | 'digest';
+  }) {
+    const {
+      id, parentId, teenId, conversationId, messageId, alertType, alertReason, urgency = 'digest'
+    } = alertData;
+    
+    return await this.db.prepare(`
+      INSERT INTO safety_alerts (id, parent_id, teen_id, conversation_id, message_id, alert_type, alert_reason, urgency)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, parentId, teenId, conversationId, messageId, alertType, alertReason, urgency).run();
+  }
+
+  async getSafetyAlertsByParent(parentId: string) {
+    return await this.db.prepare(`
+      SELECT sa.*, u.name as teen_name, c.title as conversation_title
+      FROM safety_alerts sa
+      JOIN users u ON sa.teen_id = u.id
+      JOIN conversations c ON sa.conversation_id = c.id
+      WHERE sa.parent_id = ?
+      ORDER BY sa.created_at DESC
+    `).bind(parentId).all();
+  }
+
+  async getSafetyAlertsByConversation(conversationId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM safety_alerts WHERE conversation_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `).bind(conversationId).all();
+  }
+
+  async markAlertAsRead(alertId: string, parentId: string) {
+    return await this.db.prepare(`
+      UPDATE safety_alerts SET is_read = TRUE WHERE id = ? AND parent_id = ?
+    `).bind(alertId, parentId).run();
+  }
+
+  async getUnreadAlertCount(parentId: string) {
+    const result = await this.db.prepare(`
+      SELECT COUNT(*) as count FROM safety_alerts WHERE parent_id = ? AND is_read = FALSE
+    `).bind(parentId).first();
+    
+    return result?.count || 0;
+  }
+
+  // Alert delivery
+  async getSafetyAlertForDelivery(alertId: string) {
+    return await this.db.prepare(`
+      SELECT sa.*, u.name as teen_name, c.title as conversation_title
+      FROM safety_alerts sa
+      JOIN users u ON sa.teen_id = u.id
+      JOIN conversations c ON sa.conversation_id = c.id
+      WHERE sa.id = ?
+    `).bind(alertId).first();
+  }
+
+  async recordAlertNotified(alertId: string, at: string) {
+    return await this.db.prepare(`
+      UPDATE safety_alerts SET notify_count = notify_count + 1, last_notified_at = ? WHERE id = ?
+    `).bind(at, alertId).run();
+  }
+
+  // Unread immediate alerts whose last notification is older than the parent's reminder interval
+  async getAlertsNeedingReminder(now: string) {
+    return await this.db.prepare(`
+      SELECT sa.*, u.name as teen_name, c.title as conversation_title
+      FROM safety_alerts sa
+      JOIN users u ON sa.teen_id = u.id
+      JOIN conversations c ON sa.conversation_id = c.id
+      LEFT JOIN alert_settings s ON s.parent_id = sa.parent_id
+      WHERE sa.urgency = 'immediate' AND sa.is_read = FALSE
+        AND sa.notify_count >= 1 AND sa.notify_count <= COALESCE(s.max_renotify, 3)
+        AND datetime(sa.last_notified_at, '+' || COALESCE(s.renotify_minutes, 15) || ' minutes') <= ?
+      ORDER BY sa.created_at ASC
+    `).bind(now).all();
+  }
+
+  // Parents with unread digest alerts whose interval has passed since the last digest (or the oldest such alert)
+  async getParentsWithDigestDue(now: string) {
+    return await this.db.prepare(`
+      SELECT sa.parent_id
+      FROM safety_alerts sa
+      LEFT JOIN alert_settings s ON s.parent_id = sa.parent_id
+      WHERE sa.urgency = 'digest' AND sa.is_read = FALSE AND sa.digested_at IS NULL
+      GROUP BY sa.parent_id
+      HAVING datetime(COALESCE(MAX(s.last_digest_at), MIN(sa.created_at)),
+        '+' || COALESCE(MAX(s.digest_interval_minutes), 1440) || ' minutes') <= ?
+    `).bind(now).all();
+  }
+
+  async getPendingDigestAlerts(parentId: string) {
+    return await this.db.prepare(`
+      SELECT sa.*, u.name as teen_name, c.title as conversation_title
+      FROM safety_alerts sa
+      JOIN users u ON sa.teen_id = u.id
+      JOIN conversations c ON sa.conversation_id = c.id
+      WHERE sa.parent_id = ? AND sa.urgency = 'digest' AND sa.is_read = FALSE AND sa.digested_at IS NULL
+      ORDER BY sa.created_at ASC
+    `).bind(parentId).all();
+  }
+
+  async markAlertsDigested(alertIds: string[], at: string) {
+    if (alertIds.length === 0) {
+      return;
+    }
+    await this.db.prepare(`
+      UPDATE safety_alerts SET digested_at = ? WHERE id IN (${alertIds.map(() => '?').join(', ')})
+    `).bind(at, ...alertIds).run();
+  }
+
+  async getAlertSettings(parentId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM alert_settings WHERE parent_id = ?
+    `).bind(parentId).first();
+  }
+
+  async saveAlertSettings(parentId: string, settings: {
+    renotifyMinutes: number;
+    maxRenotify: number;
+    digestIntervalMinutes: number;
+  }) {
+    return await this.db.prepare(`
+      INSERT INTO alert_settings (parent_id, renotify_minutes, max_renotify, digest_interval_minutes)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(parent_id) DO UPDATE SET
+        renotify_minutes = excluded.renotify_minutes,
+        max_renotify = excluded.max_renotify,
+        digest_interval_minutes = excluded.digest_interval_minutes,
+        updated_at = CURRENT_TIMESTAMP
+    `).bind(parentId, settings.renotifyMinutes, settings.maxRenotify, settings.digestIntervalMinutes).run();
+  }
+
+  async setLastDigestAt(parentId: string, at: string) {
+    return await this.db.prepare(`
+      INSERT INTO alert_settings (parent_id, last_digest_at) VALUES (?, ?)
+      ON CONFLICT(parent_id) DO UPDATE SET last_digest_at = excluded.last_digest_at
+    `).bind(parentId, at).run();
+  }
+
+  async createAlertChannel(channelData: {
+    id: string;
+    parentId: string;
+    type: string;
+    target: string;
+    secret: string | null;
+    label: string | null;
+    pushP256dh?: string;
+    pushAuth?: string;
+  }) {
+    const { id, parentId, type, target, secret, label, pushP256dh, pushAuth } = channelData;
+    
+    return await this.db.prepare(`
+      INSERT INTO alert_channels (id, parent_id, channel_type, target, secret, push_p256dh, push_auth, label)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, parentId, type, target, secret, pushP256dh || null, pushAuth || null, label).run();
+  }
+
+  async getAlertChannels(parentId: string) {
+    return await this.db.prepare(`
+      SELECT id, channel_type, target, label, is_active, created_at
+      FROM alert_channels WHERE parent_id = ?
+      ORDER BY created_at ASC
+    `).bind(parentId).all();
+  }
+
+  async countAlertChannels(parentId: string): Promise<number> {
+    const row = await this.db.prepare(`
+      SELECT COUNT(*) as count FROM alert_channels WHERE parent_id = ?
+    `).bind(parentId).first();
+    return (row?.count as number) || 0;
+  }
+
+  async deleteAlertChannel(channelId: string, parentId: string) {
+    const result = await this.db.prepare(`
+      DELETE FROM alert_channels WHERE id = ? AND parent_id = ?
+    `).bind(channelId, parentId).run();
+    return result.meta.changes > 0;
+  }
+
+  async deactivateAlertChannel(channelId: string) {
+    return await this.db.prepare(`
+      UPDATE alert_channels SET is_active = FALSE WHERE id = ?
+    `).bind(channelId).run();
+  }
+
+  async createAlertDelivery(deliveryData: {
+    id: string;
+    parentId: string;
+    alertId: string | null;
+    channelId: string | null;
+    channelType: string;
+    target: string;
+    kind: string;
+    payload: string;
+    nextAttemptAt: string;
+  }) {
+    const {
+      id, parentId, alertId, channelId, channelType, target, kind, payload, nextAttemptAt
+    } = deliveryData;
+    
+    return await this.db.prepare(`
+      INSERT INTO alert_deliveries (id, parent_id, alert_id, channel_id, channel_type, target, kind, payload, next_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, parentId, alertId, channelId, channelType, target, kind, payload, nextAttemptAt).run();
+  }
+
+  // Includes the channel's credentials; a removed channel shows up with channel_active NULL
+  async getDueAlertDeliveries(now: string, limit: number) {
+    return await this.db.prepare(`
+      SELECT d.*, ch.secret, ch.push_p256dh, ch.push_auth, ch.is_active as channel_active
+      FROM alert_deliveries d
+      LEFT JOIN alert_channels ch ON d.channel_id = ch.id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+      ORDER BY d.next_attempt_at ASC
+      LIMIT ?
+    `).bind(now, limit).all();
+  }
+
+  // Pushes next_attempt_at past the send so overlapping runs skip it; false if another run claimed it first
+  async claimAlertDelivery(deliveryId: string, now: string, claimedUntil: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE alert_deliveries SET next_attempt_at = ?
+      WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?
+    `).bind(claimedUntil, deliveryId, now).run();
+    return result.meta.changes > 0;
+  }
+
+  async markAlertDeliverySent(deliveryId: string, attempts: number, at: string) {
+    return await this.db.prepare(`
+      UPDATE alert_deliveries SET status = 'sent', attempts = ?, sent_at = ?, last_error = NULL WHERE id = ?
+    `).bind(attempts, at, deliveryId).run();
+  }
+
+  // With no retry time the delivery is given up on
+  async markAlertDeliveryFailed(deliveryId: string, attempts: number, error: string, retryAt: string | null) {
+    return await this.db.prepare(`
+      UPDATE alert_deliveries
+      SET status = ?, attempts = ?, last_error = ?, next_attempt_at = COALESCE(?, next_attempt_at)
+      WHERE id = ?
+    `).bind(retryAt ? 'pending' : 'failed', attempts, error.slice(0, 500), retryAt, deliveryId).run();
+  }
+
+  async getAlertDeliveriesByParent(parentId: string, limit: number = 100) {
+    return await this.db.prepare(`
+      SELECT id, alert_id, channel_id, channel_type, target, kind, status, attempts,
+        next_attempt_at, last_error, created_at, sent_at
+      FROM alert_deliveries WHERE parent_id = ?
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT ?
+    `).bind(parentId, limit).all();
+  }
+
+  // Crisis protocol
+  async startConversationCrisisMode(conversationId: string) {
+    return await this.db.prepare(`
+      UPDATE conversations SET crisis_mode = TRUE, crisis_started_at = datetime('now') WHERE id = ?
+    `).bind(conversationId).run();
+  }
+
+  async endConversationCrisisMode(conversationId: string) {
+    return await this.db.prepare(`
+      UPDATE conversations SET crisis_mode = FALSE WHERE id = ?
+    `).bind(conversationId).run();
+  }
+
+  async createCrisisContact(contactData: {
+    id: string;
+    parentId: string;
+    name: string;
+    role: string;
+    phone: string | null;
+    email: string | null;
+    notes: string | null;
+  }) {
+    const { id, parentId, name, role, phone, email, notes } = contactData;
+    
+    return await this.db.prepare(`
+      INSERT INTO crisis_contacts (id, parent_id, name, role, phone, email, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, parentId, name, role, phone, email, notes).run();
+  }
+
+  async getCrisisContacts(parentId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM crisis_contacts WHERE parent_id = ? ORDER BY created_at ASC, rowid ASC
+    `).bind(parentId).all();
+  }
+
+  async deleteCrisisContact(contactId: string, parentId: string) {
+    const result = await this.db.prepare(`
+      DELETE FROM crisis_contacts WHERE id = ? AND parent_id = ?
+    `).bind(contactId, parentId).run();
+    return result.meta.changes > 0;
+  }
+
+  async createCrisisEvent(eventData: {
+    id: string;
+    conversationId: string;
+    teenId: string;
+    parentId: string | null;
+    eventType: string;
+    detail: string | null;
+    messageId: string | null;
+  }) {
+    const { id, conversationId, teenId, parentId, eventType, detail, messageId } = eventData;
+    
+    return await this.db.prepare(`
+      INSERT INTO crisis_events (id, conversation_id, teen_id, parent_id, event_type, detail, message_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, conversationId, teenId, parentId, eventType, detail, messageId).run();
+  }
+
+  // Oldest first, so it reads as a timeline
+  async getCrisisTimeline(parentId: string, filters: { teenId?: string | null; conversationId?: string | null }) {
+    return await this.db.prepare(`
+      SELECT e.*, u.name as teen_name, c.title as conversation_title, c.crisis_mode
+      FROM crisis_events e
+      JOIN users u ON e.teen_id = u.id
+      JOIN conversations c ON e.conversation_id = c.id
+      WHERE u.parent_id = ?
+        AND (? IS NULL OR e.teen_id = ?)
+        AND (? IS NULL OR e.conversation_id = ?)
+      ORDER BY e.created_at ASC, e.rowid ASC
+    `).bind(
+      parentId,
+      filters.teenId || null, filters.teenId || null,
+      filters.conversationId || null, filters.conversationId || null
+    ).all();
+  }
+
+  // Analytics and reporting
+  async getConversationStats(teenId: string, days: number = 30) {
+    return await this.db.prepare(`
+      SELECT 
+        COUNT(DISTINCT c.id) as total_conversations,
+        COUNT(m.id) as total_messages,
+        COUNT(CASE WHEN m.is_flagged = TRUE THEN 1 END) as flagged_messages,
+        COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
+        COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as ai_messages
+      FROM conversations c
+      LEFT JOIN messages m ON c.id = m.conversation_id
+      WHERE c.teen_id = ? AND c.created_at >= datetime('now', ?)
+    `).bind(teenId, `-${days} days`).first();
+  }
+
+  // Teen messages per detected topic; NULL topics are messages nothing in the taxonomy matched
+  async getTopicBreakdown(teenId: string, days: number = 30) {
+    return await this.db.prepare(`
+      SELECT m.topic, COUNT(*) as message_count
+      FROM messages m
+      JOIN conversations c ON m.conversation_id = c.id
+      WHERE c.teen_id = ? AND m.role = 'user' AND m.created_at >= datetime('now', ?)
+      GROUP BY m.topic
+      ORDER BY message_count DESC
+    `).bind(teenId, `-${days} days`).all();
+  }
+
+  // Analytics time series. Activity is counted per UTC hour in [since, until) so the caller
+  // can regroup it by the family's local day, week, weekday and hour.
+  async getHourlyMessageActivity(teenId: string, since: string, until: string) {
+    return await this.db.prepare(`
+      SELECT strftime('%Y-%m-%d %H:00:00', m.created_at) as hour, c.custom_gpt_id, cg.name as gpt_name,
+        COUNT(*) as messages,
+        COUNT(CASE WHEN m.is_flagged = TRUE THEN 1 END) as flagged
+      FROM messages m
+      JOIN conversations c ON m.conversation_id = c.id
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      WHERE c.teen_id = ? AND m.role = 'user' AND m.created_at >= ? AND m.created_at < ?
+      GROUP BY hour, c.custom_gpt_id
+    `).bind(teenId, since, until).all();
+  }
+
+  async getHourlyConversationStarts(teenId: string, since: string, until: string) {
+    return await this.db.prepare(`
+      SELECT strftime('%Y-%m-%d %H:00:00', c.created_at) as hour, c.custom_gpt_id, cg.name as gpt_name,
+        COUNT(*) as conversations
+      FROM conversations c
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      WHERE c.teen_id = ? AND c.created_at >= ? AND c.created_at < ?
+      GROUP BY hour, c.custom_gpt_id
+    `).bind(teenId, since, until).all();
+  }
+
+  async getHourlyAlertCounts(teenId: string, since: string, until: string) {
+    return await this.db.prepare(`
+      SELECT strftime('%Y-%m-%d %H:00:00', created_at) as hour, alert_type, COUNT(*) as alerts
+      FROM safety_alerts
+      WHERE teen_id = ? AND created_at >= ? AND created_at < ?
+      GROUP BY hour, alert_type
+    `).bind(teenId, since, until).all();
+  }
+
+  // usage_date is already the family's local date
+  async getActiveSecondsByDate(teenId: string, fromDate: string, toDate: string) {
+    return await this.db.prepare(`
+      SELECT usage_date, SUM(active_seconds) as seconds
+      FROM usage_sessions
+      WHERE teen_id = ? AND usage_date >= ? AND usage_date <= ?
+      GROUP BY usage_date
+    `).bind(teenId, fromDate, toDate).all();
+  }
+
+  async getDailyUsageStats(teenId: string, date: string) {
+    return await this.db.prepare(`
+      SELECT 
+        COUNT(m.id) as message_count,
+        MIN(m.created_at) as first_message,
+        MAX(m.created_at) as last_message
+      FROM messages m
+      JOIN conversations c ON m.conversation_id = c.id
+      WHERE c.teen_id = ? AND DATE(m.created_at) = DATE(?)
+    `).bind(teenId, date).first();
+  }
+
+  // Weekly reports
+  async getParentsDueWeeklyReport(periodStart: string, limit: number) {
+    return await this.db.prepare(`
+      SELECT u.id, u.email, u.name FROM users u
+      LEFT JOIN alert_settings s ON s.parent_id = u.id
+      WHERE u.role = 'parent' AND u.is_active = TRUE
+        AND COALESCE(s.weekly_report, TRUE) = TRUE
+        AND EXISTS (SELECT 1 FROM users t WHERE t.parent_id = u.id AND t.role = 'teen')
+        AND NOT EXISTS (SELECT 1 FROM weekly_reports r WHERE r.parent_id = u.id AND r.period_start = ?)
+      ORDER BY u.created_at ASC
+      LIMIT ?
+    `).bind(periodStart, limit).all();
+  }
+
+  // Reports whose email hasn't gone out yet, with the parent's current address
+  async getUnsentWeeklyReports(periodStart: string, maxAttempts: number, limit: number) {
+    return await this.db.prepare(`
+      SELECT r.*, u.email FROM weekly_reports r
+      JOIN users u ON r.parent_id = u.id
+      WHERE r.period_start = ? AND r.delivery_status != 'sent' AND r.attempts < ?
+      ORDER BY r.created_at ASC
+      LIMIT ?
+    `).bind(periodStart, maxAttempts, limit).all();
+  }
+
+  // false if the parent already has a report for this period
+  async createWeeklyReport(reportData: {
+    id: string;
+    parentId: string;
+    periodStart: string;
+    periodEnd: string;
+    subject: string;
+    textBody: string;
+    htmlBody: string;
+    data: string;
+  }): Promise<boolean> {
+    const { id, parentId, periodStart, periodEnd, subject, textBody, htmlBody, data } = reportData;
+    
+    const result = await this.db.prepare(`
+      INSERT OR IGNORE INTO weekly_reports (id, parent_id, period_start, period_end, subject, text_body, html_body, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(id, parentId, periodStart, periodEnd, subject, textBody, htmlBody, data).run();
+    return result.meta.changes > 0;
+  }
+
+  async markWeeklyReportSent(reportId: string, attempts: number, at: string) {
+    return await this.db.prepare(`
+      UPDATE weekly_reports SET delivery_status = 'sent', attempts = ?, sent_at = ?, last_error = NULL WHERE id = ?
+    `).bind(attempts, at, reportId).run();
+  }
+
+  async markWeeklyReportFailed(reportId: string, attempts: number, error: string) {
+    return await this.db.prepare(`
+      UPDATE weekly_reports SET delivery_status = 'failed', attempts = ?, last_error = ? WHERE id = ?
+    `).bind(attempts, error, reportId).run();
+  }
+
+  async getWeeklyReportsByParent(parentId: string, limit: number = 52) {
+    return await this.db.prepare(`
+      SELECT id, period_start, period_end, subject, delivery_status, sent_at, created_at
+      FROM weekly_reports WHERE parent_id = ?
+      ORDER BY period_start DESC
+      LIMIT ?
+    `).bind(parentId, limit).all();
+  }
+
+  async getWeeklyReport(reportId: string, parentId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM weekly_reports WHERE id = ? AND parent_id = ?
+    `).bind(reportId, parentId).first();
+  }
+
+  async setWeeklyReportEnabled(parentId: string, enabled: boolean) {
+    return await this.db.prepare(`
+      INSERT INTO alert_settings (parent_id, weekly_report) VALUES (?, ?)
+      ON CONFLICT(parent_id) DO UPDATE SET weekly_report = excluded.weekly_report, updated_at = CURRENT_TIMESTAMP
+    `).bind(parentId, enabled).run();
+  }
+
+  // A teen's conversations with activity in [since, until), busiest first
+  async getConversationActivity(teenId: string, since: string, until: string) {
+    return await this.db.prepare(`
+      SELECT c.id, c.title, cg.name as gpt_name,
+        COUNT(m.id) as messages,
+        COUNT(CASE WHEN m.is_flagged = TRUE THEN 1 END) as flagged
+      FROM conversations c
+      JOIN custom_gpts cg ON c.custom_gpt_id = cg.id
+      JOIN messages m ON m.conversation_id = c.id AND m.created_at >= ? AND m.created_at < ?
+      WHERE c.teen_id = ?
+      GROUP BY c.id
+      ORDER BY messages DESC, c.updated_at DESC
+    `).bind(since, until, teenId).all();
+  }
+
+  async getTopicCounts(teenId: string, since: string, until: string, limit: number) {
+    return await this.db.prepare(`
+      SELECT m.topic, COUNT(*) as message_count
+      FROM messages m
+      JOIN conversations c ON m.conversation_id = c.id
+      WHERE c.teen_id = ? AND m.role = 'user' AND m.topic IS NOT NULL
+        AND m.created_at >= ? AND m.created_at < ?
+      GROUP BY m.topic
+      ORDER BY message_count DESC
+      LIMIT ?
+    `).bind(teenId, since, until, limit).all();
+  }
+
+  async getSafetyAlertsForTeen(teenId: string, since: string, until: string) {
+    return await this.db.prepare(`
+      SELECT sa.*, c.title as conversation_title
+      FROM safety_alerts sa
+      JOIN conversations c ON sa.conversation_id = c.id
+      WHERE sa.teen_id = ? AND sa.created_at >= ? AND sa.created_at < ?
+      ORDER BY sa.created_at ASC
+    `).bind(teenId, since, until).all();
+  }
+
+  async getUnreadAlertCountForTeen(teenId: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COUNT(*) as count FROM safety_alerts WHERE teen_id = ? AND is_read = FALSE
+    `).bind(teenId).first();
+    return (result?.count as number) || 0;
+  }
+
+  // Usage tracking and time limits
+  async getLatestUsageSession(teenId: string, usageDate: string) {
+    return await this.db.prepare(`
+      SELECT * FROM usage_sessions WHERE teen_id = ? AND usage_date = ?
+      ORDER BY last_activity_at DESC
+      LIMIT 1
+    `).bind(teenId, usageDate).first();
+  }
+
+  async createUsageSession(sessionData: {
+    id: string;
+    teenId: string;
+    usageDate: string;
+    startedAt: string;
+    activeSeconds: number;
+  }) {
+    const { id, teenId, usageDate, startedAt, activeSeconds } = sessionData;
+
+    return await this.db.prepare(`
+      INSERT INTO usage_sessions (id, teen_id, usage_date, started_at, last_activity_at, active_seconds)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(id, teenId, usageDate, startedAt, startedAt, activeSeconds).run();
+  }
+
+  async extendUsageSession(sessionId: string, addSeconds: number, lastActivityAt: string) {
+    return await this.db.prepare(`
+      UPDATE usage_sessions SET active_seconds = active_seconds + ?, last_activity_at = ?
+      WHERE id = ?
+    `).bind(addSeconds, lastActivityAt, sessionId).run();
+  }
+
+  async getActiveSecondsForDate(teenId: string, usageDate: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COALESCE(SUM(active_seconds), 0) as seconds
+      FROM usage_sessions WHERE teen_id = ? AND usage_date = ?
+    `).bind(teenId, usageDate).first<{ seconds: number }>();
+
+    return result?.seconds || 0;
+  }
+
+  async createTimeExtension(extensionData: {
+    id: string;
+    parentId: string;
+    teenId: string;
+    usageDate: string;
+    minutes: number;
+    reason?: string | null;
+  }) {
+    const { id, parentId, teenId, usageDate, minutes, reason } = extensionData;
+
+    return await this.db.prepare(`
+      INSERT INTO time_extensions (id, parent_id, teen_id, usage_date, minutes, reason)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(id, parentId, teenId, usageDate, minutes, reason || null).run();
+  }
+
+  async getExtensionMinutesForDate(teenId: string, usageDate: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COALESCE(SUM(minutes), 0) as minutes
+      FROM time_extensions WHERE teen_id = ? AND usage_date = ?
+    `).bind(teenId, usageDate).first<{ minutes: number }>();
+
+    return result?.minutes || 0;
+  }
+
+  async getTimeExtensionsByTeen(teenId: string, usageDate: string) {
+    return await this.db.prepare(`
+      SELECT * FROM time_extensions WHERE teen_id = ? AND usage_date = ?
+      ORDER BY created_at ASC
+    `).bind(teenId, usageDate).all();
+  }
+
+  // Token metering (migration 0019)
+  async recordTokenUsage(usageData: {
+    id: string;
+    parentId: string;
+    teenId: string;
+    customGptId: string;
+    conversationId: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    costMicros: number;
+    usageMonth: string;
+  }) {
+    const {
+      id, parentId, teenId, customGptId, conversationId, model, promptTokens, completionTokens, costMicros, usageMonth
+    } = usageData;
+
+    return await this.db.prepare(`
+      INSERT INTO token_usage (
+        id, parent_id, teen_id, custom_gpt_id, conversation_id, model, prompt_tokens, completion_tokens, cost_micros, usage_month
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id, parentId, teenId, customGptId, conversationId, model, promptTokens, completionTokens, costMicros, usageMonth
+    ).run();
+  }
+
+  async getFamilySpendMicros(parentId: string, usageMonth: string): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COALESCE(SUM(cost_micros), 0) as total FROM token_usage WHERE parent_id = ? AND usage_month = ?
+    `).bind(parentId, usageMonth).first();
+
+    return (result?.total as number) || 0;
+  }
+
+  // A family's usage for the month: totals, then broken down by teen, GPT and model
+  async getTokenUsageReport(parentId: string, usageMonth: string) {
+    const totals = `COUNT(*) as requests, SUM(tu.prompt_tokens) as prompt_tokens,
+      SUM(tu.completion_tokens) as completion_tokens, SUM(tu.cost_micros) as cost_micros`;
+    const [total, byTeen, byGpt, byModel] = await this.db.batch<Record<string, any>>([
+      this.db.prepare(`
+        SELECT ${totals} FROM token_usage tu WHERE tu.parent_id = ? AND tu.usage_month = ?
+      `).bind(parentId, usageMonth),
+      this.db.prepare(`
+        SELECT tu.teen_id, u.name as teen_name, ${totals}
+        FROM token_usage tu JOIN users u ON tu.teen_id = u.id
+        WHERE tu.parent_id = ? AND tu.usage_month = ?
+        GROUP BY tu.teen_id ORDER BY cost_micros DESC
+      `).bind(parentId, usageMonth),
+      this.db.prepare(`
+        SELECT tu.custom_gpt_id, cg.name as gpt_name, ${totals}
+        FROM token_usage tu JOIN custom_gpts cg ON tu.custom_gpt_id = cg.id
+        WHERE tu.parent_id = ? AND tu.usage_month = ?
+        GROUP BY tu.custom_gpt_id ORDER BY cost_micros DESC
+      `).bind(parentId, usageMonth),
+      this.db.prepare(`
+        SELECT tu.model, ${totals}
+        FROM token_usage tu
+        WHERE tu.parent_id = ? AND tu.usage_month = ?
+        GROUP BY tu.model ORDER BY cost_micros DESC
+      `).bind(parentId, usageMonth)
+    ]);
+
+    return {
+      total: total.results?.[0] || null,
+      byTeen: byTeen.results || [],
+      byGpt: byGpt.results || [],
+      byModel: byModel.results || []
+    };
+  }
+
+  async getFamilyBudget(parentId: string) {
+    return await this.db.prepare(`
+      SELECT * FROM family_budgets WHERE parent_id = ?
+    `).bind(parentId).first();
+  }
+
+  async saveFamilyBudget(parentId: string, monthlyLimitMicros: number | null, warnPercent: number) {
+    return await this.db.prepare(`
+      INSERT INTO family_budgets (parent_id, monthly_limit_micros, warn_percent) VALUES (?, ?, ?)
+      ON CONFLICT (parent_id) DO UPDATE SET
+        monthly_limit_micros = excluded.monthly_limit_micros,
+        warn_percent = excluded.warn_percent,
+        updated_at = datetime('now')
+    `).bind(parentId, monthlyLimitMicros, warnPercent).run();
+  }
+
+  // True for the one caller that gets to send this month's warning (or cutoff) email
+  async claimBudgetNotice(parentId: string, notice: 'warning' | 'cutoff', usageMonth: string): Promise<boolean> {
+    const column = notice === 'warning' ? 'warned_month' : 'cutoff_month';
+    const result = await this.db.prepare(`
+      INSERT INTO family_budgets (parent_id, ${column}) VALUES (?, ?)
+      ON CONFLICT (parent_id) DO UPDATE SET ${column} = excluded.${column}
+      WHERE ${column} IS NULL OR ${column} <> excluded.${column}
+    `).bind(parentId, usageMonth).run();
+    return result.meta.changes > 0;
+  }
+
+  // Maintenance and cleanup
+  async cleanupExpiredSessions() {
+    return await this.db.prepare(`
+      DELETE FROM sessions WHERE expires_at < datetime('now')
+    `).run();
+  }
+
+  async cleanupExpiredAuthTokens() {
+    return await this.db.prepare(`
+      DELETE FROM auth_tokens WHERE expires_at < datetime('now') OR used_at IS NOT NULL
     `).run();
   }
 
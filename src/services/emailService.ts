@@ -0,0 +1,73 @@
+// Email Service for Teen AI Platform
+// Pluggable email senders: Resend in production, a local D1 outbox for development and tests
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class ResendEmailSender implements EmailSender {
+  private baseUrl = 'https://api.resend.com/emails';
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend API error: ${response.status}`);
+    }
+  }
+}
+
+// Writes messages to the email_outbox table instead of delivering them.
+// Read them back with `npm run db:console:local -- --command "SELECT * FROM email_outbox"`.
+export class OutboxEmailSender implements EmailSender {
+  constructor(private db: D1Database) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO email_outbox (id, to_address, subject, text_body, html_body)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(crypto.randomUUID(), message.to, message.subject, message.text, message.html || null).run();
+  }
+}
+
+// Keeps messages in memory so callers can assert on what would have been sent
+export class MemoryEmailSender implements EmailSender {
+  public sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+export function createEmailSender(env: {
+  DB: D1Database;
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
+}): EmailSender {
+  if (env.RESEND_API_KEY) {
+    return new ResendEmailSender(env.RESEND_API_KEY, env.EMAIL_FROM || 'Teen AI Platform <no-reply@teenai.com>');
+  }
+  return new OutboxEmailSender(env.DB);
+}
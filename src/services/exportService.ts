@@ -0,0 +1,380 @@
+// Export Service for Teen AI Platform
+// Conversation transcripts for parents to share with a pastor or counselor, as Markdown, JSON or a printable PDF
+
+import { DatabaseService } from './databaseService'
+import { PdfDocument, RGB } from './pdfService'
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'pdf'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// A teen export covers at most this many conversations; narrow the date range for more
+export const MAX_EXPORT_CONVERSATIONS = 100;
+const MAX_RANGE_DAYS = 366;
+
+export interface TranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  topic: string | null;
+  flagged: boolean;
+  flagReason: string | null;
+  held: boolean; // Still hidden from the teen
+}
+
+export interface TranscriptConversation {
+  id: string;
+  title: string;
+  teenName: string;
+  gptName: string;
+  startedAt: string;
+  lastActivityAt: string;
+  review: { reason: string; reviewed: boolean; note: string | null; reviewedAt: string | null } | null;
+  crisisMode: boolean;
+  messages: TranscriptMessage[];
+  safetyAlerts: { id: string; type: string; reason: string; read: boolean; createdAt: string; messageId: string }[];
+  crisisEvents: { type: string; detail: string | null; createdAt: string }[];
+}
+
+export type ExportRange = { from: string | null; to: string | null }; // Inclusive dates, YYYY-MM-DD
+
+export interface Transcript {
+  title: string;
+  exportedAt: string;
+  range: ExportRange;
+  truncated: boolean; // More conversations matched than MAX_EXPORT_CONVERSATIONS
+  conversations: TranscriptConversation[];
+}
+
+export interface RenderedExport {
+  body: string | ArrayBuffer;
+  contentType: string;
+  filename: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string): Date | null {
+  const date = new Date(`${value}T00:00:00Z`);
+  return DATE_PATTERN.test(value) && !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : null;
+}
+
+// Validates ?from= and ?to= (inclusive UTC dates); both are optional
+export function parseExportRange(from: string | undefined, to: string | undefined): { range: ExportRange } | { error: string } {
+  const start = from ? parseDate(from) : null;
+  const end = to ? parseDate(to) : null;
+
+  if ((from && !start) || (to && !end)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+  if (start && end) {
+    const days = (end.getTime() - start.getTime()) / 86400000;
+    if (days < 0) {
+      return { error: 'The end date must not be before the start date' };
+    }
+    if (days >= MAX_RANGE_DAYS) {
+      return { error: `Exports can cover at most ${MAX_RANGE_DAYS} days` };
+    }
+  }
+
+  return { range: { from: from || null, to: to || null } };
+}
+
+function sqlBounds(range: ExportRange): { from: string | null; to: string | null } {
+  const next = range.to ? new Date(parseDate(range.to)!.getTime() + 86400000).toISOString().substring(0, 10) : null;
+  return {
+    from: range.from ? `${range.from} 00:00:00` : null,
+    to: next ? `${next} 00:00:00` : null
+  };
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+export class ExportService {
+  constructor(private db: DatabaseService) {}
+
+  // null if the conversation doesn't belong to one of the parent's teens
+  async conversation(parentId: string, conversationId: string): Promise<Transcript | null> {
+    const transcript = await this.build(parentId, { conversationId, teenId: null }, { from: null, to: null });
+    if (!transcript.conversations.length) {
+      return null;
+    }
+    return { ...transcript, title: `${transcript.conversations[0].title} (${transcript.conversations[0].teenName})` };
+  }
+
+  // null if the teen isn't in the parent's family
+  async teen(parentId: string, teenId: string, range: ExportRange): Promise<Transcript | null> {
+    const teen = await this.db.getFamilyTeen(parentId, teenId);
+    if (!teen) {
+      return null;
+    }
+    const transcript = await this.build(parentId, { conversationId: null, teenId }, range);
+    return { ...transcript, title: `Conversations with ${teen.name}` };
+  }
+
+  render(transcript: Transcript, format: ExportFormat): RenderedExport {
+    const filename = `transcript-${slugify(transcript.title)}-${transcript.exportedAt.substring(0, 10)}`;
+    switch (format) {
+      case 'json':
+        return { body: JSON.stringify(transcript, null, 2), contentType: 'application/json', filename: `${filename}.json` };
+      case 'pdf':
+        return { body: renderPdf(transcript), contentType: 'application/pdf', filename: `${filename}.pdf` };
+      default:
+        return { body: renderMarkdown(transcript), contentType: 'text/markdown; charset=utf-8', filename: `${filename}.md` };
+    }
+  }
+
+  private async build(
+    parentId: string,
+    filters: { conversationId: string | null; teenId: string | null },
+    range: ExportRange
+  ): Promise<Omit<Transcript, 'title'>> {
+    const bounds = sqlBounds(range);
+    const rows = (await this.db.getConversationsForExport(parentId, { ...filters, ...bounds }, MAX_EXPORT_CONVERSATIONS + 1)).results || [];
+    const timeline = (await this.db.getCrisisTimeline(parentId, filters)).results || [];
+
+    const conversations: TranscriptConversation[] = [];
+    for (const row of rows.slice(0, MAX_EXPORT_CONVERSATIONS)) {
+      const messages = (await this.db.getMessagesInRange(row.id as string, bounds.from, bounds.to)).results || [];
+      const alerts = (await this.db.getSafetyAlertsByConversation(row.id as string)).results || [];
+      const inRange = (createdAt: string) => (!bounds.from || createdAt >= bounds.from) && (!bounds.to || createdAt < bounds.to);
+
+      conversations.push({
+        id: row.id as string,
+        title: row.title as string,
+        teenName: row.teen_name as string,
+        gptName: row.gpt_name as string,
+        startedAt: row.created_at as string,
+        lastActivityAt: row.updated_at as string,
+        review: row.review_reason ? {
+          reason: row.review_reason as string,
+          reviewed: Boolean(row.parent_reviewed),
+          note: (row.review_note as string | null) || null,
+          reviewedAt: (row.reviewed_at as string | null) || null
+        } : null,
+        crisisMode: Boolean(row.crisis_mode),
+        messages: messages.map(message => ({
+          id: message.id as string,
+          role: message.role as 'user' | 'assistant',
+          content: message.content as string,
+          createdAt: message.created_at as string,
+          topic: (message.topic as string | null) || null,
+          flagged: Boolean(message.is_flagged),
+          flagReason: (message.flag_reason as string | null) || null,
+          held: Boolean(message.held) && !message.released_at
+        })),
+        safetyAlerts: alerts
+          .filter(alert => inRange(alert.created_at as string))
+          .map(alert => ({
+            id: alert.id as string,
+            type: alert.alert_type as string,
+            reason: alert.alert_reason as string,
+            read: Boolean(alert.is_read),
+            createdAt: alert.created_at as string,
+            messageId: alert.message_id as string
+          })),
+        crisisEvents: timeline
+          .filter(event => event.conversation_id === row.id && inRange(event.created_at as string))
+          .map(event => ({
+            type: event.event_type as string,
+            detail: (event.detail as string | null) || null,
+            createdAt: event.created_at as string
+          }))
+      });
+    }
+
+    return {
+      exportedAt: new Date().toISOString(),
+      range,
+      truncated: rows.length > MAX_EXPORT_CONVERSATIONS,
+      conversations
+    };
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60) || 'conversation';
+}
+
+// SQL timestamps are UTC
+function formatTime(sqlDate: string): string {
+  return `${sqlDate.substring(0, 16)} UTC`;
+}
+
+function speaker(message: TranscriptMessage, conversation: TranscriptConversation): string {
+  return message.role === 'user' ? conversation.teenName : conversation.gptName;
+}
+
+function rangeLabel(range: ExportRange): string | null {
+  if (!range.from && !range.to) {
+    return null;
+  }
+  return `${range.from || 'the beginning'} to ${range.to || 'today'}`;
+}
+
+function reviewLabel(review: NonNullable<TranscriptConversation['review']>): string {
+  const reason = review.reason === 'flagged' ? 'flagged messages' : 'first session with this GPT';
+  if (!review.reviewed) {
+    return `Awaiting review (queued for ${reason})`;
+  }
+  return `Reviewed${review.reviewedAt ? ` ${formatTime(review.reviewedAt)}` : ''} (queued for ${reason})`;
+}
+
+const CRISIS_EVENT_LABELS: Record<string, string> = {
+  detected: 'Crisis detected',
+  crisis_mode_started: 'Crisis mode started',
+  parent_alerted: 'Parent alerted',
+  resources_shown: 'Crisis resources shown',
+  alert_read: 'Parent read the alert',
+  resolved: 'Marked resolved by parent'
+};
+
+function crisisEventLabel(event: TranscriptConversation['crisisEvents'][number]): string {
+  const label = CRISIS_EVENT_LABELS[event.type] || event.type;
+  // parent_alerted and alert_read carry an alert id, which means nothing on paper
+  return event.detail && !['parent_alerted', 'alert_read'].includes(event.type) ? `${label}: ${event.detail}` : label;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+export function renderMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# ${transcript.title}`, '', `Exported ${formatTime(transcript.exportedAt.replace('T', ' '))}`];
+  const range = rangeLabel(transcript.range);
+  if (range) {
+    lines.push(`Covering ${range}`);
+  }
+  if (transcript.truncated) {
+    lines.push(`Only the first ${MAX_EXPORT_CONVERSATIONS} conversations are included; export a shorter date range for the rest.`);
+  }
+  if (!transcript.conversations.length) {
+    lines.push('', 'No conversations in this period.');
+  }
+
+  for (const conversation of transcript.conversations) {
+    const flagged = conversation.messages.filter(message => message.flagged).length;
+    lines.push(
+      '', '---', '',
+      `## ${conversation.title}`, '',
+      `- **Teen:** ${conversation.teenName}`,
+      `- **GPT:** ${conversation.gptName}`,
+      `- **Started:** ${formatTime(conversation.startedAt)}`,
+      `- **Last activity:** ${formatTime(conversation.lastActivityAt)}`,
+      `- **Flagged messages:** ${flagged}`
+    );
+    if (conversation.review) {
+      lines.push(`- **Review:** ${reviewLabel(conversation.review)}`);
+      if (conversation.review.note) {
+        lines.push(`- **Review note:** ${conversation.review.note}`);
+      }
+    }
+    if (conversation.crisisMode) {
+      lines.push('- **Crisis mode:** active');
+    }
+
+    lines.push('', '### Messages', '');
+    if (!conversation.messages.length) {
+      lines.push('_No messages in this period._');
+    }
+    for (const message of conversation.messages) {
+      lines.push(`**${speaker(message, conversation)}** · ${formatTime(message.createdAt)}`);
+      if (message.flagged) {
+        lines.push(`> ⚠️ **Flagged:** ${message.flagReason || 'flagged by the safety filter'}`, '>');
+      }
+      if (message.held) {
+        lines.push('> ⏸️ **Held:** not yet shown to the teen', '>');
+      }
+      lines.push(message.flagged || message.held ? quote(message.content) : message.content, '');
+    }
+
+    if (conversation.safetyAlerts.length) {
+      lines.push('### Safety alerts', '');
+      for (const alert of conversation.safetyAlerts) {
+        lines.push(`- ${formatTime(alert.createdAt)} · **${alert.type}**: ${alert.reason}${alert.read ? '' : ' (unread)'}`);
+      }
+      lines.push('');
+    }
+
+    if (conversation.crisisEvents.length) {
+      lines.push('### Crisis timeline', '');
+      for (const event of conversation.crisisEvents) {
+        lines.push(`- ${formatTime(event.createdAt)} · ${crisisEventLabel(event)}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+const GREY: RGB = [0.4, 0.4, 0.4];
+const RED: RGB = [0.6, 0.1, 0.1];
+const FLAGGED_BACKGROUND: RGB = [1, 0.9, 0.9];
+const HELD_BACKGROUND: RGB = [1, 0.96, 0.85];
+
+export function renderPdf(transcript: Transcript): ArrayBuffer {
+  const pdf = new PdfDocument(transcript.title);
+  pdf.text(transcript.title, { size: 18, bold: true, spaceAfter: 6 });
+  pdf.text(`Exported ${formatTime(transcript.exportedAt.replace('T', ' '))}`, { color: GREY });
+  const range = rangeLabel(transcript.range);
+  if (range) {
+    pdf.text(`Covering ${range}`, { color: GREY });
+  }
+  if (transcript.truncated) {
+    pdf.text(`Only the first ${MAX_EXPORT_CONVERSATIONS} conversations are included; export a shorter date range for the rest.`, { color: RED });
+  }
+  if (!transcript.conversations.length) {
+    pdf.text('No conversations in this period.');
+  }
+
+  for (const conversation of transcript.conversations) {
+    pdf.rule();
+    pdf.heading(conversation.title);
+    pdf.text(`${conversation.teenName} with ${conversation.gptName} · started ${formatTime(conversation.startedAt)}, ` +
+      `last activity ${formatTime(conversation.lastActivityAt)}`, { color: GREY });
+    if (conversation.review) {
+      pdf.text(`Review: ${reviewLabel(conversation.review)}`, { color: GREY });
+      if (conversation.review.note) {
+        pdf.text(`Review note: ${conversation.review.note}`);
+      }
+    }
+    if (conversation.crisisMode) {
+      pdf.text('Crisis mode is active in this conversation', { bold: true, color: RED });
+    }
+
+    pdf.space(6);
+    if (!conversation.messages.length) {
+      pdf.text('No messages in this period.', { color: GREY });
+    }
+    for (const message of conversation.messages) {
+      const background = message.flagged ? FLAGGED_BACKGROUND : message.held ? HELD_BACKGROUND : undefined;
+      pdf.text(`${speaker(message, conversation)} · ${formatTime(message.createdAt)}`, { bold: true, size: 9, background, spaceAfter: 0 });
+      if (message.flagged) {
+        pdf.text(`Flagged: ${message.flagReason || 'flagged by the safety filter'}`, { size: 9, color: RED, background, spaceAfter: 0 });
+      }
+      if (message.held) {
+        pdf.text('Held: not yet shown to the teen', { size: 9, color: RED, background, spaceAfter: 0 });
+      }
+      pdf.text(message.content, { background, spaceAfter: 8 });
+    }
+
+    if (conversation.safetyAlerts.length) {
+      pdf.heading('Safety alerts', 11);
+      for (const alert of conversation.safetyAlerts) {
+        pdf.text(`${formatTime(alert.createdAt)} · ${alert.type}: ${alert.reason}${alert.read ? '' : ' (unread)'}`, { indent: 10 });
+      }
+    }
+
+    if (conversation.crisisEvents.length) {
+      pdf.heading('Crisis timeline', 11);
+      for (const event of conversation.crisisEvents) {
+        pdf.text(`${formatTime(event.createdAt)} · ${crisisEventLabel(event)}`, { indent: 10 });
+      }
+    }
+  }
+
+  return pdf.toBytes();
+}
@@ -0,0 +1,224 @@
+// Family Service for Teen AI Platform
+// Handles parent approval of teen accounts: invite codes, link requests, unlinking, deactivation and birthdates
+
+import { DatabaseService } from './databaseService'
+import { EmailSender } from './emailService'
+import { generateSecureToken, hashToken, toSqlDate } from './authService'
+
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const INVITE_CODE_LENGTH = 8;
+const DEFAULT_INVITE_DAYS = 7;
+const MAX_INVITE_DAYS = 30;
+
+export type FamilyResult<T = {}> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status: 400 | 403 | 404 | 409 };
+
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  return Array.from(bytes).map(b => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+// A past YYYY-MM-DD date; null clears the birthdate
+export function validateBirthdate(value: unknown): { birthdate: string | null } | { error: string } {
+  if (value === null) {
+    return { birthdate: null };
+  }
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+      isNaN(Date.parse(`${value}T00:00:00Z`)) || !new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)) {
+    return { error: 'Birthdate must be a date in YYYY-MM-DD format' };
+  }
+  if (value < '1900-01-01' || value > new Date().toISOString().substring(0, 10)) {
+    return { error: 'Birthdate must be in the past' };
+  }
+  return { birthdate: value };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function normalizeInviteCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export class FamilyService {
+  constructor(
+    private db: DatabaseService,
+    private emailSender: EmailSender,
+    private appUrl: string
+  ) {}
+
+  async createInvite(
+    parentId: string,
+    options: { teenEmail?: string | null; expiresInDays?: number } = {}
+  ): Promise<FamilyResult<{ id: string; code: string; link: string; expiresAt: string }>> {
+    const days = Math.min(Math.max(options.expiresInDays || DEFAULT_INVITE_DAYS, 1), MAX_INVITE_DAYS);
+    const code = generateInviteCode();
+    const id = generateSecureToken(12);
+    const expiresAt = toSqlDate(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+
+    await this.db.createFamilyInvite({
+      id,
+      parentId,
+      codeHash: await hashToken(code),
+      teenEmail: options.teenEmail ? options.teenEmail.toLowerCase() : null,
+      expiresAt
+    });
+
+    return { success: true, id, code, link: `${this.appUrl}/?invite=${code}`, expiresAt };
+  }
+
+  async redeemInvite(teen: Record<string, any>, code: string): Promise<FamilyResult<{ parentId: string }>> {
+    const invite = await this.db.getActiveFamilyInviteByCodeHash(await hashToken(normalizeInviteCode(code)));
+    return this.redeem(teen, invite);
+  }
+
+  // An invite code given at registration waits until the teen has verified their email address,
+  // so an invite issued for an address can't be claimed by someone who only typed it in
+  async holdInvite(teen: Record<string, any>, code: string): Promise<FamilyResult<{ inviteId: string }>> {
+    const check = await this.checkInvite(code, teen.email);
+    if (!check.success) {
+      return check;
+    }
+
+    await this.db.setPendingInvite(teen.id, check.inviteId);
+    return { success: true, inviteId: check.inviteId };
+  }
+
+  // Call once the user's email address is verified; null when no invite was waiting
+  async redeemHeldInvite(user: Record<string, any>): Promise<FamilyResult<{ parentId: string }> | null> {
+    if (!user.pending_invite_id) {
+      return null;
+    }
+
+    await this.db.setPendingInvite(user.id, null);
+    return this.redeem(user, await this.db.getActiveFamilyInviteById(user.pending_invite_id));
+  }
+
+  // Validates an invite for the given email without redeeming it
+  async checkInvite(code: string, email: string): Promise<FamilyResult<{ inviteId: string; parentId: string }>> {
+    const invite = await this.db.getActiveFamilyInviteByCodeHash(await hashToken(normalizeInviteCode(code)));
+    if (!invite) {
+      return { success: false, error: 'Invite code is invalid or has expired', status: 404 };
+    }
+
+    if (invite.teen_email && invite.teen_email !== email.toLowerCase()) {
+      return { success: false, error: 'This invite was issued for a different email address', status: 403 };
+    }
+
+    return { success: true, inviteId: invite.id as string, parentId: invite.parent_id as string };
+  }
+
+  async requestLink(teen: Record<string, any>, parentEmail: string): Promise<FamilyResult<{ requestId: string }>> {
+    if (teen.parent_id) {
+      return { success: false, error: 'Your account is already linked to a parent', status: 409 };
+    }
+
+    const parent = await this.db.getUserByEmail(parentEmail);
+    if (!parent || parent.role !== 'parent') {
+      return { success: false, error: 'Parent account not found', status: 404 };
+    }
+
+    // Only one open request at a time
+    await this.db.cancelPendingLinkRequests(teen.id);
+
+    const requestId = generateSecureToken(12);
+    await this.db.createLinkRequest({ id: requestId, teenId: teen.id, parentId: parent.id as string });
+
+    await this.emailSender.send({
+      to: parent.email as string,
+      subject: `${teen.name} asked to join your family on Teen AI Platform`,
+      text: `Hi ${parent.name},\n\n${teen.name} (${teen.email}) asked to be linked to your account. They can't use the assistant until you approve.\n\nReview the request on your dashboard: ${this.appUrl}/\n\nIf you don't recognize this person, reject the request.`,
+      html: `<p>Hi ${escapeHtml(parent.name as string)},</p><p><strong>${escapeHtml(teen.name)}</strong> (${escapeHtml(teen.email)}) asked to be linked to your account. They can't use the assistant until you approve.</p><p><a href="${this.appUrl}/">Review the request on your dashboard</a></p><p>If you don't recognize this person, reject the request.</p>`
+    });
+
+    return { success: true, requestId };
+  }
+
+  async decideRequest(parentId: string, requestId: string, approve: boolean): Promise<FamilyResult> {
+    const request = await this.db.getPendingLinkRequest(requestId, parentId);
+    if (!request) {
+      return { success: false, error: 'Link request not found', status: 404 };
+    }
+
+    const teen = await this.db.getUserById(request.teen_id as string);
+    if (approve && teen?.parent_id) {
+      await this.db.decideLinkRequest(requestId, parentId, 'rejected');
+      return { success: false, error: 'This teen is already linked to another parent', status: 409 };
+    }
+
+    await this.db.decideLinkRequest(requestId, parentId, approve ? 'approved' : 'rejected');
+    if (approve && teen) {
+      await this.linkTeen(teen.id as string, parentId);
+    }
+
+    return { success: true };
+  }
+
+  async unlinkTeen(parentId: string, teenId: string): Promise<FamilyResult> {
+    const teen = await this.db.getFamilyTeen(parentId, teenId);
+    if (!teen) {
+      return { success: false, error: 'Teen not found or access denied', status: 404 };
+    }
+
+    await this.db.unlinkTeen(teenId, parentId);
+    await this.db.deleteSessionsForUser(teenId);
+    return { success: true };
+  }
+
+  async setTeenActive(parentId: string, teenId: string, isActive: boolean): Promise<FamilyResult> {
+    const teen = await this.db.getFamilyTeen(parentId, teenId);
+    if (!teen) {
+      return { success: false, error: 'Teen not found or access denied', status: 404 };
+    }
+
+    await this.db.setUserActive(teenId, isActive);
+    if (!isActive) {
+      await this.db.deleteSessionsForUser(teenId);
+    }
+    return { success: true };
+  }
+
+  // Parents set birthdates for age-limited GPTs; teens can't change their own
+  async setTeenBirthdate(parentId: string, teenId: string, birthdate: string | null): Promise<FamilyResult> {
+    const teen = await this.db.getFamilyTeen(parentId, teenId);
+    if (!teen) {
+      return { success: false, error: 'Teen not found or access denied', status: 404 };
+    }
+
+    await this.db.setTeenBirthdate(teenId, parentId, birthdate);
+    return { success: true };
+  }
+
+  private async redeem(teen: Record<string, any>, invite: Record<string, any> | null): Promise<FamilyResult<{ parentId: string }>> {
+    if (teen.role !== 'teen') {
+      return { success: false, error: 'Only teen accounts can join a family', status: 403 };
+    }
+
+    if (teen.parent_id) {
+      return { success: false, error: 'Your account is already linked to a parent', status: 409 };
+    }
+
+    if (!invite) {
+      return { success: false, error: 'Invite code is invalid or has expired', status: 404 };
+    }
+
+    if (invite.teen_email && invite.teen_email !== String(teen.email).toLowerCase()) {
+      return { success: false, error: 'This invite was issued for a different email address', status: 403 };
+    }
+
+    if (!(await this.db.redeemFamilyInvite(invite.id, teen.id))) {
+      return { success: false, error: 'Invite code is invalid or has expired', status: 404 };
+    }
+
+    await this.linkTeen(teen.id, invite.parent_id);
+    return { success: true, parentId: invite.parent_id };
+  }
+
+  private async linkTeen(teenId: string, parentId: string) {
+    await this.db.linkTeenToParent(teenId, parentId);
+    await this.db.cancelPendingLinkRequests(teenId);
+    await this.db.ensureParentalControls(generateSecureToken(12), parentId, teenId);
+  }
+}
@@ -0,0 +1,319 @@
+// GPT Service for Teen AI Platform
+// Who can use each custom GPT (teen assignments and age limits), and version history: diffs and rollback
+
+import { DatabaseService } from './databaseService'
+
+const MIN_GPT_AGE = 5;
+const MAX_GPT_AGE = 25;
+
+// Beyond this many line pairs the prompt diff falls back to "everything removed, everything added"
+const MAX_DIFF_CELLS = 250000;
+
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export type FieldDiff =
+  | { field: 'systemPrompt'; changed: boolean; lines: LineChange[] }
+  | {
+      field: 'theologicalValues';
+      changed: boolean;
+      added: Record<string, unknown>;
+      removed: Record<string, unknown>;
+      modified: Record<string, { from: unknown; to: unknown }>;
+    }
+  | { field: 'educationalFocus' | 'personalityTraits'; changed: boolean; added: string[]; removed: string[] };
+
+export interface VersionDiff {
+  gptId: string;
+  from: number;
+  to: number;
+  fields: FieldDiff[];
+}
+
+export type GptChangeResult =
+  | { success: true; gpt: Record<string, any>; versionCreated: boolean }
+  | { success: false; error: string; status: 400 | 404 };
+
+export interface GptAudience {
+  teenIds?: string[] | null; // null: every teen in the family
+  minAge?: number | null;
+  maxAge?: number | null;
+}
+
+export type GptAccess = { allowed: true } | { allowed: false; reason: string };
+
+// Validates teenIds, minAge and maxAge from a /api/custom-gpts request; missing fields are left unchanged.
+// current holds the GPT's saved limits, so a partial update can't leave minAge above maxAge.
+export function validateGptAudience(
+  input: any,
+  current: { min_age?: unknown; max_age?: unknown } = {}
+): { audience: GptAudience } | { error: string } {
+  const audience: GptAudience = {};
+
+  if (input.teenIds !== undefined) {
+    if (input.teenIds !== null &&
+        (!Array.isArray(input.teenIds) || !input.teenIds.length || !input.teenIds.every((id: unknown) => typeof id === 'string'))) {
+      return { error: 'teenIds must be a non-empty list of teen IDs, or null for every teen' };
+    }
+    audience.teenIds = input.teenIds === null ? null : [...new Set<string>(input.teenIds)];
+  }
+
+  for (const key of ['minAge', 'maxAge'] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (value !== null && (!Number.isInteger(value) || value < MIN_GPT_AGE || value > MAX_GPT_AGE)) {
+      return { error: `${key} must be a whole number between ${MIN_GPT_AGE} and ${MAX_GPT_AGE}, or null for no limit` };
+    }
+    audience[key] = value;
+  }
+
+  const minAge = audience.minAge !== undefined ? audience.minAge : current.min_age as number | null;
+  const maxAge = audience.maxAge !== undefined ? audience.maxAge : current.max_age as number | null;
+  if (minAge != null && maxAge != null && minAge > maxAge) {
+    return { error: 'minAge cannot be greater than maxAge' };
+  }
+
+  return { audience };
+}
+
+// Whole years between a YYYY-MM-DD birthdate and today's date
+export function ageOn(birthdate: string, today: string): number {
+  const years = Number(today.substring(0, 4)) - Number(birthdate.substring(0, 4));
+  return today.substring(5) < birthdate.substring(5) ? years - 1 : years;
+}
+
+// Assignment and age limits for one teen. Age-limited GPTs stay closed until the teen has a birthdate.
+export function checkGptAccess(
+  gpt: Record<string, any>, // A custom_gpts row with an assigned column
+  birthdate: string | null,
+  today: string
+): GptAccess {
+  if (!gpt.assigned) {
+    return { allowed: false, reason: "This AI assistant hasn't been set up for you" };
+  }
+  if (gpt.min_age == null && gpt.max_age == null) {
+    return { allowed: true };
+  }
+  if (!birthdate) {
+    return { allowed: false, reason: 'Ask a parent to add your birthdate to use this AI assistant' };
+  }
+
+  const age = ageOn(birthdate, today);
+  if ((gpt.min_age != null && age < (gpt.min_age as number)) || (gpt.max_age != null && age > (gpt.max_age as number))) {
+    return { allowed: false, reason: "This AI assistant isn't available for your age" };
+  }
+  return { allowed: true };
+}
+
+// Version numbers from the URL or request body; null unless a positive whole number
+export function parseVersion(value: unknown): number | null {
+  const version = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+  return Number.isInteger(version) && (version as number) > 0 ? version as number : null;
+}
+
+// Line diff from the longest common subsequence of the two prompts
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // common[i][j] is the LCS length of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  lines.push(...a.slice(i).map(text => ({ type: 'removed' as const, text })));
+  lines.push(...b.slice(j).map(text => ({ type: 'added' as const, text })));
+  return lines;
+}
+
+function parseJson(value: unknown): unknown {
+  try {
+    return typeof value === 'string' ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return value === null || value === undefined ? {} : { value };
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function diffObjects(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const added: Record<string, unknown> = {};
+  const removed: Record<string, unknown> = {};
+  const modified: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) {
+      removed[key] = before[key];
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      modified[key] = { from: before[key], to: after[key] };
+    }
+  }
+  for (const key of Object.keys(after)) {
+    if (!(key in before)) {
+      added[key] = after[key];
+    }
+  }
+  return { added, removed, modified };
+}
+
+function diffLists(before: string[], after: string[]) {
+  return {
+    added: after.filter(item => !before.includes(item)),
+    removed: before.filter(item => !after.includes(item))
+  };
+}
+
+// Personality traits are stored as a comma-separated list
+function traitList(value: unknown): string[] {
+  return typeof value === 'string' ? value.split(',').map(trait => trait.trim()).filter(Boolean) : [];
+}
+
+export function diffVersions(before: Record<string, any>, after: Record<string, any>): FieldDiff[] {
+  return [
+    {
+      field: 'systemPrompt',
+      changed: before.system_prompt !== after.system_prompt,
+      lines: diffLines(before.system_prompt || '', after.system_prompt || '')
+    },
+    {
+      field: 'theologicalValues',
+      changed: before.theological_values !== after.theological_values,
+      ...diffObjects(asObject(parseJson(before.theological_values)), asObject(parseJson(after.theological_values)))
+    },
+    {
+      field: 'educationalFocus',
+      changed: before.educational_focus !== after.educational_focus,
+      ...diffLists(asList(parseJson(before.educational_focus)), asList(parseJson(after.educational_focus)))
+    },
+    {
+      field: 'personalityTraits',
+      changed: before.personality_traits !== after.personality_traits,
+      ...diffLists(traitList(before.personality_traits), traitList(after.personality_traits))
+    }
+  ];
+}
+
+export class GptService {
+  constructor(private db: DatabaseService) {}
+
+  // The family's GPTs this teen may use today
+  async availableTo(teen: Record<string, any>, today: string) {
+    const gpts = (await this.db.getCustomGPTsForTeen(teen.parent_id, teen.id)).results || [];
+    return gpts.filter(gpt => checkGptAccess({ ...gpt, assigned: true }, teen.birthdate, today).allowed);
+  }
+
+  // Every teen must belong to the parent's family
+  async assign(
+    gptId: string,
+    parentId: string,
+    teenIds: string[] | null
+  ): Promise<{ success: true } | { success: false; error: string; status: 400 | 404 }> {
+    const gpt = await this.db.getParentCustomGPT(gptId, parentId);
+    if (!gpt) {
+      return { success: false, error: 'Custom GPT not found', status: 404 };
+    }
+
+    const unknown = await this.unknownTeens(parentId, teenIds);
+    if (unknown) {
+      return { success: false, error: unknown, status: 400 };
+    }
+
+    await this.db.setGPTAssignments(gptId, parentId, teenIds);
+    return { success: true };
+  }
+
+  // An error message if any of the teens isn't in the parent's family
+  async unknownTeens(parentId: string, teenIds: string[] | null | undefined): Promise<string | null> {
+    if (!teenIds) {
+      return null;
+    }
+    const family = new Set(((await this.db.getFamilyTeens(parentId)).results || []).map(teen => teen.id));
+    const missing = teenIds.filter(id => !family.has(id));
+    return missing.length ? `Not teens in your family: ${missing.join(', ')}` : null;
+  }
+
+  async diff(
+    gptId: string,
+    parentId: string,
+    from: number,
+    to: number | null
+  ): Promise<{ diff: VersionDiff } | { error: string; status: 404 }> {
+    const gpt = await this.db.getParentCustomGPT(gptId, parentId);
+    if (!gpt) {
+      return { error: 'Custom GPT not found', status: 404 };
+    }
+
+    const target = to ?? (gpt.version as number);
+    const [before, after] = await Promise.all([
+      this.db.getGPTVersion(gptId, from),
+      this.db.getGPTVersion(gptId, target)
+    ]);
+    if (!before || !after) {
+      return { error: `Version ${!before ? from : target} not found`, status: 404 };
+    }
+
+    return { diff: { gptId, from, to: target, fields: diffVersions(before, after) } };
+  }
+
+  // Restores an earlier version's instructions as a new version, so the history only ever grows.
+  // Model settings, name and description are left as they are.
+  async rollback(gptId: string, parentId: string, version: number): Promise<GptChangeResult> {
+    const gpt = await this.db.getParentCustomGPT(gptId, parentId);
+    if (!gpt) {
+      return { success: false, error: 'Custom GPT not found', status: 404 };
+    }
+    if (!gpt.is_active) {
+      return { success: false, error: 'Restore the GPT before rolling it back', status: 400 };
+    }
+
+    const target = await this.db.getGPTVersion(gptId, version);
+    if (!target) {
+      return { success: false, error: `Version ${version} not found`, status: 404 };
+    }
+
+    await this.db.updateCustomGPT(gptId, parentId, {
+      systemPrompt: target.system_prompt as string,
+      theologicalValues: target.theological_values as string,
+      educationalFocus: target.educational_focus as string,
+      personalityTraits: target.personality_traits as string
+    }, version);
+
+    const updated = (await this.db.getParentCustomGPT(gptId, parentId))!;
+    return { success: true, gpt: updated, versionCreated: updated.version !== gpt.version };
+  }
+}
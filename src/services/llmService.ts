@@ -0,0 +1,355 @@
+// LLM Service for Teen AI Platform
+// Provider adapters behind one interface: OpenAI-compatible endpoints (OpenAI, Ollama, ...), Anthropic and an offline mock
+
+export const PROVIDER_NAMES = ['openai', 'anthropic', 'mock'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+const MAX_TOKENS_LIMIT = 4000;
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerationSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+// Tokens billed for one request, as reported by the provider
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costMicros?: number; // Millionths of a dollar; filled in by MeteringService
+}
+
+// Called once per request, after the reply (or the end of the stream), when the provider reports usage
+export type UsageListener = (usage: TokenUsage) => void | Promise<void>;
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly defaultModel: string; // Used when a GPT doesn't pick a model
+  complete(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): Promise<string>;
+  // Yields text deltas as the model writes them
+  stream(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): AsyncGenerator<string>;
+}
+
+export const DEFAULT_SETTINGS: Record<ProviderName, GenerationSettings> = {
+  openai: { model: 'gpt-4', maxTokens: 500, temperature: 0.7 },
+  anthropic: { model: 'claude-3-5-haiku-latest', maxTokens: 500, temperature: 0.7 },
+  mock: { model: 'mock-1', maxTokens: 500, temperature: 0 }
+};
+
+// Per-GPT overrides as stored on custom_gpts; null columns fall back to the provider defaults
+export interface ModelSettings {
+  modelProvider: ProviderName | null;
+  modelName: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+}
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return PROVIDER_NAMES.includes(value as ProviderName);
+}
+
+export function resolveGenerationSettings(
+  provider: LLMProvider,
+  gpt: { model_name?: string | null; temperature?: number | null; max_tokens?: number | null }
+): GenerationSettings {
+  const defaults = DEFAULT_SETTINGS[provider.name];
+  return {
+    model: gpt.model_name || provider.defaultModel,
+    maxTokens: gpt.max_tokens ?? defaults.maxTokens,
+    temperature: gpt.temperature ?? defaults.temperature
+  };
+}
+
+// Validates the model fields of a /api/custom-gpts request; missing fields are left unchanged
+export function validateModelSettings(input: any): { settings: Partial<ModelSettings> } | { error: string } {
+  const settings: Partial<ModelSettings> = {};
+
+  if (input.modelProvider !== undefined) {
+    if (input.modelProvider !== null && !isProviderName(input.modelProvider)) {
+      return { error: `modelProvider must be one of ${PROVIDER_NAMES.join(', ')}` };
+    }
+    settings.modelProvider = input.modelProvider;
+  }
+
+  if (input.model !== undefined) {
+    if (input.model !== null && (typeof input.model !== 'string' || !input.model.trim() || input.model.length > 100)) {
+      return { error: 'model must be a model name of at most 100 characters' };
+    }
+    settings.modelName = input.model ? input.model.trim() : null;
+  }
+
+  if (input.temperature !== undefined) {
+    if (input.temperature !== null &&
+        (typeof input.temperature !== 'number' || input.temperature < 0 || input.temperature > 2)) {
+      return { error: 'temperature must be a number between 0 and 2' };
+    }
+    settings.temperature = input.temperature;
+  }
+
+  if (input.maxTokens !== undefined) {
+    if (input.maxTokens !== null &&
+        (!Number.isInteger(input.maxTokens) || input.maxTokens < 1 || input.maxTokens > MAX_TOKENS_LIMIT)) {
+      return { error: `maxTokens must be a whole number between 1 and ${MAX_TOKENS_LIMIT}` };
+    }
+    settings.maxTokens = input.maxTokens;
+  }
+
+  return { settings };
+}
+
+// Yields the data payload of each Server-Sent Event in a streaming HTTP response
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+function parseJson(payload: string): any {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return null; // Keep-alive or malformed line
+  }
+}
+
+// Any endpoint speaking the OpenAI chat completions API, including self-hosted
+// servers such as Ollama (http://localhost:11434/v1), which need no API key
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private apiKey?: string,
+    private baseUrl: string = 'https://api.openai.com/v1',
+    readonly defaultModel: string = DEFAULT_SETTINGS.openai.model
+  ) {}
+
+  async complete(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): Promise<string> {
+    const data: any = await (await this.request(messages, settings, false)).json();
+    await this.reportUsage(data, settings, onUsage);
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *stream(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): AsyncGenerator<string> {
+    const response = await this.request(messages, settings, true);
+
+    for await (const payload of readEventData(response)) {
+      if (payload === '[DONE]') {
+        return;
+      }
+      const chunk = parseJson(payload);
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+      // Sent in a final chunk with no choices (stream_options.include_usage)
+      await this.reportUsage(chunk, settings, onUsage);
+    }
+  }
+
+  // Servers that don't report usage (some self-hosted ones) aren't metered
+  private async reportUsage(data: any, settings: GenerationSettings, onUsage?: UsageListener) {
+    if (onUsage && data?.usage) {
+      await onUsage({
+        model: data.model || settings.model,
+        promptTokens: data.usage.prompt_tokens || 0,
+        completionTokens: data.usage.completion_tokens || 0
+      });
+    }
+  }
+
+  private async request(messages: LLMMessage[], settings: GenerationSettings, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        presence_penalty: 0.1,
+        frequency_penalty: 0.1,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    return response;
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = 'https://api.anthropic.com/v1',
+    readonly defaultModel: string = DEFAULT_SETTINGS.anthropic.model
+  ) {}
+
+  async complete(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): Promise<string> {
+    const data: any = await (await this.request(messages, settings, false)).json();
+    if (onUsage && data.usage) {
+      await onUsage({
+        model: data.model || settings.model,
+        promptTokens: data.usage.input_tokens || 0,
+        completionTokens: data.usage.output_tokens || 0
+      });
+    }
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+
+  async *stream(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): AsyncGenerator<string> {
+    const response = await this.request(messages, settings, true);
+    // Input tokens arrive in message_start, the output count in message_delta
+    const usage: TokenUsage = { model: settings.model, promptTokens: 0, completionTokens: 0 };
+
+    for await (const payload of readEventData(response)) {
+      const event = parseJson(payload);
+      if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      } else if (event?.type === 'message_start') {
+        usage.model = event.message?.model || usage.model;
+        usage.promptTokens = event.message?.usage?.input_tokens || 0;
+      } else if (event?.type === 'message_delta') {
+        usage.completionTokens = event.usage?.output_tokens || usage.completionTokens;
+      } else if (event?.type === 'message_stop') {
+        await onUsage?.(usage);
+        return;
+      } else if (event?.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || 'stream failed'}`);
+      }
+    }
+  }
+
+  private async request(messages: LLMMessage[], settings: GenerationSettings, stream: boolean): Promise<Response> {
+    // Anthropic takes the system prompt separately from the conversation
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        system,
+        messages: messages.filter(m => m.role !== 'system'),
+        max_tokens: settings.maxTokens,
+        temperature: Math.min(settings.temperature, 1), // Anthropic accepts 0-1
+        stream
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status}`);
+    }
+
+    return response;
+  }
+}
+
+// Deterministic replies for offline development and tests: the same
+// conversation always produces the same text, with no network access
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = DEFAULT_SETTINGS.mock.model;
+
+  async complete(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): Promise<string> {
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+    const topic = lastUserMessage.trim().split(/\s+/).slice(0, 8).join(' ');
+    const turn = messages.filter(m => m.role === 'user').length;
+
+    const text = `[${settings.model}] Thanks for your message about "${topic}". ` +
+      `This is a mock reply (turn ${turn}), so no real AI was used. ` +
+      `Set LLM_PROVIDER to openai or anthropic to get real answers.`;
+
+    // Rough counts (about four characters per token) so metering can be tried offline
+    await onUsage?.({
+      model: settings.model,
+      promptTokens: Math.ceil(messages.reduce((total, m) => total + m.content.length, 0) / 4),
+      completionTokens: Math.ceil(text.length / 4)
+    });
+    return text;
+  }
+
+  async *stream(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): AsyncGenerator<string> {
+    const text = await this.complete(messages, settings, onUsage);
+    for (const word of text.match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  }
+}
+
+// Picks the provider for a GPT: its own choice, else LLM_PROVIDER, else whichever
+// key is configured. Returns null when that provider isn't configured, in which
+// case callers use the built-in fallback responses.
+export function createLLMProvider(
+  env: {
+    LLM_PROVIDER?: string;
+    OPENAI_API_KEY?: string;
+    OPENAI_BASE_URL?: string;
+    OPENAI_MODEL?: string;
+    ANTHROPIC_API_KEY?: string;
+    ANTHROPIC_BASE_URL?: string;
+  },
+  providerName?: string | null
+): LLMProvider | null {
+  const name = providerName || env.LLM_PROVIDER ||
+    (env.OPENAI_API_KEY || env.OPENAI_BASE_URL ? 'openai' : env.ANTHROPIC_API_KEY ? 'anthropic' : null);
+
+  switch (name) {
+    case 'openai':
+      return env.OPENAI_API_KEY || env.OPENAI_BASE_URL
+        ? new OpenAICompatibleProvider(env.OPENAI_API_KEY, env.OPENAI_BASE_URL || undefined, env.OPENAI_MODEL || undefined)
+        : null;
+    case 'anthropic':
+      return env.ANTHROPIC_API_KEY ? new AnthropicProvider(env.ANTHROPIC_API_KEY, env.ANTHROPIC_BASE_URL || undefined) : null;
+    case 'mock':
+      return new MockProvider();
+    default:
+      return null;
+  }
+}
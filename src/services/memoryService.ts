@@ -0,0 +1,210 @@
+// Memory Service for Teen AI Platform
+// Long-term context for the AI: a rolling summary of each conversation's older messages, and durable
+// facts about the teen ("studying Algebra II"), fitted into the system prompt within a token budget
+
+import { DatabaseService } from './databaseService'
+import { generateSecureToken } from './authService'
+import { LLMProvider } from './llmService'
+
+// The newest messages are never summarized. Older ones go to the AI word for word until
+// they are folded into the summary, which happens once this many have built up.
+export const RECENT_MESSAGES = 10;
+const SUMMARY_BATCH = 10;
+
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_FACT_LENGTH = 200;
+export const MAX_FACTS = 30;
+
+// Prompt space for memory, estimated at about four characters per token
+const MEMORY_TOKEN_BUDGET = 500;
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Prompt space for the messages the summary doesn't cover yet
+const HISTORY_TOKEN_BUDGET = 6000;
+
+// The newest messages that fit the budget, oldest first
+export function fitHistory<T extends { content: string }>(messages: T[], budget: number = HISTORY_TOKEN_BUDGET): T[] {
+  let remaining = budget;
+  let start = messages.length;
+  while (start > 0 && estimateTokens(String(messages[start - 1].content)) <= remaining) {
+    remaining -= estimateTokens(String(messages[start - 1].content));
+    start--;
+  }
+  return messages.slice(start);
+}
+
+export function validateFact(input: unknown): { fact: string } | { error: string } {
+  const fact = typeof input === 'string' ? input.trim() : '';
+  if (!fact || fact.length > MAX_FACT_LENGTH) {
+    return { error: `fact must be between 1 and ${MAX_FACT_LENGTH} characters` };
+  }
+  return { fact };
+}
+
+export function validateSummary(input: unknown): { summary: string } | { error: string } {
+  const summary = typeof input === 'string' ? input.trim() : '';
+  if (!summary || summary.length > MAX_SUMMARY_LENGTH) {
+    return { error: `summary must be between 1 and ${MAX_SUMMARY_LENGTH} characters; clear it with DELETE instead` };
+  }
+  return { summary };
+}
+
+// Cut at a word boundary to fit the character limit
+function truncate(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, Math.max(0, limit - 1));
+  return cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length) + '…';
+}
+
+// Facts come first (they matter beyond this conversation), then as much of the summary as still fits
+export function memoryPrompt(facts: string[], summary: string | null, budget: number = MEMORY_TOKEN_BUDGET): string | null {
+  const sections: string[] = [];
+  let remaining = budget;
+
+  const factLines: string[] = [];
+  for (const fact of facts) {
+    const line = `- ${fact}`;
+    if (estimateTokens(line) > remaining) break;
+    factLines.push(line);
+    remaining -= estimateTokens(line);
+  }
+  if (factLines.length) {
+    sections.push(`WHAT YOU KNOW ABOUT THIS TEEN:\n${factLines.join('\n')}`);
+  }
+
+  if (summary && remaining > 20) {
+    sections.push(`EARLIER IN THIS CONVERSATION:\n${truncate(summary, remaining * CHARS_PER_TOKEN)}`);
+  }
+
+  return sections.length ? sections.join('\n\n') : null;
+}
+
+// Without an AI provider: the summary so far plus the gist of each new question from the teen
+export function fallbackSummary(previous: string | null, messages: Record<string, any>[]): string {
+  const questions = messages
+    .filter(message => message.role === 'user')
+    .map(message => truncate(String(message.content).split(/(?<=[.!?])\s/)[0], 100));
+  const added = questions.length ? `The teen asked: ${questions.join(' / ')}` : '';
+  const summary = [previous, added].filter(Boolean).join('\n');
+
+  // Keep the most recent part when it grows too long
+  return summary.length > MAX_SUMMARY_LENGTH ? '…' + summary.slice(summary.length - MAX_SUMMARY_LENGTH + 1) : summary;
+}
+
+// The model's reply: the updated summary, then one "FACT:" line per durable fact
+export function parseSummaryReply(reply: string): { summary: string; facts: string[] } {
+  const facts: string[] = [];
+  const summaryLines: string[] = [];
+  for (const line of reply.split('\n')) {
+    const fact = line.match(/^\s*FACT:\s*(.+)$/i);
+    if (fact) {
+      facts.push(fact[1].trim());
+    } else {
+      summaryLines.push(line);
+    }
+  }
+  return {
+    summary: truncate(summaryLines.join('\n').replace(/^\s*SUMMARY:\s*/i, '').trim(), MAX_SUMMARY_LENGTH),
+    facts: facts.filter(fact => 'fact' in validateFact(fact))
+  };
+}
+
+export class MemoryService {
+  // `background` lets request handlers summarize after responding (executionCtx.waitUntil)
+  constructor(
+    private db: DatabaseService,
+    private provider: LLMProvider | null,
+    private background?: (work: Promise<unknown>) => void
+  ) {}
+
+  // Memory for the system prompt, or null when there's nothing to add
+  async promptFor(conversation: Record<string, any>, parentalControls: Record<string, any>): Promise<string | null> {
+    const facts = parentalControls.memory_enabled
+      ? ((await this.db.getTeenMemories(conversation.teen_id)).results || []).map(row => row.fact as string)
+      : [];
+    return memoryPrompt(facts, conversation.summary ?? null);
+  }
+
+  // Call after a turn is saved
+  async turnSaved(conversation: Record<string, any>, parentalControls: Record<string, any>) {
+    const work = this.summarize(conversation.id, conversation.teen_id, Boolean(parentalControls.memory_enabled))
+      .catch(error => console.error('Conversation summary failed:', error));
+    if (this.background) {
+      this.background(work);
+    } else {
+      await work;
+    }
+  }
+
+  // Folds messages older than the recent window into the summary. Held replies the teen hasn't seen are left out.
+  private async summarize(conversationId: string, teenId: string, memoryEnabled: boolean) {
+    const state = await this.db.getConversationMemoryState(conversationId);
+    if (!state) return;
+
+    const summarized = state.summarized_messages as number;
+    const pending = (state.message_count as number) - summarized - RECENT_MESSAGES;
+    if (pending < SUMMARY_BATCH) return;
+
+    const messages = ((await this.db.getMessagesPage(conversationId, summarized, pending)).results || [])
+      .filter(message => !message.held || message.released_at);
+    const previous = (state.summary as string | null) ?? null;
+    const { summary, facts } = await this.summarizeMessages(previous, messages, memoryEnabled);
+
+    // Another request may have summarized the same messages in the meantime
+    const saved = await this.db.saveConversationSummary(conversationId, summary || null, summarized + pending, summarized);
+    if (saved && memoryEnabled && facts.length) {
+      await this.remember(teenId, conversationId, facts);
+    }
+  }
+
+  private async summarizeMessages(previous: string | null, messages: Record<string, any>[], memoryEnabled: boolean) {
+    if (!this.provider) {
+      return { summary: fallbackSummary(previous, messages), facts: [] };
+    }
+
+    const transcript = messages.map(message => `${message.role === 'user' ? 'Teen' : 'Tutor'}: ${message.content}`).join('\n');
+    const instructions = [
+      'You keep a running summary of a conversation between a teenager and their Christian AI tutor, so the tutor can remember it later.',
+      'Update the summary with the new messages. Keep it under 150 words and focus on what the teen is working on, what was explained, their progress and any open questions.',
+      memoryEnabled
+        ? 'After the summary, add one line starting with "FACT:" for each lasting fact the teen shared about themselves that would help in future conversations, such as "Studying Algebra II" or "Preparing for confirmation". Leave out anything sensitive, such as health, addresses or contact details.'
+        : 'Reply with the summary only.'
+    ].join(' ');
+
+    try {
+      const reply = await this.provider.complete(
+        [
+          { role: 'system', content: instructions },
+          { role: 'user', content: `Summary so far:\n${previous || '(none)'}\n\nNew messages:\n${transcript}` }
+        ],
+        { model: this.provider.defaultModel, maxTokens: 400, temperature: 0.2 }
+      );
+      const parsed = parseSummaryReply(reply);
+      if (parsed.summary) {
+        return parsed;
+      }
+    } catch (error) {
+      console.error('Summarizing with the AI failed:', error);
+    }
+    return { summary: fallbackSummary(previous, messages), facts: [] };
+  }
+
+  // New facts only (ignoring case), up to MAX_FACTS per teen
+  private async remember(teenId: string, conversationId: string, facts: string[]) {
+    const existing = ((await this.db.getTeenMemories(teenId)).results || []).map(row => String(row.fact).toLowerCase());
+    const known = new Set(existing);
+    let room = MAX_FACTS - existing.length;
+
+    for (const fact of facts) {
+      if (room <= 0) break;
+      if (known.has(fact.toLowerCase())) continue;
+      known.add(fact.toLowerCase());
+      await this.db.addTeenMemory(generateSecureToken(12), teenId, fact, 'conversation', conversationId);
+      room--;
+    }
+  }
+}
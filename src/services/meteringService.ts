@@ -0,0 +1,400 @@
+// Metering Service for Teen AI Platform
+// Records the tokens and cost of every AI request per family, teen and GPT, and enforces monthly
+// spending caps: a warning email part-way, then the built-in fallback responses once the cap is reached
+
+import { DatabaseService } from './databaseService'
+import { generateSecureToken } from './authService'
+import { EmailSender, createEmailSender } from './emailService'
+import { GenerationSettings, LLMMessage, LLMProvider, TokenUsage, UsageListener } from './llmService'
+import { SpeechUsage, SpeechUsageListener } from './voiceService'
+import { estimateTokens } from './memoryService'
+
+// US dollars per million tokens, which is also millionths of a dollar (micros) per token
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Matched by the longest prefix of the model name, so dated versions ("gpt-4o-2024-08-06") are covered.
+// Models not listed here or in MODEL_PRICES (such as a self-hosted Ollama model) cost nothing.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+  'claude-3-7-sonnet': { prompt: 3, completion: 15 },
+  'claude-sonnet-4': { prompt: 3, completion: 15 },
+  'claude-3-opus': { prompt: 15, completion: 75 },
+  'claude-opus-4': { prompt: 15, completion: 75 },
+  'mock': { prompt: 0, completion: 0 }
+};
+
+// Speech is billed by the minute of audio transcribed or the million characters spoken, in US dollars
+export interface SpeechPrice {
+  perMinute?: number;
+  perMillionChars?: number;
+}
+
+export const SPEECH_PRICES: Record<string, SpeechPrice> = {
+  'whisper-1': { perMinute: 0.006 },
+  'tts-1-hd': { perMillionChars: 30 },
+  'tts-1': { perMillionChars: 15 },
+  'mock': {}
+};
+
+export const DEFAULT_WARN_PERCENT = 80;
+const MAX_MONTHLY_LIMIT_USD = 10000;
+const MICROS_PER_DOLLAR = 1_000_000;
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface FamilyBudget {
+  month: string; // YYYY-MM (UTC)
+  limitMicros: number | null; // The lower of the parent's cap and FAMILY_MONTHLY_BUDGET_USD; null for no cap
+  parentLimitMicros: number | null;
+  warnPercent: number;
+  spentMicros: number;
+  status: BudgetStatus;
+}
+
+// Who a metered request is billed to
+export interface UsageAccount {
+  parentId: string;
+  teenId: string;
+  customGptId: string;
+  conversationId: string;
+}
+
+export function usageMonth(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+export function isUsageMonth(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+export function toDollars(micros: number): number {
+  return Math.round(micros) / MICROS_PER_DOLLAR;
+}
+
+function isPrice(value: any): value is ModelPrice {
+  return value && typeof value === 'object' &&
+    typeof value.prompt === 'number' && value.prompt >= 0 &&
+    typeof value.completion === 'number' && value.completion >= 0;
+}
+
+// MODEL_PRICES: JSON of model-name prefix -> { prompt, completion } in dollars per million tokens,
+// added to (or replacing) the built-in prices
+export function parseModelPrices(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) {
+    return MODEL_PRICES;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const prices = { ...MODEL_PRICES };
+    for (const [model, price] of Object.entries(parsed && typeof parsed === 'object' ? parsed : {})) {
+      if (isPrice(price)) {
+        prices[model] = { prompt: price.prompt, completion: price.completion };
+      } else {
+        console.warn(`Ignoring price for ${model}: prompt and completion must be dollars per million tokens`);
+      }
+    }
+    return prices;
+  } catch {
+    console.warn('MODEL_PRICES is not valid JSON');
+    return MODEL_PRICES;
+  }
+}
+
+// FAMILY_MONTHLY_BUDGET_USD: a cap on every family, whatever the parent sets
+export function parsePlatformLimit(raw: string | undefined): number | null {
+  if (!raw) {
+    return null;
+  }
+  const dollars = Number(raw);
+  if (!Number.isFinite(dollars) || dollars < 0) {
+    console.warn('FAMILY_MONTHLY_BUDGET_USD must be a number of dollars');
+    return null;
+  }
+  return Math.round(dollars * MICROS_PER_DOLLAR);
+}
+
+function longestPrefix(model: string, prefixes: string[]): string | undefined {
+  return prefixes
+    .filter(prefix => model.toLowerCase().startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+export function priceFor(model: string, prices: Record<string, ModelPrice> = MODEL_PRICES): ModelPrice {
+  const match = longestPrefix(model, Object.keys(prices));
+  return match ? prices[match] : { prompt: 0, completion: 0 };
+}
+
+export function costMicros(usage: TokenUsage, prices: Record<string, ModelPrice> = MODEL_PRICES): number {
+  const price = priceFor(usage.model, prices);
+  return Math.ceil(usage.promptTokens * price.prompt + usage.completionTokens * price.completion);
+}
+
+export function speechCostMicros(usage: SpeechUsage, prices: Record<string, SpeechPrice> = SPEECH_PRICES): number {
+  const match = longestPrefix(usage.model, Object.keys(prices));
+  const price = match ? prices[match] : {};
+  return Math.ceil(
+    (usage.seconds || 0) / 60 * (price.perMinute || 0) * MICROS_PER_DOLLAR +
+    (usage.characters || 0) * (price.perMillionChars || 0)
+  );
+}
+
+export function budgetStatus(spentMicros: number, limitMicros: number | null, warnPercent: number): BudgetStatus {
+  if (limitMicros === null) {
+    return 'ok';
+  }
+  if (spentMicros >= limitMicros) {
+    return 'exceeded';
+  }
+  return spentMicros >= limitMicros * warnPercent / 100 ? 'warning' : 'ok';
+}
+
+// Validates PUT /api/usage/budget: { monthlyLimitUsd: number | null, warnPercent? }
+export function validateBudget(input: any): { monthlyLimitMicros: number | null; warnPercent: number } | { error: string } {
+  const limit = input?.monthlyLimitUsd;
+  if (limit === undefined || (limit !== null && (typeof limit !== 'number' || limit < 0 || limit > MAX_MONTHLY_LIMIT_USD))) {
+    return { error: `monthlyLimitUsd must be a number of dollars from 0 to ${MAX_MONTHLY_LIMIT_USD}, or null for no cap` };
+  }
+
+  const warnPercent = input.warnPercent ?? DEFAULT_WARN_PERCENT;
+  if (!Number.isInteger(warnPercent) || warnPercent < 1 || warnPercent > 100) {
+    return { error: 'warnPercent must be a whole number from 1 to 100' };
+  }
+
+  return { monthlyLimitMicros: limit === null ? null : Math.round(limit * MICROS_PER_DOLLAR), warnPercent };
+}
+
+// Sums as stored by getTokenUsageReport, in dollars
+function usageTotals(row: Record<string, any> | null) {
+  return {
+    requests: (row?.requests as number) || 0,
+    promptTokens: (row?.prompt_tokens as number) || 0,
+    completionTokens: (row?.completion_tokens as number) || 0,
+    costUsd: toDollars((row?.cost_micros as number) || 0)
+  };
+}
+
+export function budgetJson(budget: FamilyBudget) {
+  return {
+    month: budget.month,
+    limitUsd: budget.limitMicros === null ? null : toDollars(budget.limitMicros),
+    parentLimitUsd: budget.parentLimitMicros === null ? null : toDollars(budget.parentLimitMicros),
+    warnPercent: budget.warnPercent,
+    spentUsd: toDollars(budget.spentMicros),
+    status: budget.status
+  };
+}
+
+// Passes every request through to the provider and records its usage against the account.
+// Callers' own listeners receive the usage with costMicros filled in.
+class MeteredProvider implements LLMProvider {
+  constructor(
+    private provider: LLMProvider,
+    private record: (usage: TokenUsage) => Promise<TokenUsage>
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get defaultModel() {
+    return this.provider.defaultModel;
+  }
+
+  complete(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): Promise<string> {
+    return this.provider.complete(messages, settings, this.listener(onUsage));
+  }
+
+  // A stream the caller stops early, such as a reply cut off by the output safety check, never reaches
+  // the provider's usage report, so the text generated so far is estimated instead
+  async *stream(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): AsyncGenerator<string> {
+    const listener = this.listener(onUsage);
+    let reported = false;
+    let generated = '';
+
+    try {
+      const deltas = this.provider.stream(messages, settings, usage => {
+        reported = true;
+        return listener(usage);
+      });
+      for await (const delta of deltas) {
+        generated += delta;
+        yield delta;
+      }
+    } finally {
+      if (!reported && generated) {
+        await listener({
+          model: settings.model,
+          promptTokens: messages.reduce((total, message) => total + estimateTokens(message.content), 0),
+          completionTokens: estimateTokens(generated)
+        });
+      }
+    }
+  }
+
+  private listener(onUsage?: UsageListener): UsageListener {
+    return async (usage) => {
+      const recorded = await this.record(usage);
+      await onUsage?.(recorded);
+    };
+  }
+}
+
+export class MeteringService {
+  constructor(
+    private db: DatabaseService,
+    private email: EmailSender | null = null,
+    private prices: Record<string, ModelPrice> = MODEL_PRICES,
+    private platformLimitMicros: number | null = null
+  ) {}
+
+  // The provider to use for the account's requests: metered, or null once the family's cap is
+  // reached so callers drop to the built-in fallback responses
+  async providerFor(provider: LLMProvider | null, account: UsageAccount): Promise<LLMProvider | null> {
+    if (!provider) {
+      return null;
+    }
+
+    const budget = await this.checkBudget(account.parentId);
+    if (budget.status === 'exceeded') {
+      return null;
+    }
+    return new MeteredProvider(provider, usage => this.record(account, usage));
+  }
+
+  // Records transcription and speech against the account, or null once the family's cap is reached
+  async speechListenerFor(account: UsageAccount): Promise<SpeechUsageListener | null> {
+    const budget = await this.checkBudget(account.parentId);
+    if (budget.status === 'exceeded') {
+      return null;
+    }
+    return async (usage) => {
+      await this.record(account, { model: usage.model, promptTokens: 0, completionTokens: 0 }, speechCostMicros(usage));
+    };
+  }
+
+  async getBudget(parentId: string, now: Date = new Date()): Promise<FamilyBudget> {
+    const month = usageMonth(now);
+    const settings = await this.db.getFamilyBudget(parentId);
+    const parentLimit = (settings?.monthly_limit_micros as number | null | undefined) ?? null;
+    const limits = [parentLimit, this.platformLimitMicros].filter((limit): limit is number => limit !== null);
+    const limitMicros = limits.length ? Math.min(...limits) : null;
+    const warnPercent = (settings?.warn_percent as number | undefined) ?? DEFAULT_WARN_PERCENT;
+    const spentMicros = await this.db.getFamilySpendMicros(parentId, month);
+
+    return {
+      month,
+      limitMicros,
+      parentLimitMicros: parentLimit,
+      warnPercent,
+      spentMicros,
+      status: budgetStatus(spentMicros, limitMicros, warnPercent)
+    };
+  }
+
+  async saveBudget(parentId: string, monthlyLimitMicros: number | null, warnPercent: number): Promise<FamilyBudget> {
+    await this.db.saveFamilyBudget(parentId, monthlyLimitMicros, warnPercent);
+    return this.getBudget(parentId);
+  }
+
+  // The budget, emailing the parent the first time each month it reaches the warning level or the cap
+  async checkBudget(parentId: string, now: Date = new Date()): Promise<FamilyBudget> {
+    const budget = await this.getBudget(parentId, now);
+    if (budget.status !== 'ok' && this.email) {
+      const notice = budget.status === 'exceeded' ? 'cutoff' : 'warning';
+      try {
+        if (await this.db.claimBudgetNotice(parentId, notice, budget.month)) {
+          await this.sendNotice(parentId, notice, budget);
+        }
+      } catch (error) {
+        console.error('Budget notice failed:', error);
+      }
+    }
+    return budget;
+  }
+
+  async report(parentId: string, month: string = usageMonth()) {
+    const usage = await this.db.getTokenUsageReport(parentId, month);
+    const budget = await this.getBudget(parentId);
+
+    return {
+      month,
+      budget: budgetJson(budget),
+      totals: usageTotals(usage.total),
+      byTeen: usage.byTeen.map(row => ({ teenId: row.teen_id as string, teenName: row.teen_name as string, ...usageTotals(row) })),
+      byGpt: usage.byGpt.map(row => ({ gptId: row.custom_gpt_id as string, gptName: row.gpt_name as string, ...usageTotals(row) })),
+      byModel: usage.byModel.map(row => ({ model: row.model as string, ...usageTotals(row) }))
+    };
+  }
+
+  private async record(account: UsageAccount, usage: TokenUsage, cost: number = costMicros(usage, this.prices)): Promise<TokenUsage> {
+    try {
+      await this.db.recordTokenUsage({
+        id: generateSecureToken(12),
+        ...account,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costMicros: cost,
+        usageMonth: usageMonth()
+      });
+    } catch (error) {
+      // A lost record must not lose the teen's reply
+      console.error('Failed to record token usage:', error);
+    }
+    return { ...usage, costMicros: cost };
+  }
+
+  private async sendNotice(parentId: string, notice: 'warning' | 'cutoff', budget: FamilyBudget) {
+    const parent = await this.db.getUserById(parentId);
+    if (!parent) {
+      return;
+    }
+
+    const spent = `$${toDollars(budget.spentMicros).toFixed(2)}`;
+    const limit = `$${toDollars(budget.limitMicros!).toFixed(2)}`;
+    const text = notice === 'warning'
+      ? `Hi ${parent.name},\n\nYour family has used ${spent} of its ${limit} AI budget for ${budget.month}. ` +
+        `Once the budget is used up, your teens can keep chatting, but replies will come from simpler built-in responses until next month.\n\n` +
+        `You can see usage by teen and GPT, and change your budget, in the parent dashboard.`
+      : `Hi ${parent.name},\n\nYour family has used its ${limit} AI budget for ${budget.month} (${spent}). ` +
+        `Until next month, your teens' conversations will use simpler built-in responses instead of the AI.\n\n` +
+        `If you set the budget yourself, you can raise it in the parent dashboard.`;
+
+    await this.email!.send({
+      to: parent.email as string,
+      subject: notice === 'warning'
+        ? `Your family has used ${budget.warnPercent}% of this month's AI budget`
+        : "Your family's AI budget for this month is used up",
+      text
+    });
+  }
+}
+
+export function createMeteringService(env: {
+  DB: D1Database;
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
+  MODEL_PRICES?: string;
+  FAMILY_MONTHLY_BUDGET_USD?: string;
+}): MeteringService {
+  return new MeteringService(
+    new DatabaseService(env.DB),
+    createEmailSender(env),
+    parseModelPrices(env.MODEL_PRICES),
+    parsePlatformLimit(env.FAMILY_MONTHLY_BUDGET_USD)
+  );
+}
@@ -0,0 +1,598 @@
+// Package Service for Teen AI Platform
+// Shareable custom GPT packages: a versioned JSON format with a content hash and optional signature,
+// import previews, and a read-only library of curated GPTs
+
+import { DatabaseService } from './databaseService'
+import { hashToken } from './authService'
+import { FieldDiff, diffVersions, validateGptAudience } from './gptService'
+import { ProviderName, validateModelSettings } from './llmService'
+import { CategoryOverrides, FILTER_LEVELS, FilterLevel, validateCategoryOverrides } from './safetyService'
+import { normalizeTheologicalProfile, validateTheologicalProfile } from './theologyService'
+import { parseAllowedTopics, validateAllowedTopics } from './topicService'
+import { TUTORING_MODES, TutoringMode, isTutoringMode } from './tutoringService'
+
+export const PACKAGE_FORMAT = 'teen-ai-platform/gpt-package';
+export const PACKAGE_FORMAT_VERSION = 1;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_LIST_ITEMS = 50;
+const MAX_ITEM_LENGTH = 100;
+
+// Optional fields default to empty; the package is hashed exactly as written
+export interface GptPackageContent {
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  theologicalValues?: Record<string, unknown>;
+  educationalFocus?: string[];
+  personalityTraits?: string[];
+  model?: { provider: ProviderName | null; name: string | null; temperature: number | null; maxTokens: number | null };
+  ageRange?: { minAge: number | null; maxAge: number | null };
+  tutoringMode?: TutoringMode;
+}
+
+// Suggestions for the family's parental controls; importing never changes them
+export interface RecommendedSettings {
+  contentFilterLevel?: FilterLevel;
+  allowedTopics?: string[];
+  blockedKeywords?: string[];
+  categoryOverrides?: CategoryOverrides;
+}
+
+export interface GptPackage {
+  format: typeof PACKAGE_FORMAT;
+  formatVersion: number;
+  gpt: GptPackageContent;
+  recommendedSettings?: RecommendedSettings;
+  metadata?: Record<string, unknown>; // exportedAt, source, ...; not covered by the hash
+  // hash: SHA-256 (hex) of the canonical JSON of format, formatVersion, gpt and recommendedSettings.
+  // signature: HMAC-SHA256 (hex) of the hash with the exporting platform's PACKAGE_SIGNING_SECRET.
+  integrity?: { algorithm: 'sha-256'; hash: string; signature?: string };
+}
+
+export interface IntegrityCheck {
+  hash: 'valid' | 'mismatch' | 'missing';
+  signature: 'valid' | 'invalid' | 'unsigned' | 'unverifiable'; // unverifiable: no signing secret configured here
+  computedHash: string;
+}
+
+export interface ImportPreview {
+  action: 'create' | 'update';
+  targetGptId: string | null;
+  integrity: IntegrityCheck;
+  gpt: { name: string; description: string; educationalFocus: string[]; personalityTraits: string[] };
+  // For updates: what changes on the existing GPT. Instruction changes create a new version.
+  changes: { field: string; from: unknown; to: unknown }[];
+  instructionChanges: FieldDiff[];
+  recommendedSettings: {
+    settings: RecommendedSettings | null;
+    teens: { teenId: string; name: string; differences: string[] }[]; // Where the teen's controls differ
+  };
+  warnings: string[];
+}
+
+type PackageError = { error: string; status: 400 | 404; details?: string[] };
+
+const GPT_FIELDS = ['name', 'description', 'systemPrompt', 'theologicalValues', 'educationalFocus', 'personalityTraits', 'model', 'ageRange', 'tutoringMode'];
+const SETTINGS_FIELDS = ['contentFilterLevel', 'allowedTopics', 'blockedKeywords', 'categoryOverrides'];
+const ROOT_FIELDS = ['format', 'formatVersion', 'gpt', 'recommendedSettings', 'metadata', 'integrity'];
+
+// JSON with sorted keys and no whitespace, so the same content always hashes the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function packageHash(pkg: Record<string, any>): Promise<string> {
+  const { format, formatVersion, gpt, recommendedSettings } = pkg;
+  return hashToken(canonicalJson({ format, formatVersion, gpt, recommendedSettings }));
+}
+
+async function hmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+async function signHash(secret: string, hash: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret, 'sign'), new TextEncoder().encode(hash));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function verifySignature(secret: string, hash: string, signature: string): Promise<boolean> {
+  const bytes = new Uint8Array((signature.match(/../g) || []).map(pair => parseInt(pair, 16)));
+  return crypto.subtle.verify('HMAC', await hmacKey(secret, 'verify'), bytes, new TextEncoder().encode(hash));
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function unknownFields(value: Record<string, any>, allowed: string[], path: string): string[] {
+  return Object.keys(value).filter(key => !allowed.includes(key)).map(key => `${path}.${key} is not a package field`);
+}
+
+function checkString(errors: string[], value: unknown, path: string, max: number, required: boolean) {
+  if (value === undefined && !required) return;
+  if (typeof value !== 'string' || (required && !value.trim()) || value.length > max) {
+    errors.push(`${path} must be ${required ? 'a non-empty' : 'a'} string of at most ${max} characters`);
+  }
+}
+
+function checkList(errors: string[], value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS ||
+      !value.every(item => typeof item === 'string' && item.trim() && item.length <= MAX_ITEM_LENGTH)) {
+    errors.push(`${path} must be a list of at most ${MAX_LIST_ITEMS} non-empty strings of at most ${MAX_ITEM_LENGTH} characters`);
+  }
+}
+
+// Checks a package against the format, reporting every problem with its path
+export function validatePackage(input: unknown): { pkg: GptPackage } | { errors: string[] } {
+  if (!isObject(input)) {
+    return { errors: ['The package must be a JSON object'] };
+  }
+
+  const errors = unknownFields(input, ROOT_FIELDS, 'package');
+  if (input.format !== PACKAGE_FORMAT) {
+    errors.push(`package.format must be "${PACKAGE_FORMAT}"`);
+  }
+  if (!Number.isInteger(input.formatVersion) || input.formatVersion < 1) {
+    errors.push('package.formatVersion must be a positive whole number');
+  } else if (input.formatVersion > PACKAGE_FORMAT_VERSION) {
+    errors.push(`Package format version ${input.formatVersion} is newer than this platform supports (${PACKAGE_FORMAT_VERSION})`);
+  }
+
+  const gpt = input.gpt;
+  if (!isObject(gpt)) {
+    errors.push('package.gpt must be an object');
+  } else {
+    errors.push(...unknownFields(gpt, GPT_FIELDS, 'gpt'));
+    checkString(errors, gpt.name, 'gpt.name', MAX_NAME_LENGTH, true);
+    checkString(errors, gpt.description, 'gpt.description', MAX_DESCRIPTION_LENGTH, false);
+    checkString(errors, gpt.systemPrompt, 'gpt.systemPrompt', MAX_PROMPT_LENGTH, true);
+    if (gpt.theologicalValues !== undefined) {
+      const theology = isObject(gpt.theologicalValues)
+        ? validateTheologicalProfile(gpt.theologicalValues)
+        : { error: 'must be an object' };
+      if ('error' in theology) {
+        errors.push(`gpt.theologicalValues: ${theology.error}`);
+      }
+    }
+    checkList(errors, gpt.educationalFocus, 'gpt.educationalFocus');
+    checkList(errors, gpt.personalityTraits, 'gpt.personalityTraits');
+    if (Array.isArray(gpt.personalityTraits) && gpt.personalityTraits.some((trait: unknown) => String(trait).includes(','))) {
+      errors.push('gpt.personalityTraits entries cannot contain commas');
+    }
+
+    if (gpt.model !== undefined) {
+      const model = isObject(gpt.model)
+        ? validateModelSettings({
+            modelProvider: gpt.model.provider ?? null,
+            model: gpt.model.name ?? null,
+            temperature: gpt.model.temperature ?? null,
+            maxTokens: gpt.model.maxTokens ?? null
+          })
+        : { error: 'must be an object' };
+      if ('error' in model) {
+        errors.push(`gpt.model: ${model.error}`);
+      } else {
+        errors.push(...unknownFields(gpt.model, ['provider', 'name', 'temperature', 'maxTokens'], 'gpt.model'));
+      }
+    }
+
+    if (gpt.ageRange !== undefined) {
+      const ages = isObject(gpt.ageRange)
+        ? validateGptAudience({ minAge: gpt.ageRange.minAge ?? null, maxAge: gpt.ageRange.maxAge ?? null })
+        : { error: 'must be an object' };
+      if ('error' in ages) {
+        errors.push(`gpt.ageRange: ${ages.error}`);
+      }
+    }
+
+    if (gpt.tutoringMode !== undefined && !isTutoringMode(gpt.tutoringMode)) {
+      errors.push(`gpt.tutoringMode must be one of ${TUTORING_MODES.join(', ')}`);
+    }
+  }
+
+  const settings = input.recommendedSettings;
+  if (settings !== undefined) {
+    if (!isObject(settings)) {
+      errors.push('package.recommendedSettings must be an object');
+    } else {
+      errors.push(...unknownFields(settings, SETTINGS_FIELDS, 'recommendedSettings'));
+      if (settings.contentFilterLevel !== undefined && !FILTER_LEVELS.includes(settings.contentFilterLevel)) {
+        errors.push(`recommendedSettings.contentFilterLevel must be one of ${FILTER_LEVELS.join(', ')}`);
+      }
+      if (settings.allowedTopics !== undefined) {
+        const topics = validateAllowedTopics(settings.allowedTopics);
+        if ('error' in topics) errors.push(`recommendedSettings.allowedTopics: ${topics.error}`);
+      }
+      checkList(errors, settings.blockedKeywords, 'recommendedSettings.blockedKeywords');
+      if (settings.categoryOverrides !== undefined) {
+        const overrides = validateCategoryOverrides(settings.categoryOverrides);
+        if ('error' in overrides) errors.push(`recommendedSettings.categoryOverrides: ${overrides.error}`);
+      }
+    }
+  }
+
+  if (input.metadata !== undefined && !isObject(input.metadata)) {
+    errors.push('package.metadata must be an object');
+  }
+
+  const integrity = input.integrity;
+  if (integrity !== undefined) {
+    if (!isObject(integrity) || integrity.algorithm !== 'sha-256' ||
+        typeof integrity.hash !== 'string' || !/^[0-9a-f]{64}$/.test(integrity.hash) ||
+        (integrity.signature !== undefined &&
+          (typeof integrity.signature !== 'string' || !/^[0-9a-f]{64}$/.test(integrity.signature)))) {
+      errors.push('package.integrity must be { algorithm: "sha-256", hash, signature? } with 64-character hex values');
+    }
+  }
+
+  if (errors.length) {
+    return { errors };
+  }
+
+  return { pkg: input as GptPackage };
+}
+
+function parseJsonValue(raw: unknown, fallback: any): any {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : null;
+    return Array.isArray(fallback) ? (Array.isArray(parsed) ? parsed : fallback) : (isObject(parsed) ? parsed : fallback);
+  } catch {
+    return fallback;
+  }
+}
+
+// A custom_gpts row as package content
+export function packageContentFromRow(row: Record<string, any>): GptPackageContent {
+  const content: GptPackageContent = {
+    name: row.name,
+    description: row.description || '',
+    systemPrompt: row.system_prompt,
+    theologicalValues: normalizeTheologicalProfile(row.theological_values),
+    educationalFocus: parseJsonValue(row.educational_focus, []).map(String),
+    personalityTraits: String(row.personality_traits || '').split(',').map(trait => trait.trim()).filter(Boolean)
+  };
+  if (row.model_provider || row.model_name || row.temperature != null || row.max_tokens != null) {
+    content.model = {
+      provider: row.model_provider ?? null,
+      name: row.model_name ?? null,
+      temperature: row.temperature ?? null,
+      maxTokens: row.max_tokens ?? null
+    };
+  }
+  if (row.min_age != null || row.max_age != null) {
+    content.ageRange = { minAge: row.min_age ?? null, maxAge: row.max_age ?? null };
+  }
+  if (row.tutoring_mode && row.tutoring_mode !== 'off') {
+    content.tutoringMode = row.tutoring_mode;
+  }
+  return content;
+}
+
+// Package content as custom_gpts column values, in the form they're stored
+function columnsFromContent(content: GptPackageContent) {
+  return {
+    name: content.name.trim(),
+    description: content.description ?? '',
+    system_prompt: content.systemPrompt,
+    theological_values: JSON.stringify(normalizeTheologicalProfile(content.theologicalValues)),
+    educational_focus: JSON.stringify([...new Set(content.educationalFocus ?? [])]),
+    personality_traits: [...new Set((content.personalityTraits ?? []).map(trait => trait.trim()))].join(','),
+    model_provider: content.model?.provider ?? null,
+    model_name: content.model?.name?.trim() || null,
+    temperature: content.model?.temperature ?? null,
+    max_tokens: content.model?.maxTokens ?? null,
+    min_age: content.ageRange?.minAge ?? null,
+    max_age: content.ageRange?.maxAge ?? null,
+    tutoring_mode: content.tutoringMode ?? 'off'
+  };
+}
+
+// The curated library: the GPTs from seed.sql, with the parental controls seed.sql pairs them with
+const LIBRARY: Record<string, { gpt: GptPackageContent; recommendedSettings: RecommendedSettings }> = {
+  'biblical-wisdom-tutor': {
+    gpt: {
+      name: 'Biblical Wisdom Tutor',
+      description: 'A wise Christian mentor focused on biblical wisdom and academic excellence',
+      systemPrompt: "You are a Christian AI tutor designed to help teenagers grow in wisdom, knowledge, and character. You approach every question through a biblical worldview, emphasizing God's love, truth, and grace. You are patient, encouraging, and always point students toward Christ-like character. When discussing academic topics, connect them to God's creation and design. Always encourage students to seek wisdom from Scripture and godly mentors.",
+      theologicalValues: {
+        biblical_authority: 'inerrant',
+        creation_view: 'young_earth',
+        moral_framework: 'biblical',
+        life_purpose: 'glorify_god'
+      },
+      educationalFocus: ['mathematics', 'science', 'literature', 'history', 'biblical_studies', 'character_development'],
+      personalityTraits: ['encouraging', 'wise', 'patient', 'christ_centered']
+    },
+    recommendedSettings: {
+      contentFilterLevel: 'strict',
+      allowedTopics: ['bible-study', 'school-help', 'life-advice', 'science', 'history', 'literature'],
+      blockedKeywords: ['inappropriate', 'violence', 'drugs', 'alcohol']
+    }
+  },
+  'study-helper': {
+    gpt: {
+      name: 'Study Helper',
+      description: 'An academic assistant with Christian values for homework and learning',
+      systemPrompt: 'You are a Christian academic assistant designed to help students excel in their studies while maintaining a biblical worldview. You provide clear explanations, study strategies, and always encourage students to use their God-given talents for His glory. You help with homework but encourage understanding rather than just providing answers. You maintain high academic standards while showing grace and patience.',
+      theologicalValues: { biblical_authority: 'inerrant', moral_framework: 'biblical', secondary_issues: 'charitable_overview' },
+      educationalFocus: ['homework_help', 'study_strategies', 'test_preparation', 'research_skills'],
+      personalityTraits: ['helpful', 'patient', 'academically_rigorous', 'encouraging'],
+      tutoringMode: 'socratic'
+    },
+    recommendedSettings: {
+      contentFilterLevel: 'moderate',
+      allowedTopics: ['bible-study', 'school-help', 'life-advice', 'science', 'history', 'literature'],
+      blockedKeywords: ['inappropriate', 'violence', 'drugs', 'alcohol']
+    }
+  }
+};
+
+export class PackageService {
+  // Without a signing secret, packages are exported with a hash only and signatures can't be checked
+  constructor(private db: DatabaseService, private signingSecret: string | null = null) {}
+
+  async build(
+    gpt: GptPackageContent,
+    recommendedSettings: RecommendedSettings | undefined,
+    metadata: Record<string, unknown>
+  ): Promise<GptPackage> {
+    const pkg: GptPackage = {
+      format: PACKAGE_FORMAT,
+      formatVersion: PACKAGE_FORMAT_VERSION,
+      gpt,
+      recommendedSettings,
+      metadata
+    };
+    const hash = await packageHash(pkg);
+    pkg.integrity = {
+      algorithm: 'sha-256',
+      hash,
+      ...(this.signingSecret ? { signature: await signHash(this.signingSecret, hash) } : {})
+    };
+    return pkg;
+  }
+
+  // settingsTeenId copies that teen's parental controls into the package as recommended settings
+  async exportGpt(parentId: string, gptId: string, settingsTeenId: string | null): Promise<{ pkg: GptPackage } | PackageError> {
+    const gpt = await this.db.getParentCustomGPT(gptId, parentId);
+    if (!gpt) {
+      return { error: 'Custom GPT not found', status: 404 };
+    }
+
+    let recommendedSettings: RecommendedSettings | undefined;
+    if (settingsTeenId) {
+      const controls = await this.db.getParentalControls(parentId, settingsTeenId);
+      if (!controls) {
+        return { error: 'Parental controls not found for that teen', status: 404 };
+      }
+      recommendedSettings = {
+        contentFilterLevel: controls.content_filter_level as FilterLevel,
+        allowedTopics: parseAllowedTopics(controls.allowed_topics as string),
+        blockedKeywords: parseJsonValue(controls.blocked_keywords, []),
+        categoryOverrides: parseJsonValue(controls.category_overrides, {})
+      };
+    }
+
+    const pkg = await this.build(packageContentFromRow(gpt), recommendedSettings, {
+      exportedAt: new Date().toISOString(),
+      source: 'export',
+      version: gpt.version
+    });
+    return { pkg };
+  }
+
+  library() {
+    return Object.entries(LIBRARY).map(([slug, entry]) => ({
+      slug,
+      name: entry.gpt.name,
+      description: entry.gpt.description,
+      educationalFocus: entry.gpt.educationalFocus,
+      personalityTraits: entry.gpt.personalityTraits,
+      recommendedSettings: entry.recommendedSettings
+    }));
+  }
+
+  async libraryPackage(slug: string): Promise<GptPackage | null> {
+    const entry = LIBRARY[slug];
+    return entry ? this.build(entry.gpt, entry.recommendedSettings, { source: 'library', slug }) : null;
+  }
+
+  // The package in an import request: { package } as uploaded, or { librarySlug } from the library
+  async resolve(body: Record<string, any>): Promise<{ pkg: GptPackage } | PackageError> {
+    if (body.librarySlug !== undefined) {
+      const pkg = typeof body.librarySlug === 'string' ? await this.libraryPackage(body.librarySlug) : null;
+      return pkg ? { pkg } : { error: 'Library GPT not found', status: 404 };
+    }
+
+    const checked = validatePackage(body.package);
+    if ('errors' in checked) {
+      return { error: 'The package is not valid', status: 400, details: checked.errors };
+    }
+    return checked;
+  }
+
+  async checkIntegrity(pkg: GptPackage): Promise<IntegrityCheck> {
+    const computedHash = await packageHash(pkg);
+    const hash = !pkg.integrity ? 'missing' : pkg.integrity.hash === computedHash ? 'valid' : 'mismatch';
+
+    let signature: IntegrityCheck['signature'] = 'unsigned';
+    if (pkg.integrity?.signature) {
+      signature = !this.signingSecret
+        ? 'unverifiable'
+        : hash === 'valid' && await verifySignature(this.signingSecret, computedHash, pkg.integrity.signature)
+          ? 'valid'
+          : 'invalid';
+    }
+    return { hash, signature, computedHash };
+  }
+
+  async preview(parentId: string, pkg: GptPackage, targetGptId: string | null): Promise<{ preview: ImportPreview } | PackageError> {
+    const integrity = await this.checkIntegrity(pkg);
+    const warnings: string[] = [];
+    if (integrity.hash === 'mismatch') {
+      warnings.push('The package was changed after it was exported (its hash does not match), so it cannot be imported');
+    } else if (integrity.hash === 'missing') {
+      warnings.push('The package has no content hash, so changes made after export cannot be detected');
+    }
+    if (integrity.signature === 'invalid') {
+      warnings.push('The package signature is not from this platform');
+    } else if (integrity.signature === 'unverifiable') {
+      warnings.push('The package is signed, but this platform has no signing secret to check it with');
+    }
+
+    const incoming = columnsFromContent(pkg.gpt);
+    let changes: ImportPreview['changes'] = [];
+    let instructionChanges: FieldDiff[] = [];
+
+    if (targetGptId) {
+      const target = await this.db.getParentCustomGPT(targetGptId, parentId);
+      if (!target) {
+        return { error: 'Custom GPT to update not found', status: 404 };
+      }
+      if (!target.is_active) {
+        return { error: 'Restore the GPT before importing over it', status: 400 };
+      }
+
+      // Compare in stored form, so formatting differences in the saved JSON don't count as changes
+      const current = columnsFromContent(packageContentFromRow(target));
+      instructionChanges = diffVersions(current, incoming).filter(diff => diff.changed);
+      changes = (['name', 'description', 'model_provider', 'model_name', 'temperature', 'max_tokens', 'min_age', 'max_age', 'tutoring_mode'] as const)
+        .filter(column => current[column] !== incoming[column])
+        .map(column => ({ field: column, from: current[column], to: incoming[column] }));
+      if (instructionChanges.length) {
+        warnings.push(`Importing will save version ${(target.version as number) + 1} of "${target.name}"; you can roll back to version ${target.version}`);
+      }
+    } else {
+      const existing = (await this.db.getCustomGPTsByParent(parentId)).results || [];
+      if (existing.some(gpt => gpt.name === incoming.name)) {
+        warnings.push(`You already have a GPT named "${incoming.name}"; importing creates another one`);
+      }
+      warnings.push('The new GPT will be available to every teen in your family; change this with its assignments');
+    }
+
+    return {
+      preview: {
+        action: targetGptId ? 'update' : 'create',
+        targetGptId,
+        integrity,
+        gpt: {
+          name: incoming.name,
+          description: incoming.description,
+          educationalFocus: pkg.gpt.educationalFocus ?? [],
+          personalityTraits: pkg.gpt.personalityTraits ?? []
+        },
+        changes,
+        instructionChanges,
+        recommendedSettings: {
+          settings: pkg.recommendedSettings ?? null,
+          teens: pkg.recommendedSettings ? await this.settingsDifferences(parentId, pkg.recommendedSettings) : []
+        },
+        warnings
+      }
+    };
+  }
+
+  async importPackage(
+    parentId: string,
+    pkg: GptPackage,
+    targetGptId: string | null,
+    newGptId: string
+  ): Promise<{ gptId: string; action: 'create' | 'update'; versionCreated: boolean } | PackageError> {
+    const integrity = await this.checkIntegrity(pkg);
+    if (integrity.hash === 'mismatch') {
+      return { error: 'The package was changed after it was exported (its hash does not match)', status: 400 };
+    }
+
+    const columns = columnsFromContent(pkg.gpt);
+    const settings = {
+      name: columns.name,
+      description: columns.description,
+      modelProvider: columns.model_provider,
+      modelName: columns.model_name,
+      temperature: columns.temperature,
+      maxTokens: columns.max_tokens,
+      minAge: columns.min_age,
+      maxAge: columns.max_age,
+      tutoringMode: columns.tutoring_mode
+    };
+
+    if (!targetGptId) {
+      await this.db.createCustomGPT({
+        id: newGptId,
+        parentId,
+        systemPrompt: columns.system_prompt,
+        theologicalValues: columns.theological_values,
+        educationalFocus: columns.educational_focus,
+        personalityTraits: columns.personality_traits,
+        ...settings
+      });
+      return { gptId: newGptId, action: 'create', versionCreated: true };
+    }
+
+    const target = await this.db.getParentCustomGPT(targetGptId, parentId);
+    if (!target || !target.is_active) {
+      return { error: 'Custom GPT to update not found', status: 404 };
+    }
+
+    // Only instruction fields that really differ are written, so an unchanged package doesn't add a version
+    const current = columnsFromContent(packageContentFromRow(target));
+    const instructions = {
+      systemPrompt: 'system_prompt',
+      theologicalValues: 'theological_values',
+      educationalFocus: 'educational_focus',
+      personalityTraits: 'personality_traits'
+    } as const;
+    const instructionUpdates = Object.fromEntries(
+      Object.entries(instructions)
+        .filter(([, column]) => current[column] !== columns[column])
+        .map(([key, column]) => [key, columns[column]])
+    );
+
+    await this.db.updateCustomGPT(targetGptId, parentId, { ...settings, ...instructionUpdates });
+    return { gptId: targetGptId, action: 'update', versionCreated: Object.keys(instructionUpdates).length > 0 };
+  }
+
+  private async settingsDifferences(parentId: string, settings: RecommendedSettings) {
+    const teens = (await this.db.getFamilyTeens(parentId)).results || [];
+    const results: { teenId: string; name: string; differences: string[] }[] = [];
+
+    for (const teen of teens) {
+      const controls = await this.db.getParentalControls(parentId, teen.id as string);
+      const differences: string[] = [];
+      if (!controls) {
+        differences.push('Parental controls are not set up yet');
+      } else {
+        if (settings.contentFilterLevel && controls.content_filter_level !== settings.contentFilterLevel) {
+          differences.push(`Content filter is ${controls.content_filter_level}; the package recommends ${settings.contentFilterLevel}`);
+        }
+        const topics = parseAllowedTopics(controls.allowed_topics as string);
+        const missingTopics = (settings.allowedTopics || []).filter(topic => topics.length && !topics.includes(topic));
+        if (missingTopics.length) {
+          differences.push(`Recommended topics not allowed yet: ${missingTopics.join(', ')}`);
+        }
+        const keywords: string[] = parseJsonValue(controls.blocked_keywords, []);
+        const missingKeywords = (settings.blockedKeywords || []).filter(keyword => !keywords.includes(keyword));
+        if (missingKeywords.length) {
+          differences.push(`Recommended blocked keywords not blocked yet: ${missingKeywords.join(', ')}`);
+        }
+      }
+      if (differences.length) {
+        results.push({ teenId: teen.id as string, name: teen.name as string, differences });
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,206 @@
+// PDF Service for Teen AI Platform
+// A small PDF writer for printable reports: wrapped Helvetica text, highlighted lines, page breaks and page numbers
+
+export type RGB = [number, number, number];
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  background?: RGB; // Fills behind each line, e.g. to highlight flagged messages
+  indent?: number;
+  spaceAfter?: number;
+}
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const LINE_HEIGHT = 1.35;
+
+// Character widths for codes 32-126 from the standard Helvetica AFM files (per 1000 units of font size)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Typographic punctuation that WinAnsiEncoding has outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '…': 0x85, '€': 0x80
+};
+
+// Maps text to single-byte WinAnsi characters; anything the standard fonts can't show becomes "?"
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text.replace(/\t/g, '    ')) {
+    const code = char.codePointAt(0)!;
+    if (char in WIN_ANSI) {
+      result += String.fromCharCode(WIN_ANSI[char]);
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      result += char;
+    } else if (code >= 32) {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return units * size / 1000;
+}
+
+// Greedy word wrap; words longer than a line (e.g. URLs) are broken wherever they must be
+function wrap(text: string, maxWidth: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while (textWidth(line, size, bold) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > maxWidth) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function color(rgb: RGB): string {
+  return rgb.map(value => value.toFixed(3)).join(' ');
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(private title: string) {
+    this.newPage();
+  }
+
+  text(text: string, style: TextStyle = {}) {
+    const { size = 10, bold = false, color: textColor = [0, 0, 0], background, indent = 0, spaceAfter = 4 } = style;
+    const lineHeight = size * LINE_HEIGHT;
+    const x = MARGIN + indent;
+    const width = PAGE_WIDTH - MARGIN - x;
+
+    for (const line of wrap(toWinAnsi(text), width, size, bold)) {
+      if (this.y - lineHeight < MARGIN) {
+        this.newPage();
+      }
+      this.y -= lineHeight;
+      if (background) {
+        this.page.push(`${color(background)} rg ${x - 3} ${this.y - size * 0.3} ${width + 6} ${lineHeight} re f`);
+      }
+      this.page.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${color(textColor)} rg ${x} ${this.y} Td (${escapeText(line)}) Tj ET`);
+    }
+    this.y -= spaceAfter;
+  }
+
+  heading(text: string, size: number = 14) {
+    // Keep a heading on the same page as at least a couple of lines of what follows it
+    if (this.y - size * LINE_HEIGHT * 4 < MARGIN) {
+      this.newPage();
+    }
+    this.space(size / 2);
+    this.text(text, { size, bold: true, spaceAfter: size / 2 });
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  rule() {
+    this.space(4);
+    this.page.push(`0.8 0.8 0.8 RG 0.5 w ${MARGIN} ${this.y} m ${PAGE_WIDTH - MARGIN} ${this.y} l S`);
+    this.space(8);
+  }
+
+  toBytes(): ArrayBuffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body) + 2; // Object 1 is the catalog, 2 the page tree
+
+    const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const pageIds = this.pages.map((operations, index) => {
+      const footer = `BT /F1 8 Tf 0.5 0.5 0.5 rg ${MARGIN} ${MARGIN / 2} Td ` +
+        `(${escapeText(toWinAnsi(`${this.title} - page ${index + 1} of ${this.pages.length}`))}) Tj ET`;
+      const stream = [...operations, footer].join('\n');
+      const contents = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      return add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${contents} 0 R >>`
+      );
+    });
+
+    const all = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      ...objects
+    ];
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets = all.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xref = output.length;
+    output += `xref\n0 ${all.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${all.length + 1} /Root 1 0 R /Info << /Title (${escapeText(toWinAnsi(this.title))}) >> >>\n`;
+    output += `startxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(new ArrayBuffer(output.length));
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  private get page(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+}
@@ -0,0 +1,312 @@
+// Report Service for Teen AI Platform
+// Weekly family reports: built by the scheduler for each parent, emailed, and archived for the dashboard
+
+import { DatabaseService } from './databaseService'
+import { EmailSender, createEmailSender } from './emailService'
+import { generateSecureToken, toSqlDate } from './authService'
+import { TOPIC_TAXONOMY } from './topicService'
+
+const MAX_SEND_ATTEMPTS = 3;
+const TOP_TOPICS = 5;
+const MAX_CONVERSATIONS_LISTED = 10;
+
+export interface ReportPeriod {
+  start: string; // YYYY-MM-DD, a Monday
+  end: string; // The following Monday, exclusive
+}
+
+export interface TeenWeeklySummary {
+  teenId: string;
+  name: string;
+  usage: {
+    dailyLimitMinutes: number | null;
+    totalMinutes: number;
+    averageMinutes: number; // Per day over the whole week
+    daysOverLimit: number;
+    days: { date: string; minutes: number }[];
+  };
+  conversations: { title: string; gptName: string; messages: number; flagged: number }[];
+  moreConversations: number; // Active conversations beyond the ones listed
+  alerts: {
+    new: { type: string; reason: string; conversationTitle: string; createdAt: string; read: boolean }[];
+    unread: number; // Including older alerts
+  };
+  topics: { topic: string; label: string; messages: number }[];
+  pendingReviews: { conversationId: string; title: string; reason: string; flaggedMessages: number; heldReplies: number }[];
+}
+
+export interface WeeklyReportData {
+  parentName: string;
+  period: ReportPeriod;
+  teens: TeenWeeklySummary[];
+  dashboardUrl: string;
+}
+
+export interface RenderedReport {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().substring(0, 10);
+}
+
+// The last full Monday-to-Sunday week (UTC) before `now`
+export function reportPeriodFor(now: Date): ReportPeriod {
+  const today = now.toISOString().substring(0, 10);
+  const end = addDays(today, -((now.getUTCDay() + 6) % 7));
+  return { start: addDays(end, -7), end };
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric' });
+}
+
+function periodLabel(period: ReportPeriod): string {
+  return `${formatDay(period.start)} – ${formatDay(addDays(period.end, -1))}`;
+}
+
+function alertTypeLabel(alertType: string): string {
+  const label = alertType.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function plural(count: number, noun: string, nouns: string = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+function usageLine(usage: TeenWeeklySummary['usage']): string {
+  const limit = usage.dailyLimitMinutes
+    ? `, daily limit ${usage.dailyLimitMinutes} min` +
+      (usage.daysOverLimit ? ` (reached on ${plural(usage.daysOverLimit, 'day')})` : '')
+    : ', no daily limit';
+  return `${usage.totalMinutes} min this week, about ${usage.averageMinutes} min a day${limit}`;
+}
+
+// Each section as a heading plus lines; text and HTML are both rendered from this
+function sections(teen: TeenWeeklySummary): { heading: string; lines: string[]; empty: string }[] {
+  return [
+    {
+      heading: 'Conversations',
+      lines: [
+        ...teen.conversations.map(conversation =>
+          `${conversation.title} with ${conversation.gptName}: ${plural(conversation.messages, 'message')}` +
+          (conversation.flagged ? `, ${conversation.flagged} flagged` : '')
+        ),
+        ...(teen.moreConversations ? [`and ${plural(teen.moreConversations, 'more conversation')}`] : [])
+      ],
+      empty: 'No conversations this week.'
+    },
+    {
+      heading: `Safety alerts (${teen.alerts.unread} unread)`,
+      lines: teen.alerts.new.map(alert =>
+        `${formatDay(alert.createdAt.substring(0, 10))}: ${alertTypeLabel(alert.type)} in "${alert.conversationTitle}" - ${alert.reason}` +
+        (alert.read ? '' : ' (unread)')
+      ),
+      empty: 'No new safety alerts this week.'
+    },
+    {
+      heading: 'Top topics',
+      lines: teen.topics.map(topic => `${topic.label}: ${plural(topic.messages, 'message')}`),
+      empty: 'No topics recorded this week.'
+    },
+    {
+      heading: 'Waiting for your review',
+      lines: teen.pendingReviews.map(review =>
+        `${review.title} (${review.reason === 'flagged' ? plural(review.flaggedMessages, 'flagged message') : 'first session with this GPT'}` +
+        (review.heldReplies ? `, ${plural(review.heldReplies, 'held reply', 'held replies')}` : '') + ')'
+      ),
+      empty: 'Nothing waiting for review.'
+    }
+  ];
+}
+
+export function renderWeeklyReport(report: WeeklyReportData): RenderedReport {
+  const label = periodLabel(report.period);
+  const subject = `Your family's week on Teen AI Platform: ${label}`;
+
+  const text = [
+    `Hi ${report.parentName},`,
+    '',
+    `Here is how ${label} went.`,
+    ...report.teens.flatMap(teen => [
+      '',
+      `== ${teen.name} ==`,
+      `Time: ${usageLine(teen.usage)}`,
+      ...sections(teen).flatMap(section => [
+        '',
+        `${section.heading}:`,
+        ...(section.lines.length ? section.lines.map(line => `- ${line}`) : [section.empty])
+      ])
+    ]),
+    '',
+    `Open your dashboard for the details: ${report.dashboardUrl}`
+  ].join('\n');
+
+  const html = [
+    `<p>Hi ${escapeHtml(report.parentName)},</p>`,
+    `<p>Here is how ${escapeHtml(label)} went.</p>`,
+    ...report.teens.map(teen => [
+      `<h2>${escapeHtml(teen.name)}</h2>`,
+      `<p><strong>Time:</strong> ${escapeHtml(usageLine(teen.usage))}</p>`,
+      ...sections(teen).map(section =>
+        `<h3>${escapeHtml(section.heading)}</h3>` +
+        (section.lines.length
+          ? `<ul>${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+          : `<p>${escapeHtml(section.empty)}</p>`)
+      )
+    ].join('')),
+    `<p><a href="${report.dashboardUrl}">Open your dashboard</a> for the details.</p>`
+  ].join('');
+
+  return { subject, text, html };
+}
+
+export class ReportService {
+  constructor(private db: DatabaseService, private email: EmailSender, private appUrl: string) {}
+
+  // Builds and emails last week's report for every parent who doesn't have one yet, and retries
+  // unsent ones. Safe to run as often as the scheduler likes.
+  async sendDueReports(now: Date = new Date(), limit: number = 25) {
+    const period = reportPeriodFor(now);
+    const summary = { periodStart: period.start, created: 0, sent: 0, failed: 0 };
+
+    const unsent = await this.db.getUnsentWeeklyReports(period.start, MAX_SEND_ATTEMPTS, limit);
+    for (const report of unsent.results || []) {
+      summary[await this.deliver(report, now) ? 'sent' : 'failed']++;
+    }
+
+    const parents = await this.db.getParentsDueWeeklyReport(period.start, limit);
+    for (const parent of parents.results || []) {
+      const data = await this.build(parent, period);
+      const rendered = renderWeeklyReport(data);
+      const report = {
+        id: generateSecureToken(12),
+        parentId: parent.id as string,
+        periodStart: period.start,
+        periodEnd: period.end,
+        subject: rendered.subject,
+        textBody: rendered.text,
+        htmlBody: rendered.html,
+        data: JSON.stringify(data)
+      };
+
+      // Another run got there first
+      if (!(await this.db.createWeeklyReport(report))) {
+        continue;
+      }
+      summary.created++;
+
+      const sent = await this.deliver({
+        id: report.id,
+        email: parent.email,
+        subject: report.subject,
+        text_body: report.textBody,
+        html_body: report.htmlBody,
+        attempts: 0
+      }, now);
+      summary[sent ? 'sent' : 'failed']++;
+    }
+
+    return summary;
+  }
+
+  async build(parent: Record<string, any>, period: ReportPeriod): Promise<WeeklyReportData> {
+    const since = `${period.start} 00:00:00`;
+    const until = `${period.end} 00:00:00`;
+    const teens: TeenWeeklySummary[] = [];
+
+    const familyTeens = ((await this.db.getFamilyTeens(parent.id)).results || []).filter(teen => teen.is_active);
+    for (const teen of familyTeens) {
+      const teenId = teen.id as string;
+      const controls = await this.db.getParentalControls(parent.id, teenId);
+      const dailyLimitMinutes = (controls?.daily_time_limit as number | null) || null;
+
+      // usage_date is the family's local date
+      const seconds = new Map(
+        ((await this.db.getActiveSecondsByDate(teenId, period.start, addDays(period.end, -1))).results || [])
+          .map(row => [row.usage_date as string, row.seconds as number])
+      );
+      const days = Array.from({ length: 7 }, (_, index) => {
+        const date = addDays(period.start, index);
+        return { date, minutes: Math.round((seconds.get(date) || 0) / 60) };
+      });
+      const totalMinutes = days.reduce((total, day) => total + day.minutes, 0);
+
+      const conversations = (await this.db.getConversationActivity(teenId, since, until)).results || [];
+      const alerts = (await this.db.getSafetyAlertsForTeen(teenId, since, until)).results || [];
+      const topics = (await this.db.getTopicCounts(teenId, since, until, TOP_TOPICS)).results || [];
+      const reviews = await this.db.getReviewQueue(parent.id, { reviewed: false, teenId, reason: null });
+
+      teens.push({
+        teenId,
+        name: teen.name as string,
+        usage: {
+          dailyLimitMinutes,
+          totalMinutes,
+          averageMinutes: Math.round(totalMinutes / 7),
+          daysOverLimit: dailyLimitMinutes ? days.filter(day => day.minutes >= dailyLimitMinutes).length : 0,
+          days
+        },
+        conversations: conversations.slice(0, MAX_CONVERSATIONS_LISTED).map(conversation => ({
+          title: conversation.title as string,
+          gptName: conversation.gpt_name as string,
+          messages: conversation.messages as number,
+          flagged: conversation.flagged as number
+        })),
+        moreConversations: Math.max(0, conversations.length - MAX_CONVERSATIONS_LISTED),
+        alerts: {
+          new: alerts.map(alert => ({
+            type: alert.alert_type as string,
+            reason: alert.alert_reason as string,
+            conversationTitle: alert.conversation_title as string,
+            createdAt: alert.created_at as string,
+            read: Boolean(alert.is_read)
+          })),
+          unread: await this.db.getUnreadAlertCountForTeen(teenId)
+        },
+        topics: topics.map(row => ({
+          topic: row.topic as string,
+          label: TOPIC_TAXONOMY[row.topic as string]?.label || (row.topic as string),
+          messages: row.message_count as number
+        })),
+        pendingReviews: (reviews.results || []).map(review => ({
+          conversationId: review.id as string,
+          title: review.title as string,
+          reason: review.review_reason as string,
+          flaggedMessages: review.flagged_messages as number,
+          heldReplies: review.held_replies as number
+        }))
+      });
+    }
+
+    return { parentName: parent.name as string, period, teens, dashboardUrl: `${this.appUrl}/` };
+  }
+
+  private async deliver(report: Record<string, any>, now: Date): Promise<boolean> {
+    const attempts = (report.attempts as number) + 1;
+    try {
+      await this.email.send({
+        to: report.email as string,
+        subject: report.subject as string,
+        text: report.text_body as string,
+        html: report.html_body as string
+      });
+      await this.db.markWeeklyReportSent(report.id as string, attempts, toSqlDate(now));
+      return true;
+    } catch (error) {
+      console.error('Weekly report delivery failed:', error);
+      await this.db.markWeeklyReportFailed(report.id as string, attempts, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+}
+
+export function createReportService(env: { DB: D1Database; RESEND_API_KEY?: string; EMAIL_FROM?: string }, appUrl: string): ReportService {
+  return new ReportService(new DatabaseService(env.DB), createEmailSender(env), appUrl);
+}
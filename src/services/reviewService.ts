@@ -0,0 +1,85 @@
+// Review Service for Teen AI Platform
+// Puts conversations in the parent review queue (parental_controls.chat_review_required) and holds flagged AI replies
+
+import { DatabaseService } from './databaseService'
+
+export const REVIEW_REASONS = ['flagged', 'first_session'] as const;
+export type ReviewReason = typeof REVIEW_REASONS[number];
+
+// Shown to the teen in place of a held reply
+export const HELD_REPLY_PLACEHOLDER = "This reply is waiting for a parent to look at it. You'll see it here once they release it.";
+
+export type ReviewResult =
+  | { success: true }
+  | { success: false; error: string; status: 400 | 404 };
+
+type Controls = Record<string, any> | null;
+
+function reviewsEnabled(parentalControls: Controls): boolean {
+  return Boolean(parentalControls?.chat_review_required);
+}
+
+export function shouldHoldReplies(parentalControls: Controls): boolean {
+  return reviewsEnabled(parentalControls) && Boolean(parentalControls?.hold_flagged_replies);
+}
+
+// Messages as the teen may see them: held replies stay hidden until released
+export function maskHeldMessages(messages: Record<string, any>[]): Record<string, any>[] {
+  return messages.map(message =>
+    message.held && !message.released_at
+      ? { ...message, content: HELD_REPLY_PLACEHOLDER, scripture_citations: null }
+      : message
+  );
+}
+
+export class ReviewService {
+  constructor(private db: DatabaseService) {}
+
+  // Call right after a conversation is created
+  async conversationStarted(conversationId: string, teenId: string, customGptId: string, parentalControls: Controls) {
+    if (!reviewsEnabled(parentalControls) || !parentalControls?.review_new_gpt_sessions) {
+      return;
+    }
+
+    if (await this.db.countTeenConversationsWithGpt(teenId, customGptId) === 1) {
+      await this.db.queueConversationForReview(conversationId, 'first_session');
+    }
+  }
+
+  // Call after a flagged message is saved
+  async turnFlagged(conversationId: string, parentalControls: Controls) {
+    await this.db.markConversationFlagged(conversationId);
+
+    // review_flagged defaults to on
+    if (reviewsEnabled(parentalControls) && Boolean(parentalControls?.review_flagged ?? true)) {
+      await this.db.queueConversationForReview(conversationId, 'flagged');
+    }
+  }
+
+  async markReviewed(
+    parentId: string,
+    conversationId: string,
+    options: { note?: string | null; releaseHeldReplies?: boolean } = {}
+  ): Promise<ReviewResult> {
+    if (options.note !== undefined && options.note !== null && typeof options.note !== 'string') {
+      return { success: false, error: 'Note must be text', status: 400 };
+    }
+
+    const note = options.note ? options.note.trim().slice(0, 2000) : null;
+    if (!(await this.db.markConversationReviewed(conversationId, parentId, note))) {
+      return { success: false, error: 'Conversation not found', status: 404 };
+    }
+
+    if (options.releaseHeldReplies) {
+      await this.db.releaseHeldMessagesInConversation(conversationId);
+    }
+    return { success: true };
+  }
+
+  async releaseReply(parentId: string, messageId: string): Promise<ReviewResult> {
+    if (!(await this.db.releaseHeldMessage(messageId, parentId))) {
+      return { success: false, error: 'Held reply not found', status: 404 };
+    }
+    return { success: true };
+  }
+}
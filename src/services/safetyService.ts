@@ -0,0 +1,488 @@
+// Safety Service for Teen AI Platform
+// One declarative policy engine for every safety check: rule packs say what to look for and how
+// serious it is; category policies say what each filter level does about it
+
+export const FILTER_LEVELS = ['strict', 'moderate', 'basic'] as const;
+export type FilterLevel = typeof FILTER_LEVELS[number];
+
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type Severity = typeof SEVERITIES[number];
+const SEVERITY_RANK: Record<Severity, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+// allow: answer normally; redirect: steer the conversation elsewhere without alerting;
+// block: refuse, flag the message and alert the parent
+export const FILTER_ACTIONS = ['allow', 'redirect', 'block'] as const;
+export type FilterAction = typeof FILTER_ACTIONS[number];
+const ACTION_RANK: Record<FilterAction, number> = { allow: 0, redirect: 1, block: 2 };
+
+export type AlertType = 'self_harm' | 'dangerous_behavior' | 'inappropriate_content' | 'blocked_keyword';
+
+export interface SafetyRule {
+  id: string;
+  category: string; // Key of CATEGORY_POLICIES
+  reason: string; // Shown to parents, followed by the matched text
+  patterns?: string[]; // Regular expression sources, matched case-insensitively
+  keywords?: string[]; // Literal phrases, matched case-insensitively
+  severity: Severity;
+  alertType: AlertType;
+}
+
+export interface RulePack {
+  name: string;
+  rules: SafetyRule[];
+}
+
+// Matches in the category at or above minSeverity get the action; anything milder is allowed
+export interface CategoryPolicy {
+  action: FilterAction;
+  minSeverity: Severity;
+}
+
+export interface CategoryDefinition {
+  label: string;
+  locked?: boolean; // Parents can't override these
+  levels: Record<FilterLevel, CategoryPolicy>;
+}
+
+export type CategoryOverrides = Record<string, CategoryPolicy>;
+
+export interface SafetyMatch {
+  ruleId: string;
+  category: string;
+  severity: Severity;
+  alertType: AlertType;
+  action: FilterAction;
+  matched: string;
+  reason: string;
+}
+
+export interface SafetyVerdict {
+  action: FilterAction; // The most restrictive action of all matches
+  isSafe: boolean; // True when the action is 'allow'
+  category?: string;
+  flagReason?: string;
+  alertType?: AlertType;
+  severity?: Severity;
+  matches: SafetyMatch[];
+}
+
+export interface SafetyContext {
+  filterLevel?: string | null;
+  blockedKeywords?: string[];
+  overrides?: CategoryOverrides;
+  ignoreCategories?: string[]; // Categories not to check at all
+}
+
+function sameAtEveryLevel(policy: CategoryPolicy): Record<FilterLevel, CategoryPolicy> {
+  return { strict: policy, moderate: policy, basic: policy };
+}
+
+const BLOCK_ALL = sameAtEveryLevel({ action: 'block', minSeverity: 'low' });
+const ALLOW = { action: 'allow', minSeverity: 'low' } as const;
+
+export const CATEGORY_POLICIES: Record<string, CategoryDefinition> = {
+  self_harm: { label: 'Self-harm and suicide', locked: true, levels: BLOCK_ALL },
+  threats: { label: 'Threats of violence', locked: true, levels: BLOCK_ALL },
+  blocked_keyword: { label: 'Blocked keywords', locked: true, levels: BLOCK_ALL },
+  sexual_content: { label: 'Sexual content', levels: BLOCK_ALL },
+  strangers: { label: 'Meeting strangers', levels: BLOCK_ALL },
+  running_away: { label: 'Running away', levels: BLOCK_ALL },
+  substances: {
+    label: 'Alcohol and drugs',
+    levels: {
+      strict: { action: 'block', minSeverity: 'low' },
+      moderate: { action: 'block', minSeverity: 'medium' },
+      basic: { action: 'block', minSeverity: 'high' }
+    }
+  },
+  violence: {
+    label: 'Violence',
+    levels: {
+      strict: { action: 'redirect', minSeverity: 'low' },
+      moderate: { action: 'redirect', minSeverity: 'medium' },
+      basic: ALLOW
+    }
+  },
+  romance: {
+    label: 'Dating and romance',
+    levels: {
+      strict: { action: 'redirect', minSeverity: 'low' },
+      moderate: { action: 'redirect', minSeverity: 'medium' },
+      basic: ALLOW
+    }
+  },
+  body_image: {
+    label: 'Body image',
+    levels: {
+      strict: { action: 'redirect', minSeverity: 'low' },
+      moderate: { action: 'redirect', minSeverity: 'medium' },
+      basic: ALLOW
+    }
+  },
+  social_media: {
+    label: 'Social media',
+    levels: {
+      strict: { action: 'redirect', minSeverity: 'low' },
+      moderate: ALLOW,
+      basic: ALLOW
+    }
+  }
+};
+
+export const SELF_HARM_PACK: RulePack = {
+  name: 'self-harm',
+  rules: [
+    {
+      id: 'self-harm.intent',
+      category: 'self_harm',
+      reason: 'Self-harm language detected',
+      patterns: [
+        '(?:kill|hurt|harm|cut)\\s+(?:myself|me)',
+        'suicid(?:e|al)',
+        '(?:end|ending)\\s+my\\s+life',
+        "(?:don'?t\\s+want\\s+to\\s+live|want\\s+to\\s+die)",
+        'self[\\s-]*(?:harm|injury)'
+      ],
+      severity: 'critical',
+      alertType: 'self_harm'
+    },
+    {
+      id: 'self-harm.eating',
+      category: 'self_harm',
+      reason: 'Disordered eating language detected',
+      patterns: ['starv(?:e|ing)\\s+myself', '\\bpurg(?:e|ing)\\b', 'make\\s+myself\\s+(?:throw\\s+up|puke|vomit)'],
+      severity: 'critical',
+      alertType: 'self_harm'
+    }
+  ]
+};
+
+export const DANGEROUS_BEHAVIOR_PACK: RulePack = {
+  name: 'dangerous-behavior',
+  rules: [
+    {
+      id: 'dangerous.threats',
+      category: 'threats',
+      reason: 'Threat of violence detected',
+      patterns: ['hurting\\s+others', '(?:kill|hurt|shoot|stab)\\s+(?:him|her|them|someone|everyone)\\b', 'bring\\s+a\\s+(?:gun|knife)\\s+to\\s+school'],
+      severity: 'critical',
+      alertType: 'dangerous_behavior'
+    },
+    {
+      id: 'dangerous.alcohol',
+      category: 'substances',
+      reason: 'Dangerous content detected',
+      patterns: ['\\b(?:alcohol|drinking|drunk|beer|vodka)\\b'],
+      severity: 'low',
+      alertType: 'dangerous_behavior'
+    },
+    {
+      id: 'dangerous.drugs',
+      category: 'substances',
+      reason: 'Dangerous content detected',
+      patterns: ['\\b(?:drugs?|weed|marijuana|vap(?:e|ing))\\b'],
+      severity: 'medium',
+      alertType: 'dangerous_behavior'
+    },
+    {
+      id: 'dangerous.hard-drugs',
+      category: 'substances',
+      reason: 'Dangerous content detected',
+      patterns: ['\\b(?:cocaine|heroin|meth|fentanyl|pills\\s+to\\s+get\\s+high)\\b', '(?:buy|sell|get)\\s+(?:weed|drugs)'],
+      severity: 'high',
+      alertType: 'dangerous_behavior'
+    },
+    {
+      id: 'dangerous.running-away',
+      category: 'running_away',
+      reason: 'Dangerous content detected',
+      patterns: ['running\\s+away', 'run\\s+away\\s+from\\s+home'],
+      severity: 'high',
+      alertType: 'dangerous_behavior'
+    },
+    {
+      id: 'dangerous.strangers',
+      category: 'strangers',
+      reason: 'Dangerous content detected',
+      patterns: ['meeting\\s+strangers', 'meet\\s+(?:someone|a\\s+stranger)\\s+(?:from\\s+)?online'],
+      severity: 'high',
+      alertType: 'dangerous_behavior'
+    },
+    {
+      id: 'dangerous.sexual',
+      category: 'sexual_content',
+      reason: 'Dangerous content detected',
+      patterns: ['sexting', '\\bnudes\\b', '\\bporn', 'inappropriate\\s+(?:photos|content)'],
+      severity: 'high',
+      alertType: 'dangerous_behavior'
+    }
+  ]
+};
+
+// Topics that are fine for some families and not others; the filter level decides
+export const SENSITIVE_TOPICS_PACK: RulePack = {
+  name: 'sensitive-topics',
+  rules: [
+    {
+      id: 'topics.violence',
+      category: 'violence',
+      reason: 'Violent content',
+      patterns: ['\\b(?:violence|violent|fighting)\\b'],
+      severity: 'low',
+      alertType: 'inappropriate_content'
+    },
+    {
+      id: 'topics.graphic-violence',
+      category: 'violence',
+      reason: 'Graphic violence',
+      patterns: ['\\b(?:gore|gory|torture|graphic\\s+violence)\\b'],
+      severity: 'medium',
+      alertType: 'inappropriate_content'
+    },
+    {
+      id: 'topics.dating',
+      category: 'romance',
+      reason: 'Dating and romance',
+      patterns: ['\\b(?:dating|boyfriend|girlfriend|romance|crush)\\b'],
+      severity: 'low',
+      alertType: 'inappropriate_content'
+    },
+    {
+      id: 'topics.physical-romance',
+      category: 'romance',
+      reason: 'Physical romance',
+      patterns: ['\\b(?:kissing|making\\s+out|hook\\s*up)\\b'],
+      severity: 'medium',
+      alertType: 'inappropriate_content'
+    },
+    {
+      id: 'topics.appearance',
+      category: 'body_image',
+      reason: 'Body image',
+      patterns: ['\\bbody\\b', 'physical\\s+appearance', '\\blooks\\b'],
+      severity: 'low',
+      alertType: 'inappropriate_content'
+    },
+    {
+      id: 'topics.weight',
+      category: 'body_image',
+      reason: 'Weight and dieting',
+      patterns: ['\\b(?:diet(?:ing)?|skinny|too\\s+fat|lose\\s+weight|weight\\s+loss)\\b'],
+      severity: 'medium',
+      alertType: 'inappropriate_content'
+    },
+    {
+      id: 'topics.social-media',
+      category: 'social_media',
+      reason: 'Social media',
+      patterns: ['social\\s+media', '\\b(?:instagram|tiktok|snapchat)\\b'],
+      severity: 'low',
+      alertType: 'inappropriate_content'
+    }
+  ]
+};
+
+export const BUILT_IN_RULE_PACKS: RulePack[] = [SELF_HARM_PACK, DANGEROUS_BEHAVIOR_PACK, SENSITIVE_TOPICS_PACK];
+
+// Parents' blocked keywords are always blocked, whatever the filter level
+export function blockedKeywordPack(keywords: string[]): RulePack {
+  return {
+    name: 'blocked-keywords',
+    rules: keywords.filter(k => typeof k === 'string' && k.trim()).map((keyword, index) => ({
+      id: `blocked.${index}`,
+      category: 'blocked_keyword',
+      reason: 'Blocked keyword detected',
+      keywords: [keyword.trim()],
+      severity: 'medium',
+      alertType: 'blocked_keyword'
+    }))
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface CompiledRule {
+  rule: SafetyRule;
+  expressions: RegExp[];
+}
+
+// Checks a pack is well formed and compiles its patterns; throws on the first problem
+export function compileRulePack(pack: RulePack): CompiledRule[] {
+  const seen = new Set<string>();
+
+  return pack.rules.map(rule => {
+    if (!rule.id || seen.has(rule.id)) {
+      throw new Error(`Rule pack "${pack.name}": missing or duplicate rule id "${rule.id}"`);
+    }
+    seen.add(rule.id);
+
+    if (!SEVERITIES.includes(rule.severity)) {
+      throw new Error(`Rule ${rule.id}: unknown severity "${rule.severity}"`);
+    }
+    if (!(rule.category in CATEGORY_POLICIES)) {
+      throw new Error(`Rule ${rule.id}: unknown category "${rule.category}"`);
+    }
+
+    const sources = [
+      ...(rule.patterns || []),
+      ...(rule.keywords || []).map(keyword => escapeRegExp(keyword.toLowerCase()))
+    ];
+    if (sources.length === 0) {
+      throw new Error(`Rule ${rule.id}: needs at least one pattern or keyword`);
+    }
+
+    return { rule, expressions: sources.map(source => new RegExp(source, 'i')) };
+  });
+}
+
+export function normalizeFilterLevel(level: string | null | undefined): FilterLevel {
+  return FILTER_LEVELS.includes(level as FilterLevel) ? level as FilterLevel : 'strict';
+}
+
+// The policy a category gets for this teen: their override if allowed, else the level default
+export function categoryPolicyFor(category: string, level: FilterLevel, overrides: CategoryOverrides = {}): CategoryPolicy {
+  const definition = CATEGORY_POLICIES[category];
+  if (!definition) {
+    return ALLOW;
+  }
+  return (!definition.locked && overrides[category]) || definition.levels[level];
+}
+
+// Validates the categoryOverrides field of /api/parental-controls
+export function validateCategoryOverrides(input: any): { overrides: CategoryOverrides } | { error: string } {
+  if (input === null || input === undefined) {
+    return { overrides: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Category overrides must be an object keyed by category' };
+  }
+
+  const overrides: CategoryOverrides = {};
+  for (const [category, value] of Object.entries<any>(input)) {
+    const definition = CATEGORY_POLICIES[category];
+    if (!definition) {
+      return { error: `Unknown category "${category}"` };
+    }
+    if (definition.locked) {
+      return { error: `${definition.label} can't be changed` };
+    }
+    if (value === null) {
+      continue; // Back to the filter level default
+    }
+    if (!FILTER_ACTIONS.includes(value?.action)) {
+      return { error: `${category}: action must be one of ${FILTER_ACTIONS.join(', ')}` };
+    }
+    if (value.minSeverity !== undefined && !SEVERITIES.includes(value.minSeverity)) {
+      return { error: `${category}: minSeverity must be one of ${SEVERITIES.join(', ')}` };
+    }
+    overrides[category] = { action: value.action, minSeverity: value.minSeverity || 'low' };
+  }
+
+  return { overrides };
+}
+
+export function parseCategoryOverrides(raw: string | null | undefined): CategoryOverrides {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const result = validateCategoryOverrides(JSON.parse(raw));
+    return 'overrides' in result ? result.overrides : {};
+  } catch {
+    return {};
+  }
+}
+
+export class SafetyPolicy {
+  private rules: CompiledRule[];
+
+  constructor(packs: RulePack[] = BUILT_IN_RULE_PACKS) {
+    this.rules = packs.flatMap(pack => compileRulePack(pack));
+  }
+
+  // Every rule that matches, with the action its category policy gives it;
+  // the most restrictive action (then the most severe match) decides the verdict
+  evaluate(content: string, context: SafetyContext = {}): SafetyVerdict {
+    const level = normalizeFilterLevel(context.filterLevel);
+    const rules = context.blockedKeywords?.length
+      ? [...this.rules, ...compileRulePack(blockedKeywordPack(context.blockedKeywords))]
+      : this.rules;
+
+    const matches: SafetyMatch[] = [];
+    for (const { rule, expressions } of rules) {
+      if (context.ignoreCategories?.includes(rule.category)) {
+        continue;
+      }
+      for (const expression of expressions) {
+        const match = expression.exec(content);
+        if (!match) {
+          continue;
+        }
+
+        const policy = categoryPolicyFor(rule.category, level, context.overrides);
+        matches.push({
+          ruleId: rule.id,
+          category: rule.category,
+          severity: rule.severity,
+          alertType: rule.alertType,
+          action: SEVERITY_RANK[rule.severity] >= SEVERITY_RANK[policy.minSeverity] ? policy.action : 'allow',
+          matched: match[0],
+          reason: `${rule.reason}: "${match[0]}"`
+        });
+        break;
+      }
+    }
+
+    // Stable sort keeps pack order for equal matches
+    const worst = [...matches].sort((a, b) =>
+      ACTION_RANK[b.action] - ACTION_RANK[a.action] || SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]
+    )[0];
+
+    if (!worst || worst.action === 'allow') {
+      return { action: 'allow', isSafe: true, matches };
+    }
+
+    return {
+      action: worst.action,
+      isSafe: false,
+      category: worst.category,
+      flagReason: worst.reason,
+      alertType: worst.alertType,
+      severity: worst.severity,
+      matches
+    };
+  }
+}
+
+const defaultPolicy = new SafetyPolicy();
+
+// Evaluates content against the built-in packs plus the teen's parental controls
+export function checkContentSafety(
+  content: string,
+  parentalControls: {
+    content_filter_level?: string | null;
+    blocked_keywords?: string | null;
+    category_overrides?: string | null;
+  } | null,
+  ignoreCategories: string[] = []
+): SafetyVerdict {
+  let blockedKeywords: string[] = [];
+  try {
+    const parsed = JSON.parse(parentalControls?.blocked_keywords || '[]');
+    blockedKeywords = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    blockedKeywords = [];
+  }
+
+  return defaultPolicy.evaluate(content, {
+    filterLevel: parentalControls?.content_filter_level,
+    blockedKeywords,
+    overrides: parseCategoryOverrides(parentalControls?.category_overrides),
+    ignoreCategories
+  });
+}
+
+// What the assistant says instead of answering when a category is set to redirect
+export const REDIRECT_RESPONSE = "That's a topic your parents would like you to talk through with them rather than with me. I'd love to help with something else, though - your studies, a question about faith, or anything else on your mind. What would you like to talk about?";
@@ -0,0 +1,204 @@
+// Schedule Service for Teen AI Platform
+// Weekly access windows (quiet hours, church services, school hours) evaluated in the family's timezone
+
+export const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type DayName = typeof DAY_NAMES[number];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const MAX_WINDOWS = 50;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface AccessWindow {
+  label: string;
+  days: DayName[]; // Day the window starts on; overnight windows run into the next day
+  start: string; // 'HH:MM' local time
+  end: string; // 'HH:MM' local time; earlier than start means it ends the next day
+  access: 'blocked' | 'restricted';
+  allowedGptIds?: string[]; // Only for 'restricted' windows
+}
+
+export interface AccessSchedule {
+  windows: AccessWindow[];
+}
+
+export type AccessCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: string;
+      window: string;
+      allowedGptIds?: string[];
+      nextAvailableAt: string | null;
+    };
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Day of week and minute of day as shown on a wall clock in the given timezone
+export function localWallClock(now: Date, timeZone: string): { day: number; minuteOfDay: number; date: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const day = DAY_NAMES.indexOf(get('weekday').toLowerCase() as DayName);
+
+  return {
+    day,
+    minuteOfDay: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+    date: `${get('year')}-${get('month')}-${get('day')}`
+  };
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function parseSchedule(raw: string | null | undefined): AccessSchedule {
+  if (!raw) {
+    return { windows: [] };
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return { windows: Array.isArray(parsed?.windows) ? parsed.windows : [] };
+  } catch {
+    return { windows: [] };
+  }
+}
+
+export function validateSchedule(input: any): { schedule: AccessSchedule } | { error: string } {
+  if (!input || typeof input !== 'object' || !Array.isArray(input.windows)) {
+    return { error: 'Access schedule must be an object with a windows array' };
+  }
+
+  if (input.windows.length > MAX_WINDOWS) {
+    return { error: `Access schedule can have at most ${MAX_WINDOWS} windows` };
+  }
+
+  const windows: AccessWindow[] = [];
+  for (const [index, window] of input.windows.entries()) {
+    const label = typeof window?.label === 'string' && window.label.trim() ? window.label.trim() : `Window ${index + 1}`;
+
+    if (!Array.isArray(window?.days) || window.days.length === 0 ||
+        !window.days.every((d: any) => DAY_NAMES.includes(String(d).toLowerCase() as DayName))) {
+      return { error: `${label}: days must be a non-empty list of ${DAY_NAMES.join(', ')}` };
+    }
+
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end) || window.start === window.end) {
+      return { error: `${label}: start and end must be different HH:MM times` };
+    }
+
+    if (window.access !== 'blocked' && window.access !== 'restricted') {
+      return { error: `${label}: access must be 'blocked' or 'restricted'` };
+    }
+
+    if (window.access === 'restricted' &&
+        (!Array.isArray(window.allowedGptIds) || !window.allowedGptIds.every((id: any) => typeof id === 'string'))) {
+      return { error: `${label}: restricted windows need an allowedGptIds list` };
+    }
+
+    windows.push({
+      label,
+      days: [...new Set(window.days.map((d: string) => d.toLowerCase() as DayName))] as DayName[],
+      start: window.start,
+      end: window.end,
+      access: window.access,
+      ...(window.access === 'restricted' ? { allowedGptIds: window.allowedGptIds } : {})
+    });
+  }
+
+  return { schedule: { windows } };
+}
+
+// Does the window cover this minute of the week (0 = Sunday 00:00)?
+function windowCovers(window: AccessWindow, minuteOfWeek: number): boolean {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  const length = end > start ? end - start : MINUTES_PER_DAY - start + end;
+
+  return window.days.some(dayName => {
+    const windowStart = DAY_NAMES.indexOf(dayName) * MINUTES_PER_DAY + start;
+    const offset = (minuteOfWeek - windowStart + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    return offset < length;
+  });
+}
+
+// The first window that denies access at this minute, if any
+function blockingWindow(schedule: AccessSchedule, minuteOfWeek: number, gptId?: string): AccessWindow | null {
+  for (const window of schedule.windows) {
+    if (!windowCovers(window, minuteOfWeek)) {
+      continue;
+    }
+    if (window.access === 'blocked') {
+      return window;
+    }
+    if (!gptId || !(window.allowedGptIds || []).includes(gptId)) {
+      return window;
+    }
+  }
+  return null;
+}
+
+// Checks whether the teen may chat right now (optionally with a specific GPT).
+// The next available time is computed on the wall clock, so it can be off by
+// the DST shift if a clock change falls before it.
+export function checkAccess(
+  schedule: AccessSchedule,
+  timeZone: string,
+  now: Date = new Date(),
+  gptId?: string
+): AccessCheck {
+  if (schedule.windows.length === 0) {
+    return { allowed: true };
+  }
+
+  const clock = localWallClock(now, timeZone);
+  const minuteOfWeek = clock.day * MINUTES_PER_DAY + clock.minuteOfDay;
+  const blocking = blockingWindow(schedule, minuteOfWeek, gptId);
+
+  if (!blocking) {
+    return { allowed: true };
+  }
+
+  let nextAvailableAt: string | null = null;
+  for (let delta = 1; delta <= MINUTES_PER_WEEK; delta++) {
+    if (!blockingWindow(schedule, (minuteOfWeek + delta) % MINUTES_PER_WEEK, gptId)) {
+      const next = new Date(now.getTime() + delta * 60 * 1000);
+      next.setUTCSeconds(0, 0);
+      nextAvailableAt = next.toISOString();
+      break;
+    }
+  }
+
+  if (blocking.access === 'restricted') {
+    return {
+      allowed: false,
+      reason: `Only certain assistants are available during "${blocking.label}"`,
+      window: blocking.label,
+      allowedGptIds: blocking.allowedGptIds || [],
+      nextAvailableAt
+    };
+  }
+
+  return {
+    allowed: false,
+    reason: `Chat is not available during "${blocking.label}"`,
+    window: blocking.label,
+    nextAvailableAt
+  };
+}
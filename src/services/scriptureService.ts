@@ -0,0 +1,283 @@
+// Scripture Service for Teen AI Platform
+// Finds Bible references in AI replies, looks them up in the bundled public-domain translations,
+// and checks any quotation next to a reference against the real text
+
+import { DatabaseService } from './databaseService'
+import { normalizeTheologicalProfile } from './theologyService'
+
+export const BUNDLED_TRANSLATIONS = ['KJV', 'WEB'] as const;
+export type BundledTranslation = typeof BUNDLED_TRANSLATIONS[number];
+
+// Shown when the GPT's preferred translation isn't bundled
+const DEFAULT_TRANSLATION: BundledTranslation = 'WEB';
+
+const MAX_CITATIONS = 10; // Per reply
+const MAX_RANGE_VERSES = 20;
+
+// Share of a quotation's words found in the verse
+const VERIFIED_SIMILARITY = 0.8;
+const PARAPHRASE_SIMILARITY = 0.5;
+
+export interface ScriptureReference {
+  book: string; // Canonical name, as stored in scripture_verses
+  chapter: number;
+  verseStart: number;
+  verseEnd: number;
+  reference: string; // e.g. "John 13:34-35"
+  matchedText: string; // As written in the reply, e.g. "Jn 13:34-35"
+  start: number; // Offsets of matchedText in the reply
+  end: number;
+}
+
+// verified: the quotation matches a bundled translation; paraphrased: close, e.g. another translation's wording;
+// misquoted: the quotation doesn't match the verse; cited: a reference without a quotation;
+// unavailable: the verse isn't in the bundled text, so nothing could be checked. The bundled text is only a
+// starter set of commonly cited verses, so this says nothing about whether the verse exists or is quoted correctly.
+export type CitationStatus = 'verified' | 'paraphrased' | 'misquoted' | 'cited' | 'unavailable';
+
+export interface ScriptureCitation extends ScriptureReference {
+  quote: string | null;
+  status: CitationStatus;
+  checked: boolean; // False for unavailable: neither the reference nor the quotation could be checked
+  translation: BundledTranslation | null;
+  text: string | null; // The bundled text, to show alongside (or in place of) the quotation
+  similarity: number | null;
+}
+
+type Passage = Pick<ScriptureReference, 'book' | 'chapter' | 'verseStart' | 'verseEnd'>;
+
+function numbered(book: string, aliases: string[], count: number): string[][] {
+  return Array.from({ length: count }, (_, i) => [book, ...aliases].map(name => `${i + 1} ${name}`));
+}
+
+// Canonical name first, then accepted abbreviations
+const BOOKS: string[][] = [
+  ['Genesis', 'Gen', 'Gn'], ['Exodus', 'Exod', 'Exo', 'Ex'], ['Leviticus', 'Lev', 'Lv'], ['Numbers', 'Num', 'Nm'],
+  ['Deuteronomy', 'Deut', 'Dt'], ['Joshua', 'Josh', 'Jos'], ['Judges', 'Judg', 'Jdg'], ['Ruth', 'Rth'],
+  ...numbered('Samuel', ['Sam', 'Sa'], 2), ...numbered('Kings', ['Kgs', 'Ki'], 2),
+  ...numbered('Chronicles', ['Chron', 'Chr'], 2), ['Ezra', 'Ezr'], ['Nehemiah', 'Neh'], ['Esther', 'Esth', 'Est'],
+  ['Job'], ['Psalms', 'Psalm', 'Pss', 'Psa', 'Ps'], ['Proverbs', 'Prov', 'Prv', 'Pr'], ['Ecclesiastes', 'Eccl', 'Ecc'],
+  ['Song of Solomon', 'Song of Songs', 'Song'], ['Isaiah', 'Isa'], ['Jeremiah', 'Jer'], ['Lamentations', 'Lam'],
+  ['Ezekiel', 'Ezek', 'Eze'], ['Daniel', 'Dan', 'Dn'], ['Hosea', 'Hos'], ['Joel'], ['Amos'], ['Obadiah', 'Obad'],
+  ['Jonah', 'Jon'], ['Micah', 'Mic'], ['Nahum', 'Nah'], ['Habakkuk', 'Hab'], ['Zephaniah', 'Zeph'], ['Haggai', 'Hag'],
+  ['Zechariah', 'Zech'], ['Malachi', 'Mal'],
+  ['Matthew', 'Matt', 'Mt'], ['Mark', 'Mk'], ['Luke', 'Lk'], ['John', 'Jn', 'Jhn'], ['Acts'], ['Romans', 'Rom', 'Rm'],
+  ...numbered('Corinthians', ['Cor', 'Co'], 2), ['Galatians', 'Gal'], ['Ephesians', 'Eph'], ['Philippians', 'Phil', 'Php'],
+  ['Colossians', 'Col'], ...numbered('Thessalonians', ['Thess', 'Th'], 2), ...numbered('Timothy', ['Tim', 'Ti'], 2),
+  ['Titus', 'Tit'], ['Philemon', 'Philem', 'Phm'], ['Hebrews', 'Heb'], ['James', 'Jas'],
+  ...numbered('Peter', ['Pet', 'Pt'], 2), ...numbered('John', ['Jn', 'Jhn'], 3), ['Jude'], ['Revelation', 'Rev', 'Rv']
+];
+
+function aliasKey(name: string): string {
+  return name.toLowerCase().replace(/[\s.]+/g, '');
+}
+
+const BOOK_BY_ALIAS = new Map(BOOKS.flatMap(([book, ...aliases]) => [book, ...aliases].map(name => [aliasKey(name), book])));
+
+// Longest names first, so "1 John" wins over "John" and "Philippians" over "Phil"
+const REFERENCE_PATTERN = new RegExp(
+  '(?<![\\w])(' +
+  BOOKS.flat().sort((a, b) => b.length - a.length).map(name => name.replace(/ /g, '\\s*')).join('|') +
+  ')\\.?\\s+(\\d{1,3}):(\\d{1,3})(?:\\s*[-–]\\s*(\\d{1,3}))?(?![\\d:])',
+  'gi'
+);
+
+const QUOTE_PATTERN = /"([^"\n]{3,600})"|“([^”\n]{3,600})”/g;
+
+// Between a quotation and the reference after it: "..." (John 3:16) or "..." - John 3:16
+const QUOTE_BEFORE_GAP = /^[\s(\-–—,]{0,4}$/;
+// Between a reference and the quotation after it: John 3:16 says, "..."
+const QUOTE_AFTER_GAP = /^\)?[\s,:]*(?:(?:says|said|reads|tells us|reminds us|teaches|puts it)[\s,:]*)?$/i;
+
+// References like "Proverbs 3:5" and "Jn 13:34-35", in the order they appear.
+// Books must be capitalized, so everyday words like "am" or "job" next to a time aren't mistaken for one.
+export function parseReferences(text: string): ScriptureReference[] {
+  const references: ScriptureReference[] = [];
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    if (!/^[\dA-Z]/.test(match[0])) continue;
+
+    const book = BOOK_BY_ALIAS.get(aliasKey(match[1]));
+    const chapter = Number(match[2]);
+    const verseStart = Number(match[3]);
+    const verseEnd = match[4] ? Number(match[4]) : verseStart;
+    if (!book || !chapter || !verseStart || verseEnd < verseStart || verseEnd - verseStart >= MAX_RANGE_VERSES) continue;
+
+    references.push({
+      book,
+      chapter,
+      verseStart,
+      verseEnd,
+      reference: `${book} ${chapter}:${verseStart}${verseEnd > verseStart ? `-${verseEnd}` : ''}`,
+      matchedText: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length
+    });
+  }
+  return references;
+}
+
+// The quotation written right before or right after a reference, if any
+export function quoteFor(text: string, reference: ScriptureReference): string | null {
+  const quotes = [...text.matchAll(QUOTE_PATTERN)].map(match => ({
+    text: (match[1] ?? match[2]).trim(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+
+  const before = quotes.filter(quote => quote.end <= reference.start).pop();
+  if (before && QUOTE_BEFORE_GAP.test(text.slice(before.end, reference.start))) {
+    return before.text;
+  }
+  const after = quotes.find(quote => quote.start >= reference.end);
+  if (after && QUOTE_AFTER_GAP.test(text.slice(reference.end, after.start))) {
+    return after.text;
+  }
+  return null;
+}
+
+// Older English forms, so a KJV quotation compares fairly with a modern one
+const WORD_FORMS: Record<string, string> = {
+  thee: 'you', thou: 'you', ye: 'you', thy: 'your', thine: 'your', yahweh: 'lord', jehovah: 'lord',
+  unto: 'to', hath: 'has', doth: 'does', saith: 'says', shalt: 'shall', art: 'are'
+};
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "'")
+    .replace(/n't\b/g, ' not')
+    .replace(/'s\b/g, '')
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .map(word => WORD_FORMS[word] || word)
+    .map(word => (word.length > 4 ? word.replace(/(eth|est|ing|ed|es|s)$/, '') : word).replace(/e$/, ''));
+}
+
+const NEGATIONS = new Set(words('not no never nor neither none nothing cannot'));
+
+// Pairs of [quote index, verse index] for the longest run of the quotation's words found in order in the verse
+function alignWords(quoted: string[], verse: string[]): [number, number][] {
+  const lengths = quoted.map(() => new Array<number>(verse.length + 1).fill(0));
+  lengths.push(new Array<number>(verse.length + 1).fill(0));
+  for (let i = quoted.length - 1; i >= 0; i--) {
+    for (let j = verse.length - 1; j >= 0; j--) {
+      lengths[i][j] = quoted[i] === verse[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < quoted.length && j < verse.length) {
+    if (quoted[i] === verse[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Share of the quotation's words found in order in the verse; partial quotations still count as matches.
+// A negation the quotation adds, or drops from the part of the verse it quotes, reverses the meaning and scores 0.
+export function quoteSimilarity(quote: string, verse: string): number {
+  const quoted = words(quote);
+  if (!quoted.length) return 0;
+
+  const verseWords = words(verse);
+  const pairs = alignWords(quoted, verseWords);
+  if (!pairs.length) return 0;
+
+  const matchedQuote = new Set(pairs.map(([i]) => i));
+  const matchedVerse = new Set(pairs.map(([, j]) => j));
+  const first = pairs[0][1];
+  const last = pairs[pairs.length - 1][1];
+  const added = quoted.some((word, i) => NEGATIONS.has(word) && !matchedQuote.has(i));
+  const dropped = verseWords.some((word, j) => j > first && j < last && NEGATIONS.has(word) && !matchedVerse.has(j));
+  if (added || dropped) return 0;
+
+  return Math.round((pairs.length / quoted.length) * 100) / 100;
+}
+
+// The bundled translation to show: the GPT's preferred one when it's bundled
+export function preferredTranslation(theologicalValues: unknown): BundledTranslation {
+  const preferred = normalizeTheologicalProfile(theologicalValues).bible_translation;
+  return BUNDLED_TRANSLATIONS.includes(preferred as BundledTranslation) ? preferred as BundledTranslation : DEFAULT_TRANSLATION;
+}
+
+export function parseCitations(raw: unknown): ScriptureCitation[] {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : null;
+    // Citations saved before `checked` was added
+    return Array.isArray(parsed)
+      ? parsed.map(citation => ({ ...citation, checked: citation.checked ?? citation.status !== 'unavailable' }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Message rows as returned by the API, with their citations parsed
+export function withCitations(messages: Record<string, any>[]): Record<string, any>[] {
+  return messages.map(({ scripture_citations, ...message }) => ({ ...message, citations: parseCitations(scripture_citations) }));
+}
+
+export class ScriptureService {
+  constructor(private db: DatabaseService) {}
+
+  // Every reference in the reply (up to MAX_CITATIONS), with its quotation checked against KJV and WEB
+  async verify(text: string, translation: BundledTranslation = DEFAULT_TRANSLATION): Promise<ScriptureCitation[]> {
+    const references = parseReferences(text).slice(0, MAX_CITATIONS);
+    if (!references.length) {
+      return [];
+    }
+
+    const passages = await this.lookup(references);
+    return references.map((reference, i) => {
+      const texts = passages[i];
+      const quote = quoteFor(text, reference);
+      const citation = { ...reference, quote, translation: null, text: null, similarity: null, checked: true };
+
+      const available = BUNDLED_TRANSLATIONS.filter(name => texts[name]);
+      if (!available.length) {
+        return { ...citation, status: 'unavailable' as const, checked: false };
+      }
+      const shown = texts[translation] ? translation : available[0];
+
+      if (!quote) {
+        return { ...citation, status: 'cited' as const, translation: shown, text: texts[shown]! };
+      }
+
+      // The closest bundled translation; a misquotation is shown the preferred one instead
+      const [best, similarity] = available
+        .map(name => [name, quoteSimilarity(quote, texts[name]!)] as const)
+        .reduce((a, b) => (b[1] > a[1] ? b : a));
+      const status: CitationStatus = similarity >= VERIFIED_SIMILARITY
+        ? 'verified'
+        : similarity >= PARAPHRASE_SIMILARITY ? 'paraphrased' : 'misquoted';
+      const match = status === 'misquoted' ? shown : best;
+
+      return { ...citation, status, translation: match, text: texts[match]!, similarity };
+    });
+  }
+
+  // Each passage's text per translation; a translation missing any verse of a range counts as missing
+  private async lookup(passages: Passage[]): Promise<Partial<Record<BundledTranslation, string>>[]> {
+    const results = await this.db.getScriptureVerses(passages);
+    return passages.map((passage, i) => {
+      const texts: Partial<Record<BundledTranslation, string>> = {};
+      const verseCount = passage.verseEnd - passage.verseStart + 1;
+      for (const translation of BUNDLED_TRANSLATIONS) {
+        const verses = results[i].filter(row => row.translation === translation);
+        if (verses.length === verseCount) {
+          texts[translation] = verses.map(row => row.text as string).join(' ');
+        }
+      }
+      return texts;
+    });
+  }
+}
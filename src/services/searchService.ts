@@ -0,0 +1,162 @@
+// Search Service for Teen AI Platform
+// Parent search across their teens' conversations, backed by the FTS5 index from migration 0012
+
+import { DatabaseService } from './databaseService'
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+const MAX_QUERY_TERMS = 10;
+
+export interface SearchFilters {
+  query: string;
+  teenId: string | null;
+  gptId: string | null;
+  from: string | null; // Inclusive dates, YYYY-MM-DD
+  to: string | null;
+  role: 'user' | 'assistant' | null;
+  flaggedOnly: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface SearchHit {
+  type: 'conversation' | 'message';
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string | null;
+  teenId: string;
+  teenName: string;
+  gptId: string;
+  gptName: string;
+  role: 'user' | 'assistant' | null;
+  flagged: boolean;
+  flagReason: string | null;
+  createdAt: string;
+  snippet: string; // HTML-escaped, with matches wrapped in <mark></mark>
+}
+
+export interface SearchPage {
+  results: SearchHit[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+// Turns what the parent typed into an FTS5 expression: every word must match, as a prefix
+// ("colleg" finds "college"). Quoting each term keeps FTS5 syntax like AND, NEAR or "*" literal.
+export function toMatchExpression(query: string): string | null {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (!terms.length) {
+    return null;
+  }
+  return terms.slice(0, MAX_QUERY_TERMS).map(term => `"${term}"*`).join(' ');
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+function nextDay(value: string): string {
+  return new Date(new Date(`${value}T00:00:00Z`).getTime() + 86400000).toISOString().substring(0, 10);
+}
+
+// Validates the query string of GET /api/search
+export function parseSearchFilters(params: Record<string, string | undefined>): { filters: SearchFilters } | { error: string } {
+  const query = (params.q || '').trim();
+  if (!query || query.length > 200) {
+    return { error: 'Search text (q) is required, at most 200 characters' };
+  }
+
+  const { from = null, to = null } = params;
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+  if (from && to && from > to) {
+    return { error: 'The end date must not be before the start date' };
+  }
+
+  const role = params.role || null;
+  if (role !== null && role !== 'user' && role !== 'assistant') {
+    return { error: 'Role must be user (the teen) or assistant (the GPT)' };
+  }
+
+  const limit = params.limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(params.limit);
+  const offset = params.offset === undefined ? 0 : Number(params.offset);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return { error: `Limit must be between 1 and ${MAX_SEARCH_LIMIT}` };
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { error: 'Offset must be a whole number, 0 or more' };
+  }
+
+  return {
+    filters: {
+      query,
+      teenId: params.teenId || null,
+      gptId: params.gptId || null,
+      from,
+      to,
+      role,
+      flaggedOnly: params.flagged === 'true',
+      limit,
+      offset
+    }
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// The index marks matches with \x01 and \x02 so message text can be escaped before they become tags
+function renderSnippet(raw: string): string {
+  return escapeHtml(raw).replace(/\x01/g, '<mark>').replace(/\x02/g, '</mark>');
+}
+
+export class SearchService {
+  constructor(private db: DatabaseService) {}
+
+  async search(parentId: string, filters: SearchFilters): Promise<SearchPage> {
+    const match = toMatchExpression(filters.query);
+    if (!match) {
+      return { results: [], total: 0, limit: filters.limit, offset: filters.offset, hasMore: false };
+    }
+
+    const { results, total } = await this.db.searchFamilyConversations(parentId, {
+      match,
+      teenId: filters.teenId,
+      gptId: filters.gptId,
+      from: filters.from ? `${filters.from} 00:00:00` : null,
+      to: filters.to ? `${nextDay(filters.to)} 00:00:00` : null,
+      role: filters.role,
+      flaggedOnly: filters.flaggedOnly,
+      limit: filters.limit,
+      offset: filters.offset
+    });
+
+    return {
+      results: results.map(row => ({
+        type: row.type,
+        conversationId: row.conversation_id,
+        conversationTitle: row.conversation_title,
+        messageId: row.message_id,
+        teenId: row.teen_id,
+        teenName: row.teen_name,
+        gptId: row.custom_gpt_id,
+        gptName: row.gpt_name,
+        role: row.role,
+        flagged: Boolean(row.is_flagged),
+        flagReason: row.flag_reason,
+        createdAt: row.created_at,
+        snippet: renderSnippet(row.snippet || '')
+      })),
+      total,
+      limit: filters.limit,
+      offset: filters.offset,
+      hasMore: filters.offset + results.length < total
+    };
+  }
+}
@@ -0,0 +1,326 @@
+// Theology Service for Teen AI Platform
+// The theological profile of a custom GPT: a validated schema, presets for common traditions,
+// and compiling a profile into the system prompt in a fixed, deterministic order
+
+export interface ProfileOption {
+  label: string;
+  prompt: string; // The instruction added to the system prompt
+}
+
+export interface ProfileField {
+  label: string;
+  options: Record<string, ProfileOption>;
+}
+
+// Compiled in this order
+export const PROFILE_FIELDS = {
+  biblical_authority: {
+    label: 'Scripture',
+    options: {
+      inerrant: { label: 'Inerrant', prompt: 'Hold the Bible as the inerrant Word of God and the final authority for faith and life.' },
+      infallible: { label: 'Infallible', prompt: 'Hold the Bible as the infallible Word of God, fully trustworthy in all it teaches about faith and life.' },
+      scripture_and_tradition: {
+        label: 'Scripture and Tradition',
+        prompt: 'Hold Scripture and Sacred Tradition together, as interpreted by the teaching of the Church, as the authority for faith and life.'
+      }
+    }
+  },
+  bible_translation: {
+    label: 'Bible translation',
+    options: {
+      ESV: { label: 'English Standard Version', prompt: 'Quote Scripture from the English Standard Version (ESV) unless asked for another translation.' },
+      NIV: { label: 'New International Version', prompt: 'Quote Scripture from the New International Version (NIV) unless asked for another translation.' },
+      KJV: { label: 'King James Version', prompt: 'Quote Scripture from the King James Version (KJV) unless asked for another translation.' },
+      NKJV: { label: 'New King James Version', prompt: 'Quote Scripture from the New King James Version (NKJV) unless asked for another translation.' },
+      NASB: { label: 'New American Standard Bible', prompt: 'Quote Scripture from the New American Standard Bible (NASB) unless asked for another translation.' },
+      CSB: { label: 'Christian Standard Bible', prompt: 'Quote Scripture from the Christian Standard Bible (CSB) unless asked for another translation.' },
+      NLT: { label: 'New Living Translation', prompt: 'Quote Scripture from the New Living Translation (NLT) unless asked for another translation.' },
+      NABRE: { label: 'New American Bible, Revised Edition', prompt: 'Quote Scripture from the New American Bible, Revised Edition (NABRE) unless asked for another translation.' },
+      WEB: { label: 'World English Bible', prompt: 'Quote Scripture from the World English Bible (WEB) unless asked for another translation.' }
+    }
+  },
+  creation_view: {
+    label: 'Creation',
+    options: {
+      young_earth: { label: 'Young-earth creation', prompt: "Teach young-earth creation: God created all things directly, in six days, thousands of years ago." },
+      old_earth: { label: 'Old-earth creation', prompt: 'Teach old-earth creation: God created all things directly, over long ages.' },
+      evolutionary_creation: {
+        label: 'Evolutionary creation',
+        prompt: 'Teach that God is the Creator of all things and may have worked through the long processes that science describes.'
+      },
+      open: { label: 'Present the views', prompt: 'On how God created, present young-earth, old-earth and evolutionary creation views fairly, affirming God as Creator.' }
+    }
+  },
+  baptism: {
+    label: 'Baptism',
+    options: {
+      believers: { label: "Believer's baptism", prompt: 'Teach believer\'s baptism: baptism follows a personal profession of faith.' },
+      infant: { label: 'Infant baptism', prompt: 'Teach infant baptism: the children of believers are baptized as members of the covenant community.' },
+      open: { label: 'Present the views', prompt: "On baptism, present believer's and infant baptism fairly and encourage the teen to ask their parents and church." }
+    }
+  },
+  lords_supper: {
+    label: "Lord's Supper",
+    options: {
+      memorial: { label: 'Memorial', prompt: "Teach the Lord's Supper as a memorial of Christ's death, received in faith." },
+      spiritual_presence: { label: 'Spiritual presence', prompt: "Teach that Christ is spiritually present in the Lord's Supper and received by faith." },
+      real_presence: { label: 'Real presence', prompt: "Teach that Christ's body and blood are truly present in, with and under the bread and wine." },
+      transubstantiation: { label: 'Transubstantiation', prompt: 'Teach that in the Eucharist the bread and wine become the body and blood of Christ.' },
+      open: { label: 'Present the views', prompt: "On the Lord's Supper, present the main Christian views fairly and encourage the teen to ask their parents and church." }
+    }
+  },
+  spiritual_gifts: {
+    label: 'Spiritual gifts',
+    options: {
+      continuationist: { label: 'Continuationist', prompt: 'Teach that all the gifts of the Spirit, including tongues, prophecy and healing, continue today.' },
+      cessationist: { label: 'Cessationist', prompt: 'Teach that the miraculous sign gifts, such as tongues and prophecy, ceased with the apostles.' },
+      open_but_cautious: {
+        label: 'Open but cautious',
+        prompt: 'Teach openness to the gifts of the Spirit today, tested carefully against Scripture.'
+      }
+    }
+  },
+  eschatology: {
+    label: 'End times',
+    options: {
+      dispensational_premillennial: {
+        label: 'Dispensational premillennial',
+        prompt: "Teach dispensational premillennialism: the rapture of the church, then Christ's return before a literal thousand-year reign."
+      },
+      historic_premillennial: { label: 'Historic premillennial', prompt: "Teach historic premillennialism: Christ returns before a literal thousand-year reign." },
+      amillennial: { label: 'Amillennial', prompt: "Teach amillennialism: the thousand years describe Christ's present reign, and He will return once to judge and make all things new." },
+      postmillennial: { label: 'Postmillennial', prompt: 'Teach postmillennialism: the gospel will flourish across the world before Christ returns.' },
+      open: { label: 'Present the views', prompt: "On the end times, present the main Christian views fairly, affirming that Christ will return." }
+    }
+  },
+  moral_framework: {
+    label: 'Moral guidance',
+    options: {
+      biblical: { label: 'Biblical', prompt: 'Root moral guidance in biblical principles and Christ-like character.' },
+      natural_law_and_scripture: {
+        label: 'Natural law and Scripture',
+        prompt: "Root moral guidance in Scripture, the natural law and the Church's moral teaching."
+      }
+    }
+  },
+  life_purpose: {
+    label: 'Purpose',
+    options: {
+      glorify_god: { label: 'Glorify God', prompt: 'Help the teen see that the purpose of life is to glorify God and enjoy Him forever.' }
+    }
+  },
+  secondary_issues: {
+    label: 'Disagreements among Christians',
+    options: {
+      family_view: {
+        label: "The family's view",
+        prompt: "Where Christians disagree, teach the family's view above, while speaking charitably of other believers."
+      },
+      charitable_overview: {
+        label: 'Charitable overview',
+        prompt: 'Where Christians disagree, explain the main views fairly and point the teen to their parents and church.'
+      }
+    }
+  }
+} satisfies Record<string, ProfileField>;
+
+export type ProfileFieldKey = keyof typeof PROFILE_FIELDS;
+
+export const TRADITION_IDS = ['reformed', 'baptist', 'catholic', 'lutheran', 'pentecostal', 'non-denominational'] as const;
+export type TraditionId = typeof TRADITION_IDS[number];
+
+export type TheologicalProfile = { tradition?: TraditionId } & Partial<Record<ProfileFieldKey, string>>;
+
+// Starting points; a GPT's own values always win over its tradition's
+export const TRADITIONS: Record<TraditionId, { label: string; profile: Partial<Record<ProfileFieldKey, string>> }> = {
+  reformed: {
+    label: 'Reformed',
+    profile: {
+      biblical_authority: 'inerrant', bible_translation: 'ESV', creation_view: 'open', baptism: 'infant',
+      lords_supper: 'spiritual_presence', spiritual_gifts: 'cessationist', eschatology: 'amillennial',
+      moral_framework: 'biblical', life_purpose: 'glorify_god', secondary_issues: 'family_view'
+    }
+  },
+  baptist: {
+    label: 'Baptist',
+    profile: {
+      biblical_authority: 'inerrant', bible_translation: 'CSB', creation_view: 'open', baptism: 'believers',
+      lords_supper: 'memorial', spiritual_gifts: 'open_but_cautious', eschatology: 'historic_premillennial',
+      moral_framework: 'biblical', life_purpose: 'glorify_god', secondary_issues: 'family_view'
+    }
+  },
+  catholic: {
+    label: 'Catholic',
+    profile: {
+      biblical_authority: 'scripture_and_tradition', bible_translation: 'NABRE', creation_view: 'open', baptism: 'infant',
+      lords_supper: 'transubstantiation', spiritual_gifts: 'open_but_cautious', eschatology: 'amillennial',
+      moral_framework: 'natural_law_and_scripture', secondary_issues: 'family_view'
+    }
+  },
+  lutheran: {
+    label: 'Lutheran',
+    profile: {
+      biblical_authority: 'inerrant', bible_translation: 'ESV', creation_view: 'open', baptism: 'infant',
+      lords_supper: 'real_presence', spiritual_gifts: 'open_but_cautious', eschatology: 'amillennial',
+      moral_framework: 'biblical', secondary_issues: 'family_view'
+    }
+  },
+  pentecostal: {
+    label: 'Pentecostal',
+    profile: {
+      biblical_authority: 'inerrant', bible_translation: 'NIV', creation_view: 'open', baptism: 'believers',
+      lords_supper: 'memorial', spiritual_gifts: 'continuationist', eschatology: 'dispensational_premillennial',
+      moral_framework: 'biblical', life_purpose: 'glorify_god', secondary_issues: 'family_view'
+    }
+  },
+  'non-denominational': {
+    label: 'Non-denominational',
+    profile: {
+      biblical_authority: 'inerrant', bible_translation: 'NIV', creation_view: 'open', baptism: 'believers',
+      lords_supper: 'memorial', spiritual_gifts: 'open_but_cautious', eschatology: 'open',
+      moral_framework: 'biblical', life_purpose: 'glorify_god', secondary_issues: 'charitable_overview'
+    }
+  }
+};
+
+// parental_controls.theological_perspective: a tradition, or the original generic default
+export const DEFAULT_PERSPECTIVE = 'conservative-christian';
+export const PERSPECTIVE_LABELS: Record<string, string> = {
+  [DEFAULT_PERSPECTIVE]: 'Conservative Christian',
+  ...Object.fromEntries(TRADITION_IDS.map(id => [id, TRADITIONS[id].label]))
+};
+
+// Keys and values from before the schema, still found in saved GPTs and packages
+const LEGACY_KEYS: Record<string, ProfileFieldKey> = { creation_vs_evolution: 'creation_view' };
+const LEGACY_VALUES: Partial<Record<ProfileFieldKey, Record<string, string>>> = {
+  biblical_authority: { high: 'inerrant' },
+  creation_view: { young_earth_creationism: 'young_earth', old_earth_creationism: 'old_earth', theistic_evolution: 'evolutionary_creation' }
+};
+
+const FIELD_KEYS = Object.keys(PROFILE_FIELDS) as ProfileFieldKey[];
+
+export function isTheologicalPerspective(value: unknown): value is string {
+  return typeof value === 'string' && value in PERSPECTIVE_LABELS;
+}
+
+function isTradition(value: unknown): value is TraditionId {
+  return TRADITION_IDS.includes(value as TraditionId);
+}
+
+function canonicalEntry(key: string, value: unknown): [ProfileFieldKey, unknown] {
+  const field = LEGACY_KEYS[key] || key as ProfileFieldKey;
+  return [field, LEGACY_VALUES[field]?.[value as string] ?? value];
+}
+
+// Validates theological values from a request or package, accepting the older keys and values.
+// The result has the schema's key order, so equal profiles serialize identically.
+export function validateTheologicalProfile(input: unknown): { profile: TheologicalProfile } | { error: string } {
+  if (input === null || input === undefined) {
+    return { profile: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Theological values must be an object' };
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'tradition') {
+      if (!isTradition(value)) {
+        return { error: `tradition must be one of ${TRADITION_IDS.join(', ')}` };
+      }
+      values.tradition = value;
+      continue;
+    }
+
+    const [field, canonical] = canonicalEntry(key, value);
+    const definition: ProfileField | undefined = (PROFILE_FIELDS as Record<string, ProfileField>)[field];
+    if (!definition) {
+      return { error: `Unknown theological value "${key}". Use tradition or ${FIELD_KEYS.join(', ')}` };
+    }
+    if (typeof canonical !== 'string' || !(canonical in definition.options)) {
+      return { error: `${field} must be one of ${Object.keys(definition.options).join(', ')}` };
+    }
+    values[field] = canonical;
+  }
+
+  const profile: TheologicalProfile = {};
+  if (values.tradition) {
+    profile.tradition = values.tradition as TraditionId;
+  }
+  for (const key of FIELD_KEYS) {
+    if (values[key] !== undefined) {
+      profile[key] = values[key] as string;
+    }
+  }
+  return { profile };
+}
+
+// For saved GPTs: whatever still fits the schema. Values saved before validation that don't fit are left out.
+export function normalizeTheologicalProfile(raw: unknown): TheologicalProfile {
+  let input = raw;
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return {};
+  }
+
+  const profile: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    const single = validateTheologicalProfile({ [key]: value });
+    if ('profile' in single) {
+      Object.assign(profile, single.profile);
+    }
+  }
+  // Every entry passed on its own, so this only restores the schema's key order
+  return (validateTheologicalProfile(profile) as { profile: TheologicalProfile }).profile;
+}
+
+// The GPT's tradition, or failing that the family's, fills in what the GPT leaves unset
+export function resolveTheologicalProfile(profile: TheologicalProfile, perspective: string | null | undefined) {
+  const tradition = profile.tradition || (isTradition(perspective) ? perspective : null);
+  const values: Partial<Record<ProfileFieldKey, string>> = { ...(tradition ? TRADITIONS[tradition].profile : {}) };
+  for (const key of FIELD_KEYS) {
+    if (profile[key]) {
+      values[key] = profile[key];
+    }
+  }
+  return { tradition, values };
+}
+
+export function compileTheologicalProfile(profile: TheologicalProfile, perspective: string | null | undefined): string {
+  const { tradition, values } = resolveTheologicalProfile(profile, perspective);
+  const label = tradition
+    ? TRADITIONS[tradition].label
+    : PERSPECTIVE_LABELS[perspective || DEFAULT_PERSPECTIVE] || PERSPECTIVE_LABELS[DEFAULT_PERSPECTIVE];
+
+  const lines = [`THEOLOGICAL PERSPECTIVE: ${label}`];
+  for (const key of FIELD_KEYS) {
+    const value = values[key];
+    if (value) {
+      const field: ProfileField = PROFILE_FIELDS[key];
+      lines.push(`- ${field.label}: ${field.options[value].prompt}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// The schema and presets as served to the dashboard
+export function theologySchema() {
+  return {
+    fields: FIELD_KEYS.map(key => {
+      const field: ProfileField = PROFILE_FIELDS[key];
+      return {
+        key,
+        label: field.label,
+        options: Object.entries(field.options).map(([value, option]) => ({ value, label: option.label }))
+      };
+    }),
+    traditions: TRADITION_IDS.map(id => ({ id, label: TRADITIONS[id].label, profile: TRADITIONS[id].profile })),
+    perspectives: Object.entries(PERSPECTIVE_LABELS).map(([id, label]) => ({ id, label }))
+  };
+}
@@ -0,0 +1,192 @@
+// Topic Service for Teen AI Platform
+// Classifies teen messages against the family's topic taxonomy and enforces parental_controls.allowed_topics
+
+import { LLMProvider } from './llmService'
+
+export interface TopicDefinition {
+  label: string;
+  keywords: string[]; // Words and short phrases, matched on word boundaries
+}
+
+// Educational topics parents usually allow, plus the common off-topic areas so
+// that idle chat is recognised as such instead of passing as "unclassified"
+export const TOPIC_TAXONOMY: Record<string, TopicDefinition> = {
+  'bible-study': {
+    label: 'Bible study',
+    keywords: ['bible', 'scripture', 'verse', 'gospel', 'jesus', 'god', 'faith', 'prayer', 'pray', 'church', 'psalm', 'proverbs', 'genesis', 'apostle', 'sermon', 'holy spirit', 'salvation', 'sin']
+  },
+  'school-help': {
+    label: 'School help',
+    keywords: ['homework', 'assignment', 'essay', 'test', 'exam', 'quiz', 'study', 'teacher', 'class', 'grade', 'math', 'algebra', 'geometry', 'calculus', 'equation', 'fraction', 'grammar', 'spelling', 'report']
+  },
+  science: {
+    label: 'Science',
+    keywords: ['science', 'biology', 'chemistry', 'physics', 'cell', 'atom', 'molecule', 'energy', 'gravity', 'planet', 'photosynthesis', 'experiment', 'ecosystem', 'evolution', 'creation', 'nature', 'space']
+  },
+  history: {
+    label: 'History',
+    keywords: ['history', 'historical', 'war', 'ancient', 'empire', 'revolution', 'president', 'civilization', 'century', 'founding fathers', 'reformation', 'medieval']
+  },
+  'current-events': {
+    label: 'Current events',
+    keywords: ['news', 'current events', 'headline', 'election', 'vote', 'voting', 'politics', 'political', 'government', 'congress', 'senate', 'supreme court', 'policy', 'economy', 'inflation', 'this week']
+  },
+  literature: {
+    label: 'Literature',
+    keywords: ['book', 'novel', 'poem', 'poetry', 'author', 'literature', 'shakespeare', 'character', 'plot', 'theme', 'story', 'chapter', 'reading']
+  },
+  'life-advice': {
+    label: 'Life advice',
+    keywords: ['advice', 'friend', 'friendship', 'parents', 'family', 'stress', 'anxious', 'worried', 'decision', 'future', 'college', 'career', 'job', 'motivation', 'habits', 'feel']
+  },
+  'creative-writing': {
+    label: 'Creative writing',
+    keywords: ['write a story', 'creative writing', 'short story', 'song lyrics', 'poem about', 'fiction']
+  },
+  gaming: {
+    label: 'Video games',
+    keywords: ['video game', 'gaming', 'fortnite', 'minecraft', 'roblox', 'xbox', 'playstation', 'nintendo', 'console', 'gamer', 'twitch']
+  },
+  entertainment: {
+    label: 'Movies, music and TV',
+    keywords: ['movie', 'film', 'tv show', 'netflix', 'youtube', 'youtuber', 'celebrity', 'singer', 'band', 'album', 'anime', 'episode']
+  },
+  sports: {
+    label: 'Sports',
+    keywords: ['sports', 'football', 'soccer', 'basketball', 'baseball', 'nba', 'nfl', 'team', 'score', 'athlete', 'workout']
+  }
+};
+
+export interface TopicResult {
+  topic: string | null; // null when nothing in the taxonomy fits
+  method: 'keyword' | 'llm';
+}
+
+export interface TopicClassifier {
+  classify(message: string): Promise<TopicResult>;
+}
+
+export interface TopicCheck {
+  topic: string | null;
+  allowed: boolean;
+  redirect?: string; // Reply to send instead when the topic isn't allowed
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const KEYWORD_PATTERNS: [string, RegExp[]][] = Object.entries(TOPIC_TAXONOMY).map(([topic, definition]) => [
+  topic,
+  definition.keywords.map(keyword => new RegExp(`\\b${escapeRegExp(keyword)}s?\\b`, 'i'))
+]);
+
+// Picks the topic with the most keyword hits; ties go to the earlier topic in the taxonomy
+export class KeywordTopicClassifier implements TopicClassifier {
+  async classify(message: string): Promise<TopicResult> {
+    let best: string | null = null;
+    let bestScore = 0;
+
+    for (const [topic, patterns] of KEYWORD_PATTERNS) {
+      const score = patterns.filter(pattern => pattern.test(message)).length;
+      if (score > bestScore) {
+        best = topic;
+        bestScore = score;
+      }
+    }
+
+    return { topic: best, method: 'keyword' };
+  }
+}
+
+// Asks the model for a single label; falls back to keywords if the call fails or the answer isn't a label
+export class LLMTopicClassifier implements TopicClassifier {
+  private fallback = new KeywordTopicClassifier();
+
+  constructor(private provider: LLMProvider) {}
+
+  async classify(message: string): Promise<TopicResult> {
+    const topics = Object.keys(TOPIC_TAXONOMY);
+
+    try {
+      const answer = await this.provider.complete(
+        [
+          {
+            role: 'system',
+            content: `Classify the user's message into exactly one of these topics: ${topics.join(', ')}. ` +
+              `Reply with the topic id only, or "none" if no topic fits (for example greetings or follow-up questions).`
+          },
+          { role: 'user', content: message }
+        ],
+        { model: this.provider.defaultModel, maxTokens: 10, temperature: 0 }
+      );
+
+      const label = answer.trim().toLowerCase().replace(/[^a-z-]/g, '');
+      if (label === 'none') {
+        return { topic: null, method: 'llm' };
+      }
+      if (topics.includes(label)) {
+        return { topic: label, method: 'llm' };
+      }
+    } catch (error) {
+      console.error('Topic classification failed:', error);
+    }
+
+    return this.fallback.classify(message);
+  }
+}
+
+export function createTopicClassifier(env: { TOPIC_CLASSIFIER?: string }, provider: LLMProvider | null): TopicClassifier {
+  return env.TOPIC_CLASSIFIER === 'llm' && provider
+    ? new LLMTopicClassifier(provider)
+    : new KeywordTopicClassifier();
+}
+
+export function parseAllowedTopics(raw: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(raw || '[]');
+    return Array.isArray(parsed) ? parsed.filter(topic => typeof topic === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Validates the allowedTopics field of /api/parental-controls
+export function validateAllowedTopics(input: any): { topics: string[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'Allowed topics must be a list' };
+  }
+  const unknown = input.filter(topic => !(topic in TOPIC_TAXONOMY));
+  if (unknown.length > 0) {
+    return { error: `Unknown topics: ${unknown.join(', ')}. Choose from ${Object.keys(TOPIC_TAXONOMY).join(', ')}` };
+  }
+  return { topics: [...new Set<string>(input)] };
+}
+
+export function topicRedirect(allowedTopics: string[]): string {
+  const labels = allowedTopics.map(topic => TOPIC_TAXONOMY[topic]?.label || topic);
+  const list = labels.length > 1
+    ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`
+    : labels[0];
+
+  return `That sounds interesting, but right now I'm here to help with ${list}. ` +
+    `Is there something from one of those areas you'd like to work on together?`;
+}
+
+// Classifies a message and checks it against the allowed topics. Messages with no
+// recognisable topic ("thanks!", "can you explain that again?") carry on the previous topic.
+export async function checkTopic(
+  classifier: TopicClassifier,
+  message: string,
+  allowedTopics: string[],
+  previousTopic: string | null = null
+): Promise<TopicCheck> {
+  const { topic: detected } = await classifier.classify(message);
+  const topic = detected || previousTopic;
+
+  if (allowedTopics.length === 0 || !topic || allowedTopics.includes(topic)) {
+    return { topic, allowed: true };
+  }
+
+  return { topic, allowed: false, redirect: topicRedirect(allowedTopics) };
+}
@@ -0,0 +1,251 @@
+// Tutoring Service for Teen AI Platform
+// Socratic tutoring mode: spots requests for homework answers, guides the teen with hints and questions instead,
+// and counts the hints given per problem
+
+import { DatabaseService } from './databaseService'
+
+export const TUTORING_MODES = ['off', 'socratic'] as const;
+export type TutoringMode = typeof TUTORING_MODES[number];
+
+// Hints before the AI may walk through a full solution, unless the parent sets hintsBeforeAnswer
+export const DEFAULT_HINTS_BEFORE_ANSWER = 3;
+const MAX_HINTS_BEFORE_ANSWER = 10;
+
+// Used when a question names no problem and the conversation has none yet
+const CURRENT_PROBLEM = 'current';
+
+export const TUTORING_SUBJECTS: Record<string, { label: string; keywords: string[] }> = {
+  math: {
+    label: 'Math',
+    keywords: ['math', 'algebra', 'geometry', 'calculus', 'trigonometry', 'equation', 'fraction', 'percent', 'solve for', 'graph', 'derivative', 'integral', 'multiply', 'divide']
+  },
+  science: {
+    label: 'Science',
+    keywords: ['science', 'biology', 'chemistry', 'physics', 'cell', 'atom', 'molecule', 'energy', 'force', 'velocity', 'photosynthesis', 'experiment', 'lab report']
+  },
+  history: {
+    label: 'History',
+    keywords: ['history', 'historical', 'war', 'empire', 'revolution', 'president', 'civilization', 'century', 'constitution']
+  },
+  english: {
+    label: 'English and writing',
+    keywords: ['essay', 'thesis', 'paragraph', 'grammar', 'poem', 'novel', 'book report', 'literature', 'reading', 'vocabulary']
+  },
+  languages: {
+    label: 'Foreign languages',
+    keywords: ['spanish', 'french', 'german', 'latin', 'greek', 'hebrew', 'translate', 'conjugate', 'conjugation']
+  },
+  other: { label: 'Other homework', keywords: [] }
+};
+
+export interface SubjectSetting {
+  mode: TutoringMode;
+  hintsBeforeAnswer?: number | null; // null: never walk through the full solution
+}
+
+export type TutoringSettings = Record<string, SubjectSetting>;
+
+export interface TutoringRequest {
+  answerSeeking: boolean;
+  problem: string | null; // "#4", or the equation in the message
+}
+
+export interface TutoringPlan {
+  subject: string;
+  problem: string;
+  hintNumber: number; // The hint this reply gives, counting from 1
+  answerAllowed: boolean; // Enough hints have been given to walk through the solution
+  answerSeeking: boolean;
+}
+
+const ANSWER_SEEKING_PATTERNS = [
+  /\b(?:just\s+)?(?:give|tell|show|send)\s+me\s+(?:the|all\s+the)\s+(?:answers?|solutions?)\b/i,
+  /\bwhat(?:'s|\s+is|\s+are)\s+the\s+(?:answers?|solutions?)\b/i,
+  /\b(?:answers?|solutions?)\s+(?:to|for)\s+(?:#|number|no\.?|problem|question|q)\s*\d/i,
+  /\b(?:solve|do|finish|answer|write)\s+(?:this|it|these|them|my\s+\w+)\s+for\s+me\b/i,
+  /\bdo\s+my\s+(?:homework|assignment|worksheet|essay)\b/i,
+  /\bwrite\s+(?:my|an?|the)\s+(?:essay|paper|report|paragraph)\b/i,
+  /\bjust\s+(?:tell|give)\s+me\b/i,
+  /\bi\s+(?:just\s+)?need\s+the\s+answers?\b/i
+];
+
+const PROBLEM_NUMBER = /(?:#|\b(?:number|no\.|problem|question|exercise|q)\s*#?)\s*(\d{1,3}[a-z]?)\b/i;
+// An equation or expression, e.g. "2x + 3 = 11"
+const EXPRESSION = /[\dxyz(][\dxyz\s+\-*/^().=×÷]{3,}[\dxyz)]/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const SUBJECT_PATTERNS: [string, RegExp[]][] = Object.entries(TUTORING_SUBJECTS).map(([subject, definition]) => [
+  subject,
+  definition.keywords.map(keyword => new RegExp(`\\b${escapeRegExp(keyword)}s?\\b`, 'i'))
+]);
+
+export function isTutoringMode(value: unknown): value is TutoringMode {
+  return TUTORING_MODES.includes(value as TutoringMode);
+}
+
+// Validates tutoringSettings from /api/parental-controls: { [subject]: { mode, hintsBeforeAnswer? } }
+export function validateTutoringSettings(input: unknown): { settings: TutoringSettings } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Tutoring settings must be an object of subject settings' };
+  }
+
+  const settings: TutoringSettings = {};
+  for (const [subject, value] of Object.entries(input)) {
+    if (!(subject in TUTORING_SUBJECTS)) {
+      return { error: `Unknown tutoring subject "${subject}". Use ${Object.keys(TUTORING_SUBJECTS).join(', ')}` };
+    }
+    const setting = value as Record<string, unknown> | null;
+    if (!setting || typeof setting !== 'object' || !isTutoringMode(setting.mode)) {
+      return { error: `${subject} needs a mode of ${TUTORING_MODES.join(' or ')}` };
+    }
+
+    const hints = setting.hintsBeforeAnswer;
+    if (hints !== undefined && hints !== null &&
+        (!Number.isInteger(hints) || (hints as number) < 0 || (hints as number) > MAX_HINTS_BEFORE_ANSWER)) {
+      return { error: `${subject} hintsBeforeAnswer must be a whole number from 0 to ${MAX_HINTS_BEFORE_ANSWER}, or null to never give the answer` };
+    }
+
+    settings[subject] = hints === undefined ? { mode: setting.mode } : { mode: setting.mode, hintsBeforeAnswer: hints as number | null };
+  }
+  return { settings };
+}
+
+export function parseTutoringSettings(raw: unknown): TutoringSettings {
+  try {
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : null;
+    const checked = validateTutoringSettings(parsed ?? {});
+    return 'settings' in checked ? checked.settings : {};
+  } catch {
+    return {};
+  }
+}
+
+// Dates like 10/19 look like division, so expressions without =, +, *, ^, × or ÷ only count in a request for the answer
+export function analyzeRequest(content: string): TutoringRequest {
+  const answerSeeking = ANSWER_SEEKING_PATTERNS.some(pattern => pattern.test(content));
+  const number = content.match(PROBLEM_NUMBER);
+  const expression = number ? null : content.match(EXPRESSION)?.[0].toLowerCase().replace(/\s+/g, '');
+  return {
+    answerSeeking,
+    problem: number
+      ? `#${number[1].toLowerCase()}`
+      : expression && (answerSeeking || /[=+*^×÷]/.test(expression)) ? expression : null
+  };
+}
+
+// The subject with the most keyword hits; ties go to the earlier subject. Equations count as math.
+export function detectSubject(content: string): string | null {
+  let best: string | null = null;
+  let bestHits = 0;
+  for (const [subject, patterns] of SUBJECT_PATTERNS) {
+    const hits = patterns.filter(pattern => pattern.test(content)).length;
+    if (hits > bestHits) {
+      best = subject;
+      bestHits = hits;
+    }
+  }
+  return best ?? (/\d\s*[+\-*/×÷^=]\s*[\dxyz(]/i.test(content) ? 'math' : null);
+}
+
+// The parent's setting for the subject wins over the GPT's mode
+export function tutoringSettingFor(gptMode: unknown, settings: TutoringSettings, subject: string) {
+  const setting = settings[subject];
+  return {
+    mode: setting?.mode ?? (isTutoringMode(gptMode) ? gptMode : 'off'),
+    hintsBeforeAnswer: setting?.hintsBeforeAnswer !== undefined ? setting.hintsBeforeAnswer : DEFAULT_HINTS_BEFORE_ANSWER
+  };
+}
+
+// Added to the system prompt for the reply
+export function tutoringPrompt(plan: TutoringPlan): string {
+  const problem = plan.problem === CURRENT_PROBLEM ? 'the problem the teen is working on' : `problem ${plan.problem}`;
+  const lines = [`TUTORING MODE (${TUTORING_SUBJECTS[plan.subject].label}):`];
+
+  if (plan.answerAllowed) {
+    lines.push(
+      `- The teen has already worked through ${plan.hintNumber - 1} hints on ${problem}.`,
+      '- You may now walk through the full solution one step at a time, asking them to confirm each step.',
+      '- Finish by asking them to explain the method in their own words.'
+    );
+    return lines.join('\n');
+  }
+
+  lines.push(
+    '- Do not give the final answer or a finished solution, even if asked directly; for writing, do not write it for them.',
+    `- This is hint ${plan.hintNumber} for ${problem}.`,
+    plan.hintNumber === 1
+      ? '- Ask what the problem is asking for and what they already know.'
+      : plan.hintNumber === 2
+        ? '- Point to the key idea or the first step, and ask them to try it.'
+        : '- Work a similar example with different numbers or a different topic, then ask them to apply it.',
+    '- If they offer an answer, say whether it is right and ask them to explain their reasoning.',
+    '- End with one question that moves them a step forward.'
+  );
+  if (plan.answerSeeking) {
+    lines.push('- They asked for the answer: kindly explain that working it out together will help them learn it.');
+  }
+  return lines.join('\n');
+}
+
+// Used when no AI provider is configured
+export function tutoringFallback(plan: TutoringPlan): string {
+  if (plan.answerAllowed) {
+    return "You've worked hard on this one! Let's go through the solution together, one step at a time. Write down the first step you would take, and I'll check it with you.";
+  }
+
+  const opener = plan.answerSeeking
+    ? "I know it's tempting to skip to the answer, but working it out together will help you really understand it (and do well on the test!). "
+    : '';
+  const hints = [
+    "Let's start with the question itself: what is it asking you to find, and what information do you already have?",
+    'Good thinking so far. What do you think the first step should be? Try it and tell me what you get.',
+    "Let's try a similar example together first. Once you see how that one works, how could you use the same steps on your problem?"
+  ];
+  return opener + hints[Math.min(plan.hintNumber, hints.length) - 1];
+}
+
+export class TutoringService {
+  constructor(private db: DatabaseService) {}
+
+  // How to tutor this message, or null when tutoring doesn't apply (the mode is off,
+  // or the message isn't asking about a problem)
+  async plan(
+    conversation: Record<string, any>, // Row from getConversationById
+    parentalControls: Record<string, any>,
+    content: string
+  ): Promise<TutoringPlan | null> {
+    const request = analyzeRequest(content);
+    if (!request.answerSeeking && !request.problem) {
+      return null;
+    }
+
+    // A follow-up like "just tell me" continues the conversation's latest problem,
+    // and questions that don't name their subject keep the subject of the homework so far
+    const latest = await this.db.getLatestTutoringProblem(conversation.id);
+    const problem = request.problem ?? (latest?.problem_key as string | undefined) ?? CURRENT_PROBLEM;
+    const existing = latest?.problem_key === problem ? latest : await this.db.getTutoringProblem(conversation.id, problem);
+    const subject = detectSubject(content) ?? (existing?.subject as string | undefined) ?? (latest?.subject as string | undefined) ?? 'other';
+
+    const setting = tutoringSettingFor(conversation.tutoring_mode, parseTutoringSettings(parentalControls.tutoring_settings), subject);
+    if (setting.mode !== 'socratic') {
+      return null;
+    }
+    const hintsGiven = (existing?.hints_given as number) || 0;
+
+    return {
+      subject,
+      problem,
+      hintNumber: hintsGiven + 1,
+      answerAllowed: setting.hintsBeforeAnswer !== null && hintsGiven >= setting.hintsBeforeAnswer,
+      answerSeeking: request.answerSeeking
+    };
+  }
+
+  // Call once the tutoring reply is saved
+  async recordHint(conversationId: string, plan: TutoringPlan) {
+    await this.db.recordTutoringHint(conversationId, plan.problem, plan.subject, !plan.answerAllowed, plan.answerSeeking);
+  }
+}
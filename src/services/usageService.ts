@@ -0,0 +1,106 @@
+// Usage Service for Teen AI Platform
+// Tracks active chat time per teen per day and enforces parental_controls.daily_time_limit
+
+import { DatabaseService } from './databaseService'
+import { fromSqlDate, generateSecureToken, toSqlDate } from './authService'
+import { isValidTimeZone, localWallClock } from './scheduleService'
+
+// Gaps longer than this between messages are treated as a break, not screen time
+const IDLE_TIMEOUT_SECONDS = 5 * 60;
+// Credited when a new stretch of activity starts (reading the reply, typing the first message)
+const SESSION_START_SECONDS = 60;
+const MAX_EXTENSION_MINUTES = 240;
+
+export interface TimeBudget {
+  usageDate: string;
+  dailyLimitMinutes: number | null; // null means no limit
+  extensionMinutes: number;
+  usedMinutes: number;
+  remainingMinutes: number | null;
+  limitReached: boolean;
+  resetsAt: string;
+}
+
+// Days roll over at local midnight in the family's timezone
+export function usageDateFor(now: Date = new Date(), timeZone: string = 'UTC'): string {
+  return localWallClock(now, timeZone).date;
+}
+
+function nextResetFor(now: Date, timeZone: string): string {
+  const reset = new Date(now.getTime() + (24 * 60 - localWallClock(now, timeZone).minuteOfDay) * 60 * 1000);
+  reset.setUTCSeconds(0, 0);
+  return reset.toISOString();
+}
+
+export function timeZoneFor(parentalControls: Record<string, any> | null): string {
+  const timeZone = parentalControls?.timezone;
+  return typeof timeZone === 'string' && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+export class UsageService {
+  constructor(private db: DatabaseService) {}
+
+  async getTimeBudget(teenId: string, parentalControls: Record<string, any> | null, now: Date = new Date()): Promise<TimeBudget> {
+    const timeZone = timeZoneFor(parentalControls);
+    const usageDate = usageDateFor(now, timeZone);
+    const activeSeconds = await this.db.getActiveSecondsForDate(teenId, usageDate);
+    const extensionMinutes = await this.db.getExtensionMinutesForDate(teenId, usageDate);
+    const usedMinutes = Math.ceil(activeSeconds / 60);
+
+    const limit = parentalControls?.daily_time_limit;
+    const dailyLimitMinutes = limit === null || limit === undefined ? null : Number(limit);
+    const remainingMinutes = dailyLimitMinutes === null
+      ? null
+      : Math.max(dailyLimitMinutes + extensionMinutes - usedMinutes, 0);
+
+    return {
+      usageDate,
+      dailyLimitMinutes,
+      extensionMinutes,
+      usedMinutes,
+      remainingMinutes,
+      limitReached: remainingMinutes !== null && remainingMinutes <= 0,
+      resetsAt: nextResetFor(now, timeZone)
+    };
+  }
+
+  // Call once per teen interaction; extends the current stretch or starts a new one
+  async recordActivity(teenId: string, parentalControls: Record<string, any> | null, now: Date = new Date()): Promise<void> {
+    const usageDate = usageDateFor(now, timeZoneFor(parentalControls));
+    const latest = await this.db.getLatestUsageSession(teenId, usageDate);
+
+    if (latest) {
+      const idleSeconds = Math.floor((now.getTime() - fromSqlDate(latest.last_activity_at as string).getTime()) / 1000);
+      if (idleSeconds >= 0 && idleSeconds <= IDLE_TIMEOUT_SECONDS) {
+        await this.db.extendUsageSession(latest.id as string, idleSeconds, toSqlDate(now));
+        return;
+      }
+    }
+
+    await this.db.createUsageSession({
+      id: generateSecureToken(12),
+      teenId,
+      usageDate,
+      startedAt: toSqlDate(now),
+      activeSeconds: SESSION_START_SECONDS
+    });
+  }
+
+  async grantExtension(
+    parentId: string,
+    teenId: string,
+    minutes: number,
+    reason: string | null,
+    parentalControls: Record<string, any> | null,
+    now: Date = new Date()
+  ) {
+    if (!Number.isInteger(minutes) || minutes <= 0 || minutes > MAX_EXTENSION_MINUTES) {
+      throw new RangeError(`Extension must be between 1 and ${MAX_EXTENSION_MINUTES} minutes`);
+    }
+
+    const usageDate = usageDateFor(now, timeZoneFor(parentalControls));
+    const id = generateSecureToken(12);
+    await this.db.createTimeExtension({ id, parentId, teenId, usageDate, minutes, reason });
+    return { id, usageDate, minutes };
+  }
+}
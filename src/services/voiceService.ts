@@ -0,0 +1,254 @@
+// Voice Service for Teen AI Platform
+// Speech-to-text and text-to-speech behind pluggable providers, with recordings kept in object storage
+
+import { DatabaseService } from './databaseService'
+
+export const VOICE_PROVIDER_NAMES = ['openai', 'mock'] as const;
+export type VoiceProviderName = typeof VOICE_PROVIDER_NAMES[number];
+
+export const MAX_AUDIO_BYTES = 5 * 1024 * 1024;
+export const ACCEPTED_AUDIO_TYPES = ['audio/webm', 'audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/x-wav'];
+
+const MAX_SPEECH_CHARS = 4000; // OpenAI's speech endpoint takes at most 4096
+
+export interface AudioClip {
+  data: ArrayBuffer;
+  mimeType: string;
+}
+
+// What a request used, for metering: seconds of audio transcribed or characters spoken
+export interface SpeechUsage {
+  model: string;
+  seconds?: number;
+  characters?: number;
+}
+
+export type SpeechUsageListener = (usage: SpeechUsage) => void | Promise<void>;
+
+export interface SpeechToTextProvider {
+  readonly name: VoiceProviderName;
+  transcribe(clip: AudioClip, onUsage?: SpeechUsageListener): Promise<string>;
+}
+
+export interface TextToSpeechProvider {
+  readonly name: VoiceProviderName;
+  synthesize(text: string, onUsage?: SpeechUsageListener): Promise<AudioClip>;
+}
+
+export interface AudioStore {
+  put(key: string, clip: AudioClip): Promise<void>;
+  get(key: string): Promise<AudioClip | null>;
+}
+
+function fileExtension(mimeType: string): string {
+  const subtype = mimeType.split(';')[0].split('/')[1] || 'webm';
+  return { mpeg: 'mp3', 'x-wav': 'wav' }[subtype] || subtype;
+}
+
+// Validates an uploaded recording from the voice message form
+export async function readRecording(file: unknown): Promise<{ clip: AudioClip } | { error: string }> {
+  if (!(file instanceof File)) {
+    return { error: 'Attach the recording as the "audio" field' };
+  }
+
+  const mimeType = file.type.split(';')[0];
+  if (!ACCEPTED_AUDIO_TYPES.includes(mimeType)) {
+    return { error: `Unsupported audio format. Use one of ${ACCEPTED_AUDIO_TYPES.join(', ')}` };
+  }
+  if (file.size === 0) {
+    return { error: 'The recording is empty' };
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    return { error: 'The recording is too long. Keep voice messages under 5 MB' };
+  }
+
+  return { clip: { data: await file.arrayBuffer(), mimeType } };
+}
+
+// Whisper and the speech endpoint on OpenAI or any server that mirrors its audio API
+export class OpenAISpeechProvider implements SpeechToTextProvider, TextToSpeechProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private apiKey?: string,
+    private baseUrl: string = 'https://api.openai.com/v1',
+    private voice: string = 'nova'
+  ) {}
+
+  async transcribe(clip: AudioClip, onUsage?: SpeechUsageListener): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([clip.data], { type: clip.mimeType }), `recording.${fileExtension(clip.mimeType)}`);
+    form.append('model', 'whisper-1');
+    form.append('response_format', 'verbose_json'); // Adds the duration, which is what transcription costs
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+      body: form
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI transcription error: ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    // Servers that leave out the duration are assumed to get about 16 KB of audio per second
+    await onUsage?.({ model: 'whisper-1', seconds: Number(data.duration) || clip.data.byteLength / 16000 });
+    return (data.text || '').trim();
+  }
+
+  async synthesize(text: string, onUsage?: SpeechUsageListener): Promise<AudioClip> {
+    const input = text.slice(0, MAX_SPEECH_CHARS);
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/audio/speech`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: 'tts-1',
+        voice: this.voice,
+        input,
+        response_format: 'mp3'
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI speech error: ${response.status}`);
+    }
+
+    await onUsage?.({ model: 'tts-1', characters: input.length });
+    return { data: await response.arrayBuffer(), mimeType: 'audio/mpeg' };
+  }
+}
+
+// Offline stand-in: "transcribes" a recording by reading its bytes as UTF-8 text,
+// so a text file can be uploaded as a recording, and speaks in silence
+export class MockSpeechProvider implements SpeechToTextProvider, TextToSpeechProvider {
+  readonly name = 'mock' as const;
+
+  async transcribe(clip: AudioClip, onUsage?: SpeechUsageListener): Promise<string> {
+    const text = new TextDecoder().decode(clip.data).trim();
+    await onUsage?.({ model: 'mock', seconds: text.split(/\s+/).length / 3 });
+    return text;
+  }
+
+  async synthesize(text: string, onUsage?: SpeechUsageListener): Promise<AudioClip> {
+    // 8 kHz, 8-bit mono WAV of silence, about a third of a second per word (10 seconds at most)
+    const words = text.trim().split(/\s+/).length;
+    const samples = Math.min(words * 2700, 80000);
+    await onUsage?.({ model: 'mock', characters: text.length });
+    const buffer = new ArrayBuffer(44 + samples);
+    const view = new DataView(buffer);
+    const writeText = (offset: number, value: string) =>
+      [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+    writeText(0, 'RIFF');
+    view.setUint32(4, 36 + samples, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, 8000, true);
+    view.setUint32(28, 8000, true);
+    view.setUint16(32, 1, true);
+    view.setUint16(34, 8, true);
+    writeText(36, 'data');
+    view.setUint32(40, samples, true);
+    new Uint8Array(buffer, 44).fill(128); // Silence in unsigned 8-bit PCM
+
+    return { data: buffer, mimeType: 'audio/wav' };
+  }
+}
+
+// Cloudflare R2. Under `wrangler pages dev` the bucket is simulated on the local
+// filesystem (.wrangler/state), so local development needs no R2 account.
+export class R2AudioStore implements AudioStore {
+  constructor(private bucket: R2Bucket) {}
+
+  async put(key: string, clip: AudioClip): Promise<void> {
+    await this.bucket.put(key, clip.data, { httpMetadata: { contentType: clip.mimeType } });
+  }
+
+  async get(key: string): Promise<AudioClip | null> {
+    const object = await this.bucket.get(key);
+    if (!object) {
+      return null;
+    }
+    return {
+      data: await object.arrayBuffer(),
+      mimeType: object.httpMetadata?.contentType || 'application/octet-stream'
+    };
+  }
+}
+
+type VoiceEnv = {
+  VOICE_PROVIDER?: string;
+  TTS_VOICE?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+};
+
+// VOICE_PROVIDER picks the provider; without it, OpenAI is used when a key is set.
+// Returns null when voice isn't configured.
+export function createSpeechProvider(env: VoiceEnv): (SpeechToTextProvider & TextToSpeechProvider) | null {
+  const name = env.VOICE_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : null);
+
+  switch (name) {
+    case 'openai':
+      return env.OPENAI_API_KEY || env.OPENAI_BASE_URL
+        ? new OpenAISpeechProvider(env.OPENAI_API_KEY, env.OPENAI_BASE_URL || undefined, env.TTS_VOICE || undefined)
+        : null;
+    case 'mock':
+      return new MockSpeechProvider();
+    default:
+      return null;
+  }
+}
+
+export function createAudioStore(env: { AUDIO?: R2Bucket }): AudioStore | null {
+  return env.AUDIO ? new R2AudioStore(env.AUDIO) : null;
+}
+
+export class VoiceService {
+  // Without a text-to-speech provider replies are returned as text only and the
+  // browser reads them aloud itself. onUsage meters both directions (see MeteringService).
+  constructor(
+    private db: DatabaseService,
+    private store: AudioStore,
+    private stt: SpeechToTextProvider,
+    private tts: TextToSpeechProvider | null,
+    private onUsage?: SpeechUsageListener
+  ) {}
+
+  async transcribe(clip: AudioClip): Promise<string> {
+    return this.stt.transcribe(clip, this.onUsage);
+  }
+
+  // Stores a message's audio and points messages.audio_url at it
+  async attachAudio(conversationId: string, messageId: string, clip: AudioClip): Promise<string> {
+    const audioUrl = `/api/messages/${messageId}/audio`;
+    await this.store.put(audioKey(conversationId, messageId), clip);
+    await this.db.setMessageAudioUrl(messageId, audioUrl);
+    return audioUrl;
+  }
+
+  // Synthesizes and stores a reply. A failure here shouldn't lose the turn, so it returns null instead of throwing.
+  async speak(conversationId: string, messageId: string, text: string): Promise<string | null> {
+    if (!this.tts) {
+      return null;
+    }
+
+    try {
+      return await this.attachAudio(conversationId, messageId, await this.tts.synthesize(text, this.onUsage));
+    } catch (error) {
+      console.error(`${this.tts.name} speech error:`, error);
+      return null;
+    }
+  }
+}
+
+export function audioKey(conversationId: string, messageId: string): string {
+  return `conversations/${conversationId}/${messageId}`;
+}
@@ -0,0 +1,150 @@
+// Web Push Service for Teen AI Platform
+// Sends encrypted push messages (RFC 8291) authenticated with VAPID (RFC 8292) using only Web Crypto
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string; // Browser's public key, base64url
+  auth: string; // Browser's auth secret, base64url
+}
+
+export interface VapidKeys {
+  publicKey: string; // Uncompressed P-256 point, base64url (as printed by `npx web-push generate-vapid-keys`)
+  privateKey: string; // 32-byte private scalar, base64url
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export class PushSubscriptionGoneError extends Error {
+  constructor(status: number) {
+    super(`Push subscription expired (${status})`);
+    this.name = 'PushSubscriptionGoneError';
+  }
+}
+
+const RECORD_SIZE = 4096;
+
+export function base64UrlEncode(bytes: ArrayBuffer | Uint8Array): string {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  array.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+// Checks that a subscription from PushManager.subscribe() has usable keys
+export function isValidSubscription(keys: PushSubscriptionKeys): boolean {
+  try {
+    return /^https:\/\//.test(keys.endpoint) &&
+      base64UrlDecode(keys.p256dh).length === 65 &&
+      base64UrlDecode(keys.auth).length === 16;
+  } catch {
+    return false;
+  }
+}
+
+// aes128gcm content coding with a single record
+export async function encryptPayload(keys: PushSubscriptionKeys, payload: string): Promise<Uint8Array> {
+  const clientPublicKey = base64UrlDecode(keys.p256dh);
+  const authSecret = base64UrlDecode(keys.auth);
+
+  const serverKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const serverPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey) as ArrayBuffer);
+  const clientKey = await crypto.subtle.importKey('raw', clientPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: clientKey } as any, serverKeys.privateKey, 256)
+  );
+
+  const encoder = new TextEncoder();
+  const ikm = await hkdf(authSecret, sharedSecret, concat(encoder.encode('WebPush: info\0'), clientPublicKey, serverPublicKey), 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2])); // 2 marks the last record
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, plaintext));
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = serverPublicKey.length;
+
+  return concat(header, serverPublicKey, ciphertext);
+}
+
+async function vapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const signingKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+      d: vapid.privateKey
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  const encoder = new TextEncoder();
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject
+  })));
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey,
+    encoder.encode(`${header}.${claims}`)
+  );
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+export async function sendPushMessage(
+  keys: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidKeys,
+  options: { urgency?: 'high' | 'normal'; ttlSeconds?: number } = {}
+): Promise<void> {
+  const response = await fetch(keys.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': await vapidAuthorization(keys.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(options.ttlSeconds ?? 24 * 60 * 60),
+      'Urgency': options.urgency || 'normal'
+    },
+    body: await encryptPayload(keys, payload)
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    throw new PushSubscriptionGoneError(response.status);
+  }
+  if (!response.ok) {
+    throw new Error(`Push service error: ${response.status}`);
+  }
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { AlertNotification, WebhookAlertTransport, signWebhookPayload } from '../src/services/alertService'
+import { timingSafeEqual } from '../src/services/authService'
+
+const notification: AlertNotification = {
+  event: 'safety_alert',
+  alerts: [{
+    id: 'alert_1',
+    teenName: 'Sam',
+    alertType: 'self_harm',
+    reason: 'Self-harm language',
+    conversationTitle: 'Homework',
+    createdAt: '2026-10-01 12:00:00'
+  }],
+  dashboardUrl: 'https://app.example.com/'
+};
+
+const channel = { type: 'webhook' as const, target: 'https://hooks.example.com/alerts', secret: 'shh' };
+
+describe('WebhookAlertTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the signed notification without following redirects', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetch);
+
+    await new WebhookAlertTransport().deliver(channel, notification, 'delivery_1');
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(channel.target);
+    expect(init.redirect).toBe('manual');
+
+    const headers = init.headers as Record<string, string>;
+    const [, timestamp, signature] = headers['X-Alert-Signature'].match(/^t=(\d+),v1=([0-9a-f]+)$/)!;
+    expect(signature).toBe(await signWebhookPayload('shh', Number(timestamp), init.body as string));
+  });
+
+  it('fails a delivery that is redirected', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 302, headers: { Location: 'https://elsewhere.example.com/' } })));
+
+    await expect(new WebhookAlertTransport().deliver(channel, notification, 'delivery_1')).rejects.toThrow('Webhook redirected (302)');
+  });
+
+  it('fails a delivery the endpoint rejects', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 500 })));
+
+    await expect(new WebhookAlertTransport().deliver(channel, notification, 'delivery_1')).rejects.toThrow('Webhook responded 500');
+  });
+});
+
+describe('timingSafeEqual', () => {
+  const bytes = (text: string) => new TextEncoder().encode(text);
+
+  it('matches only identical secrets', () => {
+    expect(timingSafeEqual(bytes('dispatch-secret'), bytes('dispatch-secret'))).toBe(true);
+    expect(timingSafeEqual(bytes('dispatch-secret'), bytes('dispatch-secreT'))).toBe(false);
+    expect(timingSafeEqual(bytes('dispatch-secret'), bytes('dispatch'))).toBe(false);
+    expect(timingSafeEqual(bytes('dispatch'), bytes('dispatch-secret'))).toBe(false);
+  });
+});
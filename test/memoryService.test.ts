@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ChatService } from '../src/services/chatService'
+import { DatabaseService } from '../src/services/databaseService'
+import { RECENT_MESSAGES, fitHistory } from '../src/services/memoryService'
+import { chatContext, createFamily, createTestDatabase, startConversation } from './support/database'
+import { RecordingProvider } from './support/providers'
+
+describe('fitHistory', () => {
+  const message = (content: string) => ({ role: 'user', content });
+
+  it('keeps the newest messages that fit the budget', () => {
+    const messages = [message('a'.repeat(40)), message('b'.repeat(40)), message('c'.repeat(40))];
+    expect(fitHistory(messages, 20)).toEqual(messages.slice(1));
+    expect(fitHistory(messages, 30)).toEqual(messages);
+    expect(fitHistory(messages, 5)).toEqual([]);
+  });
+});
+
+describe('conversation history sent to the AI', () => {
+  let db: DatabaseService;
+  let dispose: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ db, dispose } = await createTestDatabase());
+  });
+
+  afterEach(async () => {
+    await dispose();
+  });
+
+  it('covers every earlier message with the summary or the history', async () => {
+    const { teenIds: [teenId], gptId } = await createFamily(db);
+    const conversationId = await startConversation(db, teenId, gptId);
+    const provider = new RecordingProvider();
+    const chat = new ChatService(db, provider);
+
+    for (let turn = 1; turn <= 16; turn++) {
+      const state = (await db.getConversationMemoryState(conversationId))!;
+      await chat.respond(await chatContext(db, teenId, conversationId), `Question ${turn} about the Psalms`);
+
+      const reply = provider.requests.find(messages => messages[messages.length - 1].content === `Question ${turn} about the Psalms`)!;
+      const history = reply.slice(1, -1);
+      expect(history.length).toBe((state.message_count as number) - (state.summarized_messages as number));
+      expect(history.length).toBeGreaterThanOrEqual(Math.min(state.message_count as number, RECENT_MESSAGES));
+      if (state.summarized_messages) {
+        expect(reply[0].content).toContain('EARLIER IN THIS CONVERSATION:');
+      }
+    }
+
+    // 32 messages: two batches of 10 summarized, and the 12 newest still word for word
+    expect(await db.getConversationMemoryState(conversationId)).toMatchObject({ message_count: 32, summarized_messages: 20 });
+  });
+});
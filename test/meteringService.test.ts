@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ChatService } from '../src/services/chatService'
+import { DatabaseService } from '../src/services/databaseService'
+import { GenerationSettings, LLMMessage, MockProvider, UsageListener } from '../src/services/llmService'
+import { MeteringService, UsageAccount, speechCostMicros } from '../src/services/meteringService'
+import { MockSpeechProvider } from '../src/services/voiceService'
+import { chatContext, createFamily, createTestDatabase, startConversation } from './support/database'
+
+// Streams a reply that turns unsafe part-way, and like the real providers only reports usage at the end
+class UnsafeStreamProvider extends MockProvider {
+  readonly defaultModel = 'gpt-4o-mini';
+  reportedUsage = false;
+
+  async *stream(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): AsyncGenerator<string> {
+    yield 'That sounds like a fun weekend. ';
+    yield 'You should try some drugs while you are there. ';
+    yield 'Have a great time!';
+    this.reportedUsage = true;
+    await onUsage?.({ model: settings.model, promptTokens: 500, completionTokens: 30 });
+  }
+}
+
+// Drops the connection after the first sentence
+class FailingStreamProvider extends MockProvider {
+  async *stream(): AsyncGenerator<string> {
+    yield 'Grace is a gift we do not earn. ';
+    throw new Error('Connection reset');
+  }
+}
+
+describe('speechCostMicros', () => {
+  it('prices transcription by the minute and speech by the character', () => {
+    expect(speechCostMicros({ model: 'whisper-1', seconds: 60 })).toBe(6000);
+    expect(speechCostMicros({ model: 'tts-1', characters: 1000 })).toBe(15000);
+    expect(speechCostMicros({ model: 'tts-1-hd', characters: 1000 })).toBe(30000);
+    expect(speechCostMicros({ model: 'mock', seconds: 60, characters: 1000 })).toBe(0);
+  });
+});
+
+describe('MeteringService', () => {
+  let db: DatabaseService;
+  let dispose: () => Promise<void>;
+  let metering: MeteringService;
+  let account: UsageAccount;
+
+  beforeEach(async () => {
+    ({ db, dispose } = await createTestDatabase());
+    metering = new MeteringService(db);
+
+    const { parentId, teenIds: [teenId], gptId } = await createFamily(db);
+    const conversationId = await startConversation(db, teenId, gptId);
+    account = { parentId, teenId, customGptId: gptId, conversationId };
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await dispose();
+  });
+
+  it('meters a streamed reply that the output check cuts off', async () => {
+    const upstream = new UnsafeStreamProvider();
+    const provider = await metering.providerFor(upstream, account);
+    const chat = new ChatService(db, provider);
+
+    const events = [];
+    for await (const event of chat.respondStream(await chatContext(db, account.teenId, account.conversationId), 'I am going camping this weekend')) {
+      events.push(event);
+    }
+
+    expect(events.some(event => event.type === 'replace')).toBe(true);
+    expect(upstream.reportedUsage).toBe(false);
+
+    const report = await metering.report(account.parentId);
+    expect(report.totals.requests).toBe(1);
+    expect(report.totals.promptTokens).toBeGreaterThan(0);
+    // Only what was generated before the cut: the first two chunks
+    expect(report.totals.completionTokens).toBe(Math.ceil('That sounds like a fun weekend. You should try some drugs while you are there. '.length / 4));
+    expect(report.totals.costUsd).toBeGreaterThan(0);
+
+    // The replaced reply carries the same estimate
+    const messages = (await db.getMessagesPage(account.conversationId, 0, 10)).results || [];
+    expect(messages.find(message => message.role === 'assistant')).toMatchObject({
+      model: 'gpt-4o-mini',
+      completion_tokens: report.totals.completionTokens
+    });
+  });
+
+  it('saves and meters a streamed reply when the connection drops part-way', async () => {
+    const provider = await metering.providerFor(new FailingStreamProvider(), account);
+    const chat = new ChatService(db, provider);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const events = [];
+    for await (const event of chat.respondStream(await chatContext(db, account.teenId, account.conversationId), 'What is grace?')) {
+      events.push(event);
+    }
+
+    const done = events.find(event => event.type === 'done');
+    expect(done?.type === 'done' && done.turn.aiMessage.content).toBe('Grace is a gift we do not earn. ');
+
+    const messages = (await db.getMessagesPage(account.conversationId, 0, 10)).results || [];
+    expect(messages.map(message => message.role).sort()).toEqual(['assistant', 'user']);
+
+    const report = await metering.report(account.parentId);
+    expect(report.totals.requests).toBe(1);
+    expect(report.totals.completionTokens).toBe(Math.ceil('Grace is a gift we do not earn. '.length / 4));
+  });
+
+  it('uses the usage the provider reports when the stream finishes', async () => {
+    const provider = await metering.providerFor(new MockProvider(), account);
+
+    let text = '';
+    for await (const delta of provider!.stream([{ role: 'user', content: 'Hello' }], { model: 'mock-1', maxTokens: 100, temperature: 0.7 })) {
+      text += delta;
+    }
+
+    const report = await metering.report(account.parentId);
+    expect(report.totals.requests).toBe(1);
+    expect(report.totals.completionTokens).toBe(Math.ceil(text.length / 4));
+  });
+
+  it('records speech against the family budget', async () => {
+    const listener = await metering.speechListenerFor(account);
+    await listener!({ model: 'whisper-1', seconds: 30 });
+    await listener!({ model: 'tts-1', characters: 200 });
+
+    const report = await metering.report(account.parentId);
+    expect(report.totals.requests).toBe(2);
+    expect(report.byModel.map(row => row.model).sort()).toEqual(['tts-1', 'whisper-1']);
+    expect(report.budget.spentUsd).toBe((3000 + 3000) / 1_000_000);
+  });
+
+  it('reports speech through the voice providers', async () => {
+    const usage: unknown[] = [];
+    const speech = new MockSpeechProvider();
+    await speech.transcribe({ data: new TextEncoder().encode('what is grace').buffer as ArrayBuffer, mimeType: 'audio/webm' }, u => { usage.push(u); });
+    await speech.synthesize('Grace is a gift.', u => { usage.push(u); });
+
+    expect(usage).toEqual([{ model: 'mock', seconds: 1 }, { model: 'mock', characters: 16 }]);
+  });
+
+  it('stops speech once the cap is reached', async () => {
+    await metering.saveBudget(account.parentId, 0, 80);
+    expect(await metering.speechListenerFor(account)).toBeNull();
+    expect(await metering.providerFor(new MockProvider(), account)).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CATEGORY_POLICIES,
+  CategoryOverrides,
+  DANGEROUS_BEHAVIOR_PACK,
+  FILTER_LEVELS,
+  SELF_HARM_PACK,
+  SENSITIVE_TOPICS_PACK,
+  SafetyPolicy,
+  categoryPolicyFor,
+  checkContentSafety,
+  compileRulePack,
+  validateCategoryOverrides
+} from '../src/services/safetyService'
+
+describe('built-in rule packs', () => {
+  it.each([SELF_HARM_PACK, DANGEROUS_BEHAVIOR_PACK, SENSITIVE_TOPICS_PACK])('compiles the $name pack', pack => {
+    expect(compileRulePack(pack)).toHaveLength(pack.rules.length);
+  });
+
+  it('blocks self-harm language with the self-harm pack alone', () => {
+    const policy = new SafetyPolicy([SELF_HARM_PACK]);
+
+    expect(policy.evaluate('Sometimes I want to kill myself', { filterLevel: 'basic' })).toMatchObject({
+      action: 'block',
+      category: 'self_harm',
+      severity: 'critical',
+      alertType: 'self_harm'
+    });
+    expect(policy.evaluate("I've been starving myself before meets")).toMatchObject({ action: 'block', category: 'self_harm' });
+    expect(policy.evaluate('Can you help me cut my essay down to 500 words?')).toEqual({ action: 'allow', isSafe: true, matches: [] });
+  });
+
+  it('catches threats, substances and strangers with the dangerous-behavior pack alone', () => {
+    const policy = new SafetyPolicy([DANGEROUS_BEHAVIOR_PACK]);
+
+    expect(policy.evaluate("I'm going to bring a gun to school", { filterLevel: 'basic' })).toMatchObject({
+      action: 'block',
+      category: 'threats',
+      alertType: 'dangerous_behavior'
+    });
+    expect(policy.evaluate('Where can I buy weed?', { filterLevel: 'basic' })).toMatchObject({ action: 'block', category: 'substances', severity: 'high' });
+    expect(policy.evaluate('I want to meet someone from online')).toMatchObject({ action: 'block', category: 'strangers' });
+    expect(policy.evaluate('Sometimes I want to kill myself').matches).toEqual([]);
+    expect(policy.evaluate('We are reading about the Gunpowder Plot').matches).toEqual([]);
+  });
+
+  it('redirects sensitive topics with the sensitive-topics pack alone', () => {
+    const policy = new SafetyPolicy([SENSITIVE_TOPICS_PACK]);
+
+    expect(policy.evaluate('I have a crush on someone in my class')).toMatchObject({
+      action: 'redirect',
+      category: 'romance',
+      alertType: 'inappropriate_content'
+    });
+    expect(policy.evaluate('What is the crux of the argument?').matches).toEqual([]);
+  });
+
+  it('rejects malformed packs', () => {
+    const rule = { id: 'test.rule', category: 'violence', reason: 'Test', patterns: ['test'], severity: 'low', alertType: 'inappropriate_content' } as const;
+
+    expect(() => compileRulePack({ name: 'test', rules: [rule, rule] })).toThrow('duplicate rule id "test.rule"');
+    expect(() => compileRulePack({ name: 'test', rules: [{ ...rule, category: 'gossip' }] })).toThrow('unknown category "gossip"');
+    expect(() => compileRulePack({ name: 'test', rules: [{ ...rule, patterns: [] }] })).toThrow('needs at least one pattern or keyword');
+  });
+});
+
+describe('per-level category policies', () => {
+  const policy = new SafetyPolicy();
+
+  it('defines every filter level for every category', () => {
+    for (const definition of Object.values(CATEGORY_POLICIES)) {
+      expect(Object.keys(definition.levels).sort()).toEqual([...FILTER_LEVELS].sort());
+    }
+  });
+
+  it.each([
+    // content, strict, moderate, basic
+    ['Is one beer at a party a big deal?', 'block', 'allow', 'allow'],
+    ['My friends keep vaping at lunch', 'block', 'block', 'allow'],
+    ['What does cocaine do to your brain?', 'block', 'block', 'block'],
+    ['Why is there so much fighting in the Old Testament?', 'redirect', 'allow', 'allow'],
+    ['That movie was really gory', 'redirect', 'redirect', 'allow'],
+    ['Should I get a girlfriend?', 'redirect', 'allow', 'allow'],
+    ['How do I lose weight fast?', 'redirect', 'redirect', 'allow'],
+    ['Everyone at school is on tiktok', 'redirect', 'allow', 'allow'],
+    ['Is sexting a sin?', 'block', 'block', 'block'],
+    ['I keep thinking about running away', 'block', 'block', 'block'],
+    ['I want to hurt myself', 'block', 'block', 'block']
+  ])('%s: %s / %s / %s', (content, strict, moderate, basic) => {
+    expect(policy.evaluate(content, { filterLevel: 'strict' }).action).toBe(strict);
+    expect(policy.evaluate(content, { filterLevel: 'moderate' }).action).toBe(moderate);
+    expect(policy.evaluate(content, { filterLevel: 'basic' }).action).toBe(basic);
+  });
+
+  it('treats an unknown filter level as strict', () => {
+    expect(policy.evaluate('Is one beer at a party a big deal?', { filterLevel: 'lenient' }).action).toBe('block');
+  });
+
+  it('applies a parent override to an unlocked category', () => {
+    const overrides: CategoryOverrides = { substances: { action: 'allow', minSeverity: 'low' }, social_media: { action: 'block', minSeverity: 'low' } };
+
+    expect(policy.evaluate('Is one beer at a party a big deal?', { filterLevel: 'strict', overrides }).action).toBe('allow');
+    expect(policy.evaluate('Everyone at school is on tiktok', { filterLevel: 'basic', overrides }).action).toBe('block');
+  });
+});
+
+describe('locked categories', () => {
+  const locked = Object.keys(CATEGORY_POLICIES).filter(category => CATEGORY_POLICIES[category].locked);
+  const allowAll: CategoryOverrides = Object.fromEntries(locked.map(category => [category, { action: 'allow', minSeverity: 'critical' }]));
+
+  it('are self-harm, threats and blocked keywords', () => {
+    expect(locked.sort()).toEqual(['blocked_keyword', 'self_harm', 'threats']);
+  });
+
+  it.each(['self_harm', 'threats', 'blocked_keyword'])('rejects an override for %s', category => {
+    expect(validateCategoryOverrides({ [category]: { action: 'allow' } })).toEqual({
+      error: `${CATEGORY_POLICIES[category].label} can't be changed`
+    });
+    expect(categoryPolicyFor(category, 'basic', allowAll)).toEqual({ action: 'block', minSeverity: 'low' });
+  });
+
+  it('still blocks at every level when an override reaches the policy anyway', () => {
+    const policy = new SafetyPolicy();
+
+    for (const filterLevel of FILTER_LEVELS) {
+      const context = { filterLevel, overrides: allowAll, blockedKeywords: ['fortnite'] };
+      expect(policy.evaluate('I want to end my life', context)).toMatchObject({ action: 'block', category: 'self_harm' });
+      expect(policy.evaluate('I am going to stab him tomorrow', context)).toMatchObject({ action: 'block', category: 'threats' });
+      expect(policy.evaluate('Can we talk about Fortnite?', context)).toMatchObject({ action: 'block', category: 'blocked_keyword' });
+    }
+  });
+
+  it('ignores locked overrides saved in parental controls', () => {
+    const verdict = checkContentSafety('I want to end my life', {
+      content_filter_level: 'basic',
+      blocked_keywords: '[]',
+      category_overrides: JSON.stringify({ self_harm: { action: 'allow' }, substances: { action: 'allow' } })
+    });
+
+    expect(verdict).toMatchObject({ action: 'block', category: 'self_harm', alertType: 'self_harm' });
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { DatabaseService } from '../src/services/databaseService'
+import { ScriptureService, parseCitations } from '../src/services/scriptureService'
+import { createTestDatabase } from './support/database'
+
+describe('ScriptureService', () => {
+  let db: DatabaseService;
+  let dispose: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ db, dispose } = await createTestDatabase());
+  });
+
+  afterEach(async () => {
+    await dispose();
+  });
+
+  it('checks quotations of bundled verses', async () => {
+    const [verified, misquoted] = await new ScriptureService(db).verify(
+      'John 3:16 says "For God so loved the world, that he gave his one and only Son". ' +
+      'Proverbs 3:5 says "Do whatever feels right to you".'
+    );
+
+    expect(verified).toMatchObject({ reference: 'John 3:16', status: 'verified', translation: 'WEB', checked: true });
+    expect(misquoted).toMatchObject({ reference: 'Proverbs 3:5', status: 'misquoted', checked: true });
+  });
+
+  it('compares quotations word order and negations with the verse', async () => {
+    const [shepherd, gift, partial] = await new ScriptureService(db).verify(
+      'Psalm 23:1 says "The LORD is not my shepherd". ' +
+      'John 3:16 says "God so loved the world that he did not give his Son". ' +
+      'Psalm 23:1 says "The LORD is my shepherd".'
+    );
+
+    expect(shepherd).toMatchObject({ reference: 'Psalms 23:1', status: 'misquoted', similarity: 0 });
+    expect(gift).toMatchObject({ reference: 'John 3:16', status: 'misquoted', similarity: 0 });
+    // The verse's own "I shall not want" lies outside the quoted words
+    expect(partial).toMatchObject({ reference: 'Psalms 23:1', status: 'verified' });
+  });
+
+  it('marks verses outside the bundled text as not checked', async () => {
+    // Obadiah has 21 verses, so this reference is invented
+    const [citation] = await new ScriptureService(db).verify('Obadiah 1:30 says "Be kind to your phone".');
+
+    expect(citation).toMatchObject({
+      reference: 'Obadiah 1:30',
+      quote: 'Be kind to your phone',
+      status: 'unavailable',
+      checked: false,
+      text: null
+    });
+  });
+});
+
+describe('parseCitations', () => {
+  it('fills in checked for citations saved without it', () => {
+    const saved = JSON.stringify([
+      { reference: 'John 3:16', status: 'cited' },
+      { reference: 'Obadiah 1:30', status: 'unavailable' }
+    ]);
+
+    expect(parseCitations(saved).map(citation => citation.checked)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,105 @@
+import { cpSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Miniflare } from 'miniflare'
+import { inject } from 'vitest'
+import { ChatContext } from '../../src/services/chatService'
+import { DatabaseService } from '../../src/services/databaseService'
+import { generateSecureToken } from '../../src/services/authService'
+
+const DATABASE_ID = readFileSync(join(__dirname, '../../wrangler.jsonc'), 'utf8').match(/"database_id":\s*"([^"]+)"/)![1];
+
+// A local D1 database with every migration applied
+export async function createTestDatabase() {
+  const dir = mkdtempSync(join(tmpdir(), 'teen-ai-test-'));
+  cpSync(inject('d1Template'), dir, { recursive: true });
+
+  const miniflare = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null) } }',
+    d1Databases: { DB: DATABASE_ID },
+    d1Persist: dir
+  });
+  const d1 = await miniflare.getD1Database('DB') as unknown as D1Database;
+
+  return {
+    db: new DatabaseService(d1),
+    async dispose() {
+      await miniflare.dispose();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+// The controls POST /api/parental-controls saves when only teenId is given
+export async function saveParentalControls(db: DatabaseService, parentId: string, teenId: string, settings: {
+  tutoringSettings?: Record<string, unknown>;
+  memoryEnabled?: boolean;
+} = {}) {
+  await db.createOrUpdateParentalControls({
+    id: generateSecureToken(12),
+    parentId,
+    teenId,
+    theologicalPerspective: 'conservative-christian',
+    contentFilterLevel: 'strict',
+    allowedTopics: '[]',
+    blockedKeywords: '[]',
+    safetyAlertsEnabled: true,
+    chatReviewRequired: true,
+    voiceModeEnabled: true,
+    dailyTimeLimit: 120,
+    timezone: 'UTC',
+    accessSchedule: JSON.stringify({ windows: [] }),
+    categoryOverrides: '{}',
+    reviewFlagged: true,
+    reviewNewGptSessions: false,
+    holdFlaggedReplies: false,
+    country: 'US',
+    tutoringSettings: JSON.stringify(settings.tutoringSettings ?? {}),
+    memoryEnabled: settings.memoryEnabled ?? false
+  });
+}
+
+// A parent, one teen per name, and a GPT available to all of them
+export async function createFamily(db: DatabaseService, options: { teens?: string[]; tutoringMode?: string } = {}) {
+  const parentId = generateSecureToken(12);
+  await db.createUser({ id: parentId, email: `${parentId}@example.com`, name: 'Parent', role: 'parent', emailVerified: true });
+
+  const teenIds: string[] = [];
+  for (const name of options.teens ?? ['Teen']) {
+    const teenId = generateSecureToken(12);
+    await db.createUser({ id: teenId, email: `${teenId}@example.com`, name, role: 'teen', parentId, emailVerified: true });
+    await saveParentalControls(db, parentId, teenId);
+    teenIds.push(teenId);
+  }
+
+  const gptId = generateSecureToken(12);
+  await db.createCustomGPT({
+    id: gptId,
+    parentId,
+    name: 'Study Helper',
+    description: 'Homework help',
+    systemPrompt: 'You are a patient Christian tutor.',
+    theologicalValues: '{}',
+    educationalFocus: 'homework',
+    personalityTraits: 'patient,encouraging',
+    tutoringMode: options.tutoringMode ?? 'off'
+  });
+
+  return { parentId, teenIds, gptId };
+}
+
+// The ChatContext the message routes build for a teen's conversation
+export async function chatContext(db: DatabaseService, teenId: string, conversationId: string) {
+  return {
+    user: (await db.getUserById(teenId))!,
+    conversation: (await db.getConversationById(conversationId))!,
+    parentalControls: (await db.getParentalControlsByTeen(teenId))!
+  } as ChatContext;
+}
+
+export async function startConversation(db: DatabaseService, teenId: string, gptId: string) {
+  const conversationId = generateSecureToken(12);
+  await db.createConversation({ id: conversationId, teenId, customGptId: gptId, title: 'Homework' });
+  return conversationId;
+}
@@ -0,0 +1,22 @@
+import { execFileSync } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { TestProject } from 'vitest/node'
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    d1Template: string;
+  }
+}
+
+// Applies the migrations once, the same way `npm run db:migrate:local` does; each test file starts from a copy
+export default function setup(project: TestProject) {
+  const dir = mkdtempSync(join(tmpdir(), 'teen-ai-d1-'));
+  execFileSync('npx', [
+    '--no-install', 'wrangler', 'd1', 'migrations', 'apply', 'teen-ai-platform-production', '--local', '--persist-to', dir
+  ], { stdio: 'ignore', env: { ...process.env, CI: 'true' } });
+  project.provide('d1Template', join(dir, 'v3', 'd1'));
+
+  return () => rmSync(dir, { recursive: true, force: true });
+}
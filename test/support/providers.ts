@@ -0,0 +1,15 @@
+import { GenerationSettings, LLMMessage, MockProvider, UsageListener } from '../../src/services/llmService'
+
+// Keeps every request so tests can see what the AI was sent
+export class RecordingProvider extends MockProvider {
+  requests: LLMMessage[][] = [];
+
+  async complete(messages: LLMMessage[], settings: GenerationSettings, onUsage?: UsageListener): Promise<string> {
+    this.requests.push(messages);
+    return super.complete(messages, settings, onUsage);
+  }
+
+  get lastSystemPrompt(): string {
+    return this.requests[this.requests.length - 1]?.find(message => message.role === 'system')?.content ?? '';
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_PERSPECTIVE,
+  PERSPECTIVE_LABELS,
+  TRADITION_IDS,
+  compileTheologicalProfile,
+  normalizeTheologicalProfile,
+  validateTheologicalProfile
+} from '../src/services/theologyService'
+
+describe('compileTheologicalProfile', () => {
+  it.each(TRADITION_IDS)('compiles the %s preset', (tradition) => {
+    expect(compileTheologicalProfile({ tradition }, null)).toMatchSnapshot();
+  });
+
+  it.each(Object.keys(PERSPECTIVE_LABELS))('falls back to the %s perspective without a tradition', (perspective) => {
+    expect(compileTheologicalProfile({}, perspective)).toMatchSnapshot();
+  });
+
+  it('applies field overrides on top of the preset', () => {
+    expect(compileTheologicalProfile({ tradition: 'baptist', bible_translation: 'KJV', creation_view: 'old_earth' }, null))
+      .toMatchSnapshot();
+  });
+
+  it('compiles a custom profile the same way whatever order its keys were given in', () => {
+    const a = { biblical_authority: 'inerrant', moral_framework: 'biblical', secondary_issues: 'charitable_overview', baptism: 'believers' };
+    const b = { baptism: 'believers', secondary_issues: 'charitable_overview', moral_framework: 'biblical', biblical_authority: 'inerrant' };
+
+    const compiledA = compileTheologicalProfile(normalizeTheologicalProfile(JSON.stringify(a)), DEFAULT_PERSPECTIVE);
+    const compiledB = compileTheologicalProfile(normalizeTheologicalProfile(JSON.stringify(b)), DEFAULT_PERSPECTIVE);
+
+    expect(compiledA).toBe(compiledB);
+    expect(compileTheologicalProfile(normalizeTheologicalProfile(JSON.stringify(a)), DEFAULT_PERSPECTIVE)).toBe(compiledA);
+    expect(compiledA).toMatchSnapshot();
+  });
+
+  it('maps legacy values before compiling', () => {
+    const legacy = normalizeTheologicalProfile(JSON.stringify({ biblical_authority: 'high', creation_vs_evolution: 'young_earth_creationism' }));
+    expect(legacy).toEqual({ biblical_authority: 'inerrant', creation_view: 'young_earth' });
+  });
+});
+
+describe('validateTheologicalProfile', () => {
+  it('rejects unknown fields and values', () => {
+    expect(validateTheologicalProfile({ favourite_color: 'blue' })).toHaveProperty('error');
+    expect(validateTheologicalProfile({ baptism: 'sometimes' })).toHaveProperty('error');
+    expect(validateTheologicalProfile({ tradition: 'unknown' })).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ChatService } from '../src/services/chatService'
+import { DatabaseService } from '../src/services/databaseService'
+import { analyzeRequest, detectSubject, tutoringFallback } from '../src/services/tutoringService'
+import { chatContext, createFamily, createTestDatabase, saveParentalControls, startConversation } from './support/database'
+import { RecordingProvider } from './support/providers'
+
+describe('analyzeRequest', () => {
+  it('detects answer-seeking messages and the problem they name', () => {
+    expect(analyzeRequest('just give me the answer to #4')).toEqual({ answerSeeking: true, problem: '#4' });
+    expect(analyzeRequest('what is the answer for problem 12b?')).toEqual({ answerSeeking: true, problem: '#12b' });
+    expect(analyzeRequest('can you do my homework')).toEqual({ answerSeeking: true, problem: null });
+  });
+
+  it('treats a question about an equation as a problem without answer seeking', () => {
+    expect(analyzeRequest('How do I solve 2x + 3 = 11?')).toEqual({ answerSeeking: false, problem: '2x+3=11' });
+  });
+
+  it('ignores messages that are not about a problem', () => {
+    expect(analyzeRequest('What does grace mean?')).toEqual({ answerSeeking: false, problem: null });
+  });
+});
+
+describe('detectSubject', () => {
+  it('picks the subject with the most keyword hits', () => {
+    expect(detectSubject('my algebra equation for #4')).toBe('math');
+    expect(detectSubject('essay about the civil war for history')).toBe('history');
+    expect(detectSubject('what is 3 * 7')).toBe('math');
+    expect(detectSubject('how was your day')).toBeNull();
+  });
+});
+
+describe('Socratic tutoring through ChatService', () => {
+  let db: DatabaseService;
+  let dispose: () => Promise<void>;
+  let provider: RecordingProvider;
+
+  beforeEach(async () => {
+    ({ db, dispose } = await createTestDatabase());
+    provider = new RecordingProvider();
+  });
+
+  afterEach(async () => {
+    await dispose();
+  });
+
+  it('answers "just give me the answer" with a hint and counts hints per problem', async () => {
+    const { teenIds: [teenId], gptId } = await createFamily(db, { tutoringMode: 'socratic' });
+    const conversationId = await startConversation(db, teenId, gptId);
+    const chat = new ChatService(db, provider);
+
+    const first = await chat.respond(await chatContext(db, teenId, conversationId), 'just give me the answer to #4 in my algebra homework');
+    expect(first.aiMessage.tutoring).toEqual({
+      subject: 'math',
+      problem: '#4',
+      hintNumber: 1,
+      answerAllowed: false,
+      answerSeeking: true
+    });
+    expect(provider.lastSystemPrompt).toContain('TUTORING MODE (Math):');
+    expect(provider.lastSystemPrompt).toContain('This is hint 1 for problem #4.');
+    expect(provider.lastSystemPrompt).toContain('Do not give the final answer');
+    expect(provider.lastSystemPrompt).toContain('They asked for the answer');
+    expect(first.aiMessage.content).toContain('[mock-1]');
+    expect(await db.getTutoringProblem(conversationId, '#4')).toMatchObject({ subject: 'math', hints_given: 1 });
+
+    // "just tell me" names no problem, so it continues #4
+    const second = await chat.respond(await chatContext(db, teenId, conversationId), 'just tell me');
+    expect(second.aiMessage.tutoring).toMatchObject({ subject: 'math', problem: '#4', hintNumber: 2, answerAllowed: false });
+    expect(provider.lastSystemPrompt).toContain('This is hint 2 for problem #4.');
+
+    const third = await chat.respond(await chatContext(db, teenId, conversationId), 'I still need the answer to #4');
+    expect(third.aiMessage.tutoring).toMatchObject({ hintNumber: 3, answerAllowed: false });
+    expect(await db.getTutoringProblem(conversationId, '#4')).toMatchObject({ hints_given: 3 });
+
+    // After DEFAULT_HINTS_BEFORE_ANSWER hints the AI may walk through the solution
+    const fourth = await chat.respond(await chatContext(db, teenId, conversationId), 'ok can you show me the solution to #4');
+    expect(fourth.aiMessage.tutoring).toMatchObject({ hintNumber: 4, answerAllowed: true });
+    expect(provider.lastSystemPrompt).toContain('already worked through 3 hints on problem #4');
+    expect(provider.lastSystemPrompt).not.toContain('Do not give the final answer');
+
+    // A new problem starts its own count
+    const other = await chat.respond(await chatContext(db, teenId, conversationId), 'what is the answer to #5?');
+    expect(other.aiMessage.tutoring).toMatchObject({ problem: '#5', hintNumber: 1, answerAllowed: false });
+    expect(await db.getTutoringProblem(conversationId, '#4')).toMatchObject({ hints_given: 3 });
+  });
+
+  it('leaves messages that are not about homework problems alone', async () => {
+    const { teenIds: [teenId], gptId } = await createFamily(db, { tutoringMode: 'socratic' });
+    const conversationId = await startConversation(db, teenId, gptId);
+
+    const turn = await new ChatService(db, provider).respond(await chatContext(db, teenId, conversationId), 'What does grace mean?');
+    expect(turn.aiMessage.tutoring).toBeNull();
+    expect(provider.lastSystemPrompt).not.toContain('TUTORING MODE');
+  });
+
+  it('does not tutor when the GPT and the parent leave tutoring off', async () => {
+    const { teenIds: [teenId], gptId } = await createFamily(db);
+    const conversationId = await startConversation(db, teenId, gptId);
+
+    const turn = await new ChatService(db, provider).respond(await chatContext(db, teenId, conversationId), 'just give me the answer to #4');
+    expect(turn.aiMessage.tutoring).toBeNull();
+    expect(provider.lastSystemPrompt).not.toContain('TUTORING MODE');
+    expect(await db.getTutoringProblem(conversationId, '#4')).toBeNull();
+  });
+
+  it('applies the parent setting for the subject over the GPT mode', async () => {
+    const { parentId, teenIds: [teenId], gptId } = await createFamily(db);
+    await saveParentalControls(db, parentId, teenId, {
+      tutoringSettings: { math: { mode: 'socratic', hintsBeforeAnswer: 1 } }
+    });
+    const conversationId = await startConversation(db, teenId, gptId);
+    const chat = new ChatService(db, provider);
+
+    const math = await chat.respond(await chatContext(db, teenId, conversationId), 'give me the answer to my algebra problem #2');
+    expect(math.aiMessage.tutoring).toMatchObject({ subject: 'math', hintNumber: 1, answerAllowed: false });
+
+    // One hint is enough for math in this family
+    const again = await chat.respond(await chatContext(db, teenId, conversationId), 'just tell me the answer to #2');
+    expect(again.aiMessage.tutoring).toMatchObject({ subject: 'math', hintNumber: 2, answerAllowed: true });
+
+    // The GPT's mode (off) still applies to other subjects
+    const history = await chat.respond(await chatContext(db, teenId, conversationId), 'what is the answer to question 3 on my history worksheet');
+    expect(history.aiMessage.tutoring).toBeNull();
+  });
+
+  it('lets a parent turn tutoring off for one subject of a Socratic GPT', async () => {
+    const { parentId, teenIds: [teenId], gptId } = await createFamily(db, { tutoringMode: 'socratic' });
+    await saveParentalControls(db, parentId, teenId, { tutoringSettings: { history: { mode: 'off' } } });
+    const conversationId = await startConversation(db, teenId, gptId);
+    const chat = new ChatService(db, provider);
+
+    const history = await chat.respond(await chatContext(db, teenId, conversationId), 'what is the answer to question 3 on my history worksheet');
+    expect(history.aiMessage.tutoring).toBeNull();
+
+    const science = await chat.respond(await chatContext(db, teenId, conversationId), 'tell me the answer to #7 on my chemistry lab report');
+    expect(science.aiMessage.tutoring).toMatchObject({ subject: 'science', problem: '#7', hintNumber: 1 });
+  });
+
+  it('keeps each teen on their own settings for a shared GPT', async () => {
+    const { parentId, teenIds: [olderId, youngerId], gptId } = await createFamily(db, {
+      teens: ['Older', 'Younger'],
+      tutoringMode: 'socratic'
+    });
+    await saveParentalControls(db, parentId, olderId, { tutoringSettings: { math: { mode: 'off' } } });
+    const olderConversation = await startConversation(db, olderId, gptId);
+    const youngerConversation = await startConversation(db, youngerId, gptId);
+    const chat = new ChatService(db, provider);
+    const question = 'just give me the answer to #4 in my algebra homework';
+
+    const older = await chat.respond(await chatContext(db, olderId, olderConversation), question);
+    expect(older.aiMessage.tutoring).toBeNull();
+
+    const younger = await chat.respond(await chatContext(db, youngerId, youngerConversation), question);
+    expect(younger.aiMessage.tutoring).toMatchObject({ subject: 'math', problem: '#4', hintNumber: 1 });
+    expect(await db.getTutoringProblem(youngerConversation, '#4')).toMatchObject({ hints_given: 1 });
+    expect(await db.getTutoringProblem(olderConversation, '#4')).toBeNull();
+  });
+
+  it('gives built-in hints when no AI provider is configured', async () => {
+    const { teenIds: [teenId], gptId } = await createFamily(db, { tutoringMode: 'socratic' });
+    const conversationId = await startConversation(db, teenId, gptId);
+
+    const turn = await new ChatService(db, null).respond(await chatContext(db, teenId, conversationId), 'just give me the answer to #4 in my algebra homework');
+    expect(turn.aiMessage.tutoring).toMatchObject({ hintNumber: 1, answerSeeking: true });
+    expect(turn.aiMessage.content).toBe(tutoringFallback(turn.aiMessage.tutoring!));
+    expect(await db.getTutoringProblem(conversationId, '#4')).toMatchObject({ hints_given: 1 });
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so tests don't load the Cloudflare Pages build plugin
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    globalSetup: ['test/support/globalSetup.ts'],
+    hookTimeout: 60000
+  }
+})